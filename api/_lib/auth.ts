@@ -0,0 +1,212 @@
+import type { VercelRequest } from '@vercel/node'
+import type { User } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supabase.js'
+import { ApiError, databaseError } from './errors.js'
+import { logger, setLogCaller } from './logger.js'
+import { hasVerifiedFactor, isMfaRequiredForAdmins } from './mfa.js'
+import { readAssuranceLevel, type AssuranceLevel } from '../../src/shared/mfa.js'
+import { readRoleClaims } from '../../src/shared/jwt.js'
+import { isSuspended } from '../../src/shared/admin-users.js'
+import { getImpersonationId, resolveImpersonation } from './impersonation.js'
+
+export interface CallerRole {
+  id: string
+  role: 'admin' | 'user' | 'moderator'
+  status: string
+  email: string
+  suspended_reason: string | null
+  suspended_until: string | null
+}
+
+export interface AuthenticatedCaller {
+  user: User
+  role: CallerRole | null
+  accessToken: string
+  // 'aal2' once the session has passed an MFA challenge
+  aal: AssuranceLevel | null
+  // Set when an admin is viewing the app as this user (X-Impersonation-Id)
+  impersonator?: {
+    userId: string
+    email: string
+    impersonationId: string
+    readOnly: boolean
+  }
+}
+
+// Read the access token from an `Authorization: Bearer <token>` header
+export const getBearerToken = (req: VercelRequest): string | null => {
+  const header = req.headers.authorization
+  if (!header) return null
+
+  const [scheme, token] = header.split(' ')
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null
+
+  return token.trim()
+}
+
+// Reactivate a caller whose suspension has run out. The status check keeps
+// this from undoing a suspension an admin has just renewed.
+const liftExpiredSuspension = async (role: CallerRole) => {
+  const { error } = await supabaseAdmin
+    .from('user_roles')
+    .update({
+      status: 'active',
+      suspended_reason: null,
+      suspended_until: null,
+      suspended_at: null,
+      suspended_by: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', role.id)
+    .eq('status', 'suspended')
+    .lte('suspended_until', new Date().toISOString())
+
+  if (error) {
+    throw databaseError('Failed to lift an expired suspension', error)
+  }
+
+  logger.info('Expired suspension lifted')
+  role.status = 'active'
+  role.suspended_reason = null
+  role.suspended_until = null
+}
+
+// The user's role. Suspended users are refused with ACCOUNT_SUSPENDED, and
+// sign-ups still waiting for approval with ACCOUNT_PENDING.
+export const loadCallerRole = async (userId: string): Promise<CallerRole | null> => {
+  const { data: roleData, error: roleError } = await supabaseAdmin
+    .from('user_roles')
+    .select('id, role, status, email, suspended_reason, suspended_until')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (roleError) {
+    throw databaseError('Failed to resolve user role', roleError)
+  }
+
+  const role = roleData as CallerRole | null
+  if (role?.status === 'suspended') {
+    if (isSuspended(role)) {
+      throw new ApiError('ACCOUNT_SUSPENDED', undefined, {
+        reason: role.suspended_reason,
+        until: role.suspended_until
+      })
+    }
+    await liftExpiredSuspension(role)
+  }
+  if (role?.status === 'pending') {
+    throw new ApiError('ACCOUNT_PENDING')
+  }
+
+  return role
+}
+
+/**
+ * Resolve the caller from the Supabase access token sent with the request.
+ * The token is verified with Supabase Auth, never trusted as-is. Suspended
+ * callers are refused with ACCOUNT_SUSPENDED, unapproved sign-ups with
+ * ACCOUNT_PENDING.
+ *
+ * When the request carries an X-Impersonation-Id header, the token must
+ * belong to an admin with that impersonation session open; the impersonated
+ * user is returned as the caller, with the admin in `impersonator`.
+ */
+export const authenticate = async (req: VercelRequest): Promise<AuthenticatedCaller> => {
+  if (!supabaseAdmin) {
+    logger.error('Service role key not available in environment')
+    throw new ApiError('SERVER_MISCONFIGURED', 'Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY environment variable.')
+  }
+
+  const accessToken = getBearerToken(req)
+  if (!accessToken) {
+    throw new ApiError('AUTH_REQUIRED')
+  }
+
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken)
+  if (userError || !user) {
+    throw new ApiError('SESSION_EXPIRED')
+  }
+
+  setLogCaller(user.id)
+
+  const caller: AuthenticatedCaller = {
+    user,
+    role: await loadCallerRole(user.id),
+    accessToken,
+    aal: readAssuranceLevel(accessToken)
+  }
+
+  // RLS trusts the token's role claims, so a token issued before a role or
+  // status change is refused until the client refreshes it. Tokens without
+  // claims (access token hook not enabled) are let through; the API itself
+  // always goes by user_roles.
+  const claims = readRoleClaims(accessToken)
+  if (claims && (claims.role !== (caller.role?.role ?? null) || claims.status !== (caller.role?.status ?? null))) {
+    throw new ApiError('TOKEN_STALE')
+  }
+
+  const impersonationId = getImpersonationId(req)
+  if (!impersonationId) {
+    return caller
+  }
+
+  await assertAdmin(caller)
+  const { impersonation, user: target } = await resolveImpersonation(req, caller, impersonationId)
+  setLogCaller(target.id)
+
+  return {
+    user: target,
+    role: await loadCallerRole(target.id),
+    accessToken,
+    aal: caller.aal,
+    impersonator: {
+      userId: user.id,
+      email: user.email || '',
+      impersonationId: impersonation.id,
+      readOnly: impersonation.readOnly
+    }
+  }
+}
+
+/**
+ * Throw MFA_REQUIRED unless the caller's session passed an MFA challenge.
+ */
+export const requireAal2 = (caller: AuthenticatedCaller) => {
+  if (caller.aal !== 'aal2') {
+    throw new ApiError('MFA_REQUIRED', undefined, { enrolled: hasVerifiedFactor(caller.user) })
+  }
+}
+
+/**
+ * Throw FORBIDDEN for impersonated requests. For endpoints that act on the
+ * caller's own sign-in credentials or sessions, which stay off limits even
+ * when an impersonation session allows changes.
+ */
+export const refuseImpersonation = (caller: AuthenticatedCaller) => {
+  if (caller.impersonator) {
+    throw new ApiError('FORBIDDEN', 'Not available while viewing the app as another user')
+  }
+}
+
+// Active admin role, plus AAL2 where the MFA policy asks for it
+const assertAdmin = async (caller: AuthenticatedCaller) => {
+  if (!caller.role || caller.role.role !== 'admin' || caller.role.status !== 'active') {
+    throw new ApiError('FORBIDDEN', 'Admin access required - insufficient permissions')
+  }
+
+  if (caller.aal !== 'aal2' && (hasVerifiedFactor(caller.user) || await isMfaRequiredForAdmins())) {
+    requireAal2(caller)
+  }
+}
+
+/**
+ * Authenticate the caller and require an active admin role. Admins with a
+ * verified factor, and every admin while mfa_required_for_admins is on,
+ * must also have completed the MFA challenge (AAL2). Impersonated requests
+ * are refused, since the caller is then the impersonated user.
+ */
+export const requireAdmin = async (req: VercelRequest): Promise<AuthenticatedCaller> => {
+  const caller = await authenticate(req)
+  await assertAdmin(caller)
+  return caller
+}
@@ -0,0 +1,172 @@
+import type { VercelRequest } from '@vercel/node'
+import { supabaseAdmin } from './supabase.js'
+import { ApiError, databaseError } from './errors.js'
+import { logger } from './logger.js'
+import { getClientIp } from './rate-limit.js'
+import {
+  CAPTCHA_PROVIDER_SETTING,
+  CAPTCHA_SECRET_ENV,
+  CAPTCHA_SITE_KEY_SETTING,
+  TEST_CAPTCHA_TOKEN,
+  needsSiteKey,
+  readCaptchaProvider,
+  type CaptchaProvider
+} from '../../src/shared/captcha.js'
+
+// CAPTCHA checks for the unauthenticated handlers that sign in, sign up or
+// send email (src/shared/captcha.ts). The provider and its site key are
+// app settings; secrets only ever come from the environment. A token that
+// passes is also handed to Supabase Auth as `captchaToken`.
+
+/**
+ * Checks a token from the provider's widget. Resolves false for a token the
+ * provider refuses, and throws when the provider cannot be reached.
+ */
+export interface CaptchaVerifier {
+  verify(token: string, remoteIp: string | null): Promise<boolean>
+}
+
+// hCaptcha and Turnstile share the same siteverify protocol
+export class SiteverifyCaptchaVerifier implements CaptchaVerifier {
+  constructor(
+    private readonly url: string,
+    private readonly secret: string,
+    private readonly extraParams: Record<string, string> = {}
+  ) {}
+
+  async verify(token: string, remoteIp: string | null): Promise<boolean> {
+    const body = new URLSearchParams({ ...this.extraParams, secret: this.secret, response: token })
+    if (remoteIp) body.set('remoteip', remoteIp)
+
+    const response = await fetch(this.url, { method: 'POST', body, signal: AbortSignal.timeout(5000) })
+    if (!response.ok) {
+      throw new Error(`CAPTCHA siteverify answered ${response.status}`)
+    }
+
+    const result = await response.json() as { success?: boolean; 'error-codes'?: string[] }
+    if (result.success !== true) {
+      logger.info('CAPTCHA token refused', { errorCodes: result['error-codes'] })
+    }
+    return result.success === true
+  }
+}
+
+// Accepts TEST_CAPTCHA_TOKEN and nothing else, without any network
+export class TestCaptchaVerifier implements CaptchaVerifier {
+  async verify(token: string): Promise<boolean> {
+    return token === TEST_CAPTCHA_TOKEN
+  }
+}
+
+interface CaptchaConfig {
+  provider: CaptchaProvider
+  siteKey: string
+}
+
+const isProduction = () => process.env.VERCEL_ENV === 'production'
+
+/**
+ * Why the provider cannot be used with this site key in this deployment, or
+ * null when it can. Admin Settings refuses to choose a provider that would
+ * turn away every sign-in.
+ */
+export const describeCaptchaConfigProblem = (provider: CaptchaProvider, siteKey: string): string | null => {
+  if (provider === 'test' && isProduction()) {
+    return 'The test CAPTCHA lets anyone through and cannot be used in production'
+  }
+  if (needsSiteKey(provider) && !siteKey.trim()) {
+    return 'Enter the site key from the provider'
+  }
+  const secretEnv = CAPTCHA_SECRET_ENV[provider]
+  if (secretEnv && !process.env[secretEnv]) {
+    return `Set the ${secretEnv} environment variable first`
+  }
+  return null
+}
+
+const createVerifier = ({ provider, siteKey }: CaptchaConfig): CaptchaVerifier => {
+  const problem = describeCaptchaConfigProblem(provider, siteKey)
+  if (problem) {
+    throw new ApiError('SERVER_MISCONFIGURED', `CAPTCHA provider ${provider}: ${problem}`)
+  }
+
+  switch (provider) {
+    case 'hcaptcha':
+      return new SiteverifyCaptchaVerifier('https://api.hcaptcha.com/siteverify', process.env.HCAPTCHA_SECRET_KEY!, {
+        sitekey: siteKey
+      })
+    case 'turnstile':
+      return new SiteverifyCaptchaVerifier(
+        'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+        process.env.TURNSTILE_SECRET_KEY!
+      )
+    default:
+      return new TestCaptchaVerifier()
+  }
+}
+
+// Read before every sign-in, so cached briefly like the other policies
+const SETTINGS_TTL_MS = 60 * 1000
+let cachedConfig: { config: CaptchaConfig; expiresAt: number } | null = null
+
+export const clearCaptchaConfigCache = () => {
+  cachedConfig = null
+}
+
+const loadCaptchaConfig = async (): Promise<CaptchaConfig> => {
+  if (cachedConfig && cachedConfig.expiresAt > Date.now()) {
+    return cachedConfig.config
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('setting_key, setting_value')
+    .in('setting_key', [CAPTCHA_PROVIDER_SETTING, CAPTCHA_SITE_KEY_SETTING])
+
+  if (error) {
+    throw databaseError('Failed to load the CAPTCHA settings', error)
+  }
+
+  const value = (key: string) => data?.find(item => item.setting_key === key)?.setting_value ?? ''
+  const config = {
+    provider: readCaptchaProvider(value(CAPTCHA_PROVIDER_SETTING)),
+    siteKey: value(CAPTCHA_SITE_KEY_SETTING)
+  }
+  cachedConfig = { config, expiresAt: Date.now() + SETTINGS_TTL_MS }
+  return config
+}
+
+/**
+ * Check the CAPTCHA token sent with an unauthenticated request and return the
+ * one to pass to Supabase Auth as `captchaToken`. Does nothing while CAPTCHA
+ * is off; otherwise throws CAPTCHA_REQUIRED without a token and CAPTCHA_FAILED
+ * when the provider refuses it or cannot be reached. The test provider's
+ * token is not passed on, since Supabase Auth does not know that provider.
+ */
+export const verifyCaptcha = async (req: VercelRequest, token: string | undefined): Promise<string | undefined> => {
+  const config = await loadCaptchaConfig()
+  if (config.provider === 'none') return undefined
+
+  if (!token) {
+    throw new ApiError('CAPTCHA_REQUIRED', undefined, { provider: config.provider })
+  }
+
+  const clientIp = getClientIp(req)
+  let passed: boolean
+  try {
+    passed = await createVerifier(config).verify(token, clientIp === 'unknown' ? null : clientIp)
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    logger.error('CAPTCHA verification failed', { error, provider: config.provider })
+    throw new ApiError('CAPTCHA_FAILED', 'The CAPTCHA could not be checked. Try again in a moment')
+  }
+
+  if (!passed) {
+    throw new ApiError('CAPTCHA_FAILED')
+  }
+
+  return config.provider === 'test' ? undefined : token
+}
+
+// Supabase Auth refused the token passed on by verifyCaptcha
+export const isCaptchaRefused = (error: { code?: string } | null) => error?.code === 'captcha_failed'
@@ -0,0 +1,134 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { logger } from './logger.js'
+import {
+  CORS_ALLOWED_ORIGINS_SETTING,
+  normalizeOrigin,
+  parseOriginList
+} from '../../src/shared/cors.js'
+
+// CORS policy for every api/ handler, applied by apiHandler. A cross-origin
+// request is allowed when its Origin is:
+//   - the host serving the request (the app calling its own API),
+//   - listed in CORS_ALLOWED_ORIGINS (comma separated) or VITE_APP_URL, or
+//   - listed in the cors_allowed_origins app setting (managed in Admin Settings).
+// Allowed origins are echoed back with credentials; nothing is ever `*`.
+
+const ALLOWED_METHODS = 'GET,HEAD,POST,PUT,PATCH,DELETE,OPTIONS'
+const ALLOWED_HEADERS = 'Authorization, Content-Type, Idempotency-Key, X-Request-Id, X-Impersonation-Id, X-Step-Up-Token'
+const EXPOSED_HEADERS = 'X-Request-Id, Retry-After, Idempotent-Replayed'
+const PREFLIGHT_MAX_AGE_SECONDS = 600
+
+export interface CorsResult {
+  origin: string | null
+  allowed: boolean
+  preflight: boolean
+}
+
+// Host the client used, as forwarded by the Vercel edge or the dev server
+export const getRequestHost = (req: VercelRequest) => {
+  const forwarded = req.headers['x-forwarded-host']
+  const host = (Array.isArray(forwarded) ? forwarded[0] : forwarded) || req.headers.host
+  return host?.split(',')[0].trim().toLowerCase()
+}
+
+const getOrigin = (value: string | undefined) => {
+  try {
+    return value ? new URL(value).origin : null
+  } catch {
+    return null
+  }
+}
+
+const getEnvOrigins = () => {
+  const { origins, invalid } = parseOriginList(process.env.CORS_ALLOWED_ORIGINS)
+  if (invalid.length > 0) {
+    logger.warn('Ignoring invalid entries in CORS_ALLOWED_ORIGINS', { invalid })
+  }
+
+  // VITE_APP_URL may include a path; only its origin matters here
+  const appOrigin = normalizeOrigin(getOrigin(process.env.VITE_APP_URL) ?? '')
+  return appOrigin ? [...origins, appOrigin] : origins
+}
+
+// Admin-managed origins are cached briefly so cross-origin requests do not
+// each cost an extra query
+const SETTINGS_TTL_MS = 60 * 1000
+let cachedOrigins: { origins: string[]; expiresAt: number } | null = null
+
+export const clearCorsCache = () => {
+  cachedOrigins = null
+}
+
+const loadSettingOrigins = async (): Promise<string[]> => {
+  if (cachedOrigins && cachedOrigins.expiresAt > Date.now()) {
+    return cachedOrigins.origins
+  }
+
+  let origins: string[] = []
+  try {
+    // Loaded lazily: handlers that never see a cross-origin request (such as
+    // the public health check) must not depend on the Supabase configuration
+    const { supabaseAdmin } = await import('./supabase.js')
+    if (supabaseAdmin) {
+      const { data, error } = await supabaseAdmin
+        .from('app_settings')
+        .select('setting_value')
+        .eq('setting_key', CORS_ALLOWED_ORIGINS_SETTING)
+        .maybeSingle()
+
+      if (error) throw error
+      origins = parseOriginList(data?.setting_value).origins
+    }
+  } catch (error) {
+    logger.warn('Failed to load allowed origins, using CORS_ALLOWED_ORIGINS only', { error })
+  }
+
+  cachedOrigins = { origins, expiresAt: Date.now() + SETTINGS_TTL_MS }
+  return origins
+}
+
+const isOriginAllowed = async (origin: string, req: VercelRequest) => {
+  const normalized = normalizeOrigin(origin)
+  if (!normalized) return false
+
+  if (new URL(normalized).host === getRequestHost(req)) return true
+  if (getEnvOrigins().includes(normalized)) return true
+
+  return (await loadSettingOrigins()).includes(normalized)
+}
+
+/**
+ * Set the CORS headers for this request. The caller sends an error when the
+ * origin is not allowed, and ends the response for preflight requests.
+ * Requests without an Origin header (same-origin navigation, curl, cron)
+ * are not cross-origin and are always allowed.
+ */
+export const applyCors = async (req: VercelRequest, res: VercelResponse): Promise<CorsResult> => {
+  // The response depends on the Origin header, so shared caches must key on it
+  res.setHeader('Vary', 'Origin')
+
+  const header = req.headers.origin
+  const origin = (Array.isArray(header) ? header[0] : header) || null
+  const preflight = req.method === 'OPTIONS'
+
+  if (!origin) {
+    return { origin, allowed: true, preflight }
+  }
+
+  if (!(await isOriginAllowed(origin, req))) {
+    logger.warn('Rejected request from an origin that is not allowed', { origin })
+    return { origin, allowed: false, preflight }
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', origin)
+  res.setHeader('Access-Control-Allow-Credentials', 'true')
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS)
+
+  if (preflight) {
+    res.setHeader('Access-Control-Allow-Methods', ALLOWED_METHODS)
+    res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS)
+    res.setHeader('Access-Control-Max-Age', String(PREFLIGHT_MAX_AGE_SECONDS))
+  }
+
+  return { origin, allowed: true, preflight }
+}
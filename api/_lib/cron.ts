@@ -0,0 +1,18 @@
+import type { VercelRequest } from '@vercel/node'
+import { timingSafeEqual } from 'node:crypto'
+import { ApiError } from './errors.js'
+import { getBearerToken } from './auth.js'
+
+// Scheduled jobs under api/cron, listed in vercel.json
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET`
+export const isCronRequest = (req: VercelRequest) => {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    throw new ApiError('SERVER_MISCONFIGURED', 'CRON_SECRET is not set')
+  }
+
+  const token = Buffer.from(getBearerToken(req) ?? '')
+  const expected = Buffer.from(secret)
+  return token.length === expected.length && timingSafeEqual(token, expected)
+}
@@ -0,0 +1,143 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { ZodError } from 'zod'
+import {
+  API_ERROR_CATALOGUE,
+  createApiErrorBody,
+  formatValidationIssues,
+  type ApiErrorCode
+} from '../../src/shared/api-errors.js'
+import { logger, runWithRequestContext } from './logger.js'
+import { applyCors } from './cors.js'
+
+export type { ApiErrorCode }
+
+/**
+ * Throw from a handler to send an error response. The status comes from the
+ * code catalogue in src/shared/api-errors.ts.
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode
+  status: number
+  details?: Record<string, unknown>
+
+  constructor(code: ApiErrorCode, message?: string, details?: Record<string, unknown>) {
+    super(message || API_ERROR_CATALOGUE[code].message)
+    this.name = 'ApiError'
+    this.code = code
+    this.status = API_ERROR_CATALOGUE[code].status
+    this.details = details
+  }
+}
+
+export interface HandlerContext {
+  requestId: string
+}
+
+type Handler = (
+  req: VercelRequest,
+  res: VercelResponse,
+  context: HandlerContext
+) => unknown | Promise<unknown>
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/
+
+// Reuse an upstream request id when it looks sane, otherwise mint one
+export const getRequestId = (req: VercelRequest): string => {
+  const incoming = req.headers['x-request-id']
+  const value = Array.isArray(incoming) ? incoming[0] : incoming
+  return value && REQUEST_ID_PATTERN.test(value) ? value : crypto.randomUUID()
+}
+
+export const sendError = (res: VercelResponse, error: unknown, requestId: string) => {
+  if (res.headersSent) {
+    res.end()
+    return
+  }
+
+  if (error instanceof ApiError) {
+    return res
+      .status(error.status)
+      .json(createApiErrorBody(error.code, error.message, error.details, requestId))
+  }
+
+  if (error instanceof ZodError) {
+    return res
+      .status(API_ERROR_CATALOGUE.VALIDATION_FAILED.status)
+      .json(createApiErrorBody('VALIDATION_FAILED', undefined, { issues: formatValidationIssues(error) }, requestId))
+  }
+
+  // Unexpected errors are logged with the request id; their message is not exposed
+  logger.error('Unhandled API error', { error })
+  return res
+    .status(API_ERROR_CATALOGUE.INTERNAL_ERROR.status)
+    .json(createApiErrorBody('INTERNAL_ERROR', undefined, undefined, requestId))
+}
+
+// Path without the query string, which may carry search terms
+export const getRoute = (req: VercelRequest) => (req.url ?? '').split('?')[0]
+
+type CompletionTask = (status: number) => Promise<void>
+
+const completionTasks = new AsyncLocalStorage<CompletionTask[]>()
+
+/**
+ * Run `task` once the current request's response has been sent, with its
+ * status. For records that need the outcome, such as the impersonation audit
+ * trail. Failures are logged and do not affect the response.
+ */
+export const onRequestCompleted = (task: CompletionTask) => {
+  completionTasks.getStore()?.push(task)
+}
+
+/**
+ * Wrap an api/ handler so every response carries an X-Request-Id header and
+ * the CORS headers (api/_lib/cors.ts), every error leaves in the standard
+ * envelope and every request ends with one log line (status and latency)
+ * tagged with the request id. Preflight requests never reach the handler.
+ */
+export const apiHandler = (handler: Handler) =>
+  async (req: VercelRequest, res: VercelResponse) => {
+    const requestId = getRequestId(req)
+    const startedAt = Date.now()
+    res.setHeader('X-Request-Id', requestId)
+
+    const tasks: CompletionTask[] = []
+
+    await runWithRequestContext({ requestId, method: req.method, route: getRoute(req) }, () => completionTasks.run(tasks, async () => {
+      try {
+        const cors = await applyCors(req, res)
+        if (!cors.allowed) {
+          throw new ApiError(
+            'ORIGIN_NOT_ALLOWED',
+            `Origin ${cors.origin} is not allowed to call this API. Add it to CORS_ALLOWED_ORIGINS or to the allowed origins in Admin Settings.`,
+            { origin: cors.origin }
+          )
+        }
+
+        if (cors.preflight) {
+          res.status(204).end()
+        } else {
+          await handler(req, res, { requestId })
+        }
+      } catch (error) {
+        sendError(res, error, requestId)
+      }
+
+      const status = res.statusCode
+      logger[status >= 500 ? 'error' : 'info']('Request completed', {
+        status,
+        latencyMs: Date.now() - startedAt
+      })
+
+      for (const task of tasks) {
+        await task(status).catch(error => logger.error('Request completion task failed', { error }))
+      }
+    }))
+  }
+
+// Convert a Supabase/PostgREST error into an ApiError, keeping the raw error in the logs only
+export const databaseError = (message: string, error: unknown) => {
+  logger.error(message, { error })
+  return new ApiError('DATABASE_ERROR', message)
+}
@@ -0,0 +1,181 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createHash } from 'node:crypto'
+import { supabaseAdmin } from './supabase.js'
+import { ApiError } from './errors.js'
+import { logger } from './logger.js'
+
+// Idempotency-Key support for mutating handlers, backed by
+// public.idempotency_keys (supabase/migrations/00004_idempotency_keys.sql).
+// The first successful response for a (caller, key) pair is stored for 24
+// hours and replayed for any retry of the same request.
+
+const KEY_PATTERN = /^[\w.:-]{8,255}$/
+
+// An in-progress claim older than this is assumed to belong to a request
+// that died (function timeout, crash) and may be taken over
+const STALE_CLAIM_MS = 2 * 60 * 1000
+
+interface StoredKey {
+  request_fingerprint: string
+  status: 'in_progress' | 'completed'
+  response_status: number | null
+  response_body: unknown
+  created_at: string
+  expires_at: string
+}
+
+type Claim =
+  | { kind: 'claimed' }
+  | { kind: 'replay'; status: number; body: unknown }
+
+export const getIdempotencyKey = (req: VercelRequest): string | null => {
+  const header = req.headers['idempotency-key']
+  const value = (Array.isArray(header) ? header[0] : header)?.trim()
+  if (!value) return null
+
+  if (!KEY_PATTERN.test(value)) {
+    throw new ApiError('VALIDATION_FAILED', 'Idempotency-Key must be 8-255 letters, digits or ._:- characters')
+  }
+  return value
+}
+
+// Same key + different request is a client bug, not a retry
+const fingerprint = (req: VercelRequest) =>
+  createHash('sha256')
+    .update(`${req.method} ${(req.url ?? '').split('?')[0]}\n${JSON.stringify(req.body ?? null)}`)
+    .digest('hex')
+
+const claimKey = async (callerId: string, key: string, requestFingerprint: string): Promise<Claim> => {
+  // Expired rows are swept occasionally rather than on every request
+  if (Math.random() < 0.01) {
+    await supabaseAdmin.from('idempotency_keys').delete().lt('expires_at', new Date().toISOString())
+  }
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { error: insertError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .insert({ caller_id: callerId, idempotency_key: key, request_fingerprint: requestFingerprint })
+
+    if (!insertError) return { kind: 'claimed' }
+    if (insertError.code !== '23505') throw insertError
+
+    const { data, error } = await supabaseAdmin
+      .from('idempotency_keys')
+      .select('request_fingerprint, status, response_status, response_body, created_at, expires_at')
+      .eq('caller_id', callerId)
+      .eq('idempotency_key', key)
+      .maybeSingle()
+
+    if (error) throw error
+    const stored = data as StoredKey | null
+    // Released between the insert and the select: try again
+    if (!stored) continue
+
+    const expired = new Date(stored.expires_at).getTime() <= Date.now()
+    const stale = stored.status === 'in_progress' &&
+      Date.now() - new Date(stored.created_at).getTime() > STALE_CLAIM_MS
+
+    if (expired || stale) {
+      // Only remove the row we looked at, in case another request just took it over
+      await supabaseAdmin
+        .from('idempotency_keys')
+        .delete()
+        .eq('caller_id', callerId)
+        .eq('idempotency_key', key)
+        .eq('created_at', stored.created_at)
+      continue
+    }
+
+    if (stored.request_fingerprint !== requestFingerprint) {
+      throw new ApiError('IDEMPOTENCY_KEY_REUSED')
+    }
+
+    if (stored.status === 'in_progress') {
+      throw new ApiError('REQUEST_IN_PROGRESS')
+    }
+
+    return { kind: 'replay', status: stored.response_status ?? 200, body: stored.response_body }
+  }
+
+  throw new ApiError('REQUEST_IN_PROGRESS')
+}
+
+const releaseKey = async (callerId: string, key: string) => {
+  const { error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .eq('caller_id', callerId)
+    .eq('idempotency_key', key)
+    .eq('status', 'in_progress')
+
+  if (error) logger.warn('Failed to release idempotency key', { error })
+}
+
+const completeKey = async (callerId: string, key: string, status: number, body: unknown) => {
+  const { error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .update({ status: 'completed', response_status: status, response_body: body ?? null })
+    .eq('caller_id', callerId)
+    .eq('idempotency_key', key)
+
+  if (error) logger.warn('Failed to store idempotent response', { error })
+}
+
+/**
+ * Run `handle` at most once per Idempotency-Key for this caller. Requests
+ * without the header run normally. A retry of a request that succeeded gets
+ * the stored response (with `Idempotent-Replayed: true`); a retry while the
+ * first attempt is still running gets REQUEST_IN_PROGRESS; reusing a key for a
+ * different request gets IDEMPOTENCY_KEY_REUSED.
+ *
+ * Only 2xx responses are stored. When `handle` throws or answers with an
+ * error the key is released, so the client can retry with the same key.
+ */
+export const withIdempotency = async (
+  req: VercelRequest,
+  res: VercelResponse,
+  callerId: string,
+  handle: () => unknown | Promise<unknown>
+) => {
+  const key = getIdempotencyKey(req)
+  if (!key) return handle()
+
+  let claim: Claim
+  try {
+    claim = await claimKey(callerId, key, fingerprint(req))
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    // Same policy as the rate limiter: a missing table must not take writes down
+    logger.warn('Idempotency store unavailable, running request without it', { error })
+    return handle()
+  }
+
+  if (claim.kind === 'replay') {
+    res.setHeader('Idempotent-Replayed', 'true')
+    return res.status(claim.status).json(claim.body)
+  }
+
+  // Capture the body the handler sends so it can be stored
+  const sent: { status?: number; body?: unknown } = {}
+  const json = res.json.bind(res)
+  res.json = (body: unknown) => {
+    sent.status = res.statusCode
+    sent.body = body
+    return json(body)
+  }
+
+  try {
+    await handle()
+  } catch (error) {
+    await releaseKey(callerId, key)
+    throw error
+  } finally {
+    res.json = json
+  }
+
+  if (sent.status && sent.status >= 200 && sent.status < 300) {
+    await completeKey(callerId, key, sent.status, sent.body)
+  } else {
+    await releaseKey(callerId, key)
+  }
+}
@@ -0,0 +1,233 @@
+import type { VercelRequest } from '@vercel/node'
+import type { User } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supabase.js'
+import { ApiError, databaseError, getRoute, onRequestCompleted } from './errors.js'
+import { logger, setLogImpersonator } from './logger.js'
+import type { AuthenticatedCaller } from './auth.js'
+import {
+  IMPERSONATION_HEADER,
+  impersonationIdSchema,
+  type Impersonation
+} from '../../src/shared/impersonation.js'
+
+// Admin impersonation sessions (public.impersonation_sessions,
+// supabase/migrations/00010_impersonation.sql). authenticate() calls into
+// this module when a request carries the X-Impersonation-Id header.
+
+interface ImpersonationRow {
+  id: string
+  admin_user_id: string
+  target_user_id: string
+  target_email: string
+  read_only: boolean
+  reason: string | null
+  started_at: string
+  expires_at: string
+  ended_at: string | null
+}
+
+type EndReason = 'stopped' | 'expired' | 'replaced'
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+const toImpersonation = (row: ImpersonationRow): Impersonation => ({
+  id: row.id,
+  targetUserId: row.target_user_id,
+  targetEmail: row.target_email,
+  readOnly: row.read_only,
+  reason: row.reason,
+  startedAt: row.started_at,
+  expiresAt: row.expires_at
+})
+
+const isExpired = (row: ImpersonationRow) => new Date(row.expires_at).getTime() <= Date.now()
+
+const audit = async (
+  action: string,
+  admin: AuthenticatedCaller,
+  row: ImpersonationRow,
+  details: Record<string, unknown>
+) => {
+  const { error } = await supabaseAdmin
+    .from('admin_audit_log')
+    .insert({
+      admin_user_id: admin.user.id,
+      admin_email: admin.user.email || '',
+      action,
+      target_user_id: row.target_user_id,
+      target_email: row.target_email,
+      details: { impersonation_id: row.id, ...details }
+    })
+
+  if (error) {
+    logger.error('Failed to write impersonation audit entry', { error, action })
+  }
+}
+
+// Close a session once; only the call that closes it writes the audit entry
+const endSession = async (admin: AuthenticatedCaller, row: ImpersonationRow, endReason: EndReason) => {
+  const endedAt = new Date()
+  const { data, error } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .update({ ended_at: endedAt.toISOString(), end_reason: endReason })
+    .eq('id', row.id)
+    .is('ended_at', null)
+    .select('id')
+
+  if (error) {
+    throw databaseError('Failed to end impersonation session', error)
+  }
+
+  if (data && data.length > 0) {
+    await audit('impersonation_stop', admin, row, {
+      end_reason: endReason,
+      duration_seconds: Math.round((endedAt.getTime() - new Date(row.started_at).getTime()) / 1000)
+    })
+  }
+}
+
+const loadOpenSession = async (adminUserId: string): Promise<ImpersonationRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .select('*')
+    .eq('admin_user_id', adminUserId)
+    .is('ended_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load impersonation session', error)
+  }
+
+  return data as ImpersonationRow | null
+}
+
+// Impersonation session id from the X-Impersonation-Id header, if any
+export const getImpersonationId = (req: VercelRequest): string | null => {
+  const header = req.headers[IMPERSONATION_HEADER.toLowerCase()]
+  const value = Array.isArray(header) ? header[0] : header
+  if (!value) return null
+
+  const parsed = impersonationIdSchema.safeParse(value)
+  if (!parsed.success) {
+    throw new ApiError('VALIDATION_FAILED', `${IMPERSONATION_HEADER} must be a session id`)
+  }
+  return parsed.data
+}
+
+/**
+ * The admin's open impersonation session. A session that has run out is
+ * closed (and audited) here and null is returned.
+ */
+export const getActiveImpersonation = async (admin: AuthenticatedCaller): Promise<Impersonation | null> => {
+  const row = await loadOpenSession(admin.user.id)
+  if (!row) return null
+
+  if (isExpired(row)) {
+    await endSession(admin, row, 'expired')
+    return null
+  }
+
+  return toImpersonation(row)
+}
+
+/**
+ * Start impersonating `target`, ending the admin's previous session first.
+ */
+export const startImpersonation = async (
+  admin: AuthenticatedCaller,
+  target: { userId: string; email: string },
+  options: { durationMinutes: number; readOnly: boolean; reason?: string }
+): Promise<Impersonation> => {
+  const previous = await loadOpenSession(admin.user.id)
+  if (previous) {
+    await endSession(admin, previous, isExpired(previous) ? 'expired' : 'replaced')
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .insert({
+      admin_user_id: admin.user.id,
+      target_user_id: target.userId,
+      target_email: target.email,
+      read_only: options.readOnly,
+      reason: options.reason || null,
+      expires_at: new Date(Date.now() + options.durationMinutes * 60 * 1000).toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    throw databaseError('Failed to start impersonation session', error)
+  }
+
+  const row = data as ImpersonationRow
+  await audit('impersonation_start', admin, row, {
+    read_only: row.read_only,
+    expires_at: row.expires_at,
+    reason: row.reason
+  })
+
+  logger.info('Impersonation started', { impersonationId: row.id, targetUserId: row.target_user_id })
+  return toImpersonation(row)
+}
+
+/**
+ * End the admin's open impersonation session. Returns false when there was none.
+ */
+export const stopImpersonation = async (admin: AuthenticatedCaller): Promise<boolean> => {
+  const row = await loadOpenSession(admin.user.id)
+  if (!row) return false
+
+  await endSession(admin, row, isExpired(row) ? 'expired' : 'stopped')
+  logger.info('Impersonation stopped', { impersonationId: row.id })
+  return true
+}
+
+/**
+ * Check that `impersonationId` is the admin's open, unexpired session and
+ * load the impersonated user. Every request made with it is audited once
+ * its response is sent, including refused ones; writes are refused with
+ * IMPERSONATION_READ_ONLY unless the session allows them.
+ */
+export const resolveImpersonation = async (
+  req: VercelRequest,
+  admin: AuthenticatedCaller,
+  impersonationId: string
+): Promise<{ impersonation: Impersonation; user: User }> => {
+  const { data, error } = await supabaseAdmin
+    .from('impersonation_sessions')
+    .select('*')
+    .eq('id', impersonationId)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load impersonation session', error)
+  }
+
+  const row = data as ImpersonationRow | null
+  if (!row || row.admin_user_id !== admin.user.id || row.ended_at) {
+    throw new ApiError('IMPERSONATION_ENDED')
+  }
+
+  if (isExpired(row)) {
+    await endSession(admin, row, 'expired')
+    throw new ApiError('IMPERSONATION_ENDED', 'The impersonation session has expired')
+  }
+
+  setLogImpersonator(admin.user.id)
+  const method = req.method || 'GET'
+  const route = getRoute(req)
+  onRequestCompleted(status => audit('impersonation_action', admin, row, { method, route, status }))
+
+  if (row.read_only && !READ_METHODS.has(method)) {
+    throw new ApiError('IMPERSONATION_READ_ONLY')
+  }
+
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.admin.getUserById(row.target_user_id)
+  if (userError || !user) {
+    await endSession(admin, row, 'stopped')
+    throw new ApiError('IMPERSONATION_ENDED', 'The impersonated user no longer exists')
+  }
+
+  return { impersonation: toImpersonation(row), user }
+}
@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+// JSON-lines logger for the api/ handlers. Every line carries the request id
+// of the request being served (see apiHandler in errors.ts), so one request
+// can be followed across log lines and matched to the X-Request-Id header the
+// client saw. Anything that looks like a credential is redacted before it is
+// written.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface RequestLogContext {
+  requestId: string
+  method?: string
+  route?: string
+  callerId?: string
+  // Admin behind the request while impersonating callerId
+  impersonatorId?: string
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const minLevel = (): number => {
+  const configured = process.env.LOG_LEVEL as LogLevel | undefined
+  return LEVELS[configured && configured in LEVELS ? configured : 'info']
+}
+
+const requestContext = new AsyncLocalStorage<RequestLogContext>()
+
+export const runWithRequestContext = <T>(context: RequestLogContext, fn: () => T): T =>
+  requestContext.run(context, fn)
+
+// Attach the authenticated user to the rest of the request's log lines
+export const setLogCaller = (callerId: string) => {
+  const context = requestContext.getStore()
+  if (context) context.callerId = callerId
+}
+
+export const setLogImpersonator = (impersonatorId: string) => {
+  const context = requestContext.getStore()
+  if (context) context.impersonatorId = impersonatorId
+}
+
+const REDACTED = '[REDACTED]'
+
+const SECRET_PATTERNS = [
+  /\bre_[A-Za-z0-9_]{8,}/g, // Resend
+  /\bsk[-_](?:live_|test_)?[A-Za-z0-9_-]{8,}/g, // OpenAI / Stripe style secret keys
+  /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]*/g, // JWTs (Supabase keys and access tokens)
+  /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi
+]
+
+const SECRET_FIELD = /pass(word)?|secret|token|api[_-]?key|authorization|cookie|key_value/i
+
+const redactString = (value: string) =>
+  SECRET_PATTERNS.reduce((text, pattern) => text.replace(pattern, REDACTED), value)
+
+/**
+ * Copy a value for logging with secrets removed: strings that look like keys
+ * or tokens are masked, and fields with credential-like names are dropped.
+ */
+export const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') return redactString(value)
+  if (value === null || typeof value !== 'object') return value
+  if (depth > 6 || seen.has(value)) return '[Truncated]'
+  seen.add(value)
+
+  if (value instanceof Error) {
+    const { code } = value as Error & { code?: unknown }
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(code !== undefined ? { code } : {}),
+      ...(value.stack ? { stack: redactString(value.stack) } : {})
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen))
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_FIELD.test(key) && item ? REDACTED : redact(item, depth + 1, seen)
+    ])
+  )
+}
+
+const write = (level: LogLevel, message: string, fields?: Record<string, unknown>) => {
+  if (LEVELS[level] < minLevel()) return
+
+  const entry = {
+    level,
+    time: new Date().toISOString(),
+    msg: redactString(message),
+    ...requestContext.getStore(),
+    ...(fields ? (redact(fields) as Record<string, unknown>) : {})
+  }
+
+  const line = JSON.stringify(entry)
+  if (level === 'error') console.error(line)
+  else if (level === 'warn') console.warn(line)
+  else console.log(line)
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields)
+}
@@ -0,0 +1,186 @@
+import type { VercelRequest } from '@vercel/node'
+import { supabaseAdmin } from './supabase.js'
+import { databaseError } from './errors.js'
+import { logger } from './logger.js'
+import { getClientIp } from './rate-limit.js'
+import { describeUserAgent } from './sessions.js'
+import {
+  LOGIN_HISTORY_LIMIT,
+  LOGIN_LOCKOUT_SETTING,
+  readLoginLockoutPolicy,
+  type LoginEvent,
+  type LoginHistory,
+  type LoginLockoutPolicy,
+  type LoginMethod
+} from '../../src/shared/login-events.js'
+
+// Sign-in history and lockout (public.login_events,
+// supabase/migrations/00014_login_events.sql)
+
+interface LoginEventRow {
+  id: string
+  success: boolean
+  method: LoginMethod
+  failure_reason: string | null
+  device: string | null
+  browser: string | null
+  ip_address: string | null
+  created_at: string
+}
+
+// The policy is read on every sign-in, so it is cached briefly
+const SETTINGS_TTL_MS = 60 * 1000
+let cachedPolicy: { policy: LoginLockoutPolicy; expiresAt: number } | null = null
+
+export const clearLoginLockoutPolicyCache = () => {
+  cachedPolicy = null
+}
+
+const loadLockoutPolicy = async (): Promise<LoginLockoutPolicy> => {
+  if (cachedPolicy && cachedPolicy.expiresAt > Date.now()) {
+    return cachedPolicy.policy
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('setting_value')
+    .eq('setting_key', LOGIN_LOCKOUT_SETTING)
+    .maybeSingle()
+
+  if (error) {
+    // Not cached, so the next request tries again
+    logger.warn('Failed to load the lockout policy, using the default', { error })
+    return readLoginLockoutPolicy(null)
+  }
+
+  const policy = readLoginLockoutPolicy(data?.setting_value)
+  cachedPolicy = { policy, expiresAt: Date.now() + SETTINGS_TTL_MS }
+  return policy
+}
+
+/**
+ * Record a sign-in attempt with the request's IP address and user agent. A
+ * success also updates last_login and login_count in login_stats.
+ */
+export const recordLoginEvent = async (
+  req: VercelRequest,
+  event: {
+    userId: string | null
+    email: string
+    success: boolean
+    method: LoginMethod
+    failureReason?: string
+  }
+) => {
+  const userAgent = req.headers['user-agent'] || ''
+  const { device, browser } = describeUserAgent(userAgent)
+
+  const { error } = await supabaseAdmin.rpc('record_login_event', {
+    p_user_id: event.userId,
+    p_email: event.email,
+    p_success: event.success,
+    p_method: event.method,
+    p_failure_reason: event.failureReason ?? null,
+    p_ip_address: getClientIp(req),
+    p_user_agent: userAgent || null,
+    p_device: device,
+    p_browser: browser
+  })
+
+  if (error) {
+    throw databaseError('Failed to record sign-in', error)
+  }
+}
+
+// Message public.password_verification_hook refuses a locked address with
+// (00021_password_verification_hook.sql)
+const LOCKOUT_HOOK_MESSAGE = 'Too many failed sign-ins'
+
+// Supabase Auth refused a password check because the hook found the address
+// locked, e.g. when the lockout started after getLockedUntil() was asked
+export const isLockoutRejection = (error: { message?: string } | null) =>
+  !!error?.message?.includes(LOCKOUT_HOOK_MESSAGE)
+
+/**
+ * When the address is locked, the time the lockout ends. An address is
+ * locked once its last `maxFailures` sign-ins within the window all failed,
+ * until `lockoutMinutes` after the latest of them. Attempts refused during a
+ * lockout are not counted, so they cannot extend it.
+ */
+export const getLockedUntil = async (email: string): Promise<Date | null> => {
+  const policy = await loadLockoutPolicy()
+  const since = new Date(Date.now() - policy.windowMinutes * 60 * 1000).toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from('login_events')
+    .select('success, created_at')
+    .eq('email', email.toLowerCase())
+    .gte('created_at', since)
+    .or('failure_reason.is.null,failure_reason.neq.locked')
+    .order('created_at', { ascending: false })
+    .limit(policy.maxFailures)
+
+  if (error) {
+    throw databaseError('Failed to check sign-in lockout', error)
+  }
+
+  const attempts = data ?? []
+  if (attempts.length < policy.maxFailures || attempts.some(attempt => attempt.success)) {
+    return null
+  }
+
+  const until = new Date(new Date(attempts[0].created_at).getTime() + policy.lockoutMinutes * 60 * 1000)
+  return until.getTime() > Date.now() ? until : null
+}
+
+/**
+ * A user's most recent sign-ins, newest first, and whether their address is
+ * locked right now.
+ */
+export const getLoginHistory = async (userId: string, email: string | null | undefined): Promise<LoginHistory> => {
+  const columns = 'id, success, method, failure_reason, device, browser, ip_address, created_at'
+  // Failures before an account existed, or for its address, only carry the
+  // email. Two queries rather than an or() filter, which would need the
+  // address escaped for PostgREST's filter syntax.
+  const results = await Promise.all([
+    supabaseAdmin
+      .from('login_events')
+      .select(columns)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(LOGIN_HISTORY_LIMIT),
+    ...(email
+      ? [supabaseAdmin
+          .from('login_events')
+          .select(columns)
+          .eq('email', email.toLowerCase())
+          .is('user_id', null)
+          .order('created_at', { ascending: false })
+          .limit(LOGIN_HISTORY_LIMIT)]
+      : [])
+  ])
+
+  const failed = results.find(result => result.error)
+  if (failed) {
+    throw databaseError('Failed to load sign-in history', failed.error)
+  }
+
+  const rows = results
+    .flatMap(result => (result.data ?? []) as LoginEventRow[])
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, LOGIN_HISTORY_LIMIT)
+
+  const events: LoginEvent[] = rows.map(row => ({
+    id: row.id,
+    success: row.success,
+    method: row.method,
+    failureReason: row.failure_reason,
+    device: row.device,
+    browser: row.browser,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at
+  }))
+
+  const lockedUntil = email ? await getLockedUntil(email) : null
+  return { events, lockedUntil: lockedUntil?.toISOString() ?? null }
+}
@@ -0,0 +1,139 @@
+import type { User } from '@supabase/supabase-js'
+import { createHash, randomInt } from 'node:crypto'
+import { supabaseAdmin } from './supabase.js'
+import { databaseError } from './errors.js'
+import {
+  MFA_REQUIRED_FOR_ADMINS_SETTING,
+  RECOVERY_CODE_COUNT,
+  normalizeRecoveryCode,
+  type RecoveryCodeStatus
+} from '../../src/shared/mfa.js'
+
+// TOTP factors are managed by Supabase Auth; this module covers the parts it
+// does not: the admin MFA policy and one-time recovery codes
+// (public.mfa_recovery_codes, supabase/migrations/00006_mfa.sql).
+
+export const hasVerifiedFactor = (user: User) =>
+  (user.factors ?? []).some(factor => factor.status === 'verified')
+
+// The policy is read on every admin request, so it is cached briefly
+const SETTINGS_TTL_MS = 60 * 1000
+let cachedPolicy: { required: boolean; expiresAt: number } | null = null
+
+export const clearMfaPolicyCache = () => {
+  cachedPolicy = null
+}
+
+export const isMfaRequiredForAdmins = async (): Promise<boolean> => {
+  if (cachedPolicy && cachedPolicy.expiresAt > Date.now()) {
+    return cachedPolicy.required
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('setting_value')
+    .eq('setting_key', MFA_REQUIRED_FOR_ADMINS_SETTING)
+    .maybeSingle()
+
+  // Fails closed: admin requests are refused until the policy can be read
+  if (error) {
+    throw databaseError('Failed to load the admin MFA policy', error)
+  }
+
+  const required = data?.setting_value === 'true'
+  cachedPolicy = { required, expiresAt: Date.now() + SETTINGS_TTL_MS }
+  return required
+}
+
+// Base32 without 0/1/8/9 lookalikes: 10 characters is 50 bits per code
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+const generateRecoveryCode = () => {
+  const code = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]).join('')
+  return `${code.slice(0, 5)}-${code.slice(5)}`
+}
+
+// Salted with the user id so equal codes of different users hash differently
+const hashRecoveryCode = (userId: string, code: string) =>
+  createHash('sha256').update(`${userId}:${normalizeRecoveryCode(code)}`).digest('hex')
+
+/**
+ * Replace the user's recovery codes with a new set and return them. This is
+ * the only time the plaintext codes exist; only hashes are stored.
+ */
+export const replaceRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode)
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .delete()
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    throw databaseError('Failed to remove old recovery codes', deleteError)
+  }
+
+  const { error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .insert(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(userId, code) })))
+
+  if (error) {
+    throw databaseError('Failed to store recovery codes', error)
+  }
+
+  return codes
+}
+
+export const getRecoveryCodeStatus = async (userId: string): Promise<RecoveryCodeStatus> => {
+  const { data, error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .select('used_at, created_at')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw databaseError('Failed to load recovery codes', error)
+  }
+
+  return {
+    remaining: (data ?? []).filter(row => !row.used_at).length,
+    createdAt: data?.[0]?.created_at ?? null
+  }
+}
+
+/**
+ * Mark a recovery code as used. Returns false when the code does not exist
+ * or was already used; a single UPDATE makes concurrent use of one code safe.
+ */
+export const consumeRecoveryCode = async (userId: string, code: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashRecoveryCode(userId, code))
+    .is('used_at', null)
+    .select('id')
+
+  if (error) {
+    throw databaseError('Failed to check the recovery code', error)
+  }
+
+  return (data ?? []).length > 0
+}
+
+/**
+ * Remove every TOTP factor of the user. Supabase Auth signs the user out of
+ * all sessions when a verified factor is deleted.
+ */
+export const removeTotpFactors = async (userId: string) => {
+  const { data, error } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId })
+  if (error) {
+    throw databaseError('Failed to list MFA factors', error)
+  }
+
+  for (const factor of data.factors.filter(factor => factor.factor_type === 'totp')) {
+    const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({ id: factor.id, userId })
+    if (deleteError) {
+      throw databaseError('Failed to remove MFA factor', deleteError)
+    }
+  }
+}
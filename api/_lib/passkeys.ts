@@ -0,0 +1,388 @@
+import type { VercelRequest } from '@vercel/node'
+import type { User } from '@supabase/supabase-js'
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON
+} from '@simplewebauthn/server'
+import { createSignInClient, supabaseAdmin } from './supabase.js'
+import { ApiError, databaseError } from './errors.js'
+import { logger } from './logger.js'
+import { describeUserAgent, grantEmailTokenSignIn } from './sessions.js'
+import { PASSKEY_CHALLENGE_TTL_SECONDS, type Passkey } from '../../src/shared/passkeys.js'
+
+// WebAuthn ceremonies for passkeys (public.user_passkeys and
+// public.webauthn_challenges, supabase/migrations/00018_user_passkeys.sql).
+
+type Ceremony = 'registration' | 'authentication'
+
+interface PasskeyRow {
+  id: string
+  user_id: string
+  credential_id: string
+  public_key: string
+  counter: number
+  transports: string[]
+  device_type: string
+  backed_up: boolean
+  name: string
+  created_at: string
+  last_used_at: string | null
+}
+
+interface RelyingParty {
+  id: string
+  name: string
+  origins: string[]
+}
+
+/**
+ * The relying party passkeys are bound to. The origins come from
+ * WEBAUTHN_ORIGINS (comma separated) or VITE_APP_URL; the RP ID from
+ * WEBAUTHN_RP_ID or the first origin's host name. Passkeys only work on
+ * those origins, and changing the RP ID invalidates every passkey.
+ */
+const getRelyingParty = async (): Promise<RelyingParty> => {
+  const origins = (process.env.WEBAUTHN_ORIGINS || process.env.VITE_APP_URL || '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(Boolean)
+    .map(value => {
+      try {
+        return new URL(value).origin
+      } catch {
+        throw new ApiError('SERVER_MISCONFIGURED', `Invalid passkey origin: ${value}`)
+      }
+    })
+
+  if (origins.length === 0) {
+    throw new ApiError('SERVER_MISCONFIGURED', 'Set VITE_APP_URL or WEBAUTHN_ORIGINS to use passkeys')
+  }
+
+  const { data } = await supabaseAdmin
+    .from('app_settings')
+    .select('setting_value')
+    .eq('setting_key', 'app_name')
+    .maybeSingle()
+
+  return {
+    id: process.env.WEBAUTHN_RP_ID || new URL(origins[0]).hostname,
+    name: data?.setting_value || 'App',
+    origins
+  }
+}
+
+// Abandoned ceremonies are cleared out by GET /api/cron/webauthn-challenges
+const saveChallenge = async (ceremony: Ceremony, challenge: string, userId: string | null) => {
+  const { data, error } = await supabaseAdmin
+    .from('webauthn_challenges')
+    .insert({
+      ceremony,
+      user_id: userId,
+      challenge,
+      expires_at: new Date(Date.now() + PASSKEY_CHALLENGE_TTL_SECONDS * 1000).toISOString()
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw databaseError('Failed to start the passkey ceremony', error)
+  }
+
+  return data.id as string
+}
+
+// Delete challenges of ceremonies that were never finished; returns how many
+export const deleteExpiredChallenges = async () => {
+  const { data, error } = await supabaseAdmin
+    .from('webauthn_challenges')
+    .delete()
+    .lt('expires_at', new Date().toISOString())
+    .select('id')
+
+  if (error) {
+    throw databaseError('Failed to delete expired passkey challenges', error)
+  }
+
+  return (data ?? []).length
+}
+
+// Take a challenge out of the table, so each can be answered only once
+const consumeChallenge = async (challengeId: string, ceremony: Ceremony, userId: string | null) => {
+  let query = supabaseAdmin
+    .from('webauthn_challenges')
+    .delete()
+    .eq('id', challengeId)
+    .eq('ceremony', ceremony)
+    .gt('expires_at', new Date().toISOString())
+
+  query = userId ? query.eq('user_id', userId) : query.is('user_id', null)
+
+  const { data, error } = await query.select('challenge').maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load the passkey challenge', error)
+  }
+
+  if (!data) {
+    throw new ApiError('PASSKEY_FAILED', 'The passkey request has expired. Try again.')
+  }
+
+  return data.challenge as string
+}
+
+const toPasskey = (row: PasskeyRow): Passkey => ({
+  id: row.id,
+  name: row.name,
+  deviceType: row.device_type,
+  backedUp: row.backed_up,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at
+})
+
+const loadPasskeyRows = async (userId: string): Promise<PasskeyRow[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('user_passkeys')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at')
+
+  if (error) {
+    throw databaseError('Failed to load passkeys', error)
+  }
+
+  return (data ?? []) as PasskeyRow[]
+}
+
+// The user's passkeys, oldest first
+export const listPasskeys = async (userId: string): Promise<Passkey[]> =>
+  (await loadPasskeyRows(userId)).map(toPasskey)
+
+/**
+ * Options for navigator.credentials.create(). Passkeys the user already has
+ * are excluded, so an authenticator cannot be registered twice.
+ */
+export const startRegistration = async (user: User): Promise<{
+  challengeId: string
+  options: PublicKeyCredentialCreationOptionsJSON
+}> => {
+  const relyingParty = await getRelyingParty()
+  const existing = await loadPasskeyRows(user.id)
+
+  const options = await generateRegistrationOptions({
+    rpName: relyingParty.name,
+    rpID: relyingParty.id,
+    userName: user.email || user.id,
+    userID: new TextEncoder().encode(user.id),
+    attestationType: 'none',
+    excludeCredentials: existing.map(row => ({
+      id: row.credential_id,
+      transports: row.transports as AuthenticatorTransportFuture[]
+    })),
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'required'
+    }
+  })
+
+  return { challengeId: await saveChallenge('registration', options.challenge, user.id), options }
+}
+
+/**
+ * Check a new credential against its registration challenge and store it.
+ * Unnamed passkeys are named after the browser and device they were made on.
+ */
+export const finishRegistration = async (
+  req: VercelRequest,
+  user: User,
+  input: { challengeId: string; response: RegistrationResponseJSON; name?: string }
+): Promise<Passkey> => {
+  const expectedChallenge = await consumeChallenge(input.challengeId, 'registration', user.id)
+  const relyingParty = await getRelyingParty()
+
+  const verification = await verifyRegistrationResponse({
+    response: input.response,
+    expectedChallenge,
+    expectedOrigin: relyingParty.origins,
+    expectedRPID: relyingParty.id,
+    requireUserVerification: true
+  }).catch((error: unknown) => {
+    logger.warn('Passkey registration was not accepted', { error })
+    throw new ApiError('PASSKEY_FAILED')
+  })
+
+  if (!verification.verified) {
+    throw new ApiError('PASSKEY_FAILED')
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo
+  const { device, browser } = describeUserAgent(req.headers['user-agent'] || '')
+
+  const { data, error } = await supabaseAdmin
+    .from('user_passkeys')
+    .insert({
+      user_id: user.id,
+      credential_id: credential.id,
+      public_key: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      device_type: credentialDeviceType,
+      backed_up: credentialBackedUp,
+      name: input.name || [browser, device].filter(Boolean).join(' on ') || 'Passkey'
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new ApiError('CONFLICT', 'This passkey is already registered')
+    }
+    throw databaseError('Failed to save the passkey', error)
+  }
+
+  return toPasskey(data as PasskeyRow)
+}
+
+/**
+ * Options for navigator.credentials.get(). No credentials are listed: the
+ * user picks one of the passkeys their authenticator holds for this site.
+ */
+export const startAuthentication = async (): Promise<{
+  challengeId: string
+  options: PublicKeyCredentialRequestOptionsJSON
+}> => {
+  const relyingParty = await getRelyingParty()
+
+  const options = await generateAuthenticationOptions({
+    rpID: relyingParty.id,
+    // A passkey replaces the password, so the authenticator must check it is
+    // the owner (PIN, fingerprint, face), not just that someone is present
+    userVerification: 'required'
+  })
+
+  return { challengeId: await saveChallenge('authentication', options.challenge, null), options }
+}
+
+/**
+ * Check a signed assertion against its challenge and the stored public key,
+ * and return the user it belongs to. For unknown credentials and bad
+ * signatures `verified` is false; `userId` is still set when the credential
+ * was known, so the failure can go in that user's sign-in history.
+ */
+export const finishAuthentication = async (input: {
+  challengeId: string
+  response: AuthenticationResponseJSON
+}): Promise<{ verified: true; userId: string } | { verified: false; userId: string | null }> => {
+  const expectedChallenge = await consumeChallenge(input.challengeId, 'authentication', null)
+  const relyingParty = await getRelyingParty()
+
+  const { data, error } = await supabaseAdmin
+    .from('user_passkeys')
+    .select('*')
+    .eq('credential_id', input.response.id)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load the passkey', error)
+  }
+
+  const row = data as PasskeyRow | null
+  if (!row) {
+    return { verified: false, userId: null }
+  }
+
+  const verification = await verifyAuthenticationResponse({
+    response: input.response,
+    expectedChallenge,
+    expectedOrigin: relyingParty.origins,
+    expectedRPID: relyingParty.id,
+    credential: {
+      id: row.credential_id,
+      publicKey: new Uint8Array(Buffer.from(row.public_key, 'base64url')),
+      counter: Number(row.counter),
+      transports: row.transports as AuthenticatorTransportFuture[]
+    },
+    requireUserVerification: true
+  }).catch((error: unknown) => {
+    logger.warn('Passkey assertion was not accepted', { error })
+    return null
+  })
+
+  if (!verification?.verified) {
+    return { verified: false, userId: row.user_id }
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('user_passkeys')
+    .update({
+      counter: verification.authenticationInfo.newCounter,
+      backed_up: verification.authenticationInfo.credentialBackedUp,
+      last_used_at: new Date().toISOString()
+    })
+    .eq('id', row.id)
+
+  if (updateError) {
+    throw databaseError('Failed to update the passkey', updateError)
+  }
+
+  return { verified: true, userId: row.user_id }
+}
+
+/**
+ * Sign the user in without a password: an email sign-in token is generated
+ * with the Admin API (nothing is sent) and exchanged for a session straight
+ * away.
+ */
+export const createSessionForUser = async (user: User) => {
+  if (!user.email) {
+    throw new ApiError('PASSKEY_FAILED', 'The account has no email address to sign in with')
+  }
+
+  const { data: link, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+    type: 'magiclink',
+    email: user.email
+  })
+
+  if (linkError) {
+    logger.error('Failed to create a sign-in token for a passkey', { error: linkError })
+    throw new ApiError('INTERNAL_ERROR', 'Sign-in failed')
+  }
+
+  await grantEmailTokenSignIn(user.id)
+  const { data, error } = await createSignInClient().auth.verifyOtp({
+    token_hash: link.properties.hashed_token,
+    type: 'magiclink'
+  })
+
+  if (error || !data.session) {
+    logger.error('Failed to exchange a passkey sign-in token', { error })
+    throw new ApiError('INTERNAL_ERROR', 'Sign-in failed')
+  }
+
+  return data.session
+}
+
+/**
+ * Delete one of the user's passkeys. Returns false when there is no such
+ * passkey.
+ */
+export const deletePasskey = async (userId: string, id: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('user_passkeys')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw databaseError('Failed to delete the passkey', error)
+  }
+
+  return (data ?? []).length > 0
+}
@@ -0,0 +1,217 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { promisify } from 'node:util'
+import { supabaseAdmin } from './supabase.js'
+import { databaseError } from './errors.js'
+import { logger } from './logger.js'
+import {
+  PASSWORD_POLICY_SETTING,
+  checkPasswordRequirements,
+  readPasswordPolicy,
+  type PasswordCheckResult,
+  type PasswordPolicy
+} from '../../src/shared/password-policy.js'
+
+// Server side of the password policy: the rules from app_settings, reuse of
+// recent passwords (public.password_history,
+// supabase/migrations/00013_password_policy.sql) and the breached-password
+// check.
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+// The policy is read on every check, so it is cached briefly
+const SETTINGS_TTL_MS = 60 * 1000
+let cachedPolicy: { policy: PasswordPolicy; expiresAt: number } | null = null
+
+export const clearPasswordPolicyCache = () => {
+  cachedPolicy = null
+}
+
+export const loadPasswordPolicy = async (): Promise<PasswordPolicy> => {
+  if (cachedPolicy && cachedPolicy.expiresAt > Date.now()) {
+    return cachedPolicy.policy
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('setting_value')
+    .eq('setting_key', PASSWORD_POLICY_SETTING)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load the password policy', error)
+  }
+
+  const policy = readPasswordPolicy(data?.setting_value)
+  cachedPolicy = { policy, expiresAt: Date.now() + SETTINGS_TTL_MS }
+  return policy
+}
+
+// Stored as scrypt$<salt>$<hash>, both base64
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, 32)
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`
+}
+
+const verifyPasswordHash = async (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'base64')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+const loadRecentHashes = async (userId: string, limit: number): Promise<Array<{ id: string; password_hash: string }>> => {
+  const { data, error } = await supabaseAdmin
+    .from('password_history')
+    .select('id, password_hash')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw databaseError('Failed to load password history', error)
+  }
+
+  return data ?? []
+}
+
+// Whether `password` is one of the user's last `historySize` passwords
+export const isRecentPassword = async (userId: string, password: string, historySize: number) => {
+  if (historySize <= 0) return false
+
+  for (const entry of await loadRecentHashes(userId, historySize)) {
+    if (await verifyPasswordHash(password, entry.password_hash)) return true
+  }
+  return false
+}
+
+/**
+ * Remember a password the user has just set, keeping only the last
+ * `historySize` entries. Nothing is stored while reuse checks are off.
+ */
+export const recordPassword = async (userId: string, password: string, historySize: number) => {
+  if (historySize <= 0) {
+    const { error } = await supabaseAdmin.from('password_history').delete().eq('user_id', userId)
+    if (error) {
+      throw databaseError('Failed to clear password history', error)
+    }
+    return
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('password_history')
+    .insert({ user_id: userId, password_hash: await hashPassword(password) })
+
+  if (insertError) {
+    throw databaseError('Failed to record password history', insertError)
+  }
+
+  const kept = await loadRecentHashes(userId, historySize)
+  const { error: pruneError } = await supabaseAdmin
+    .from('password_history')
+    .delete()
+    .eq('user_id', userId)
+    .not('id', 'in', `(${kept.map(entry => entry.id).join(',')})`)
+
+  if (pruneError) {
+    throw databaseError('Failed to prune password history', pruneError)
+  }
+}
+
+// Have I Been Pwned range API: only the first 5 characters of the SHA-1
+// leave the server (k-anonymity), and padding hides the response size
+const HIBP_RANGE_URL = process.env.HIBP_RANGE_URL || 'https://api.pwnedpasswords.com/range/'
+const HIBP_TIMEOUT_MS = 3000
+
+const sha1Hex = (password: string) => createHash('sha1').update(password).digest('hex').toUpperCase()
+
+const suffixInRangeResponse = (body: string, suffix: string) =>
+  body.split('\n').some(line => {
+    const [lineSuffix, count] = line.trim().split(':')
+    return lineSuffix === suffix && Number(count) > 0
+  })
+
+const checkHibp = async (hash: string): Promise<boolean> => {
+  const response = await fetch(`${HIBP_RANGE_URL}${hash.slice(0, 5)}`, {
+    headers: { 'Add-Padding': 'true' },
+    signal: AbortSignal.timeout(HIBP_TIMEOUT_MS)
+  })
+  if (!response.ok) {
+    throw new Error(`Breach check returned ${response.status}`)
+  }
+  return suffixInRangeResponse(await response.text(), hash.slice(5))
+}
+
+// PASSWORD_BREACH_LIST_FILE: SHA-1 hashes, one per line, in hex (the
+// "HASH:count" lines of the Have I Been Pwned downloads work as-is)
+let localList: Promise<Set<string> | null> | null = null
+
+const loadLocalList = () => {
+  const path = process.env.PASSWORD_BREACH_LIST_FILE
+  if (!path) return Promise.resolve(null)
+
+  localList ??= readFile(path, 'utf8')
+    .then(content => new Set(
+      content.split('\n').map(line => line.split(':')[0].trim().toUpperCase()).filter(Boolean)
+    ))
+    .catch(error => {
+      logger.warn('Failed to read the breached password list', { error })
+      localList = null
+      return null
+    })
+  return localList
+}
+
+/**
+ * Whether the password appears in a known breach. Asks Have I Been Pwned
+ * unless PASSWORD_BREACH_CHECK=offline, and falls back to the local list in
+ * PASSWORD_BREACH_LIST_FILE when it cannot be reached. Null when neither
+ * could answer.
+ */
+export const isBreachedPassword = async (password: string): Promise<boolean | null> => {
+  const hash = sha1Hex(password)
+
+  if (process.env.PASSWORD_BREACH_CHECK !== 'offline') {
+    try {
+      return await checkHibp(hash)
+    } catch (error) {
+      logger.warn('Breached password service unavailable, trying the local list', { error })
+    }
+  }
+
+  const list = await loadLocalList()
+  return list ? list.has(hash) : null
+}
+
+/**
+ * Check a new password against the policy. Reuse is only checked when the
+ * user is known. A breach check that cannot run lets the password through,
+ * with a warning in the log.
+ */
+export const checkPassword = async (password: string, userId?: string): Promise<PasswordCheckResult> => {
+  const policy = await loadPasswordPolicy()
+  const failures = checkPasswordRequirements(password, policy)
+    .filter(requirement => !requirement.met)
+    .map(requirement => requirement.label)
+
+  if (userId && await isRecentPassword(userId, password, policy.historySize)) {
+    failures.push(`Not one of your last ${policy.historySize} passwords`)
+  }
+
+  let breached: boolean | null = null
+  if (policy.breachCheck) {
+    breached = await isBreachedPassword(password)
+    if (breached) {
+      failures.push('Not found in a known data breach')
+    } else if (breached === null) {
+      logger.warn('Breached password check skipped: no breach source available', {
+        outcome: failures.length === 0 ? 'accepted' : 'rejected'
+      })
+    }
+  }
+
+  return { valid: failures.length === 0, failures, breached }
+}
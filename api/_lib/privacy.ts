@@ -0,0 +1,255 @@
+import type { User } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supabase.js'
+import { databaseError } from './errors.js'
+import { logger } from './logger.js'
+import {
+  ACCOUNT_DELETION_GRACE_SETTING,
+  DATA_EXPORT_VERSION,
+  readAccountDeletionGraceDays,
+  type AccountDeletion
+} from '../../src/shared/privacy.js'
+import { PUBLIC_API_KEY_NAMES, maskSecret } from '../../src/shared/api-keys.js'
+
+// Data export and account deletion (public.account_deletion_requests,
+// supabase/migrations/00016_account_deletion.sql)
+
+interface DeletionRequestRow {
+  user_id: string
+  requested_at: string
+  scheduled_for: string
+}
+
+const toAccountDeletion = (row: DeletionRequestRow): AccountDeletion => ({
+  requestedAt: row.requested_at,
+  scheduledFor: row.scheduled_for
+})
+
+// Rows of a table that belong to the user, for the export
+const selectOwnRows = async (table: string, column: string, userId: string, columns = '*') => {
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select(columns)
+    .eq(column, userId)
+
+  if (error) {
+    throw databaseError(`Failed to export ${table}`, error)
+  }
+
+  return (data ?? []) as unknown as Record<string, unknown>[]
+}
+
+/**
+ * Everything the app stores about a user, as one JSON document. Secrets in
+ * user_api_keys are masked; admin notes and password hashes are left out.
+ */
+export const buildDataExport = async (user: User) => {
+  const [profiles, roles, metadata, loginStats, apiKeys, sessions, loginEvents, passkeys, deletion] = await Promise.all([
+    selectOwnRows('profiles', 'id', user.id),
+    selectOwnRows('user_roles', 'user_id', user.id,
+      'email, role, status, created_at, updated_at, suspended_reason, suspended_until'),
+    selectOwnRows('user_metadata', 'user_id', user.id,
+      'display_name, avatar_url, bio, preferences, created_at, updated_at'),
+    selectOwnRows('login_stats', 'user_id', user.id, 'last_login, login_count'),
+    selectOwnRows('user_api_keys', 'user_id', user.id, 'key_name, key_value, created_at, updated_at'),
+    selectOwnRows('user_sessions', 'user_id', user.id,
+      'device, browser, ip_address, user_agent, created_at, last_seen_at'),
+    selectOwnRows('login_events', 'user_id', user.id,
+      'success, method, failure_reason, ip_address, user_agent, device, browser, created_at'),
+    selectOwnRows('user_passkeys', 'user_id', user.id,
+      'name, device_type, backed_up, transports, created_at, last_used_at'),
+    getDeletionRequest(user.id)
+  ])
+
+  return {
+    version: DATA_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    account: {
+      id: user.id,
+      email: user.email ?? null,
+      phone: user.phone || null,
+      createdAt: user.created_at,
+      lastSignInAt: user.last_sign_in_at ?? null,
+      emailConfirmedAt: user.email_confirmed_at ?? null,
+      userMetadata: user.user_metadata,
+      identities: (user.identities ?? []).map(identity => ({
+        provider: identity.provider,
+        createdAt: identity.created_at ?? null
+      })),
+      mfaFactors: (user.factors ?? []).map(factor => ({
+        type: factor.factor_type,
+        friendlyName: factor.friendly_name ?? null,
+        status: factor.status,
+        createdAt: factor.created_at
+      }))
+    },
+    profile: profiles[0] ?? null,
+    role: roles[0] ?? null,
+    metadata: metadata[0] ?? null,
+    loginStats: loginStats[0] ?? null,
+    apiKeys: apiKeys.map(row => ({
+      ...row,
+      key_value: PUBLIC_API_KEY_NAMES.includes(String(row.key_name))
+        ? row.key_value
+        : maskSecret(row.key_value as string | null)
+    })),
+    sessions,
+    loginEvents,
+    passkeys,
+    deletionRequest: deletion
+  }
+}
+
+export const getDeletionRequest = async (userId: string): Promise<AccountDeletion | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('account_deletion_requests')
+    .select('user_id, requested_at, scheduled_for')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load the deletion request', error)
+  }
+
+  return data ? toAccountDeletion(data as DeletionRequestRow) : null
+}
+
+const loadGraceDays = async () => {
+  const { data, error } = await supabaseAdmin
+    .from('app_settings')
+    .select('setting_value')
+    .eq('setting_key', ACCOUNT_DELETION_GRACE_SETTING)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load the deletion grace period', error)
+  }
+
+  return readAccountDeletionGraceDays(data?.setting_value)
+}
+
+/**
+ * Schedule the user's account for deletion once the grace period is over.
+ * An existing request is kept as it is.
+ */
+export const scheduleDeletion = async (userId: string): Promise<AccountDeletion> => {
+  const existing = await getDeletionRequest(userId)
+  if (existing) return existing
+
+  const graceDays = await loadGraceDays()
+  const scheduledFor = new Date(Date.now() + graceDays * 24 * 60 * 60 * 1000)
+
+  const { data, error } = await supabaseAdmin
+    .from('account_deletion_requests')
+    .insert({ user_id: userId, scheduled_for: scheduledFor.toISOString() })
+    .select('user_id, requested_at, scheduled_for')
+    .single()
+
+  if (error) {
+    // A concurrent request got there first
+    const concurrent = error.code === '23505' ? await getDeletionRequest(userId) : null
+    if (concurrent) return concurrent
+    throw databaseError('Failed to schedule the account deletion', error)
+  }
+
+  return toAccountDeletion(data as DeletionRequestRow)
+}
+
+// Returns whether there was a request to cancel
+export const cancelDeletion = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabaseAdmin
+    .from('account_deletion_requests')
+    .delete()
+    .eq('user_id', userId)
+    .select('user_id')
+
+  if (error) {
+    throw databaseError('Failed to cancel the account deletion', error)
+  }
+
+  return (data ?? []).length > 0
+}
+
+// Whether an active admin other than the user is left to manage the app
+export const hasOtherActiveAdmin = async (userId: string): Promise<boolean> => {
+  const { count, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', 'admin')
+    .eq('status', 'active')
+    .neq('user_id', userId)
+
+  if (error) {
+    throw databaseError('Failed to count admins', error)
+  }
+
+  return !!count
+}
+
+/**
+ * Delete every account whose grace period is over. Deleting the auth user
+ * cascades to profiles, user_roles, user_metadata, user_api_keys and the
+ * other per-user tables, as for admin deletions. Each deletion is recorded in
+ * admin_audit_log without anything that identifies the user. The only
+ * admin account is skipped. Returns how many accounts were deleted.
+ */
+export const processDueDeletions = async (limit = 50): Promise<number> => {
+  const { data, error } = await supabaseAdmin
+    .from('account_deletion_requests')
+    .select('user_id, requested_at, scheduled_for')
+    .lte('scheduled_for', new Date().toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw databaseError('Failed to load due account deletions', error)
+  }
+
+  let deleted = 0
+  for (const row of (data ?? []) as DeletionRequestRow[]) {
+    const { data: role, error: roleError } = await supabaseAdmin
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', row.user_id)
+      .maybeSingle()
+
+    if (roleError) {
+      logger.error('Failed to load the role of an account due for deletion', { error: roleError })
+      continue
+    }
+
+    // Other admins may have gone during the grace period; the request stays
+    // until another admin exists or the user cancels it
+    if (role?.role === 'admin' && !await hasOtherActiveAdmin(row.user_id)) {
+      logger.warn('Scheduled account deletion skipped: it is the only admin account', { userId: row.user_id })
+      continue
+    }
+
+    const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(row.user_id)
+    if (deleteError) {
+      // Left in place, so the next run tries again
+      logger.error('Scheduled account deletion failed', { error: deleteError })
+      continue
+    }
+
+    const { error: auditError } = await supabaseAdmin
+      .from('admin_audit_log')
+      .insert({
+        admin_user_id: null,
+        admin_email: 'system',
+        action: 'account_self_deleted',
+        details: {
+          role: role?.role ?? null,
+          requested_at: row.requested_at,
+          scheduled_for: row.scheduled_for,
+          deleted_at: new Date().toISOString()
+        }
+      })
+
+    if (auditError) {
+      logger.error('Failed to record an account deletion', { error: auditError })
+    }
+    deleted++
+  }
+
+  return deleted
+}
@@ -0,0 +1,234 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createHash } from 'node:crypto'
+import { supabaseAdmin } from './supabase.js'
+import { ApiError } from './errors.js'
+import { logger } from './logger.js'
+
+// Fixed-window rate limiting for the api/ handlers. Each rule is a limit per
+// window; each check counts one hit for a (rule, subject) pair, e.g.
+// ('email_per_recipient', 'someone@example.com').
+
+export interface RateLimitRule {
+  limit: number
+  windowSeconds: number
+}
+
+export const DEFAULT_RATE_LIMITS = {
+  email_per_user: { limit: 30, windowSeconds: 60 * 60 },
+  email_per_ip: { limit: 60, windowSeconds: 60 * 60 },
+  email_per_recipient: { limit: 5, windowSeconds: 60 * 60 },
+  invitation_per_user: { limit: 50, windowSeconds: 24 * 60 * 60 },
+  invitation_per_recipient: { limit: 3, windowSeconds: 24 * 60 * 60 },
+  mfa_recovery_per_user: { limit: 5, windowSeconds: 60 * 60 },
+  password_check_per_ip: { limit: 60, windowSeconds: 60 * 60 },
+  sign_in_per_ip: { limit: 30, windowSeconds: 15 * 60 },
+  email_change_per_user: { limit: 5, windowSeconds: 60 * 60 },
+  data_export_per_user: { limit: 5, windowSeconds: 60 * 60 },
+  step_up_per_user: { limit: 10, windowSeconds: 15 * 60 },
+  sign_up_per_ip: { limit: 10, windowSeconds: 60 * 60 },
+  password_reset_per_ip: { limit: 10, windowSeconds: 60 * 60 },
+  password_reset_per_recipient: { limit: 3, windowSeconds: 60 * 60 }
+} satisfies Record<string, RateLimitRule>
+
+export type RateLimitRuleName = keyof typeof DEFAULT_RATE_LIMITS
+
+export interface RateLimitHit {
+  hits: number
+  resetAt: number
+}
+
+/**
+ * Where hit counts live. `hit` must count atomically: two concurrent hits on
+ * the same key both have to be recorded.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowSeconds: number): Promise<RateLimitHit>
+}
+
+// Per-process counters. Fine for the dev server; serverless instances do not
+// share memory, so production uses the Postgres store.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitHit>()
+
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    const now = Date.now()
+
+    if (this.buckets.size > 10_000) {
+      for (const [bucketKey, bucket] of this.buckets) {
+        if (bucket.resetAt <= now) this.buckets.delete(bucketKey)
+      }
+    }
+
+    const current = this.buckets.get(key)
+    const bucket = current && current.resetAt > now
+      ? { hits: current.hits + 1, resetAt: current.resetAt }
+      : { hits: 1, resetAt: now + windowSeconds * 1000 }
+
+    this.buckets.set(key, bucket)
+    return bucket
+  }
+}
+
+// Counters in public.rate_limit_buckets, updated by the rate_limit_hit()
+// function from supabase/migrations/00002_rate_limits.sql
+export class PostgresRateLimitStore implements RateLimitStore {
+  async hit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    if (!supabaseAdmin) {
+      throw new Error('Service role key not configured')
+    }
+
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_hit', { p_key: key, p_window_seconds: windowSeconds })
+      .single()
+
+    if (error) throw error
+
+    const row = data as { hits: number; reset_at: string }
+    return { hits: row.hits, resetAt: new Date(row.reset_at).getTime() }
+  }
+}
+
+// RATE_LIMIT_STORE=memory|postgres; defaults to Postgres when deployed on Vercel
+const createStore = (): RateLimitStore => {
+  const configured = process.env.RATE_LIMIT_STORE || (process.env.VERCEL ? 'postgres' : 'memory')
+  return configured === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore()
+}
+
+let store: RateLimitStore = createStore()
+
+export const setRateLimitStore = (next: RateLimitStore) => {
+  store = next
+}
+
+// Limits are read from app_settings (rate_limit_<rule> = "<limit>/<seconds>")
+// and cached briefly so every request does not cost an extra query
+const SETTINGS_TTL_MS = 60 * 1000
+let cachedRules: { rules: Record<RateLimitRuleName, RateLimitRule>; expiresAt: number } | null = null
+
+export const parseRateLimitRule = (value: string | null | undefined): RateLimitRule | null => {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/)
+  if (!match) return null
+
+  const limit = Number(match[1])
+  const windowSeconds = Number(match[2])
+  return limit > 0 && windowSeconds > 0 ? { limit, windowSeconds } : null
+}
+
+const loadRules = async (): Promise<Record<RateLimitRuleName, RateLimitRule>> => {
+  if (cachedRules && cachedRules.expiresAt > Date.now()) {
+    return cachedRules.rules
+  }
+
+  const rules: Record<RateLimitRuleName, RateLimitRule> = { ...DEFAULT_RATE_LIMITS }
+
+  if (supabaseAdmin) {
+    const { data, error } = await supabaseAdmin
+      .from('app_settings')
+      .select('setting_key, setting_value')
+      .like('setting_key', 'rate_limit_%')
+
+    if (error) {
+      logger.warn('Failed to load rate limit settings, using defaults', { error })
+    }
+
+    data?.forEach(item => {
+      const name = item.setting_key.replace(/^rate_limit_/, '')
+      const rule = parseRateLimitRule(item.setting_value)
+      if (rule && name in DEFAULT_RATE_LIMITS) {
+        rules[name as RateLimitRuleName] = rule
+      }
+    })
+  }
+
+  cachedRules = { rules, expiresAt: Date.now() + SETTINGS_TTL_MS }
+  return rules
+}
+
+// First address in X-Forwarded-For is the client as seen by the Vercel edge
+export const getClientIp = (req: VercelRequest): string => {
+  const forwarded = req.headers['x-forwarded-for']
+  const value = Array.isArray(forwarded) ? forwarded[0] : forwarded
+  return value?.split(',')[0]?.trim() || req.socket?.remoteAddress || 'unknown'
+}
+
+// Subjects are hashed so the store never holds raw emails or addresses
+const bucketKey = (rule: RateLimitRuleName, subject: string) =>
+  `${rule}:${createHash('sha256').update(subject.trim().toLowerCase()).digest('hex')}`
+
+export interface RateLimitCheck {
+  rule: RateLimitRuleName
+  subject: string | null | undefined
+}
+
+const RULE_MESSAGES: Record<RateLimitRuleName, string> = {
+  email_per_user: 'You have sent too many emails',
+  email_per_ip: 'Too many emails have been sent from your network',
+  email_per_recipient: 'Too many emails have been sent to this recipient',
+  invitation_per_user: 'You have sent too many invitations',
+  invitation_per_recipient: 'Too many invitations have been sent to this email address',
+  mfa_recovery_per_user: 'Too many recovery code attempts',
+  password_check_per_ip: 'Too many password checks have been made from your network',
+  sign_in_per_ip: 'Too many sign-in attempts have been made from your network',
+  email_change_per_user: 'Too many email address changes have been started',
+  data_export_per_user: 'Too many data exports have been downloaded',
+  step_up_per_user: 'Too many re-authentication attempts',
+  sign_up_per_ip: 'Too many accounts have been created from your network',
+  password_reset_per_ip: 'Too many password resets have been requested from your network',
+  password_reset_per_recipient: 'Too many password reset emails have been sent to this address'
+}
+
+// Limits on guessing passwords and codes; refused rather than skipped when
+// the store is down
+const BRUTE_FORCE_RULES: RateLimitRuleName[] = ['sign_in_per_ip', 'mfa_recovery_per_user', 'step_up_per_user']
+
+const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`
+
+/**
+ * Count one hit for each check and throw RATE_LIMITED (429 with Retry-After)
+ * if any of them is over its limit. Checks without a subject are skipped.
+ * If the store is unavailable the request is let through and the failure
+ * logged, so a missing migration does not take email down. Rules guarding
+ * against guessing (BRUTE_FORCE_RULES) fail closed with SERVICE_UNAVAILABLE
+ * instead, since an outage would otherwise switch that protection off.
+ */
+export const enforceRateLimit = async (
+  res: VercelResponse,
+  checks: RateLimitCheck[]
+) => {
+  const rules = await loadRules()
+  let exceeded: { rule: RateLimitRuleName; retryAfter: number } | null = null
+
+  for (const { rule, subject } of checks) {
+    if (!subject) continue
+
+    const { limit, windowSeconds } = rules[rule]
+    let result: RateLimitHit
+    try {
+      result = await store.hit(bucketKey(rule, subject), windowSeconds)
+    } catch (error) {
+      if (BRUTE_FORCE_RULES.includes(rule)) {
+        logger.error('Rate limit store unavailable, refusing request', { rule, error })
+        throw new ApiError('SERVICE_UNAVAILABLE', 'Sign-in checks are unavailable right now. Try again in a moment.')
+      }
+      logger.warn('Rate limit store unavailable, allowing request', { rule, error })
+      continue
+    }
+
+    if (result.hits > limit) {
+      const retryAfter = Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000))
+      if (!exceeded || retryAfter > exceeded.retryAfter) {
+        exceeded = { rule, retryAfter }
+      }
+    }
+  }
+
+  if (exceeded) {
+    res.setHeader('Retry-After', String(exceeded.retryAfter))
+    throw new ApiError(
+      'RATE_LIMITED',
+      `${RULE_MESSAGES[exceeded.rule]}. Try again in ${formatWait(exceeded.retryAfter)}.`,
+      { rule: exceeded.rule, retryAfter: exceeded.retryAfter }
+    )
+  }
+}
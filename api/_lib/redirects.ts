@@ -0,0 +1,46 @@
+import type { VercelRequest } from '@vercel/node'
+import { ApiError } from './errors.js'
+import { getRequestHost } from './cors.js'
+
+// Links Supabase Auth emails on the API's behalf (sign-up confirmations,
+// password resets) must open this app's /auth/callback, as built by
+// buildAuthCallbackUrl() in src/lib/redirect.ts, and nothing else.
+
+const AUTH_CALLBACK_PATH = '/auth/callback'
+
+const isLocalHost = (hostname: string) => hostname === 'localhost' || hostname === '127.0.0.1'
+
+const getAppOrigin = () => {
+  try {
+    return process.env.VITE_APP_URL ? new URL(process.env.VITE_APP_URL).origin : null
+  } catch {
+    return null
+  }
+}
+
+// VITE_APP_URL, or the host serving the request (over HTTPS outside local development)
+const isAppOrigin = (url: URL, req: VercelRequest) =>
+  url.origin === getAppOrigin() ||
+  (url.host === getRequestHost(req) && (url.protocol === 'https:' || isLocalHost(url.hostname)))
+
+/**
+ * Check a `redirectTo` URL sent by the browser and return it. Anything other
+ * than /auth/callback on the app's own origin fails with VALIDATION_FAILED;
+ * the query string is kept, since it names the page to open afterwards.
+ */
+export const requireAuthCallbackUrl = (req: VercelRequest, value: string): string => {
+  let url: URL | null
+  try {
+    url = new URL(value)
+  } catch {
+    url = null
+  }
+
+  if (!url || url.pathname !== AUTH_CALLBACK_PATH || url.username || url.password || !isAppOrigin(url, req)) {
+    throw new ApiError('VALIDATION_FAILED', undefined, {
+      issues: [{ path: 'redirectTo', message: "Must be this app's /auth/callback URL", code: 'invalid_redirect' }]
+    })
+  }
+
+  return url.toString()
+}
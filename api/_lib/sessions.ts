@@ -0,0 +1,176 @@
+import type { VercelRequest } from '@vercel/node'
+import { supabaseAdmin } from './supabase.js'
+import { ApiError, databaseError } from './errors.js'
+import { getClientIp } from './rate-limit.js'
+import type { AuthenticatedCaller } from './auth.js'
+import { readTokenClaims } from '../../src/shared/jwt.js'
+import type { UserSession } from '../../src/shared/sessions.js'
+
+// Sessions are owned by Supabase Auth (auth.sessions); this module records
+// where each one signed in from (public.user_sessions,
+// supabase/migrations/00008_user_sessions.sql) and ends them.
+
+interface UserSessionRow {
+  id: string
+  user_id: string
+  user_agent: string | null
+  device: string | null
+  browser: string | null
+  ip_address: string | null
+  created_at: string
+  last_seen_at: string
+}
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome claims Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+]
+
+const DEVICES: Array<[RegExp, string]> = [
+  [/iPad/, 'iPad'],
+  [/iPhone/, 'iPhone'],
+  [/Android.*Mobile/, 'Android phone'],
+  [/Android/, 'Android tablet'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Macintosh|Mac OS X/, 'Mac'],
+  [/Linux/, 'Linux']
+]
+
+const matchLabel = (labels: Array<[RegExp, string]>, userAgent: string) =>
+  labels.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null
+
+// Device and browser names for a User-Agent header
+export const describeUserAgent = (userAgent: string) => ({
+  device: matchLabel(DEVICES, userAgent),
+  browser: matchLabel(BROWSERS, userAgent)
+})
+
+// Supabase Auth session id of a token (its `session_id` claim)
+export const readSessionId = (accessToken: string): string | null => {
+  const sessionId = readTokenClaims(accessToken)?.session_id
+  return typeof sessionId === 'string' ? sessionId : null
+}
+
+// Session the caller's request was made with
+export const getCurrentSessionId = (caller: AuthenticatedCaller) => {
+  const sessionId = readSessionId(caller.accessToken)
+  if (!sessionId) {
+    throw new ApiError('SESSION_EXPIRED', 'The access token does not belong to a session')
+  }
+  return sessionId
+}
+
+const toUserSession = (row: UserSessionRow, currentSessionId: string | null): UserSession => ({
+  id: row.id,
+  device: row.device,
+  browser: row.browser,
+  ipAddress: row.ip_address,
+  createdAt: row.created_at,
+  lastSeenAt: row.last_seen_at,
+  current: row.id === currentSessionId
+})
+
+/**
+ * Record the caller's session, or bump its last_seen_at when it is already
+ * known. The device, browser and IP are those of the latest request.
+ * `isNew` is true the first time a session is recorded, i.e. just after
+ * signing in.
+ */
+export const recordSession = async (
+  caller: AuthenticatedCaller,
+  req: VercelRequest
+): Promise<{ session: UserSession; isNew: boolean }> => {
+  const sessionId = getCurrentSessionId(caller)
+  const userAgent = req.headers['user-agent'] || ''
+
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from('user_sessions')
+    .select('id')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (lookupError) {
+    throw databaseError('Failed to load session', lookupError)
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('user_sessions')
+    .upsert({
+      id: sessionId,
+      user_id: caller.user.id,
+      user_agent: userAgent || null,
+      ...describeUserAgent(userAgent),
+      ip_address: getClientIp(req),
+      last_seen_at: new Date().toISOString()
+    }, { onConflict: 'id' })
+    .select()
+    .single()
+
+  if (error) {
+    throw databaseError('Failed to record session', error)
+  }
+
+  return { session: toUserSession(data as UserSessionRow, sessionId), isNew: !existing }
+}
+
+/**
+ * The user's sessions that are still active in Supabase Auth, most recently
+ * used first. `current` marks the caller's own session.
+ */
+export const listSessions = async (caller: AuthenticatedCaller): Promise<UserSession[]> => {
+  const { data, error } = await supabaseAdmin.rpc('list_user_sessions', { p_user_id: caller.user.id })
+
+  if (error) {
+    throw databaseError('Failed to load sessions', error)
+  }
+
+  const currentSessionId = readSessionId(caller.accessToken)
+  return ((data ?? []) as UserSessionRow[]).map(row => toUserSession(row, currentSessionId))
+}
+
+/**
+ * End sessions of a user in Supabase Auth: the listed ones, or all of them
+ * except `keepSessionId`. Their refresh tokens stop working and the API
+ * rejects their access tokens straight away. Returns how many were ended.
+ */
+export const revokeSessions = async (
+  userId: string,
+  options: { sessionIds?: string[]; keepSessionId?: string } = {}
+): Promise<number> => {
+  const { data, error } = await supabaseAdmin.rpc('revoke_user_sessions', {
+    p_user_id: userId,
+    p_session_ids: options.sessionIds ?? null,
+    p_keep_session_id: options.keepSessionId ?? null
+  })
+
+  if (error) {
+    throw databaseError('Failed to revoke sessions', error)
+  }
+
+  return (data as number | null) ?? 0
+}
+
+// Only needs to outlive the token exchange that follows it
+const SIGN_IN_GRANT_TTL_MS = 60 * 1000
+
+/**
+ * Let the API's next email token sign-in for the user through the access
+ * token hook even while passwordless sign-in is off
+ * (00020_passwordless_enforcement.sql). Call it just before exchanging a
+ * token the API generated or asked the user for.
+ */
+export const grantEmailTokenSignIn = async (userId: string) => {
+  const { error } = await supabaseAdmin
+    .from('sign_in_grants')
+    .upsert({ user_id: userId, expires_at: new Date(Date.now() + SIGN_IN_GRANT_TTL_MS).toISOString() })
+
+  if (error) {
+    throw databaseError('Failed to prepare the sign-in', error)
+  }
+}
@@ -0,0 +1,228 @@
+import type { VercelRequest } from '@vercel/node'
+import type { User } from '@supabase/supabase-js'
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import { createSignInClient, createTrustedSignInClient } from './supabase.js'
+import { ApiError } from './errors.js'
+import { logger } from './logger.js'
+import { hasVerifiedFactor } from './mfa.js'
+import { getCurrentSessionId, grantEmailTokenSignIn } from './sessions.js'
+import { getLockedUntil, isLockoutRejection, recordLoginEvent } from './login-events.js'
+import { getClientIp } from './rate-limit.js'
+import type { AuthenticatedCaller } from './auth.js'
+import {
+  STEP_UP_HEADER,
+  STEP_UP_TTL_SECONDS,
+  type StepUpGrant,
+  type StepUpMethod
+} from '../../src/shared/step-up.js'
+
+// Step-up tokens are `<payload>.<signature>`, both base64url: the payload
+// names the user, the Supabase session and the expiry, and is signed with
+// HMAC-SHA256. They are never stored; a token only works for the session that
+// asked for it and stops working when it expires.
+
+interface StepUpPayload {
+  sub: string
+  sid: string
+  exp: number
+}
+
+// STEP_UP_SECRET, or a key derived from the service role key so no extra
+// configuration is needed
+const getSigningKey = () => {
+  const secret = process.env.STEP_UP_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!secret) {
+    throw new ApiError('SERVER_MISCONFIGURED', 'STEP_UP_SECRET or SUPABASE_SERVICE_ROLE_KEY must be set')
+  }
+  return createHash('sha256').update(`step-up:${secret}`).digest()
+}
+
+const sign = (payload: string) =>
+  createHmac('sha256', getSigningKey()).update(payload).digest('base64url')
+
+// Ways the user can step up: their password if they have one, an
+// authenticator app if enrolled, and a code sent to their email when they have
+// neither (e.g. accounts that only sign in with OAuth)
+export const getStepUpMethods = (user: User): StepUpMethod[] => {
+  const methods: StepUpMethod[] = [
+    ...((user.identities ?? []).some(identity => identity.provider === 'email') ? ['password' as const] : []),
+    ...(hasVerifiedFactor(user) ? ['totp' as const] : [])
+  ]
+  return methods.length === 0 && user.email ? ['email'] : methods
+}
+
+export const issueStepUpToken = (caller: AuthenticatedCaller): StepUpGrant => {
+  const exp = Math.floor(Date.now() / 1000) + STEP_UP_TTL_SECONDS
+  const payload: StepUpPayload = { sub: caller.user.id, sid: getCurrentSessionId(caller), exp }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+  return {
+    token: `${encoded}.${sign(encoded)}`,
+    expiresAt: new Date(exp * 1000).toISOString()
+  }
+}
+
+const readStepUpToken = (req: VercelRequest): StepUpPayload | null => {
+  const header = req.headers[STEP_UP_HEADER.toLowerCase()]
+  const token = Array.isArray(header) ? header[0] : header
+  const [encoded, signature] = (token ?? '').split('.')
+  if (!encoded || !signature) return null
+
+  const expected = Buffer.from(sign(encoded))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as StepUpPayload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Throw STEP_UP_REQUIRED unless the request carries a valid step-up token for
+ * the caller's current session. The error lists the methods the caller can
+ * step up with.
+ */
+export const requireStepUp = (req: VercelRequest, caller: AuthenticatedCaller) => {
+  const payload = readStepUpToken(req)
+  const valid = !!payload &&
+    payload.sub === caller.user.id &&
+    payload.sid === getCurrentSessionId(caller) &&
+    payload.exp * 1000 > Date.now()
+
+  if (!valid) {
+    throw new ApiError('STEP_UP_REQUIRED', undefined, { methods: getStepUpMethods(caller.user) })
+  }
+}
+
+/**
+ * Check the caller's password. Failures count towards the sign-in lockout,
+ * so a stolen session cannot be used to guess the password.
+ */
+export const verifyPassword = async (req: VercelRequest, caller: AuthenticatedCaller, password: string) => {
+  const email = caller.user.email?.toLowerCase()
+  if (!email || !getStepUpMethods(caller.user).includes('password')) {
+    throw new ApiError('VALIDATION_FAILED', 'This account has no password; use an authenticator code instead')
+  }
+
+  const lockedUntil = await getLockedUntil(email)
+  if (lockedUntil) {
+    throw new ApiError('ACCOUNT_LOCKED', undefined, { until: lockedUntil.toISOString() })
+  }
+
+  const client = createTrustedSignInClient(getClientIp(req))
+  const { error } = await client.auth.signInWithPassword({ email, password })
+
+  if (error) {
+    if (error.code === 'invalid_credentials') {
+      await recordLoginEvent(req, {
+        userId: caller.user.id,
+        email,
+        success: false,
+        method: 'password',
+        failureReason: 'step_up_failed'
+      })
+      throw new ApiError('STEP_UP_FAILED')
+    }
+    if (isLockoutRejection(error)) {
+      const until = await getLockedUntil(email)
+      throw new ApiError('ACCOUNT_LOCKED', undefined, until ? { until: until.toISOString() } : undefined)
+    }
+    logger.error('Step-up password check failed', { error })
+    throw new ApiError('INTERNAL_ERROR', 'Could not check the password')
+  }
+
+  // Only the check was wanted, not the session it created
+  const { error: signOutError } = await client.auth.signOut({ scope: 'local' })
+  if (signOutError) {
+    logger.warn('Failed to end the step-up check session', { error: signOutError })
+  }
+}
+
+/**
+ * Check a code from one of the caller's authenticator apps, by challenging
+ * and verifying the factor with Supabase Auth as the caller.
+ */
+export const verifyTotp = async (caller: AuthenticatedCaller, factorId: string, code: string) => {
+  const factor = (caller.user.factors ?? []).find(item => item.id === factorId && item.status === 'verified')
+  if (!factor) {
+    throw new ApiError('VALIDATION_FAILED', 'Unknown authenticator')
+  }
+
+  const authUrl = `${process.env.VITE_SUPABASE_URL}/auth/v1/factors/${encodeURIComponent(factorId)}`
+  const headers = {
+    apikey: process.env.VITE_SUPABASE_ANON_KEY ?? '',
+    Authorization: `Bearer ${caller.accessToken}`,
+    'Content-Type': 'application/json'
+  }
+
+  const challenge = await fetch(`${authUrl}/challenge`, { method: 'POST', headers, body: '{}' })
+  if (!challenge.ok) {
+    logger.warn('MFA challenge for step-up failed', { status: challenge.status })
+    throw new ApiError('STEP_UP_FAILED')
+  }
+  const { id: challengeId } = await challenge.json() as { id: string }
+
+  const verify = await fetch(`${authUrl}/verify`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ challenge_id: challengeId, code })
+  })
+  if (!verify.ok) {
+    throw new ApiError('STEP_UP_FAILED')
+  }
+}
+
+const requireEmailMethod = (caller: AuthenticatedCaller) => {
+  if (!caller.user.email || !getStepUpMethods(caller.user).includes('email')) {
+    throw new ApiError('VALIDATION_FAILED', 'Confirm with your password or authenticator app instead')
+  }
+  return caller.user.email
+}
+
+/**
+ * Email the caller a one-time code to step up with. Supabase Auth sends it
+ * with the Magic Link template, like a passwordless sign-in.
+ */
+export const sendEmailCode = async (req: VercelRequest, caller: AuthenticatedCaller) => {
+  const email = requireEmailMethod(caller)
+
+  const { error } = await createTrustedSignInClient(getClientIp(req)).auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false }
+  })
+
+  if (error) {
+    if (error.status === 429) {
+      throw new ApiError('RATE_LIMITED', error.message)
+    }
+    logger.error('Step-up email code could not be sent', { error })
+    throw new ApiError('EMAIL_SEND_FAILED', 'The code could not be sent')
+  }
+}
+
+/**
+ * Check a code sent by sendEmailCode(). Supabase Auth can only check it by
+ * signing in, so the session that creates is ended straight away.
+ */
+export const verifyEmailCode = async (req: VercelRequest, caller: AuthenticatedCaller, code: string) => {
+  const email = requireEmailMethod(caller)
+
+  await grantEmailTokenSignIn(caller.user.id)
+  const client = createSignInClient(getClientIp(req))
+  const { error } = await client.auth.verifyOtp({ email, token: code, type: 'email' })
+
+  if (error) {
+    if (error.status && error.status < 500) {
+      throw new ApiError('STEP_UP_FAILED')
+    }
+    logger.error('Step-up email code check failed', { error })
+    throw new ApiError('INTERNAL_ERROR', 'Could not check the code')
+  }
+
+  const { error: signOutError } = await client.auth.signOut({ scope: 'local' })
+  if (signOutError) {
+    logger.warn('Failed to end the step-up check session', { error: signOutError })
+  }
+}
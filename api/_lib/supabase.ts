@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Files under api/_lib are shared by the serverless handlers. Vercel does not
+// expose underscore-prefixed paths as routes.
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL
+const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!supabaseUrl || !supabaseAnonKey) {
+  throw new Error("Missing Supabase configuration. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.")
+}
+
+const serverAuthOptions = {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+}
+
+// Client with anon key (subject to RLS)
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, serverAuthOptions)
+
+const forwardedFor = (clientIp?: string) => ({
+  global: {
+    headers: clientIp && clientIp !== 'unknown' ? { 'X-Forwarded-For': clientIp } : {}
+  }
+})
+
+// Anon client for signing a user in on their behalf. The shared client above
+// must not be used for that, since it would hold on to the session. Pass the
+// caller's IP address (getClientIp) so Supabase Auth's per-IP limits apply to
+// the user rather than to this server.
+export const createSignInClient = (clientIp?: string) =>
+  createClient(supabaseUrl, supabaseAnonKey, { ...serverAuthOptions, ...forwardedFor(clientIp) })
+
+// The same with the service role key, for checks on a caller who is already
+// signed in (step-up). Supabase Auth skips its CAPTCHA for the service role,
+// and these requests have no widget to take a token from.
+export const createTrustedSignInClient = (clientIp?: string) => {
+  if (!supabaseServiceKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY must be set')
+  }
+  return createClient(supabaseUrl, supabaseServiceKey, { ...serverAuthOptions, ...forwardedFor(clientIp) })
+}
+
+// Admin client with service role key to bypass RLS
+export const supabaseAdmin = supabaseServiceKey
+  ? createClient(supabaseUrl, supabaseServiceKey, serverAuthOptions)
+  : null
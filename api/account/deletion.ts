@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { cancelDeletion, getDeletionRequest, hasOtherActiveAdmin, scheduleDeletion } from '../_lib/privacy.js'
+import { accountDeletionRequestSchema } from '../../src/shared/privacy.js'
+
+// The last active admin would leave nobody able to manage the app
+const assertNotLastAdmin = async (userId: string, role: { role: string; status: string } | null) => {
+  if (role?.role !== 'admin' || role.status !== 'active') return
+
+  if (!await hasOtherActiveAdmin(userId)) {
+    throw new ApiError('CONFLICT', 'Make another user an admin before deleting the only admin account')
+  }
+}
+
+// GET    /api/account/deletion — the caller's pending deletion, if any
+// POST   /api/account/deletion — schedule the caller's account for deletion
+//                                after the grace period
+// DELETE /api/account/deletion — cancel a scheduled deletion
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method === 'GET') {
+    const deletion = await getDeletionRequest(caller.user.id)
+    return res.status(200).json({ success: true, deletion })
+  }
+
+  refuseImpersonation(caller)
+
+  if (req.method === 'POST') {
+    const { confirmEmail } = accountDeletionRequestSchema.parse(req.body)
+    if (confirmEmail !== caller.user.email?.toLowerCase()) {
+      throw new ApiError('VALIDATION_FAILED', 'Type your email address to confirm', {
+        issues: [{ path: 'confirmEmail', message: 'Does not match your email address', code: 'custom' }]
+      })
+    }
+
+    await assertNotLastAdmin(caller.user.id, caller.role)
+
+    const deletion = await scheduleDeletion(caller.user.id)
+    logger.info('Account deletion scheduled', { scheduledFor: deletion.scheduledFor })
+    return res.status(200).json({ success: true, deletion })
+  }
+
+  const cancelled = await cancelDeletion(caller.user.id)
+  if (cancelled) {
+    logger.info('Account deletion cancelled')
+  }
+
+  return res.status(200).json({ success: true, cancelled })
+})
@@ -0,0 +1,26 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { enforceRateLimit } from '../_lib/rate-limit.js'
+import { buildDataExport } from '../_lib/privacy.js'
+
+// GET /api/account/export — everything the app stores about the caller, as
+// JSON for the Privacy section of the profile page to download
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  // Personal data goes to the user themselves, not to an admin viewing as them
+  refuseImpersonation(caller)
+  res.setHeader('Cache-Control', 'no-store')
+
+  await enforceRateLimit(res, [{ rule: 'data_export_per_user', subject: caller.user.id }])
+
+  const data = await buildDataExport(caller.user)
+  logger.info('Data export generated')
+
+  return res.status(200).json({ success: true, export: data })
+})
@@ -1,264 +1,51 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.VITE_SUPABASE_URL
-const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-// Debug logging to see what env vars are available
-console.log('ENV check - Service key exists:', !!supabaseServiceKey)
-console.log('ENV check - Service key prefix:', supabaseServiceKey ? supabaseServiceKey.substring(0, 20) + '...' : 'not set')
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error("Missing Supabase configuration. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.")
-}
-
-// Client with anon key for checking admin permissions (subject to RLS)
-const supabase = createClient(supabaseUrl, supabaseAnonKey)
-
-// Admin client with service role key to bypass RLS
-const supabaseAdmin = supabaseServiceKey 
-  ? createClient(supabaseUrl, supabaseServiceKey)
-  : null
-
-interface AdminUsersRequest {
-  adminUserId: string
-  action: 'getAllUsers' | 'updateUserRole' | 'deleteUser' | 'cancelInvitation' | 'createInvitation'
-  targetUserId?: string
-  invitationId?: string
-  invitationData?: {
-    email: string
-    role: 'admin' | 'user' | 'moderator'
-  }
-  updates?: {
-    role?: 'admin' | 'user' | 'moderator'
-    status?: 'active' | 'suspended' | 'deleted' | 'cancelled'
-    notes?: string
-  }
-}
-
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
-) {
-  // Enable CORS for frontend
-  res.setHeader('Access-Control-Allow-Credentials', 'true')
-  res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT')
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version')
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end()
-    return
-  }
-
+import { supabaseAdmin } from './_lib/supabase.js'
+import { requireAdmin } from './_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from './_lib/errors.js'
+import { enforceRateLimit } from './_lib/rate-limit.js'
+import { withIdempotency } from './_lib/idempotency.js'
+import { requireStepUp } from './_lib/step-up.js'
+import {
+  adminUsersActionSchema,
+  parseAdminUsersInput
+} from '../src/shared/admin-users.js'
+
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' })
+    throw new ApiError('METHOD_NOT_ALLOWED')
   }
 
-  try {
-    const { adminUserId, action, targetUserId, invitationId, invitationData, updates } = req.body as AdminUsersRequest
-
-    if (!adminUserId || !action) {
-      return res.status(400).json({ error: 'Missing required fields: adminUserId and action' })
-    }
-
-    // Check if service role key is available first
-    if (!supabaseAdmin) {
-      console.error('Service role key not available in environment')
-      return res.status(500).json({ error: 'Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY environment variable.' })
-    }
-
-    // Verify admin permissions using service role key to bypass RLS
-    const { data: roleData, error: roleError } = await supabaseAdmin
-      .from('user_roles')
-      .select('role, status')
-      .eq('user_id', adminUserId)
-      .single()
-
-    if (roleError) {
-      console.error('Admin check error:', roleError)
-      console.error('Using service role?', !!supabaseAdmin)
-      console.error('Service key length:', supabaseServiceKey?.length)
-      return res.status(403).json({ error: 'Admin access required - database error' })
-    }
-
-    if (!roleData || roleData.role !== 'admin' || roleData.status !== 'active') {
-      console.log('Admin check failed:', { roleData, adminUserId })
-      return res.status(403).json({ error: 'Admin access required - insufficient permissions' })
-    }
+  // The caller is resolved from the Authorization header, never from the body
+  const caller = await requireAdmin(req)
+  const adminUserId = caller.user.id
+  const adminEmail = caller.user.email || ''
 
+  // Every payload is validated against the shared contract before use.
+  // Listing, updating and deleting users live under /api/admin/users.
+  const action = adminUsersActionSchema.parse(req.body?.action)
 
+  // A retried or double-submitted action is answered once (Idempotency-Key header)
+  return withIdempotency(req, res, adminUserId, async () => {
     switch (action) {
-      case 'getAllUsers': {
-        // Get all user roles using service role key to bypass RLS
-        const { data: roles, error: rolesError } = await supabaseAdmin
-          .from('user_roles')
-          .select('*')
-          .order('created_at', { ascending: false })
-
-        if (rolesError) {
-          console.error('Error fetching users:', rolesError)
-          return res.status(500).json({ error: 'Failed to fetch users' })
-        }
-
-        // Get metadata for users who have user_id (not just invited)
-        const userIds = (roles || []).filter(r => r.user_id).map(r => r.user_id)
-        let metadata: any[] = []
-        
-        if (userIds.length > 0) {
-          const { data: metadataData } = await supabaseAdmin
-            .from('user_metadata')
-            .select('*')
-            .in('user_id', userIds)
-          
-          metadata = metadataData || []
-        }
-
-        // Combine roles with metadata
-        const users = (roles || []).map(role => {
-          const userMetadata = role.user_id 
-            ? metadata.find(m => m.user_id === role.user_id) 
-            : null
-          
-          return {
-            ...role,
-            metadata: userMetadata || null
-          }
-        })
-
-        // Log admin action
-        await supabaseAdmin
-          .from('admin_audit_log')
-          .insert({
-            admin_user_id: adminUserId,
-            action: 'view_all_users',
-            details: { count: users.length }
-          })
-
-        return res.status(200).json({ 
-          success: true, 
-          users,
-          total: users.length 
-        })
-      }
-
-      case 'updateUserRole': {
-        if (!targetUserId || !updates) {
-          return res.status(400).json({ error: 'Missing targetUserId or updates' })
-        }
-
-        const { error } = await supabaseAdmin
-          .from('user_roles')
-          .update({
-            ...updates,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', targetUserId)
-
-        if (error) {
-          return res.status(500).json({ error: error.message })
-        }
-
-        // Log the admin action
-        await supabaseAdmin
-          .from('admin_audit_log')
-          .insert({
-            admin_user_id: adminUserId,
-            action: 'user_updated',
-            target_user_id: targetUserId,
-            details: updates
-          })
-
-        return res.status(200).json({ success: true })
-      }
-
-      case 'deleteUser': {
-        // targetUserId might be null for invitations that were never accepted
-        // In this case, we need to delete by email from user_roles table
-        
-        if (!targetUserId) {
-          // This is an invitation or user without auth account
-          // Delete directly from user_roles table
-          const { targetEmail } = req.body
-          
-          if (!targetEmail) {
-            return res.status(400).json({ error: 'Missing targetUserId and targetEmail' })
-          }
-
-          // Delete from user_roles table
-          const { error: deleteError } = await supabaseAdmin
-            .from('user_roles')
-            .delete()
-            .eq('email', targetEmail)
-
-          if (deleteError) {
-            console.error('Failed to delete user record:', deleteError)
-            return res.status(500).json({ error: `Failed to delete user: ${deleteError.message}` })
-          }
-
-          // Log the admin action
-          await supabaseAdmin
-            .from('admin_audit_log')
-            .insert({
-              admin_user_id: adminUserId,
-              action: 'user_record_deleted',
-              details: { 
-                email: targetEmail,
-                permanently_deleted: true,
-                deleted_at: new Date().toISOString()
-              }
-            })
-
-          return res.status(200).json({ success: true })
-        }
-
-        // User has an auth account - delete from Supabase Auth
-        // This will CASCADE DELETE all related records in:
-        // - profiles table
-        // - user_roles table  
-        // - user_metadata table
-        // - user_api_keys table
-        const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(targetUserId)
-
-        if (authError) {
-          console.error('Failed to delete user from auth:', authError)
-          return res.status(500).json({ error: `Failed to delete user: ${authError.message}` })
-        }
-
-        // Log the admin action
-        // Note: The user is already deleted, but we preserve the audit trail
-        await supabaseAdmin
-          .from('admin_audit_log')
-          .insert({
-            admin_user_id: adminUserId,
-            action: 'user_permanently_deleted',
-            target_user_id: targetUserId,
-            details: { 
-              permanently_deleted: true,
-              deleted_at: new Date().toISOString()
-            }
-          })
-
-        return res.status(200).json({ success: true })
-      }
-
       case 'cancelInvitation': {
-        if (!invitationId) {
-          return res.status(400).json({ error: 'Missing invitationId' })
-        }
+        const { invitationId } = parseAdminUsersInput(action, req.body)
 
         // Update invitation status to cancelled
-        const { error } = await supabaseAdmin
+        const { data: cancelled, error } = await supabaseAdmin
           .from('user_roles')
           .update({ 
             status: 'cancelled',
             updated_at: new Date().toISOString()
           })
           .eq('invitation_id', invitationId)
+          .select('id')
 
         if (error) {
-          return res.status(500).json({ error: error.message })
+          throw databaseError('Failed to cancel invitation', error)
+        }
+
+        if (!cancelled?.length) {
+          throw new ApiError('INVITATION_NOT_FOUND')
         }
 
         // Log the admin action
@@ -266,6 +53,7 @@ export default async function handler(
           .from('admin_audit_log')
           .insert({
             admin_user_id: adminUserId,
+            admin_email: adminEmail,
             action: 'invitation_cancelled',
             details: { invitationId }
           })
@@ -274,13 +62,21 @@ export default async function handler(
       }
 
       case 'createInvitation': {
-        if (!invitationData?.email || !invitationData?.role) {
-          return res.status(400).json({ error: 'Missing invitation data' })
+        const { invitationData } = parseAdminUsersInput(action, req.body)
+
+        // Inviting an admin grants admin access, like promoting a user
+        if (invitationData.role === 'admin') {
+          requireStepUp(req, caller)
         }
 
+        await enforceRateLimit(res, [
+          { rule: 'invitation_per_user', subject: adminUserId },
+          { rule: 'invitation_per_recipient', subject: invitationData.email }
+        ])
+
         // Generate a UUID for the invitation
         const invitationId = crypto.randomUUID()
-        
+      
         // Set expiration to 7 days from now
         const expiresAt = new Date()
         expiresAt.setDate(expiresAt.getDate() + 7)
@@ -301,16 +97,19 @@ export default async function handler(
           .single()
 
         if (error) {
-          console.error('Failed to create invitation:', error)
-          return res.status(500).json({ error: error.message })
+          // user_roles.email is unique
+          if (error.code === '23505') {
+            throw new ApiError('CONFLICT', 'A user or invitation already exists for this email')
+          }
+          throw databaseError('Failed to create invitation', error)
         }
 
-        // Log the admin action (admin_email can be looked up via admin_user_id if needed)
+        // Log the admin action
         await supabaseAdmin
           .from('admin_audit_log')
           .insert({
             admin_user_id: adminUserId,
-            admin_email: '', // Can be populated via join when displaying logs
+            admin_email: adminEmail,
             action: 'user_invited',
             target_email: invitationData.email,
             details: { 
@@ -326,14 +125,6 @@ export default async function handler(
           data 
         })
       }
-
-      default:
-        return res.status(400).json({ error: 'Invalid action' })
     }
-  } catch (error) {
-    console.error('Admin users API error:', error)
-    return res.status(500).json({
-      error: error instanceof Error ? error.message : 'Internal server error'
-    })
-  }
-}
\ No newline at end of file
+  })
+})
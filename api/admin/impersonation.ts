@@ -0,0 +1,85 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { User } from '@supabase/supabase-js'
+import { supabaseAdmin } from '../_lib/supabase.js'
+import { requireAdmin } from '../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../_lib/errors.js'
+import { withIdempotency } from '../_lib/idempotency.js'
+import { getActiveImpersonation, startImpersonation, stopImpersonation } from '../_lib/impersonation.js'
+import { startImpersonationSchema, type Impersonation } from '../../src/shared/impersonation.js'
+
+// The impersonated user's auth record, which the client shows in place of
+// the admin's own while impersonating
+const loadTargetUser = async (impersonation: Impersonation): Promise<User> => {
+  const { data: { user }, error } = await supabaseAdmin.auth.admin.getUserById(impersonation.targetUserId)
+  if (error || !user) {
+    throw new ApiError('USER_NOT_FOUND', 'The impersonated user no longer exists')
+  }
+  return user
+}
+
+// GET    /api/admin/impersonation — the caller's active impersonation session
+// POST   /api/admin/impersonation — start viewing the app as a user
+// DELETE /api/admin/impersonation — stop impersonating
+//
+// Called without the X-Impersonation-Id header: requireAdmin refuses
+// impersonated requests.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await requireAdmin(req)
+  const adminUserId = caller.user.id
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method === 'GET') {
+    const impersonation = await getActiveImpersonation(caller)
+    const user = impersonation ? await loadTargetUser(impersonation) : null
+    return res.status(200).json({ success: true, impersonation, user })
+  }
+
+  if (req.method === 'DELETE') {
+    const stopped = await stopImpersonation(caller)
+    return res.status(200).json({ success: true, stopped })
+  }
+
+  return withIdempotency(req, res, adminUserId, async () => {
+    const { userId, durationMinutes, readOnly, reason } = startImpersonationSchema.parse(req.body)
+
+    const { data: target, error: lookupError } = await supabaseAdmin
+      .from('user_roles')
+      .select('id, user_id, email, role')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw databaseError('Failed to load user', lookupError)
+    }
+
+    if (!target) {
+      throw new ApiError('USER_NOT_FOUND')
+    }
+
+    if (!target.user_id) {
+      throw new ApiError('CONFLICT', 'Invitations cannot be impersonated until they are accepted')
+    }
+
+    if (target.user_id === adminUserId) {
+      throw new ApiError('CONFLICT', 'You cannot impersonate yourself')
+    }
+
+    // Impersonating another admin would hand over their admin access
+    if (target.role === 'admin') {
+      throw new ApiError('FORBIDDEN', 'Admins cannot be impersonated')
+    }
+
+    const impersonation = await startImpersonation(
+      caller,
+      { userId: target.user_id, email: target.email },
+      { durationMinutes, readOnly, reason }
+    )
+    const user = await loadTargetUser(impersonation)
+
+    return res.status(200).json({ success: true, impersonation, user })
+  })
+})
@@ -0,0 +1,201 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../../_lib/supabase.js'
+import { requireAdmin } from '../../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../../_lib/errors.js'
+import { withIdempotency } from '../../_lib/idempotency.js'
+import { revokeSessions } from '../../_lib/sessions.js'
+import { requireStepUp } from '../../_lib/step-up.js'
+import {
+  userIdParamSchema,
+  userUpdatesSchema
+} from '../../../src/shared/admin-users.js'
+
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await requireAdmin(req)
+  const adminUserId = caller.user.id
+  const adminEmail = caller.user.email || ''
+
+  // Deleting a user or making someone an admin needs a recent re-authentication
+  if (req.method === 'DELETE' || req.body?.role === 'admin') {
+    requireStepUp(req, caller)
+  }
+
+  // Replaying before the lookup lets a retried DELETE succeed instead of finding no user
+  return withIdempotency(req, res, adminUserId, async () => {
+    const id = userIdParamSchema.parse(req.query.id)
+
+    const { data: target, error: lookupError } = await supabaseAdmin
+      .from('user_roles')
+      .select('id, user_id, email, role, status')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw databaseError('Failed to load user', lookupError)
+    }
+
+    if (!target) {
+      throw new ApiError('USER_NOT_FOUND')
+    }
+
+    // Re-activating a suspended or deactivated admin gives admin access back
+    if (req.method === 'PATCH' && req.body?.status === 'active' && target.role === 'admin') {
+      requireStepUp(req, caller)
+    }
+
+    if (req.method === 'PATCH') {
+      const updates = userUpdatesSchema.parse(req.body)
+
+      // Pending invitations have no account or metadata row yet
+      if (!target.user_id) {
+        throw new ApiError('CONFLICT', 'Invitations cannot be updated. Cancel the invitation and invite again instead.')
+      }
+
+      const { notes, ...roleUpdates } = updates
+      const suspending = roleUpdates.status === 'suspended'
+
+      // Otherwise the last admin could lock everyone out of the admin area
+      if (target.user_id === adminUserId) {
+        if (roleUpdates.role !== undefined && roleUpdates.role !== 'admin') {
+          throw new ApiError('CONFLICT', 'You cannot remove your own admin role')
+        }
+        if (roleUpdates.status !== undefined && roleUpdates.status !== 'active') {
+          throw new ApiError('CONFLICT', suspending ? 'You cannot suspend your own account' : 'You cannot deactivate your own account')
+        }
+      }
+
+      // Only whitelisted columns are written; notes live in user_metadata
+      if (Object.keys(roleUpdates).length > 0) {
+        const suspension = suspending
+          ? {
+              suspended_reason: roleUpdates.suspended_reason || null,
+              suspended_until: roleUpdates.suspended_until ?? null,
+              suspended_at: new Date().toISOString(),
+              suspended_by: adminUserId
+            }
+          : roleUpdates.status
+            ? { suspended_reason: null, suspended_until: null, suspended_at: null, suspended_by: null }
+            : {}
+
+        const { error } = await supabaseAdmin
+          .from('user_roles')
+          .update({
+            ...roleUpdates,
+            ...suspension,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', target.id)
+
+        if (error) {
+          throw databaseError('Failed to update user', error)
+        }
+      }
+
+      // Access tokens carry the role and status, so signed-in devices are signed
+      // out whenever either changes; signing in again picks up the new ones or
+      // shows the suspension
+      const roleChanged = roleUpdates.role !== undefined && roleUpdates.role !== target.role
+      const statusChanged = roleUpdates.status !== undefined && roleUpdates.status !== target.status
+      if (suspending || roleChanged || statusChanged) {
+        await revokeSessions(target.user_id)
+      }
+
+      if (notes !== undefined) {
+        const { error } = await supabaseAdmin
+          .from('user_metadata')
+          .update({
+            admin_notes: notes,
+            updated_at: new Date().toISOString()
+          })
+          .eq('user_id', target.user_id)
+
+        if (error) {
+          throw databaseError('Failed to update user notes', error)
+        }
+      }
+
+      // Log the admin action
+      await supabaseAdmin
+        .from('admin_audit_log')
+        .insert({
+          admin_user_id: adminUserId,
+          admin_email: adminEmail,
+          action: 'user_updated',
+          target_user_id: target.user_id,
+          target_email: target.email,
+          details: updates
+        })
+
+      return res.status(200).json({ success: true })
+    }
+
+    // DELETE
+    if (target.user_id === adminUserId) {
+      throw new ApiError('CONFLICT', 'You cannot delete your own account here')
+    }
+
+    if (!target.user_id) {
+      // This is an invitation or user without auth account
+      // Delete directly from user_roles table
+      const { error: deleteError } = await supabaseAdmin
+        .from('user_roles')
+        .delete()
+        .eq('id', target.id)
+
+      if (deleteError) {
+        throw databaseError('Failed to delete user record', deleteError)
+      }
+
+      // Log the admin action
+      await supabaseAdmin
+        .from('admin_audit_log')
+        .insert({
+          admin_user_id: adminUserId,
+          admin_email: adminEmail,
+          action: 'user_record_deleted',
+          target_email: target.email,
+          details: {
+            email: target.email,
+            permanently_deleted: true,
+            deleted_at: new Date().toISOString()
+          }
+        })
+
+      return res.status(200).json({ success: true })
+    }
+
+    // User has an auth account - delete from Supabase Auth
+    // This will CASCADE DELETE all related records in:
+    // - profiles table
+    // - user_roles table
+    // - user_metadata table
+    // - user_api_keys table
+    const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(target.user_id)
+
+    if (authError) {
+      throw databaseError('Failed to delete user from auth', authError)
+    }
+
+    // Log the admin action
+    // Note: The user is already deleted, but we preserve the audit trail
+    await supabaseAdmin
+      .from('admin_audit_log')
+      .insert({
+        admin_user_id: adminUserId,
+        admin_email: adminEmail,
+        action: 'user_permanently_deleted',
+        target_user_id: target.user_id,
+        target_email: target.email,
+        details: {
+          permanently_deleted: true,
+          deleted_at: new Date().toISOString()
+        }
+      })
+
+    return res.status(200).json({ success: true })
+  })
+})
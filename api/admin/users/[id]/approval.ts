@@ -0,0 +1,80 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../../../_lib/supabase.js'
+import { requireAdmin } from '../../../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../../../_lib/errors.js'
+import { withIdempotency } from '../../../_lib/idempotency.js'
+import { signupDecisionSchema, userIdParamSchema } from '../../../../src/shared/admin-users.js'
+
+// POST /api/admin/users/:id/approval — approve or reject a sign-up made under
+// the approval sign-up policy
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await requireAdmin(req)
+  const adminUserId = caller.user.id
+
+  return withIdempotency(req, res, adminUserId, async () => {
+    const id = userIdParamSchema.parse(req.query.id)
+    const { decision } = signupDecisionSchema.parse(req.body)
+
+    const { data: target, error: lookupError } = await supabaseAdmin
+      .from('user_roles')
+      .select('id, user_id, email, status, created_at')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw databaseError('Failed to load user', lookupError)
+    }
+
+    if (!target || !target.user_id) {
+      throw new ApiError('USER_NOT_FOUND')
+    }
+
+    if (target.status !== 'pending') {
+      throw new ApiError('CONFLICT', 'This sign-up is not waiting for approval')
+    }
+
+    if (decision === 'approve') {
+      // The status check keeps two admins from deciding the same sign-up twice
+      const { data: approved, error: updateError } = await supabaseAdmin
+        .from('user_roles')
+        .update({ status: 'active', updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('id')
+
+      if (updateError) {
+        throw databaseError('Failed to approve sign-up', updateError)
+      }
+
+      if (!approved?.length) {
+        throw new ApiError('CONFLICT', 'This sign-up is not waiting for approval')
+      }
+    } else {
+      // Deleting the auth user cascades to the profile, role and metadata rows
+      const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(target.user_id)
+
+      if (authError) {
+        throw databaseError('Failed to delete rejected user from auth', authError)
+      }
+    }
+
+    await supabaseAdmin
+      .from('admin_audit_log')
+      .insert({
+        admin_user_id: adminUserId,
+        admin_email: caller.user.email || '',
+        action: decision === 'approve' ? 'signup_approved' : 'signup_rejected',
+        target_user_id: target.user_id,
+        target_email: target.email,
+        details: {
+          signed_up_at: target.created_at
+        }
+      })
+
+    return res.status(200).json({ success: true })
+  })
+})
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../../../_lib/supabase.js'
+import { requireAdmin } from '../../../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../../../_lib/errors.js'
+import { getLoginHistory } from '../../../_lib/login-events.js'
+import { userIdParamSchema } from '../../../../src/shared/admin-users.js'
+
+// GET /api/admin/users/:id/login-history — a user's recent sign-ins and
+// whether their account is locked
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  await requireAdmin(req)
+  res.setHeader('Cache-Control', 'no-store')
+
+  const id = userIdParamSchema.parse(req.query.id)
+
+  const { data: target, error: lookupError } = await supabaseAdmin
+    .from('user_roles')
+    .select('user_id, email')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (lookupError) {
+    throw databaseError('Failed to load user', lookupError)
+  }
+
+  if (!target) {
+    throw new ApiError('USER_NOT_FOUND')
+  }
+
+  if (!target.user_id) {
+    throw new ApiError('CONFLICT', 'Invitations have no sign-in history')
+  }
+
+  const history = await getLoginHistory(target.user_id, target.email)
+
+  return res.status(200).json({ success: true, ...history })
+})
@@ -0,0 +1,60 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../../../_lib/supabase.js'
+import { requireAdmin } from '../../../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../../../_lib/errors.js'
+import { withIdempotency } from '../../../_lib/idempotency.js'
+import { revokeSessions } from '../../../_lib/sessions.js'
+import { userIdParamSchema } from '../../../../src/shared/admin-users.js'
+
+// POST /api/admin/users/:id/sign-out — end every session of a user
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await requireAdmin(req)
+  const adminUserId = caller.user.id
+
+  return withIdempotency(req, res, adminUserId, async () => {
+    const id = userIdParamSchema.parse(req.query.id)
+
+    const { data: target, error: lookupError } = await supabaseAdmin
+      .from('user_roles')
+      .select('id, user_id, email')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (lookupError) {
+      throw databaseError('Failed to load user', lookupError)
+    }
+
+    if (!target) {
+      throw new ApiError('USER_NOT_FOUND')
+    }
+
+    if (!target.user_id) {
+      throw new ApiError('CONFLICT', 'Invitations have no sessions to sign out')
+    }
+
+    if (target.user_id === adminUserId) {
+      throw new ApiError('CONFLICT', 'Use the Sessions section of your profile to sign out your own sessions')
+    }
+
+    const revoked = await revokeSessions(target.user_id)
+
+    await supabaseAdmin
+      .from('admin_audit_log')
+      .insert({
+        admin_user_id: adminUserId,
+        admin_email: caller.user.email || '',
+        action: 'user_signed_out',
+        target_user_id: target.user_id,
+        target_email: target.email,
+        details: {
+          sessions_revoked: revoked
+        }
+      })
+
+    return res.status(200).json({ success: true, revoked })
+  })
+})
@@ -0,0 +1,71 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../../_lib/supabase.js'
+import { requireAdmin } from '../../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../../_lib/errors.js'
+import {
+  listUsersQuerySchema,
+  type ListUsersResponse
+} from '../../../src/shared/admin-users.js'
+
+// Columns returned for each user; display_name and admin_notes are only
+// exposed on the view for searching
+const USER_COLUMNS = 'id, user_id, invitation_id, email, role, status, invitation_sent_at, expires_at, created_by, created_at, updated_at, metadata, suspended_reason, suspended_until, suspended_at'
+
+// Build an ilike pattern that is safe inside a PostgREST or() filter:
+// LIKE wildcards are escaped and the value is double quoted
+const toSearchPattern = (term: string) => {
+  const literal = term.replace(/[\\%_]/g, (char) => `\\${char}`)
+  return `"%${literal.replace(/["\\]/g, (char) => `\\${char}`)}%"`
+}
+
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  await requireAdmin(req)
+  const { page, pageSize, q, role, status, sort } = listUsersQuerySchema.parse(req.query)
+
+  const from = (page - 1) * pageSize
+  const to = from + pageSize - 1
+  const ascending = !sort.startsWith('-')
+  const sortColumn = sort.replace(/^-/, '')
+
+  // Filtering, ordering and the total count all happen in SQL
+  let query = supabaseAdmin
+    .from('admin_users_view')
+    .select(USER_COLUMNS, { count: 'exact' })
+
+  if (q) {
+    const pattern = toSearchPattern(q)
+    query = query.or(`email.ilike.${pattern},display_name.ilike.${pattern},admin_notes.ilike.${pattern}`)
+  }
+  if (role) {
+    query = query.eq('role', role)
+  }
+  if (status) {
+    query = query.eq('status', status)
+  }
+
+  const { data, error, count } = await query
+    .order(sortColumn, { ascending })
+    // Stable ordering across pages when the sort column has ties
+    .order('id', { ascending: true })
+    .range(from, to)
+
+  if (error) {
+    throw databaseError('Failed to fetch users', error)
+  }
+
+  // Reads are not audited: every page change and search keystroke lands
+  // here, which would bury the changes the audit log is for
+
+  const body: ListUsersResponse = {
+    users: data || [],
+    total: count ?? 0,
+    page,
+    pageSize
+  }
+
+  return res.status(200).json({ success: true, ...body })
+})
@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../../_lib/supabase.js'
+import { requireAdmin } from '../../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../../_lib/errors.js'
+import type { UserStats } from '../../../src/shared/admin-users.js'
+
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  await requireAdmin(req)
+
+  // Head-only count queries: no rows are transferred
+  const countUsers = () => supabaseAdmin
+    .from('user_roles')
+    .select('id', { count: 'exact', head: true })
+
+  const results = await Promise.all([
+    countUsers(),
+    countUsers().eq('status', 'active'),
+    countUsers().eq('status', 'invited'),
+    countUsers().eq('status', 'pending'),
+    countUsers().eq('role', 'admin').eq('status', 'active')
+  ])
+
+  const failed = results.find((result) => result.error)
+  if (failed) {
+    throw databaseError('Failed to count users', failed.error)
+  }
+
+  const [total, active, invited, pending, admins] = results.map((result) => result.count ?? 0)
+  const stats: UserStats = {
+    totalUsers: total,
+    activeUsers: active,
+    pendingInvitations: invited,
+    pendingApprovals: pending,
+    adminUsers: admins
+  }
+
+  return res.status(200).json({ success: true, ...stats })
+})
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../_lib/supabase.js'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../_lib/errors.js'
+import { PUBLIC_API_KEY_NAMES, maskSecret, type StoredApiKey } from '../../src/shared/api-keys.js'
+
+// GET /api/api-keys — the caller's stored API keys and email settings for
+// the settings page. Secrets are masked; POST /api/api-keys/reveal shows one
+// in full after a step-up re-authentication.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  // The admin's own keys would otherwise show while viewing as someone else
+  refuseImpersonation(caller)
+  res.setHeader('Cache-Control', 'no-store')
+
+  const { data, error } = await supabaseAdmin
+    .from('user_api_keys')
+    .select('key_name, key_value, updated_at')
+    .eq('user_id', caller.user.id)
+    .order('key_name')
+
+  if (error) {
+    throw databaseError('Failed to load API keys', error)
+  }
+
+  const keys: StoredApiKey[] = (data ?? []).map(row => {
+    const isPublic = PUBLIC_API_KEY_NAMES.includes(row.key_name)
+    return {
+      keyName: row.key_name,
+      value: isPublic ? row.key_value : maskSecret(row.key_value),
+      masked: !isPublic && !!row.key_value,
+      updatedAt: row.updated_at
+    }
+  })
+
+  return res.status(200).json({ success: true, keys })
+})
@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../_lib/supabase.js'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { requireStepUp } from '../_lib/step-up.js'
+import { revealApiKeySchema } from '../../src/shared/api-keys.js'
+
+// POST /api/api-keys/reveal — one of the caller's stored API keys in full.
+// Needs a step-up re-authentication, so an unattended session cannot be
+// used to copy the keys. Not wrapped in withIdempotency, which would store
+// the key in the replayed response.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+  const { keyName } = revealApiKeySchema.parse(req.body)
+  requireStepUp(req, caller)
+  res.setHeader('Cache-Control', 'no-store')
+
+  const { data, error } = await supabaseAdmin
+    .from('user_api_keys')
+    .select('key_value')
+    .eq('user_id', caller.user.id)
+    .eq('key_name', keyName)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to load API key', error)
+  }
+
+  if (!data) {
+    throw new ApiError('NOT_FOUND', 'No API key is stored under that name')
+  }
+
+  logger.info('API key revealed', { keyName })
+
+  return res.status(200).json({ success: true, value: data.key_value })
+})
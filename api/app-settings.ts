@@ -1,212 +1,331 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.VITE_SUPABASE_URL
-const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error("Missing Supabase configuration. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.")
-}
-
-const supabase = createClient(supabaseUrl, supabaseAnonKey)
-// Only create admin client if service key is available
-const supabaseAdmin = supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null
+import type { z } from 'zod'
+import { supabase, supabaseAdmin } from './_lib/supabase.js'
+import { requireAdmin } from './_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from './_lib/errors.js'
+import { logger } from './_lib/logger.js'
+import { withIdempotency } from './_lib/idempotency.js'
+import { requireStepUp } from './_lib/step-up.js'
+import { clearCorsCache } from './_lib/cors.js'
+import { clearMfaPolicyCache, hasVerifiedFactor } from './_lib/mfa.js'
+import { clearPasswordPolicyCache } from './_lib/passwords.js'
+import { clearLoginLockoutPolicyCache } from './_lib/login-events.js'
+import { clearCaptchaConfigCache, describeCaptchaConfigProblem } from './_lib/captcha.js'
+import { CORS_ALLOWED_ORIGINS_SETTING, parseOriginList } from '../src/shared/cors.js'
+import { MFA_REQUIRED_FOR_ADMINS_SETTING } from '../src/shared/mfa.js'
+import { PASSWORDLESS_ENABLED_SETTING } from '../src/shared/passwordless.js'
+import { PASSWORD_POLICY_SETTING, passwordPolicySchema } from '../src/shared/password-policy.js'
+import { LOGIN_LOCKOUT_SETTING, loginLockoutPolicySchema } from '../src/shared/login-events.js'
+import { ACCOUNT_DELETION_GRACE_SETTING, accountDeletionGraceDaysSchema } from '../src/shared/privacy.js'
+import {
+  CAPTCHA_PROVIDER_SETTING,
+  CAPTCHA_SITE_KEY_SETTING,
+  captchaProviderSchema,
+  readCaptchaProvider
+} from '../src/shared/captcha.js'
+import {
+  SIGNUP_ALLOWED_DOMAINS_SETTING,
+  SIGNUP_POLICY_SETTING,
+  parseDomainList,
+  signupPolicySchema
+} from '../src/shared/signup-policy.js'
 
 interface AppSettingsRequest {
-  adminUserId: string
   action: 'get' | 'update'
   settings?: Record<string, string>
 }
 
+// Settings stored as 'true' / 'false'
+const BOOLEAN_SETTINGS = [MFA_REQUIRED_FOR_ADMINS_SETTING, PASSWORDLESS_ENABLED_SETTING]
+
 // Helper function to get setting descriptions
 function getSettingDescription(key: string): string {
   const descriptions: Record<string, string> = {
     app_name: 'Application name displayed in the header and browser title',
     app_logo_url: 'URL to the application logo image',
     app_favicon_url: 'URL to the favicon file',
-    app_description: 'Application description for meta tags and SEO'
+    app_description: 'Application description for meta tags and SEO',
+    [CORS_ALLOWED_ORIGINS_SETTING]: 'Origins allowed to call the API from a browser, one per line',
+    [MFA_REQUIRED_FOR_ADMINS_SETTING]: 'Require two-factor authentication (AAL2) for admin access',
+    [PASSWORDLESS_ENABLED_SETTING]: 'Allow signing in with an email link or one-time code instead of a password',
+    [PASSWORD_POLICY_SETTING]: 'Password rules: length, character classes, reuse and breach check',
+    [LOGIN_LOCKOUT_SETTING]: 'Failed password sign-ins within the window that lock an account, and for how long',
+    [ACCOUNT_DELETION_GRACE_SETTING]: 'Days between a deletion request and the account being deleted',
+    [SIGNUP_POLICY_SETTING]: 'Who can sign up: open, invite_only, domain_allowlist or approval',
+    [SIGNUP_ALLOWED_DOMAINS_SETTING]: 'Email domains allowed to sign up under the domain_allowlist policy, one per line',
+    [CAPTCHA_PROVIDER_SETTING]: 'CAPTCHA on sign-up, sign-in and password reset: none, hcaptcha, turnstile or test',
+    [CAPTCHA_SITE_KEY_SETTING]: 'Site key of the hCaptcha or Turnstile widget'
   }
   return descriptions[key] || `Setting for ${key}`
 }
 
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
-) {
-  // Enable CORS for frontend
-  res.setHeader('Access-Control-Allow-Credentials', 'true')
-  res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT')
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version')
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end()
-    return
+// Parse a JSON setting against its schema and return it as compact JSON
+function normalizeJsonSetting(key: string, raw: string, schema: z.ZodTypeAny): string {
+  let value: unknown
+  try {
+    value = JSON.parse(raw)
+  } catch {
+    value = undefined
+  }
+  const parsed = schema.safeParse(value)
+  if (!parsed.success) {
+    throw new ApiError('VALIDATION_FAILED', undefined, {
+      issues: parsed.error.issues.map(issue => ({
+        path: ['settings', key, ...issue.path].join('.'),
+        message: issue.message,
+        code: issue.code
+      }))
+    })
   }
+  return JSON.stringify(parsed.data)
+}
 
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
   if (req.method === 'GET') {
     // Get public app settings (no auth required)
-    try {
-      const { data, error } = await supabase
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('setting_key, setting_value')
+      .eq('is_public', true)
+
+    if (error) {
+      throw databaseError('Failed to get app settings', error)
+    }
+
+    // Convert to key-value object
+    const settings: Record<string, string> = {}
+    data?.forEach(item => {
+      settings[item.setting_key] = item.setting_value || ''
+    })
+
+    return res.status(200).json({ success: true, settings })
+  }
+
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  // The caller is resolved from the Authorization header, never from the body
+  const caller = await requireAdmin(req)
+  const adminUserId = caller.user.id
+
+  const { action, settings } = req.body as AppSettingsRequest
+
+  if (!action) {
+    throw new ApiError('VALIDATION_FAILED', 'Missing required field: action')
+  }
+
+  // requireAdmin guarantees the service role client is available
+  const adminClient = supabaseAdmin
+
+  switch (action) {
+    case 'get':
+      // Get all app settings (admin access)
+      const { data, error } = await adminClient
         .from('app_settings')
-        .select('setting_key, setting_value')
-        .eq('is_public', true)
+        .select('setting_key, setting_value, setting_type, description')
+        .order('setting_key')
 
       if (error) {
-        return res.status(500).json({ error: error.message })
+        throw databaseError('Failed to get app settings', error)
       }
 
-      // Convert to key-value object
-      const settings: Record<string, string> = {}
+      const allSettings: Record<string, any> = {}
       data?.forEach(item => {
-        settings[item.setting_key] = item.setting_value || ''
-      })
-
-      return res.status(200).json({ success: true, settings })
-    } catch (error) {
-      console.error('Get app settings error:', error)
-      return res.status(500).json({
-        error: error instanceof Error ? error.message : 'Failed to get app settings'
+        allSettings[item.setting_key] = {
+          value: item.setting_value || '',
+          type: item.setting_type,
+          description: item.description
+        }
       })
-    }
-  }
 
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' })
-  }
+      return res.status(200).json({ success: true, settings: allSettings })
 
-  try {
-    const { adminUserId, action, settings } = req.body as AppSettingsRequest
+    case 'update':
+      // Settings control sign-up, sign-in and security policies
+      requireStepUp(req, caller)
 
-    if (!adminUserId || !action) {
-      return res.status(400).json({ error: 'Missing required fields: adminUserId and action' })
-    }
+      return withIdempotency(req, res, adminUserId, async () => {
+        if (!settings || Object.keys(settings).length === 0) {
+          throw new ApiError('VALIDATION_FAILED', 'Settings object is required for update')
+        }
 
-    // Use service role key for admin checks to bypass RLS
-    // If no service key, fall back to anon key (which won't work due to RLS)
-    const adminClient = supabaseAdmin || supabase
-    
-    if (!supabaseAdmin) {
-      console.warn('No service role key available - admin checks may fail due to RLS policies')
-    }
-    
-    // Verify admin permissions
-    const { data: roleData, error: roleError } = await adminClient
-      .from('user_roles')
-      .select('role, status')
-      .eq('user_id', adminUserId)
-      .single()
-
-    if (roleError) {
-      console.error('Admin check error:', roleError)
-      return res.status(403).json({ error: 'Admin access required - database error' })
-    }
+        // Origins are stored normalized, one per line; a typo would otherwise
+        // silently block a site
+        if (CORS_ALLOWED_ORIGINS_SETTING in settings) {
+          const { origins, invalid } = parseOriginList(settings[CORS_ALLOWED_ORIGINS_SETTING])
+          if (invalid.length > 0) {
+            throw new ApiError('VALIDATION_FAILED', undefined, {
+              issues: [{
+                path: `settings.${CORS_ALLOWED_ORIGINS_SETTING}`,
+                message: `Not a valid origin (expected https://host[:port]): ${invalid.join(', ')}`,
+                code: 'invalid_origin'
+              }]
+            })
+          }
+          settings[CORS_ALLOWED_ORIGINS_SETTING] = origins.join('\n')
+        }
 
-    if (!roleData || roleData.role !== 'admin' || roleData.status !== 'active') {
-      return res.status(403).json({ error: 'Admin access required - insufficient permissions' })
-    }
+        // Stored as compact JSON in the shape of their schemas
+        if (PASSWORD_POLICY_SETTING in settings) {
+          settings[PASSWORD_POLICY_SETTING] = normalizeJsonSetting(
+            PASSWORD_POLICY_SETTING, settings[PASSWORD_POLICY_SETTING], passwordPolicySchema
+          )
+        }
+        if (LOGIN_LOCKOUT_SETTING in settings) {
+          settings[LOGIN_LOCKOUT_SETTING] = normalizeJsonSetting(
+            LOGIN_LOCKOUT_SETTING, settings[LOGIN_LOCKOUT_SETTING], loginLockoutPolicySchema
+          )
+        }
 
-    switch (action) {
-      case 'get':
-        // Get all app settings (admin access)
-        const { data, error } = await adminClient
-          .from('app_settings')
-          .select('setting_key, setting_value, setting_type, description')
-          .order('setting_key')
+        if (SIGNUP_POLICY_SETTING in settings && !signupPolicySchema.safeParse(settings[SIGNUP_POLICY_SETTING]).success) {
+          throw new ApiError('VALIDATION_FAILED', undefined, {
+            issues: [{
+              path: `settings.${SIGNUP_POLICY_SETTING}`,
+              message: `Must be one of: ${signupPolicySchema.options.join(', ')}`,
+              code: 'invalid_enum_value'
+            }]
+          })
+        }
 
-        if (error) {
-          return res.status(500).json({ error: error.message })
+        if (SIGNUP_ALLOWED_DOMAINS_SETTING in settings) {
+          const { domains, invalid } = parseDomainList(settings[SIGNUP_ALLOWED_DOMAINS_SETTING])
+          if (invalid.length > 0) {
+            throw new ApiError('VALIDATION_FAILED', undefined, {
+              issues: [{
+                path: `settings.${SIGNUP_ALLOWED_DOMAINS_SETTING}`,
+                message: `Not a valid email domain: ${invalid.join(', ')}`,
+                code: 'invalid_domain'
+              }]
+            })
+          }
+          settings[SIGNUP_ALLOWED_DOMAINS_SETTING] = domains.join('\n')
         }
 
-        const allSettings: Record<string, any> = {}
-        data?.forEach(item => {
-          allSettings[item.setting_key] = {
-            value: item.setting_value || '',
-            type: item.setting_type,
-            description: item.description
+        // An empty allowlist would refuse every sign-up
+        if (settings[SIGNUP_POLICY_SETTING] === 'domain_allowlist') {
+          let domains = settings[SIGNUP_ALLOWED_DOMAINS_SETTING]
+          if (domains === undefined) {
+            const { data: current, error: domainsError } = await adminClient
+              .from('app_settings')
+              .select('setting_value')
+              .eq('setting_key', SIGNUP_ALLOWED_DOMAINS_SETTING)
+              .maybeSingle()
+
+            if (domainsError) {
+              throw databaseError('Failed to load the allowed sign-up domains', domainsError)
+            }
+            domains = current?.setting_value ?? ''
           }
-        })
 
-        return res.status(200).json({ success: true, settings: allSettings })
+          if (parseDomainList(domains).domains.length === 0) {
+            throw new ApiError('VALIDATION_FAILED', undefined, {
+              issues: [{
+                path: `settings.${SIGNUP_ALLOWED_DOMAINS_SETTING}`,
+                message: 'List at least one email domain before limiting sign-ups to allowed domains',
+                code: 'invalid_signup_policy'
+              }]
+            })
+          }
+        }
 
-      case 'update':
-        if (!settings || Object.keys(settings).length === 0) {
-          return res.status(400).json({ error: 'Settings object is required for update' })
+        if (CAPTCHA_PROVIDER_SETTING in settings && !captchaProviderSchema.safeParse(settings[CAPTCHA_PROVIDER_SETTING]).success) {
+          throw new ApiError('VALIDATION_FAILED', undefined, {
+            issues: [{
+              path: `settings.${CAPTCHA_PROVIDER_SETTING}`,
+              message: `Must be one of: ${captchaProviderSchema.options.join(', ')}`,
+              code: 'invalid_enum_value'
+            }]
+          })
         }
 
-        console.log('=== APP SETTINGS UPDATE DEBUG ===')
-        console.log('Admin User ID:', adminUserId)
-        console.log('Service role key available:', !!supabaseServiceKey)
-        console.log('Using adminClient (service role):', !!supabaseAdmin)
-        console.log('Settings to update:', settings)
+        // A provider without its site key or secret would refuse every sign-in
+        if (CAPTCHA_PROVIDER_SETTING in settings || CAPTCHA_SITE_KEY_SETTING in settings) {
+          if (CAPTCHA_SITE_KEY_SETTING in settings) {
+            settings[CAPTCHA_SITE_KEY_SETTING] = settings[CAPTCHA_SITE_KEY_SETTING].trim()
+          }
 
-        // Update all settings using the admin client to bypass RLS
-        const updatePromises = Object.entries(settings).map(async ([key, value]) => {
-          console.log(`\nUpdating ${key} to:`, value)
-          
-          // First, check if the setting exists
-          const { data: existingData, error: checkError } = await adminClient
+          const { data: current, error: captchaError } = await adminClient
             .from('app_settings')
             .select('setting_key, setting_value')
-            .eq('setting_key', key)
-            .single()
-          
-          console.log(`Existing value for ${key}:`, existingData?.setting_value)
-          console.log(`Check error for ${key}:`, checkError?.message || 'none')
-          
-          const updatePayload = { 
-            setting_value: value,
-            updated_at: new Date().toISOString(),
-            updated_by: adminUserId
+            .in('setting_key', [CAPTCHA_PROVIDER_SETTING, CAPTCHA_SITE_KEY_SETTING])
+
+          if (captchaError) {
+            throw databaseError('Failed to load the CAPTCHA settings', captchaError)
           }
-          console.log(`Update payload for ${key}:`, updatePayload)
-          
-          const { data: updateData, error, count } = await adminClient
-            .from('app_settings')
-            .update(updatePayload)
-            .eq('setting_key', key)
-            .select()
 
-          console.log(`Update result for ${key}:`)
-          console.log('  - Data:', updateData)
-          console.log('  - Error:', error?.message || 'none')
-          console.log('  - Count:', count)
+          const currentValue = (key: string) => current?.find(item => item.setting_key === key)?.setting_value ?? ''
+          const problem = describeCaptchaConfigProblem(
+            readCaptchaProvider(settings[CAPTCHA_PROVIDER_SETTING] ?? currentValue(CAPTCHA_PROVIDER_SETTING)),
+            settings[CAPTCHA_SITE_KEY_SETTING] ?? currentValue(CAPTCHA_SITE_KEY_SETTING)
+          )
+          if (problem) {
+            throw new ApiError('VALIDATION_FAILED', undefined, {
+              issues: [{ path: `settings.${CAPTCHA_PROVIDER_SETTING}`, message: problem, code: 'invalid_captcha_provider' }]
+            })
+          }
+        }
 
-          if (error) {
-            console.error(`Failed to update ${key}:`, error)
-            throw new Error(`Failed to update ${key}: ${error.message}`)
+        if (ACCOUNT_DELETION_GRACE_SETTING in settings) {
+          const parsed = accountDeletionGraceDaysSchema.safeParse(settings[ACCOUNT_DELETION_GRACE_SETTING])
+          if (!parsed.success) {
+            throw new ApiError('VALIDATION_FAILED', undefined, {
+              issues: [{
+                path: `settings.${ACCOUNT_DELETION_GRACE_SETTING}`,
+                message: 'Must be a whole number of days from 1 to 90',
+                code: 'invalid_number'
+              }]
+            })
           }
-          
-          // Verify the update
-          const { data: verifyData, error: verifyError } = await adminClient
+          settings[ACCOUNT_DELETION_GRACE_SETTING] = String(parsed.data)
+        }
+
+        const invalidBoolean = BOOLEAN_SETTINGS.find(key => key in settings && settings[key] !== 'true' && settings[key] !== 'false')
+        if (invalidBoolean) {
+          throw new ApiError('VALIDATION_FAILED', undefined, {
+            issues: [{ path: `settings.${invalidBoolean}`, message: 'Must be "true" or "false"', code: 'invalid_boolean' }]
+          })
+        }
+
+        // Otherwise the admin turning it on would lock themselves out
+        if (settings[MFA_REQUIRED_FOR_ADMINS_SETTING] === 'true' && !hasVerifiedFactor(caller.user)) {
+          throw new ApiError('VALIDATION_FAILED', undefined, {
+            issues: [{
+              path: `settings.${MFA_REQUIRED_FOR_ADMINS_SETTING}`,
+              message: 'Set up two-factor authentication on your own account before requiring it for admins',
+              code: 'invalid_mfa_policy'
+            }]
+          })
+        }
+
+        // Update all settings using the admin client to bypass RLS
+        await Promise.all(Object.entries(settings).map(async ([key, value]) => {
+          const { error } = await adminClient
             .from('app_settings')
-            .select('setting_value')
+            .update({
+              setting_value: value,
+              updated_at: new Date().toISOString(),
+              updated_by: adminUserId
+            })
             .eq('setting_key', key)
-            .single()
-          
-          console.log(`Verification for ${key}:`)
-          console.log('  - New value in DB:', verifyData?.setting_value)
-          console.log('  - Expected value:', value)
-          console.log('  - Match:', verifyData?.setting_value === value)
-          
-          return { key, success: verifyData?.setting_value === value }
-        })
-
-        const results = await Promise.all(updatePromises)
-        console.log('\n=== UPDATE RESULTS ===')
-        console.log('All updates:', results)
-        console.log('=== END DEBUG ===\n')
+
+          if (error) {
+            throw databaseError(`Failed to update ${key}`, error)
+          }
+        }))
+
+        // Values are not logged: some settings may hold sensitive configuration
+        logger.info('App settings updated', { keys: Object.keys(settings) })
+        if (CORS_ALLOWED_ORIGINS_SETTING in settings) clearCorsCache()
+        if (MFA_REQUIRED_FOR_ADMINS_SETTING in settings) clearMfaPolicyCache()
+        if (PASSWORD_POLICY_SETTING in settings) clearPasswordPolicyCache()
+        if (LOGIN_LOCKOUT_SETTING in settings) clearLoginLockoutPolicyCache()
+        if (CAPTCHA_PROVIDER_SETTING in settings || CAPTCHA_SITE_KEY_SETTING in settings) clearCaptchaConfigCache()
 
         return res.status(200).json({ success: true })
+      })
 
-      default:
-        return res.status(400).json({ error: 'Invalid action' })
-    }
-  } catch (error) {
-    console.error('App settings API error:', error)
-    return res.status(500).json({
-      error: error instanceof Error ? error.message : 'Internal server error'
-    })
+    default:
+      throw new ApiError('VALIDATION_FAILED', 'Invalid action')
   }
-}
\ No newline at end of file
+})
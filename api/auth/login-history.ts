@@ -0,0 +1,19 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { getLoginHistory } from '../_lib/login-events.js'
+
+// GET /api/auth/login-history — the caller's recent sign-ins, successful and
+// failed, and whether their account is locked
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  res.setHeader('Cache-Control', 'no-store')
+
+  const history = await getLoginHistory(caller.user.id, caller.user.email)
+
+  return res.status(200).json({ success: true, ...history })
+})
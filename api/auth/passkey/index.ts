@@ -0,0 +1,88 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server'
+import { supabaseAdmin } from '../../_lib/supabase.js'
+import { loadCallerRole, type AuthenticatedCaller } from '../../_lib/auth.js'
+import { ApiError, apiHandler } from '../../_lib/errors.js'
+import { logger } from '../../_lib/logger.js'
+import { createSessionForUser, finishAuthentication } from '../../_lib/passkeys.js'
+import { getLockedUntil, recordLoginEvent } from '../../_lib/login-events.js'
+import { recordSession } from '../../_lib/sessions.js'
+import { passkeySignInSchema } from '../../../src/shared/passkeys.js'
+
+// POST /api/auth/passkey — finish a passkey sign-in started with
+// POST /api/auth/passkey/options. Returns the new session's tokens for the
+// client to adopt. The session is recorded here, with a `passkey` sign-in
+// event, since its token looks like an email sign-in to POST /api/sessions.
+// Like password sign-ins, locked addresses are refused with ACCOUNT_LOCKED;
+// suspended and unapproved accounts get no session at all.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+
+  const { challengeId, response } = passkeySignInSchema.parse(req.body)
+  const result = await finishAuthentication({
+    challengeId,
+    response: response as unknown as AuthenticationResponseJSON
+  })
+
+  const { data, error } = result.userId
+    ? await supabaseAdmin.auth.admin.getUserById(result.userId)
+    : { data: { user: null }, error: null }
+
+  if (error) {
+    logger.error('Failed to load the passkey owner', { error })
+    throw new ApiError('INTERNAL_ERROR', 'Sign-in failed')
+  }
+
+  const user = data.user
+  if (!result.verified || !user) {
+    if (user) {
+      await recordLoginEvent(req, {
+        userId: user.id,
+        email: user.email || '',
+        success: false,
+        method: 'passkey',
+        failureReason: 'passkey_invalid'
+      })
+    }
+    throw new ApiError('PASSKEY_FAILED')
+  }
+
+  const lockedUntil = user.email ? await getLockedUntil(user.email) : null
+  if (lockedUntil) {
+    await recordLoginEvent(req, {
+      userId: user.id,
+      email: user.email || '',
+      success: false,
+      method: 'passkey',
+      failureReason: 'locked'
+    })
+    throw new ApiError('ACCOUNT_LOCKED', undefined, { until: lockedUntil.toISOString() })
+  }
+
+  // Throws ACCOUNT_SUSPENDED or ACCOUNT_PENDING
+  const role = await loadCallerRole(user.id)
+
+  const session = await createSessionForUser(user)
+
+  const caller: AuthenticatedCaller = { user, role, accessToken: session.access_token, aal: null }
+  await recordSession(caller, req)
+  await recordLoginEvent(req, {
+    userId: user.id,
+    email: user.email || '',
+    success: true,
+    method: 'passkey'
+  })
+  logger.info('Signed in with a passkey')
+
+  return res.status(200).json({
+    success: true,
+    session: {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token
+    }
+  })
+})
@@ -0,0 +1,20 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ApiError, apiHandler } from '../../_lib/errors.js'
+import { enforceRateLimit, getClientIp } from '../../_lib/rate-limit.js'
+import { startAuthentication } from '../../_lib/passkeys.js'
+
+// POST /api/auth/passkey/options — start a passkey sign-in: options for
+// navigator.credentials.get() and the id of their challenge. Counts towards
+// the same per-IP limit as password sign-ins.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  await enforceRateLimit(res, [{ rule: 'sign_in_per_ip', subject: getClientIp(req) }])
+
+  const { challengeId, options } = await startAuthentication()
+
+  return res.status(200).json({ success: true, challengeId, options })
+})
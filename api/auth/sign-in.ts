@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createSignInClient, supabaseAdmin } from '../_lib/supabase.js'
+import { ApiError, apiHandler, databaseError } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { enforceRateLimit, getClientIp } from '../_lib/rate-limit.js'
+import { getLockedUntil, isLockoutRejection, recordLoginEvent } from '../_lib/login-events.js'
+import { isCaptchaRefused, verifyCaptcha } from '../_lib/captcha.js'
+import { passwordSignInSchema } from '../../src/shared/login-events.js'
+
+// Account a sign-in address belongs to, if any, so failures show in its history
+const findUserId = async (email: string): Promise<string | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('user_id')
+    .eq('email', email)
+    .not('user_id', 'is', null)
+    .maybeSingle()
+
+  if (error) {
+    throw databaseError('Failed to look up the account', error)
+  }
+
+  return data?.user_id ?? null
+}
+
+// POST /api/auth/sign-in — email and password sign-in, with a CAPTCHA token
+// while CAPTCHA is on. Failed attempts are recorded, and an address with too
+// many recent failures is refused with ACCOUNT_LOCKED until the lockout ends.
+// Returns the new session's tokens for the client to adopt; the success
+// itself is recorded when the session reports to POST /api/sessions.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  await enforceRateLimit(res, [{ rule: 'sign_in_per_ip', subject: getClientIp(req) }])
+
+  const { email, password, captchaToken } = passwordSignInSchema.parse(req.body)
+  const authCaptchaToken = await verifyCaptcha(req, captchaToken)
+
+  const refuseLocked = async (lockedUntil: Date | null): Promise<never> => {
+    await recordLoginEvent(req, {
+      userId: await findUserId(email),
+      email,
+      success: false,
+      method: 'password',
+      failureReason: 'locked'
+    })
+    throw new ApiError('ACCOUNT_LOCKED', undefined, lockedUntil ? { until: lockedUntil.toISOString() } : undefined)
+  }
+
+  const lockedUntil = await getLockedUntil(email)
+  if (lockedUntil) {
+    await refuseLocked(lockedUntil)
+  }
+
+  const { data, error } = await createSignInClient(getClientIp(req)).auth.signInWithPassword({
+    email,
+    password,
+    options: { captchaToken: authCaptchaToken }
+  })
+
+  if (error || !data.session) {
+    if (isCaptchaRefused(error)) {
+      throw new ApiError('CAPTCHA_FAILED')
+    }
+    // The lockout began between the check above and the password check
+    if (isLockoutRejection(error)) {
+      await refuseLocked(await getLockedUntil(email))
+    }
+    if (error?.code === 'invalid_credentials' || error?.code === 'email_not_confirmed') {
+      await recordLoginEvent(req, {
+        userId: await findUserId(email),
+        email,
+        success: false,
+        method: 'password',
+        failureReason: error.code
+      })
+      throw new ApiError(error.code === 'invalid_credentials' ? 'INVALID_CREDENTIALS' : 'EMAIL_NOT_CONFIRMED')
+    }
+    if (error?.status === 429) {
+      throw new ApiError('RATE_LIMITED', error.message)
+    }
+    logger.error('Password sign-in failed', { error })
+    throw new ApiError('INTERNAL_ERROR', 'Sign-in failed')
+  }
+
+  return res.status(200).json({
+    success: true,
+    session: {
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token
+    }
+  })
+})
@@ -0,0 +1,72 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createSignInClient } from '../_lib/supabase.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { enforceRateLimit, getClientIp } from '../_lib/rate-limit.js'
+import { isCaptchaRefused, verifyCaptcha } from '../_lib/captcha.js'
+import { requireAuthCallbackUrl } from '../_lib/redirects.js'
+import { checkPassword } from '../_lib/passwords.js'
+import { isSignupRefusedError, signUpRequestSchema } from '../../src/shared/signup-policy.js'
+
+// POST /api/auth/sign-up — create an account with an email and password, with
+// a CAPTCHA token while CAPTCHA is on. The password policy is checked here,
+// since Supabase Auth only knows its own minimum length; handle_new_user()
+// applies the sign-up policy. Returns the new user's id, plus the session's
+// tokens when email confirmation is off. Links sent for a sign-up made on the
+// server use the implicit flow, which /auth/callback still accepts.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  await enforceRateLimit(res, [{ rule: 'sign_up_per_ip', subject: getClientIp(req) }])
+
+  const { email, password, redirectTo, captchaToken } = signUpRequestSchema.parse(req.body)
+  const emailRedirectTo = requireAuthCallbackUrl(req, redirectTo)
+  const authCaptchaToken = await verifyCaptcha(req, captchaToken)
+
+  const passwordCheck = await checkPassword(password)
+  if (!passwordCheck.valid) {
+    throw new ApiError('PASSWORD_REJECTED', passwordCheck.failures.join('; '), { failures: passwordCheck.failures })
+  }
+
+  const { data, error } = await createSignInClient(getClientIp(req)).auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo, captchaToken: authCaptchaToken }
+  })
+
+  if (error) {
+    if (isCaptchaRefused(error)) {
+      throw new ApiError('CAPTCHA_FAILED')
+    }
+    if (isSignupRefusedError(error.message)) {
+      throw new ApiError('SIGNUP_REFUSED')
+    }
+    if (error.code === 'weak_password') {
+      throw new ApiError('PASSWORD_REJECTED', error.message)
+    }
+    if (error.code === 'user_already_exists' || error.code === 'email_exists') {
+      throw new ApiError('EMAIL_IN_USE')
+    }
+    if (error.status === 429) {
+      throw new ApiError('RATE_LIMITED', error.message)
+    }
+    if (error.status === 400 || error.status === 422) {
+      throw new ApiError('VALIDATION_FAILED', error.message)
+    }
+    logger.error('Sign-up failed', { error })
+    throw new ApiError('INTERNAL_ERROR', 'Sign-up failed')
+  }
+
+  logger.info('Account signed up', { userId: data.user?.id })
+
+  return res.status(200).json({
+    success: true,
+    userId: data.user?.id ?? null,
+    session: data.session
+      ? { access_token: data.session.access_token, refresh_token: data.session.refresh_token }
+      : null
+  })
+})
@@ -0,0 +1,22 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../../_lib/auth.js'
+import { ApiError, apiHandler } from '../../_lib/errors.js'
+import { enforceRateLimit } from '../../_lib/rate-limit.js'
+import { sendEmailCode } from '../../_lib/step-up.js'
+
+// POST /api/auth/step-up/email — email the caller a one-time code for
+// POST /api/auth/step-up. Only for accounts with no password or
+// authenticator app to step up with.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+
+  await enforceRateLimit(res, [{ rule: 'step_up_per_user', subject: caller.user.id }])
+  await sendEmailCode(req, caller)
+
+  return res.status(200).json({ success: true })
+})
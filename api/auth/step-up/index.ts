@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../../_lib/auth.js'
+import { ApiError, apiHandler } from '../../_lib/errors.js'
+import { logger } from '../../_lib/logger.js'
+import { enforceRateLimit } from '../../_lib/rate-limit.js'
+import { issueStepUpToken, verifyEmailCode, verifyPassword, verifyTotp } from '../../_lib/step-up.js'
+import { stepUpRequestSchema } from '../../../src/shared/step-up.js'
+
+// POST /api/auth/step-up — re-authenticate with the caller's password, an
+// authenticator code or a code from POST /api/auth/step-up/email, and get a
+// short-lived step-up token for sensitive actions. Not wrapped in
+// withIdempotency: its stored request fingerprint is an unsalted hash of the
+// body, which would hold the password.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+
+  const body = stepUpRequestSchema.parse(req.body)
+
+  await enforceRateLimit(res, [{ rule: 'step_up_per_user', subject: caller.user.id }])
+
+  if (body.method === 'password') {
+    await verifyPassword(req, caller, body.password)
+  } else if (body.method === 'totp') {
+    await verifyTotp(caller, body.factorId, body.code)
+  } else {
+    await verifyEmailCode(req, caller, body.code)
+  }
+
+  logger.info('Step-up re-authentication passed', { method: body.method })
+
+  res.setHeader('Cache-Control', 'no-store')
+  return res.status(200).json({ success: true, ...issueStepUpToken(caller) })
+})
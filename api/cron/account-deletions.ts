@@ -0,0 +1,22 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { isCronRequest } from '../_lib/cron.js'
+import { logger } from '../_lib/logger.js'
+import { processDueDeletions } from '../_lib/privacy.js'
+
+// GET /api/cron/account-deletions — delete the accounts whose deletion grace
+// period is over. Scheduled daily in vercel.json.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  if (!isCronRequest(req)) {
+    throw new ApiError('AUTH_REQUIRED')
+  }
+
+  const deleted = await processDueDeletions()
+  logger.info('Scheduled account deletions processed', { deleted })
+
+  return res.status(200).json({ success: true, deleted })
+})
@@ -0,0 +1,24 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { isCronRequest } from '../_lib/cron.js'
+import { logger } from '../_lib/logger.js'
+import { deleteExpiredChallenges } from '../_lib/passkeys.js'
+
+// GET /api/cron/webauthn-challenges — delete the challenges of passkey
+// ceremonies that were started but never finished. Scheduled daily in
+// vercel.json; expired challenges are refused anyway, so this only keeps the
+// table small.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  if (!isCronRequest(req)) {
+    throw new ApiError('AUTH_REQUIRED')
+  }
+
+  const deleted = await deleteExpiredChallenges()
+  logger.info('Expired passkey challenges deleted', { deleted })
+
+  return res.status(200).json({ success: true, deleted })
+})
@@ -0,0 +1,43 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../_lib/supabase.js'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../_lib/errors.js'
+import { enforceRateLimit } from '../_lib/rate-limit.js'
+import { emailChangeSchema } from '../../src/shared/email-change.js'
+
+// POST /api/email/check — make sure the caller can change their email to the
+// given address before the client asks Supabase Auth for the change. Refuses
+// the current address, and with EMAIL_IN_USE one that belongs to another
+// account or a pending invitation.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+  res.setHeader('Cache-Control', 'no-store')
+
+  await enforceRateLimit(res, [{ rule: 'email_change_per_user', subject: caller.user.id }])
+
+  const { email } = emailChangeSchema.parse(req.body)
+
+  if (email === caller.user.email?.toLowerCase()) {
+    throw new ApiError('CONFLICT', 'That is already your email address')
+  }
+
+  const { data: inUse, error } = await supabaseAdmin.rpc('email_in_use', {
+    p_email: email,
+    p_user_id: caller.user.id
+  })
+
+  if (error) {
+    throw databaseError('Failed to check the email address', error)
+  }
+
+  if (inUse) {
+    throw new ApiError('EMAIL_IN_USE')
+  }
+
+  return res.status(200).json({ success: true })
+})
@@ -0,0 +1,289 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabase, supabaseAdmin } from '../_lib/supabase.js'
+import { requireAdmin } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { getRequestHost } from '../_lib/cors.js'
+import {
+  overallHealthStatus,
+  type HealthCheck,
+  type HealthCheckId,
+  type HealthDetailsResponse,
+  type HealthStatus
+} from '../../src/shared/health.js'
+
+interface CheckOutcome {
+  status: HealthStatus
+  message: string
+  remediation?: string
+}
+
+// Tables and views the app expects, and the migration that creates each one.
+// `policies: false` marks tables that are deliberately service-role only.
+const REQUIRED_RELATIONS = [
+  { name: 'profiles', migration: '00000_initial_schema.sql', policies: true },
+  { name: 'user_roles', migration: '00000_initial_schema.sql', policies: true },
+  { name: 'user_api_keys', migration: '00000_initial_schema.sql', policies: true },
+  { name: 'user_metadata', migration: '00000_initial_schema.sql', policies: true },
+  { name: 'admin_audit_log', migration: '00000_initial_schema.sql', policies: true },
+  { name: 'app_settings', migration: '00000_initial_schema.sql', policies: true },
+  { name: 'admin_users_view', migration: '00001_admin_users_view.sql', view: true },
+  { name: 'rate_limit_buckets', migration: '00002_rate_limits.sql', policies: false },
+  { name: 'idempotency_keys', migration: '00004_idempotency_keys.sql', policies: false },
+  { name: 'mfa_recovery_codes', migration: '00006_mfa.sql', policies: false },
+  { name: 'user_sessions', migration: '00008_user_sessions.sql', policies: false },
+  { name: 'impersonation_sessions', migration: '00010_impersonation.sql', policies: false },
+  { name: 'password_history', migration: '00013_password_policy.sql', policies: false },
+  { name: 'login_events', migration: '00014_login_events.sql', policies: false },
+  { name: 'login_stats', migration: '00014_login_events.sql', policies: false },
+  { name: 'account_deletion_requests', migration: '00016_account_deletion.sql', policies: false },
+  { name: 'user_passkeys', migration: '00018_user_passkeys.sql', policies: false },
+  { name: 'webauthn_challenges', migration: '00018_user_passkeys.sql', policies: false },
+  { name: 'sign_in_grants', migration: '00020_passwordless_enforcement.sql', policies: true }
+]
+
+const parseUrl = (value: string | undefined) => {
+  try {
+    return value ? new URL(value) : null
+  } catch {
+    return null
+  }
+}
+
+const isLocalHost = (url: URL) => ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)
+
+// Variable names only: values never leave the server
+const checkEnvironment = async (req: VercelRequest): Promise<CheckOutcome> => {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  const supabaseUrl = parseUrl(process.env.VITE_SUPABASE_URL)
+  if (!supabaseUrl) {
+    errors.push('VITE_SUPABASE_URL is missing or not a valid URL')
+  } else if (supabaseUrl.protocol !== 'https:' && !isLocalHost(supabaseUrl)) {
+    warnings.push('VITE_SUPABASE_URL should use https')
+  }
+
+  if (!process.env.VITE_SUPABASE_ANON_KEY) {
+    errors.push('VITE_SUPABASE_ANON_KEY is not set')
+  }
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    errors.push('SUPABASE_SERVICE_ROLE_KEY is not set')
+  } else if (process.env.SUPABASE_SERVICE_ROLE_KEY === process.env.VITE_SUPABASE_ANON_KEY) {
+    errors.push('SUPABASE_SERVICE_ROLE_KEY is set to the anon key')
+  }
+
+  const appUrl = parseUrl(process.env.VITE_APP_URL)
+  if (!process.env.VITE_APP_URL) {
+    warnings.push('VITE_APP_URL is not set; invitation links and auth redirects fall back to the browser origin')
+  } else if (!appUrl) {
+    errors.push('VITE_APP_URL is not a valid URL')
+  } else {
+    if (process.env.VERCEL && isLocalHost(appUrl)) {
+      errors.push(`VITE_APP_URL points at ${appUrl.host} in a deployed environment`)
+    } else if (appUrl.protocol !== 'https:' && !isLocalHost(appUrl)) {
+      warnings.push('VITE_APP_URL should use https')
+    }
+
+    const host = getRequestHost(req)
+    if (host && host !== appUrl.host.toLowerCase()) {
+      warnings.push(`VITE_APP_URL (${appUrl.host}) does not match the host serving this request (${host})`)
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      status: 'fail',
+      message: [...errors, ...warnings].join('. '),
+      remediation: 'Set the variables in .env.local for development, or in the Vercel project settings (Settings → Environment Variables) and redeploy. Values are in the Supabase dashboard under Settings → API.'
+    }
+  }
+
+  if (warnings.length > 0) {
+    return {
+      status: 'warn',
+      message: warnings.join('. '),
+      remediation: 'Set VITE_APP_URL to the public URL of this deployment (for example https://app.example.com) and redeploy so the client picks it up.'
+    }
+  }
+
+  return { status: 'pass', message: 'Required environment variables are set' }
+}
+
+// Uses the anon client, as browsers do
+const checkDatabase = async (): Promise<CheckOutcome> => {
+  const { error } = await supabase
+    .from('app_settings')
+    .select('setting_key', { count: 'exact', head: true })
+    .eq('is_public', true)
+
+  if (error) {
+    return {
+      status: 'fail',
+      message: `The database could not be queried with the anon key: ${error.message || 'no response'}`,
+      remediation: 'Check VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY, make sure the Supabase project is not paused, and that supabase/migrations/00000_initial_schema.sql has been run.'
+    }
+  }
+
+  return { status: 'pass', message: 'The database is reachable' }
+}
+
+const checkServiceRole = async (): Promise<CheckOutcome> => {
+  const { error } = await supabaseAdmin.auth.admin.listUsers({ page: 1, perPage: 1 })
+
+  if (error) {
+    return {
+      status: 'fail',
+      message: `The service role key was rejected: ${error.message}`,
+      remediation: 'Copy the service_role key (not the anon key) from the Supabase dashboard under Settings → API into SUPABASE_SERVICE_ROLE_KEY for the same project as VITE_SUPABASE_URL.'
+    }
+  }
+
+  return { status: 'pass', message: 'The service role key can call the Supabase admin API' }
+}
+
+const checkSchema = async (): Promise<CheckOutcome> => {
+  const { data, error } = await supabaseAdmin.rpc('health_check_schema', {
+    p_relations: REQUIRED_RELATIONS.map(relation => relation.name)
+  })
+
+  if (error) {
+    // PGRST202: function not found (migration not applied yet)
+    if (error.code === 'PGRST202') {
+      return {
+        status: 'warn',
+        message: 'The schema could not be inspected because the health_check_schema() function is missing',
+        remediation: 'Run supabase/migrations/00003_health_check.sql in the Supabase SQL editor.'
+      }
+    }
+    return {
+      status: 'fail',
+      message: `The schema could not be inspected: ${error.message}`,
+      remediation: 'Make sure every file in supabase/migrations has been run in filename order.'
+    }
+  }
+
+  const rows = new Map(
+    ((data ?? []) as { relation_name: string; relation_exists: boolean; rls_enabled: boolean; policy_count: number }[])
+      .map(row => [row.relation_name, row])
+  )
+
+  const missing = REQUIRED_RELATIONS.filter(relation => !rows.get(relation.name)?.relation_exists)
+  const tables = REQUIRED_RELATIONS.filter(relation => !relation.view && rows.get(relation.name)?.relation_exists)
+  const withoutRls = tables.filter(relation => !rows.get(relation.name)?.rls_enabled)
+  const withoutPolicies = tables.filter(relation => relation.policies && rows.get(relation.name)?.policy_count === 0)
+
+  if (missing.length > 0 || withoutRls.length > 0) {
+    const problems = [
+      missing.length > 0 ? `Missing: ${missing.map(relation => relation.name).join(', ')}` : null,
+      withoutRls.length > 0 ? `Row level security disabled on: ${withoutRls.map(relation => relation.name).join(', ')}` : null
+    ].filter(Boolean)
+
+    const migrations = [...new Set(missing.map(relation => relation.migration))]
+    return {
+      status: 'fail',
+      message: problems.join('. '),
+      remediation: migrations.length > 0
+        ? `Run ${migrations.map(file => `supabase/migrations/${file}`).join(', ')} in filename order.`
+        : 'Enable row level security on the listed tables (ALTER TABLE ... ENABLE ROW LEVEL SECURITY) or re-run supabase/migrations/00000_initial_schema.sql.'
+    }
+  }
+
+  if (withoutPolicies.length > 0) {
+    return {
+      status: 'warn',
+      message: `No row level security policies on: ${withoutPolicies.map(relation => relation.name).join(', ')}. Signed-in users cannot read these tables.`,
+      remediation: 'Re-run the policy section of supabase/migrations/00000_initial_schema.sql.'
+    }
+  }
+
+  return {
+    status: 'pass',
+    message: `All ${REQUIRED_RELATIONS.length} required tables and views exist with row level security enabled`
+  }
+}
+
+// Email is sent with the sending admin's own Resend settings, so check the caller's
+const checkEmail = async (userId: string): Promise<CheckOutcome> => {
+  const { data, error } = await supabaseAdmin
+    .from('user_api_keys')
+    .select('key_name, key_value')
+    .eq('user_id', userId)
+    .in('key_name', ['sender_name', 'sender_email', 'resend_api_key'])
+
+  if (error) {
+    return {
+      status: 'fail',
+      message: `Email settings could not be read: ${error.message}`,
+      remediation: 'Make sure supabase/migrations/00000_initial_schema.sql has been run.'
+    }
+  }
+
+  const settings = new Map((data ?? []).map(row => [row.key_name, row.key_value as string | null]))
+  const missing = ['sender_name', 'sender_email', 'resend_api_key'].filter(key => !settings.get(key))
+
+  if (missing.length > 0) {
+    return {
+      status: 'warn',
+      message: `Your email settings are incomplete (missing ${missing.join(', ')}). Invitations will be created but not emailed.`,
+      remediation: 'Open Settings → Email Settings (/dashboard/settings) and add a sender name, sender email and Resend API key.'
+    }
+  }
+
+  if (!settings.get('resend_api_key')?.startsWith('re_')) {
+    return {
+      status: 'fail',
+      message: 'The saved Resend API key does not look like a Resend key',
+      remediation: 'Create an API key in the Resend dashboard (https://resend.com/api-keys); it starts with "re_".'
+    }
+  }
+
+  return { status: 'pass', message: 'Resend is configured for your account' }
+}
+
+const CHECKS: { id: HealthCheckId; label: string; run: (req: VercelRequest, userId: string) => Promise<CheckOutcome> }[] = [
+  { id: 'environment', label: 'Environment variables', run: (req) => checkEnvironment(req) },
+  { id: 'database', label: 'Database connection', run: () => checkDatabase() },
+  { id: 'service_role', label: 'Service role key', run: () => checkServiceRole() },
+  { id: 'schema', label: 'Tables and row level security', run: () => checkSchema() },
+  { id: 'email', label: 'Email provider', run: (_req, userId) => checkEmail(userId) }
+]
+
+// A check that throws is reported as failed rather than failing the whole request
+const runCheck = async (
+  check: (typeof CHECKS)[number],
+  req: VercelRequest,
+  userId: string
+): Promise<HealthCheck> => {
+  const startedAt = Date.now()
+  let outcome: CheckOutcome
+  try {
+    outcome = await check.run(req, userId)
+  } catch (error) {
+    outcome = {
+      status: 'fail',
+      message: `The check could not complete: ${error instanceof Error ? error.message : 'unknown error'}`
+    }
+  }
+
+  return { id: check.id, label: check.label, ...outcome, durationMs: Date.now() - startedAt }
+}
+
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  // A missing service role key already fails here with SERVER_MISCONFIGURED
+  const caller = await requireAdmin(req)
+
+  const checks = await Promise.all(CHECKS.map(check => runCheck(check, req, caller.user.id)))
+  const report: HealthDetailsResponse = {
+    status: overallHealthStatus(checks),
+    checkedAt: new Date().toISOString(),
+    checks
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  return res.status(200).json({ success: true, ...report })
+})
@@ -0,0 +1,19 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import type { HealthResponse } from '../../src/shared/health.js'
+
+// Public liveness check for uptime monitors. It touches no dependencies and
+// reveals nothing about the configuration; see /api/health/details for that.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const health: HealthResponse = {
+    status: 'ok',
+    time: new Date().toISOString()
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  return res.status(200).json({ success: true, ...health })
+})
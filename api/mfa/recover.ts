@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { enforceRateLimit } from '../_lib/rate-limit.js'
+import { consumeRecoveryCode, hasVerifiedFactor, removeTotpFactors } from '../_lib/mfa.js'
+import { redeemRecoveryCodeSchema } from '../../src/shared/mfa.js'
+
+// POST /api/mfa/recover — for a signed-in (AAL1) user who lost their
+// authenticator. A valid recovery code removes the user's TOTP factors, which
+// signs them out everywhere; they sign in with their password and enroll again.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+  const userId = caller.user.id
+
+  await enforceRateLimit(res, [{ rule: 'mfa_recovery_per_user', subject: userId }])
+
+  const { code } = redeemRecoveryCodeSchema.parse(req.body)
+
+  if (!hasVerifiedFactor(caller.user)) {
+    throw new ApiError('CONFLICT', 'Two-factor authentication is not enabled for this account')
+  }
+
+  if (!(await consumeRecoveryCode(userId, code))) {
+    logger.warn('Invalid MFA recovery code')
+    throw new ApiError('RECOVERY_CODE_INVALID')
+  }
+
+  await removeTotpFactors(userId)
+  logger.info('MFA recovery code used; TOTP factors removed')
+
+  return res.status(200).json({ success: true })
+})
@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation, requireAal2 } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { getRecoveryCodeStatus, hasVerifiedFactor, replaceRecoveryCodes } from '../_lib/mfa.js'
+
+// GET  /api/mfa/recovery-codes — how many unused codes the caller has left
+// POST /api/mfa/recovery-codes — replace them with a new set (AAL2 only)
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  const userId = caller.user.id
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method === 'GET') {
+    const status = await getRecoveryCodeStatus(userId)
+    return res.status(200).json({ success: true, ...status })
+  }
+
+  if (!hasVerifiedFactor(caller.user)) {
+    throw new ApiError('CONFLICT', 'Set up an authenticator app before creating recovery codes')
+  }
+  refuseImpersonation(caller)
+  requireAal2(caller)
+
+  // Not wrapped in withIdempotency: the stored response would keep the
+  // plaintext codes for 24 hours
+  const codes = await replaceRecoveryCodes(userId)
+  logger.info('MFA recovery codes regenerated')
+
+  return res.status(200).json({ success: true, codes })
+})
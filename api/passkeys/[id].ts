@@ -0,0 +1,25 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { deletePasskey } from '../_lib/passkeys.js'
+import { passkeyIdParamSchema } from '../../src/shared/passkeys.js'
+
+// DELETE /api/passkeys/:id — remove one of the caller's passkeys
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'DELETE') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+
+  const id = passkeyIdParamSchema.parse(req.query.id)
+  if (!await deletePasskey(caller.user.id, id)) {
+    throw new ApiError('NOT_FOUND', 'Passkey not found')
+  }
+
+  logger.info('Passkey removed', { passkeyId: id })
+
+  return res.status(200).json({ success: true })
+})
@@ -0,0 +1,37 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import type { RegistrationResponseJSON } from '@simplewebauthn/server'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { finishRegistration, listPasskeys } from '../_lib/passkeys.js'
+import { passkeyRegistrationSchema } from '../../src/shared/passkeys.js'
+
+// GET  /api/passkeys — the caller's passkeys
+// POST /api/passkeys — register a passkey from the browser's response to
+//                      the options of POST /api/passkeys/options
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method === 'GET') {
+    const passkeys = await listPasskeys(caller.user.id)
+    return res.status(200).json({ success: true, passkeys })
+  }
+
+  // A passkey signs in as the user, so only they may add one
+  refuseImpersonation(caller)
+
+  const { challengeId, response, name } = passkeyRegistrationSchema.parse(req.body)
+  const passkey = await finishRegistration(req, caller.user, {
+    challengeId,
+    response: response as unknown as RegistrationResponseJSON,
+    name
+  })
+  logger.info('Passkey registered', { passkeyId: passkey.id })
+
+  return res.status(200).json({ success: true, passkey })
+})
@@ -0,0 +1,24 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { startRegistration } from '../_lib/passkeys.js'
+import { requireStepUp } from '../_lib/step-up.js'
+
+// POST /api/passkeys/options — start registering a passkey: options for
+// navigator.credentials.create() and the id of their challenge. Adding a way
+// to sign in needs a step-up re-authentication, like the other sensitive
+// account changes.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+  requireStepUp(req, caller)
+  res.setHeader('Cache-Control', 'no-store')
+
+  const { challengeId, options } = await startRegistration(caller.user)
+
+  return res.status(200).json({ success: true, challengeId, options })
+})
@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { supabaseAdmin } from '../_lib/supabase.js'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler, databaseError } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { checkPassword, loadPasswordPolicy, recordPassword } from '../_lib/passwords.js'
+import { passwordCheckSchema } from '../../src/shared/password-policy.js'
+
+// POST /api/password/change — set the caller's password once it passes the
+// password policy, and remember it for the reuse check. Used by the update
+// password page, including after a password reset link. Not wrapped in
+// withIdempotency: its stored request fingerprint is an unsalted hash of the
+// body, which would hold the password.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+  const userId = caller.user.id
+
+  const { password } = passwordCheckSchema.parse(req.body)
+
+  const result = await checkPassword(password, userId)
+  if (!result.valid) {
+    throw new ApiError('PASSWORD_REJECTED', result.failures.join('; '), { failures: result.failures })
+  }
+
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, { password })
+  if (error) {
+    throw databaseError('Failed to update password', error)
+  }
+
+  const { historySize } = await loadPasswordPolicy()
+  await recordPassword(userId, password, historySize)
+  logger.info('Password changed')
+
+  return res.status(200).json({ success: true })
+})
@@ -0,0 +1,25 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, getBearerToken } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { enforceRateLimit, getClientIp } from '../_lib/rate-limit.js'
+import { checkPassword } from '../_lib/passwords.js'
+import { passwordCheckSchema } from '../../src/shared/password-policy.js'
+
+// POST /api/password/check — check a new password against the password
+// policy before signing up or changing it. Signed-in callers are also checked
+// for reuse of their recent passwords.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  await enforceRateLimit(res, [{ rule: 'password_check_per_ip', subject: getClientIp(req) }])
+
+  const { password } = passwordCheckSchema.parse(req.body)
+  const caller = getBearerToken(req) ? await authenticate(req) : null
+
+  const result = await checkPassword(password, caller?.user.id)
+
+  return res.status(200).json({ success: true, ...result })
+})
@@ -0,0 +1,46 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createSignInClient } from '../_lib/supabase.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { enforceRateLimit, getClientIp } from '../_lib/rate-limit.js'
+import { isCaptchaRefused, verifyCaptcha } from '../_lib/captcha.js'
+import { requireAuthCallbackUrl } from '../_lib/redirects.js'
+import { passwordResetRequestSchema } from '../../src/shared/password-policy.js'
+
+// POST /api/password/reset — email a password reset link, with a CAPTCHA
+// token while CAPTCHA is on. Answers the same whether or not the address has
+// an account. Links sent from the server use the implicit flow, which
+// /auth/callback still accepts.
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'POST') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  res.setHeader('Cache-Control', 'no-store')
+  await enforceRateLimit(res, [{ rule: 'password_reset_per_ip', subject: getClientIp(req) }])
+
+  const { email, redirectTo, captchaToken } = passwordResetRequestSchema.parse(req.body)
+  const callbackUrl = requireAuthCallbackUrl(req, redirectTo)
+  const authCaptchaToken = await verifyCaptcha(req, captchaToken)
+
+  // Counted after the CAPTCHA, so nobody can use up someone else's resets
+  await enforceRateLimit(res, [{ rule: 'password_reset_per_recipient', subject: email }])
+
+  const { error } = await createSignInClient(getClientIp(req)).auth.resetPasswordForEmail(email, {
+    redirectTo: callbackUrl,
+    captchaToken: authCaptchaToken
+  })
+
+  if (error) {
+    if (isCaptchaRefused(error)) {
+      throw new ApiError('CAPTCHA_FAILED')
+    }
+    if (error.status === 429) {
+      throw new ApiError('RATE_LIMITED', error.message)
+    }
+    logger.error('Password reset email failed', { error })
+    throw new ApiError('EMAIL_SEND_FAILED', 'The password reset email could not be sent')
+  }
+
+  return res.status(200).json({ success: true })
+})
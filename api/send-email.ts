@@ -1,19 +1,11 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { Resend } from 'resend'
-import { createClient } from '@supabase/supabase-js'
-
-const supabaseUrl = process.env.VITE_SUPABASE_URL
-const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error("Missing Supabase configuration. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY environment variables.")
-}
-
-// Use service role key to bypass RLS when querying user settings
-const supabase = supabaseServiceKey 
-  ? createClient(supabaseUrl, supabaseServiceKey)
-  : createClient(supabaseUrl, supabaseAnonKey)
+import { supabaseAdmin } from './_lib/supabase.js'
+import { authenticate } from './_lib/auth.js'
+import { ApiError, apiHandler } from './_lib/errors.js'
+import { enforceRateLimit, getClientIp } from './_lib/rate-limit.js'
+import { logger } from './_lib/logger.js'
+import { withIdempotency } from './_lib/idempotency.js'
 
 interface EmailSettings {
   senderName: string
@@ -24,7 +16,8 @@ interface EmailSettings {
 
 const getEmailSettings = async (userId: string): Promise<EmailSettings | null> => {
   try {
-    const { data: keys } = await supabase
+    // Use service role key to bypass RLS when querying user settings
+    const { data: keys } = await supabaseAdmin
       .from('user_api_keys')
       .select('key_name, key_value')
       .eq('user_id', userId)
@@ -58,7 +51,7 @@ const getEmailSettings = async (userId: string): Promise<EmailSettings | null> =
 
     return settings as EmailSettings
   } catch (error) {
-    console.error('Error fetching email settings:', error)
+    logger.error('Error fetching email settings', { error })
     return null
   }
 }
@@ -241,50 +234,35 @@ const createInvitationEmailHtml = (invitationData: {
     `.trim()
 }
 
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
-) {
-  // Enable CORS for frontend
-  res.setHeader('Access-Control-Allow-Credentials', 'true')
-  res.setHeader('Access-Control-Allow-Origin', '*')
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT')
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version')
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end()
-    return
-  }
-
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' })
+    throw new ApiError('METHOD_NOT_ALLOWED')
   }
 
-  try {
-    const { userId, recipientEmail, emailType, emailData } = req.body
+  // Emails are always sent with the authenticated caller's own settings
+  const caller = await authenticate(req)
+  const userId = caller.user.id
+
+  // A retried request is answered from the stored response instead of sending again
+  return withIdempotency(req, res, userId, async () => {
+    const { recipientEmail, emailType, emailData } = req.body
 
-    if (!userId || !recipientEmail || !emailType) {
-      return res.status(400).json({ error: 'Missing required fields: userId, recipientEmail, emailType' })
+    if (!recipientEmail || !emailType) {
+      throw new ApiError('VALIDATION_FAILED', 'Missing required fields: recipientEmail, emailType')
     }
 
-    console.log(`Processing ${emailType} email for user:`, userId, 'to:', recipientEmail)
-    
+    await enforceRateLimit(res, [
+      { rule: 'email_per_user', subject: userId },
+      { rule: 'email_per_ip', subject: getClientIp(req) },
+      { rule: 'email_per_recipient', subject: recipientEmail }
+    ])
+
     const emailSettings = await getEmailSettings(userId)
-    
+  
     if (!emailSettings) {
-      console.log('No email settings found')
-      return res.status(400).json({ 
-        error: 'Email settings not configured. Please configure your email settings first.' 
-      })
+      throw new ApiError('EMAIL_NOT_CONFIGURED', 'Email settings not configured. Please configure your email settings first.')
     }
 
-    console.log('Email settings found:', {
-      senderName: emailSettings.senderName,
-      senderEmail: emailSettings.senderEmail,
-      hasApiKey: !!emailSettings.resendApiKey,
-      domain: emailSettings.domain
-    })
-
     const resend = new Resend(emailSettings.resendApiKey)
 
     let emailHtml: string
@@ -295,21 +273,26 @@ export default async function handler(
         emailHtml = createTestEmailHtml(emailSettings)
         subject = 'Email Settings Test - Configuration Successful!'
         break
-        
+      
       case 'invitation':
+        if (caller.role?.role !== 'admin' || caller.role?.status !== 'active') {
+          throw new ApiError('FORBIDDEN', 'Admin access required to send invitations')
+        }
         if (!emailData) {
-          return res.status(400).json({ error: 'emailData is required for invitation emails' })
+          throw new ApiError('VALIDATION_FAILED', 'emailData is required for invitation emails')
+        }
+        if (emailData.expiresAt && new Date(emailData.expiresAt).getTime() < Date.now()) {
+          throw new ApiError('INVITATION_EXPIRED')
         }
         emailHtml = createInvitationEmailHtml(emailData)
         subject = `You're invited to join ${emailData.organizationName || 'our platform'}!`
         break
-        
+      
       default:
-        return res.status(400).json({ error: 'Invalid emailType. Must be "test" or "invitation"' })
+        throw new ApiError('VALIDATION_FAILED', 'Invalid emailType. Must be "test" or "invitation"')
     }
 
     // Send email
-    console.log('Attempting to send email...')
     const { data, error } = await resend.emails.send({
       from: `${emailSettings.senderName} <${emailSettings.senderEmail}>`,
       to: recipientEmail,
@@ -318,29 +301,14 @@ export default async function handler(
     })
 
     if (error) {
-      console.error('Resend API error:', error)
-      return res.status(400).json({
-        error: `Resend API Error: ${error.message || error.name || 'Failed to send email'}`
-      })
+      logger.warn('Resend rejected email', { emailType, error })
+      throw new ApiError('EMAIL_SEND_FAILED', error.message || undefined, { provider: 'resend', reason: error.name })
     }
 
-    console.log('Email sent successfully:', data)
+    logger.info('Email sent', { emailType, messageId: data?.id })
     return res.status(200).json({
       success: true,
       messageId: data?.id
     })
-
-  } catch (error) {
-    console.error('Email sending error:', error)
-    
-    if (error instanceof Error) {
-      return res.status(500).json({
-        error: `Error: ${error.message}`
-      })
-    }
-    
-    return res.status(500).json({
-      error: 'An unknown error occurred while sending the email'
-    })
-  }
-}
\ No newline at end of file
+  })
+})
@@ -0,0 +1,30 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { getCurrentSessionId, revokeSessions } from '../_lib/sessions.js'
+import { sessionIdParamSchema } from '../../src/shared/sessions.js'
+
+// DELETE /api/sessions/:id — sign out one of the caller's other sessions
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'DELETE') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  refuseImpersonation(caller)
+  const sessionId = sessionIdParamSchema.parse(req.query.id)
+
+  // The client signs itself out instead, which also clears its stored tokens
+  if (sessionId === getCurrentSessionId(caller)) {
+    throw new ApiError('CONFLICT', 'This is the current session. Sign out instead.')
+  }
+
+  const revoked = await revokeSessions(caller.user.id, { sessionIds: [sessionId] })
+  if (revoked === 0) {
+    throw new ApiError('SESSION_NOT_FOUND')
+  }
+
+  logger.info('Session revoked', { sessionId })
+  return res.status(200).json({ success: true })
+})
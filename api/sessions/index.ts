@@ -0,0 +1,49 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { authenticate, refuseImpersonation } from '../_lib/auth.js'
+import { ApiError, apiHandler } from '../_lib/errors.js'
+import { logger } from '../_lib/logger.js'
+import { getCurrentSessionId, listSessions, recordSession, revokeSessions } from '../_lib/sessions.js'
+import { recordLoginEvent } from '../_lib/login-events.js'
+import { revokeSessionsQuerySchema } from '../../src/shared/sessions.js'
+import { readLoginMethod } from '../../src/shared/login-events.js'
+
+// GET    /api/sessions              — the caller's active sessions
+// POST   /api/sessions              — record the caller's session (sent after
+//                                     sign-in and on each token refresh)
+// DELETE /api/sessions?scope=others — sign out every other session
+export default apiHandler(async (req: VercelRequest, res: VercelResponse) => {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    throw new ApiError('METHOD_NOT_ALLOWED')
+  }
+
+  const caller = await authenticate(req)
+  res.setHeader('Cache-Control', 'no-store')
+
+  if (req.method === 'GET') {
+    const sessions = await listSessions(caller)
+    return res.status(200).json({ success: true, sessions })
+  }
+
+  // The access token is the admin's, so there is no session of the user to act on
+  refuseImpersonation(caller)
+
+  if (req.method === 'POST') {
+    const { session, isNew } = await recordSession(caller, req)
+    // A session reports in right after it is created, whatever the sign-in method
+    if (isNew) {
+      await recordLoginEvent(req, {
+        userId: caller.user.id,
+        email: caller.user.email || '',
+        success: true,
+        method: readLoginMethod(caller.accessToken)
+      })
+    }
+    return res.status(200).json({ success: true, session })
+  }
+
+  revokeSessionsQuerySchema.parse(req.query)
+  const revoked = await revokeSessions(caller.user.id, { keepSessionId: getCurrentSessionId(caller) })
+  logger.info('Other sessions revoked', { revoked })
+
+  return res.status(200).json({ success: true, revoked })
+})
@@ -72,7 +72,9 @@ async function createTestUsers() {
         email: testUser.email,
         password: testUser.password,
         email_confirm: true,
-        user_metadata: testUser.metadata
+        user_metadata: testUser.metadata,
+        // Skips the sign-up policy in handle_new_user()
+        app_metadata: { created_by_admin: true }
       });
 
       if (createError) {
@@ -39,7 +39,7 @@ const AdminRoute = ({
       case 'admin':
         return permissions.isAdmin
       case 'moderator':
-        return permissions.userRole?.role === 'admin' || permissions.userRole?.role === 'moderator'
+        return permissions.role === 'admin' || permissions.role === 'moderator'
       case 'canManageUsers':
         return permissions.canManageUsers
       case 'canImpersonate':
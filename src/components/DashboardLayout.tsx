@@ -1,12 +1,14 @@
 import { Outlet } from "react-router-dom";
 import Sidebar from "./Sidebar";
 import { ThemeToggle } from "./theme-toggle";
+import ImpersonationBanner from "./ImpersonationBanner";
 
 const DashboardLayout = () => {
   return (
     <div className="grid min-h-screen w-full md:grid-cols-[220px_1fr] lg:grid-cols-[280px_1fr]">
       <Sidebar />
       <div className="flex flex-col">
+        <ImpersonationBanner />
         <header className="flex h-14 items-center justify-end gap-4 border-b bg-muted/40 px-4 lg:h-[60px] lg:px-6">
           <ThemeToggle />
         </header>
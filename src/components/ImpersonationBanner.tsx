@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Eye, Loader2, LogOut } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { toastApiError } from "@/lib/api-errors";
+
+const formatRemaining = (milliseconds: number) => {
+  const totalSeconds = Math.max(Math.ceil(milliseconds / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Shown above every dashboard page while an admin is viewing the app as
+ * another user, with the time left and a button to go back.
+ */
+const ImpersonationBanner = () => {
+  const { impersonation, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [now, setNow] = useState(() => Date.now());
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [impersonation]);
+
+  if (!impersonation) {
+    return null;
+  }
+
+  const handleExit = async () => {
+    setStopping(true);
+    try {
+      await stopImpersonation();
+      toast.success(`Stopped viewing as ${impersonation.targetEmail}`);
+    } catch (error) {
+      toastApiError(error, "Failed to end the impersonation session");
+    } finally {
+      setStopping(false);
+      navigate("/dashboard/admin");
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-amber-950 lg:px-6"
+    >
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as <span className="font-semibold">{impersonation.targetEmail}</span>
+          {impersonation.readOnly ? " (read-only)" : " (changes allowed)"}
+          {" · "}
+          {formatRemaining(new Date(impersonation.expiresAt).getTime() - now)} left
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="border-amber-950/30 bg-transparent text-amber-950 hover:bg-amber-600"
+        onClick={handleExit}
+        disabled={stopping}
+      >
+        {stopping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+        Exit
+      </Button>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
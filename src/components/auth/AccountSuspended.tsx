@@ -0,0 +1,45 @@
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Ban } from 'lucide-react'
+
+/**
+ * Shown instead of the app while the signed-in account is suspended, with
+ * the reason and end date the admin gave.
+ */
+export function AccountSuspended() {
+  const { user, suspension, signOut } = useAuth()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5 text-red-600" />
+            Your account is suspended
+          </CardTitle>
+          <CardDescription>
+            {user?.email} can't use the app right now.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {suspension?.reason && (
+            <p>
+              <span className="font-medium">Reason:</span> {suspension.reason}
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            {suspension?.until
+              ? `The suspension ends on ${new Date(suspension.until).toLocaleString()}.`
+              : 'Contact an administrator if you think this is a mistake.'}
+          </p>
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" variant="outline" onClick={() => signOut()}>
+            Sign Out
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
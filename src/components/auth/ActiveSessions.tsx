@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react'
+import { toast } from 'sonner'
+import { listSessions, revokeOtherSessions, revokeSession, type UserSession } from '@/lib/sessions'
+import { toastApiError } from '@/lib/api-errors'
+
+const MOBILE_DEVICES = ['iPhone', 'iPad', 'Android phone', 'Android tablet']
+
+const describeSession = (session: UserSession) =>
+  [session.browser, session.device].filter(Boolean).join(' on ') || 'Unknown device'
+
+/**
+ * Profile section listing where the account is signed in, with buttons to
+ * sign out one session or every session but this one.
+ */
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<UserSession[] | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [revokeOthersOpen, setRevokeOthersOpen] = useState(false)
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions())
+    } catch (error) {
+      toastApiError(error, 'Failed to load sessions')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSessions()
+  }, [loadSessions])
+
+  const signOutSession = async (session: UserSession) => {
+    setBusyId(session.id)
+    try {
+      await revokeSession(session.id)
+      toast.success(`Signed out ${describeSession(session)}`)
+    } catch (error) {
+      toastApiError(error, 'Failed to sign out the session')
+    } finally {
+      setBusyId(null)
+      loadSessions()
+    }
+  }
+
+  const signOutOthers = async () => {
+    setBusyId('others')
+    try {
+      const revoked = await revokeOtherSessions()
+      toast.success(revoked === 1 ? 'Signed out 1 other session' : `Signed out ${revoked} other sessions`)
+    } catch (error) {
+      toastApiError(error, 'Failed to sign out other sessions')
+    } finally {
+      setBusyId(null)
+      setRevokeOthersOpen(false)
+      loadSessions()
+    }
+  }
+
+  const otherSessions = sessions?.filter(session => !session.current) ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>
+          Devices where your account is signed in. Sign out any you don't recognize.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!sessions ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading sessions...
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {sessions.map((session) => {
+              const Icon = MOBILE_DEVICES.includes(session.device ?? '') ? Smartphone : Monitor
+              return (
+                <li key={session.id} className="flex items-center gap-3 p-3">
+                  <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {describeSession(session)}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {session.ipAddress ?? 'Unknown IP'}
+                      {' · '}
+                      {session.current
+                        ? 'Active now'
+                        : `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      {' · '}
+                      Signed in {new Date(session.createdAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => signOutSession(session)}
+                      disabled={busyId !== null}
+                    >
+                      {busyId === session.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Sign Out
+                    </Button>
+                  )}
+                </li>
+              )
+            })}
+            {sessions.length === 0 && (
+              <li className="p-3 text-sm text-muted-foreground">No active sessions were found.</li>
+            )}
+          </ul>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={() => setRevokeOthersOpen(true)}
+          disabled={busyId !== null || otherSessions.length === 0}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out All Other Sessions
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={revokeOthersOpen} onOpenChange={setRevokeOthersOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out all other sessions?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device except this one will have to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={signOutOthers}>Sign Out Others</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
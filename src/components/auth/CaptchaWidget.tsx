@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { TEST_CAPTCHA_TOKEN, type CaptchaProvider } from '@/shared/captcha'
+
+// hCaptcha and Turnstile render explicitly through the same small API
+interface CaptchaApi {
+  render: (container: HTMLElement, params: Record<string, unknown>) => string
+  remove: (widgetId: string) => void
+}
+
+const SCRIPTS: Record<'hcaptcha' | 'turnstile', string> = {
+  hcaptcha: 'https://js.hcaptcha.com/1/api.js?render=explicit',
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit'
+}
+
+// Each script is loaded once per page, however many widgets use it
+const scriptLoads = new Map<string, Promise<void>>()
+
+const loadScript = (src: string) => {
+  let load = scriptLoads.get(src)
+  if (!load) {
+    load = new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script')
+      script.src = src
+      script.async = true
+      script.onload = () => resolve()
+      script.onerror = () => {
+        scriptLoads.delete(src)
+        reject(new Error(`Failed to load ${src}`))
+      }
+      document.head.appendChild(script)
+    })
+    scriptLoads.set(src, load)
+  }
+  return load
+}
+
+interface CaptchaWidgetProps {
+  provider: CaptchaProvider
+  siteKey: string
+  // The widget's token, or null once it expires or fails
+  onToken: (token: string | null) => void
+}
+
+/**
+ * The CAPTCHA of the provider chosen in Admin Settings (see useCaptcha).
+ * The test provider shows a plain checkbox that needs no network.
+ */
+export function CaptchaWidget({ provider, siteKey, onToken }: CaptchaWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const onTokenRef = useRef(onToken)
+  const [loadFailed, setLoadFailed] = useState(false)
+
+  useEffect(() => {
+    onTokenRef.current = onToken
+  }, [onToken])
+
+  useEffect(() => {
+    if (provider !== 'hcaptcha' && provider !== 'turnstile') return
+
+    let widgetId: string | null = null
+    let cancelled = false
+
+    loadScript(SCRIPTS[provider]).then(() => {
+      const api = (window as unknown as Record<string, CaptchaApi | undefined>)[provider]
+      if (cancelled || !api || !containerRef.current) return
+      widgetId = api.render(containerRef.current, {
+        sitekey: siteKey,
+        callback: (token: string) => onTokenRef.current(token),
+        'expired-callback': () => onTokenRef.current(null),
+        'error-callback': () => onTokenRef.current(null)
+      })
+    }).catch(() => {
+      if (!cancelled) setLoadFailed(true)
+    })
+
+    return () => {
+      cancelled = true
+      if (widgetId !== null) {
+        (window as unknown as Record<string, CaptchaApi | undefined>)[provider]?.remove(widgetId)
+      }
+    }
+  }, [provider, siteKey])
+
+  if (provider === 'none') return null
+
+  if (provider === 'test') {
+    return (
+      <div className="flex items-center space-x-2 rounded-md border p-3">
+        <Checkbox
+          id="test-captcha"
+          onCheckedChange={(checked) => onToken(checked === true ? TEST_CAPTCHA_TOKEN : null)}
+        />
+        <Label htmlFor="test-captcha">I'm not a robot (test CAPTCHA)</Label>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div ref={containerRef} />
+      {loadFailed && (
+        <p className="text-sm text-destructive">
+          The CAPTCHA could not be loaded. Check your connection or content blocker, then reload the page.
+        </p>
+      )}
+    </div>
+  )
+}
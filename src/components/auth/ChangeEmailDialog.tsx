@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { requestEmailChange } from '@/lib/email-change'
+import { toastApiError } from '@/lib/api-errors'
+import { emailChangeSchema } from '@/shared/email-change'
+
+interface ChangeEmailDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentEmail: string
+}
+
+/**
+ * Asks for a new email address and starts the change. Nothing changes until
+ * the links sent to both the current and the new address have been opened.
+ */
+export function ChangeEmailDialog({ open, onOpenChange, currentEmail }: ChangeEmailDialogProps) {
+  const [email, setEmail] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const parsed = emailChangeSchema.safeParse({ email })
+  const canSubmit = parsed.success && parsed.data.email !== currentEmail.toLowerCase()
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setEmail('')
+    onOpenChange(next)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!parsed.success) return
+    setLoading(true)
+
+    try {
+      await requestEmailChange(parsed.data.email)
+      toast.success('Check both inboxes', {
+        description: `Open the links we sent to ${currentEmail} and ${parsed.data.email} to confirm the change.`
+      })
+      handleOpenChange(false)
+    } catch (error) {
+      toastApiError(error, 'Failed to change the email address')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Change email address</DialogTitle>
+            <DialogDescription>
+              We will send a confirmation link to your current address and one to the new address. The change
+              takes effect once both have been opened; until then you keep signing in with {currentEmail}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="new-email">New email address</Label>
+            <Input
+              id="new-email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !canSubmit}>
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Confirmation Links
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
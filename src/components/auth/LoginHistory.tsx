@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle2, Loader2, Lock, XCircle } from 'lucide-react'
+import { getLoginHistory, type LoginEvent, type LoginHistory as LoginHistoryData } from '@/lib/login-history'
+import { toastApiError } from '@/lib/api-errors'
+import { LOGIN_METHOD_LABELS } from '@/shared/login-events'
+
+const FAILURE_LABELS: Record<string, string> = {
+  invalid_credentials: 'Wrong password',
+  email_not_confirmed: 'Email not confirmed',
+  locked: 'Refused while locked'
+}
+
+const describeDevice = (event: LoginEvent) =>
+  [event.browser, event.device].filter(Boolean).join(' on ') || 'Unknown device'
+
+/**
+ * Sign-in attempts, newest first, with a notice while the account is locked.
+ * Used by the profile page and the admin user list.
+ */
+export function LoginEventList({ history }: { history: LoginHistoryData }) {
+  return (
+    <div className="space-y-3">
+      {history.lockedUntil && (
+        <Alert variant="destructive">
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            Password sign-in is locked after too many failed attempts until{' '}
+            {new Date(history.lockedUntil).toLocaleString()}.
+          </AlertDescription>
+        </Alert>
+      )}
+      <ul className="divide-y rounded-md border">
+        {history.events.map((event) => (
+          <li key={event.id} className="flex items-center gap-3 p-3">
+            {event.success ? (
+              <CheckCircle2 className="h-5 w-5 shrink-0 text-green-600" />
+            ) : (
+              <XCircle className="h-5 w-5 shrink-0 text-red-600" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {describeDevice(event)}
+                <Badge variant="outline">{LOGIN_METHOD_LABELS[event.method]}</Badge>
+                {!event.success && (
+                  <Badge variant="destructive">
+                    {FAILURE_LABELS[event.failureReason ?? ''] ?? 'Failed'}
+                  </Badge>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground" title={new Date(event.createdAt).toLocaleString()}>
+                {event.ipAddress ?? 'Unknown IP'}
+                {' · '}
+                {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+              </div>
+            </div>
+          </li>
+        ))}
+        {history.events.length === 0 && (
+          <li className="p-3 text-sm text-muted-foreground">No sign-ins have been recorded yet.</li>
+        )}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Profile section listing recent sign-ins to the account, including failed
+ * password attempts, so people can spot ones that were not theirs.
+ */
+export function LoginHistory() {
+  const [history, setHistory] = useState<LoginHistoryData | null>(null)
+
+  useEffect(() => {
+    getLoginHistory()
+      .then(setHistory)
+      .catch(error => toastApiError(error, 'Failed to load sign-in history'))
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in History</CardTitle>
+        <CardDescription>
+          Recent sign-ins to your account. If you see one you don't recognize, change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!history ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading sign-in history...
+          </div>
+        ) : (
+          <LoginEventList history={history} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { OneTimeCodeInput } from '@/components/auth/OneTimeCodeInput'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { getVerifiedTotpFactors, redeemRecoveryCode, verifyTotp } from '@/lib/mfa'
+import { toastApiError } from '@/lib/api-errors'
+
+interface MfaChallengeProps {
+  // Called once the session is AAL2
+  onVerified: () => void
+  // Called after a recovery code removed the factors and signed the user out
+  onRecovered: () => void
+}
+
+/**
+ * Second sign-in step for accounts with an authenticator app: a 6-digit TOTP
+ * code, or a recovery code when the authenticator is lost.
+ */
+export function MfaChallenge({ onVerified, onRecovered }: MfaChallengeProps) {
+  const { user, signOut } = useAuth()
+  const [mode, setMode] = useState<'totp' | 'recovery'>('totp')
+  const [code, setCode] = useState('')
+  const [recoveryCode, setRecoveryCode] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const factor = getVerifiedTotpFactors(user)[0]
+
+  const handleVerify = async (value = code) => {
+    if (!factor || value.length !== 6) return
+
+    setLoading(true)
+    try {
+      await verifyTotp(factor.id, value)
+      toast.success('Welcome back!')
+      onVerified()
+    } catch (error) {
+      setCode('')
+      toast.error(error instanceof Error ? error.message : 'Invalid code')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      await redeemRecoveryCode(recoveryCode)
+      toast.success('Two-factor authentication was turned off', {
+        description: 'Sign in with your password, then set it up again from your profile.'
+      })
+      onRecovered()
+    } catch (error) {
+      toastApiError(error, 'Failed to use the recovery code')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {mode === 'totp'
+            ? 'Enter the 6-digit code from your authenticator app'
+            : 'Enter one of the recovery codes you saved when you set up two-factor authentication'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {mode === 'totp' ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleVerify()
+            }}
+            className="space-y-4"
+          >
+            <OneTimeCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={handleVerify}
+              disabled={loading}
+            />
+            <Button type="submit" className="w-full" disabled={loading || code.length !== 6}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleRecover} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="recovery-code">Recovery code</Label>
+              <Input
+                id="recovery-code"
+                placeholder="ABCDE-23456"
+                autoComplete="off"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                required
+              />
+              <p className="text-sm text-muted-foreground">
+                This turns off two-factor authentication and signs you out everywhere.
+              </p>
+            </div>
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Use Recovery Code
+            </Button>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-col space-y-2">
+        <Button
+          variant="link"
+          className="text-sm text-muted-foreground"
+          onClick={() => setMode(mode === 'totp' ? 'recovery' : 'totp')}
+          disabled={loading}
+        >
+          {mode === 'totp' ? 'Lost your authenticator? Use a recovery code' : 'Use your authenticator app'}
+        </Button>
+        <Button
+          variant="link"
+          className="text-sm text-muted-foreground"
+          onClick={() => signOut()}
+          disabled={loading}
+        >
+          Cancel and sign out
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
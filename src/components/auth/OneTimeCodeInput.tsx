@@ -0,0 +1,44 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp'
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp'
+
+interface OneTimeCodeInputProps {
+  value: string
+  onChange: (value: string) => void
+  // Number of digits; authenticator apps and Supabase email codes use 6
+  length?: number
+  // Called once all digits are entered
+  onComplete?: (value: string) => void
+  disabled?: boolean
+}
+
+// Numeric code entry for authenticator (TOTP) and email one-time codes
+export function OneTimeCodeInput({ value, onChange, length = 6, onComplete, disabled }: OneTimeCodeInputProps) {
+  const half = Math.ceil(length / 2)
+
+  return (
+    <InputOTP
+      maxLength={length}
+      pattern={REGEXP_ONLY_DIGITS}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      autoFocus
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: half }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        {Array.from({ length: length - half }, (_, index) => (
+          <InputOTPSlot key={index} index={half + index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  )
+}
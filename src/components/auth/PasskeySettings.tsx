@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { useStepUp } from '@/hooks/useStepUp'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { KeyRound, Loader2, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  deletePasskey,
+  isPasskeyCancelled,
+  isPasskeySupported,
+  listPasskeys,
+  registerPasskey,
+  type Passkey
+} from '@/lib/passkeys'
+import { toastApiError } from '@/lib/api-errors'
+
+/**
+ * Profile section listing the account's passkeys, with buttons to add one
+ * on this device and to remove them.
+ */
+export function PasskeySettings() {
+  const { withStepUp } = useStepUp()
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [removing, setRemoving] = useState<Passkey | null>(null)
+
+  const supported = isPasskeySupported()
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      setPasskeys(await listPasskeys())
+    } catch (error) {
+      toastApiError(error, 'Failed to load passkeys')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPasskeys()
+  }, [loadPasskeys])
+
+  const addPasskey = async () => {
+    setBusyId('new')
+    try {
+      // Adding a way to sign in needs a recent re-authentication
+      const passkey = await withStepUp(() => registerPasskey())
+      toast.success('Passkey added', {
+        description: `You can now sign in with ${passkey.name}.`
+      })
+    } catch (error) {
+      if (!isPasskeyCancelled(error)) {
+        toastApiError(error, 'Failed to add the passkey')
+      }
+    } finally {
+      setBusyId(null)
+      loadPasskeys()
+    }
+  }
+
+  const removePasskey = async (passkey: Passkey) => {
+    setBusyId(passkey.id)
+    try {
+      await deletePasskey(passkey.id)
+      toast.success(`Removed ${passkey.name}`)
+    } catch (error) {
+      toastApiError(error, 'Failed to remove the passkey')
+    } finally {
+      setBusyId(null)
+      setRemoving(null)
+      loadPasskeys()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a password. Passkeys cannot be phished
+          or reused on other sites.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!passkeys ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading passkeys...
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {passkeys.map((passkey) => (
+              <li key={passkey.id} className="flex items-center gap-3 p-3">
+                <KeyRound className="h-5 w-5 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {passkey.name}
+                    {passkey.backedUp && <Badge variant="secondary">Synced</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {' · '}
+                    {passkey.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(passkey.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRemoving(passkey)}
+                  disabled={busyId !== null}
+                >
+                  {busyId === passkey.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Remove
+                </Button>
+              </li>
+            ))}
+            {passkeys.length === 0 && (
+              <li className="p-3 text-sm text-muted-foreground">You have not added any passkeys yet.</li>
+            )}
+          </ul>
+        )}
+
+        <Button variant="outline" onClick={addPasskey} disabled={!supported || busyId !== null}>
+          {busyId === 'new' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add a Passkey
+        </Button>
+        {!supported && (
+          <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this passkey?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removing?.name} will no longer sign you in. The passkey may stay on the device until you delete it
+              there too.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => removing && removePasskey(removing)}>Remove Passkey</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
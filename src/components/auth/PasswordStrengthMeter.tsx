@@ -0,0 +1,59 @@
+import { Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  PASSWORD_STRENGTH_LABELS,
+  checkPasswordRequirements,
+  estimatePasswordStrength,
+  type PasswordPolicy
+} from '@/shared/password-policy'
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-green-500', 'bg-green-600']
+
+interface PasswordStrengthMeterProps {
+  password: string
+  policy: PasswordPolicy
+}
+
+/**
+ * Strength bar and the policy's rules for a new password, updated as the
+ * user types. Reuse and breach checks happen on submit.
+ */
+export function PasswordStrengthMeter({ password, policy }: PasswordStrengthMeterProps) {
+  const strength = estimatePasswordStrength(password)
+  const requirements = checkPasswordRequirements(password, policy)
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      {password && (
+        <div className="flex items-center gap-2">
+          <div className="flex flex-1 gap-1">
+            {PASSWORD_STRENGTH_LABELS.map((label, index) => (
+              <div
+                key={label}
+                className={cn('h-1.5 flex-1 rounded-full bg-muted', index <= strength && STRENGTH_COLORS[strength])}
+              />
+            ))}
+          </div>
+          <span className="w-20 text-right text-xs text-muted-foreground">{PASSWORD_STRENGTH_LABELS[strength]}</span>
+        </div>
+      )}
+      <ul className="space-y-1 text-xs">
+        {requirements.map((requirement) => (
+          <li
+            key={requirement.id}
+            className={cn('flex items-center gap-1.5', requirement.met ? 'text-green-600' : 'text-muted-foreground')}
+          >
+            {requirement.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {requirement.label}
+          </li>
+        ))}
+        {policy.historySize > 0 && (
+          <li className="text-muted-foreground">Not one of your last {policy.historySize} passwords</li>
+        )}
+        {policy.breachCheck && (
+          <li className="text-muted-foreground">Not found in a known data breach</li>
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Clock } from 'lucide-react'
+
+/**
+ * Shown instead of the app while the signed-in account's sign-up waits for
+ * an admin to approve it. It goes away by itself once they do.
+ */
+export function PendingApproval() {
+  const { user, signOut } = useAuth()
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-amber-600" />
+            Waiting for approval
+          </CardTitle>
+          <CardDescription>
+            Thanks for signing up as {user?.email}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          An administrator needs to approve your account before you can use the app.
+          You can leave this page open; it will continue as soon as you are approved.
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" variant="outline" onClick={() => signOut()}>
+            Sign Out
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Download, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useAuth } from '@/contexts/AuthContext'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
+import {
+  cancelAccountDeletion,
+  downloadDataExport,
+  getAccountDeletion,
+  requestAccountDeletion,
+  type AccountDeletion,
+} from '@/lib/privacy'
+import { toastApiError } from '@/lib/api-errors'
+import { readAccountDeletionGraceDays } from '@/shared/privacy'
+
+/**
+ * Profile section for downloading a copy of the account's data and for
+ * deleting the account, with a grace period in which deletion can be undone.
+ */
+export function PrivacySettings() {
+  const { user } = useAuth()
+  const { settings } = useAppSettings()
+  const [deletion, setDeletion] = useState<AccountDeletion | null | undefined>(undefined)
+  const [busy, setBusy] = useState<'export' | 'delete' | 'cancel' | null>(null)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [confirmEmail, setConfirmEmail] = useState('')
+
+  const graceDays = readAccountDeletionGraceDays(settings.account_deletion_grace_days)
+  const emailMatches = !!user?.email && confirmEmail.trim().toLowerCase() === user.email.toLowerCase()
+
+  const loadDeletion = useCallback(async () => {
+    try {
+      setDeletion(await getAccountDeletion())
+    } catch (error) {
+      toastApiError(error, 'Failed to load the account deletion status')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadDeletion()
+  }, [loadDeletion])
+
+  const exportData = async () => {
+    setBusy('export')
+    try {
+      await downloadDataExport()
+      toast.success('Your data has been downloaded')
+    } catch (error) {
+      toastApiError(error, 'Failed to export your data')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const scheduleDeletion = async () => {
+    setBusy('delete')
+    try {
+      const scheduled = await requestAccountDeletion(confirmEmail)
+      setDeletion(scheduled)
+      setConfirmOpen(false)
+      setConfirmEmail('')
+      toast.success('Account deletion scheduled', {
+        description: `Your account will be deleted on ${format(new Date(scheduled.scheduledFor), 'PPP')}.`
+      })
+    } catch (error) {
+      toastApiError(error, 'Failed to schedule the account deletion')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const cancelDeletion = async () => {
+    setBusy('cancel')
+    try {
+      await cancelAccountDeletion()
+      setDeletion(null)
+      toast.success('Account deletion cancelled')
+    } catch (error) {
+      toastApiError(error, 'Failed to cancel the account deletion')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Privacy</CardTitle>
+        <CardDescription>
+          Download a copy of your data, or delete your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            A JSON file with your profile, role, settings (stored keys are masked), sessions and sign-in history.
+          </p>
+          <Button variant="outline" onClick={exportData} disabled={busy !== null}>
+            {busy === 'export' ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export Data
+          </Button>
+        </div>
+
+        {deletion === undefined ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading...
+          </div>
+        ) : deletion ? (
+          <Alert variant="destructive">
+            <Trash2 className="h-4 w-4" />
+            <AlertTitle>Your account is scheduled for deletion</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                It will be deleted on {format(new Date(deletion.scheduledFor), 'PPP')} (
+                {formatDistanceToNow(new Date(deletion.scheduledFor), { addSuffix: true })}), along with all of its
+                data. Until then you can change your mind.
+              </p>
+              <Button variant="outline" size="sm" onClick={cancelDeletion} disabled={busy !== null}>
+                {busy === 'cancel' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Keep My Account
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Your account and its data are deleted {graceDays === 1 ? '1 day' : `${graceDays} days`} after you ask,
+              unless you cancel before then.
+            </p>
+            <Button variant="destructive" onClick={() => setConfirmOpen(true)} disabled={busy !== null}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Account
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={confirmOpen}
+        onOpenChange={(open) => {
+          setConfirmOpen(open)
+          if (!open) setConfirmEmail('')
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your account will be deleted in {graceDays === 1 ? '1 day' : `${graceDays} days`}. After that your
+              profile, settings and history are gone for good. Export your data first if you want a copy.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-delete-email">Type {user?.email} to confirm</Label>
+            <Input
+              id="confirm-delete-email"
+              type="email"
+              autoComplete="off"
+              value={confirmEmail}
+              onChange={(e) => setConfirmEmail(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={!emailMatches || busy !== null}
+              onClick={(e) => {
+                // Stay open until the request is done
+                e.preventDefault()
+                scheduleDeletion()
+              }}
+            >
+              {busy === 'delete' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Schedule Deletion
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
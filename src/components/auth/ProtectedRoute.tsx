@@ -1,6 +1,10 @@
 import { Navigate, useLocation } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
 import { Loader2 } from 'lucide-react'
+import { buildSignInPath } from '@/lib/redirect'
+import { AccountSuspended } from '@/components/auth/AccountSuspended'
+import { PendingApproval } from '@/components/auth/PendingApproval'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
@@ -8,10 +12,11 @@ interface ProtectedRouteProps {
 }
 
 export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
-  const { user, loading, isAdmin } = useAuth()
+  const { user, loading, isAdmin, mfa, suspension, pendingApproval } = useAuth()
+  const { settings, loading: settingsLoading } = useAppSettings()
   const location = useLocation()
 
-  if (loading) {
+  if (loading || (requireAdmin && settingsLoading)) {
     return (
       <div className="flex h-screen items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin" />
@@ -19,13 +24,34 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
     )
   }
 
+  // The requested page survives sign-in as ?redirect_to=, which (unlike
+  // router state) also makes it through OAuth and email link round trips
   if (!user) {
-    return <Navigate to="/sign-in" state={{ from: location }} replace />
+    return <Navigate to={buildSignInPath(location)} replace />
+  }
+
+  // An enrolled factor has to be verified before any protected page is shown
+  if (mfa.nextLevel === 'aal2' && mfa.currentLevel !== 'aal2') {
+    return <Navigate to={buildSignInPath(location)} replace />
+  }
+
+  // RLS and the API refuse suspended accounts too; this explains why
+  if (suspension) {
+    return <AccountSuspended />
+  }
+
+  if (pendingApproval) {
+    return <PendingApproval />
   }
 
   if (requireAdmin && !isAdmin) {
     return <Navigate to="/dashboard" replace />
   }
 
+  // The API enforces the same policy (api/_lib/auth.ts requireAdmin)
+  if (requireAdmin && settings.mfa_required_for_admins === 'true' && mfa.currentLevel !== 'aal2') {
+    return <Navigate to="/dashboard/profile" state={{ mfaRequired: true }} replace />
+  }
+
   return <>{children}</>
-}
\ No newline at end of file
+}
@@ -1,29 +1,126 @@
 import { useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
 import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
-import { Loader2 } from 'lucide-react'
+import { KeyRound, Loader2 } from 'lucide-react'
 import { toast } from 'sonner'
-import { Link } from 'react-router-dom'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
+import { MfaChallenge } from '@/components/auth/MfaChallenge'
+import { OneTimeCodeInput } from '@/components/auth/OneTimeCodeInput'
+import { CaptchaWidget } from '@/components/auth/CaptchaWidget'
+import { useCaptcha } from '@/hooks/useCaptcha'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
+import { needsMfaChallenge } from '@/lib/mfa'
+import { isPasskeyCancelled, isPasskeySupported } from '@/lib/passkeys'
+import { ApiRequestError } from '@/lib/api'
+import { toastApiError } from '@/lib/api-errors'
+import { getRedirectFromSearch } from '@/lib/redirect'
+import { EMAIL_OTP_LENGTH } from '@/shared/passwordless'
 
 export function SignInForm() {
-  const { signIn, signInWithProvider } = useAuth()
+  const { session, signIn, signInWithPasskey, signInWithProvider, sendEmailSignIn, verifyEmailCode } = useAuth()
+  const { settings } = useAppSettings()
+  const navigate = useNavigate()
+  const location = useLocation()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [loading, setLoading] = useState(false)
+  const [mode, setMode] = useState<'password' | 'email'>('password')
+  // Address the magic link / code was sent to
+  const [emailSentTo, setEmailSentTo] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const captcha = useCaptcha()
+
+  const passwordlessEnabled = settings.passwordless_enabled === 'true'
+  const usePasswordless = passwordlessEnabled && mode === 'email'
+  // Page that sent the visitor here (ProtectedRoute adds ?redirect_to=)
+  const redirectTo = getRedirectFromSearch(location.search)
 
   const handleEmailSignIn = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
 
     try {
-      const { error } = await signIn(email, password)
+      const { data, error } = await signIn(email, password, captcha.token ?? undefined)
       if (error) throw error
-      toast.success('Welcome back!')
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to sign in')
+      // Accounts with an authenticator app continue with the MFA step below
+      if (!needsMfaChallenge(data.session)) {
+        toast.success('Welcome back!')
+        navigate(redirectTo, { replace: true })
+      }
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.code === 'ACCOUNT_LOCKED' && typeof error.details?.until === 'string') {
+        toast.error('Too many failed sign-ins', {
+          description: `Try again ${formatDistanceToNow(new Date(error.details.until), { addSuffix: true })}, or sign in another way.`
+        })
+      } else {
+        toastApiError(error, 'Failed to sign in')
+      }
+    } finally {
+      captcha.reset()
+      setLoading(false)
+    }
+  }
+
+  const handlePasskeySignIn = async () => {
+    setLoading(true)
+
+    try {
+      const { data, error } = await signInWithPasskey()
+      if (error) throw error
+      if (!needsMfaChallenge(data.session)) {
+        toast.success('Welcome back!')
+        navigate(redirectTo, { replace: true })
+      }
+    } catch (error) {
+      // Dismissing the browser's prompt needs no message
+      if (!isPasskeyCancelled(error)) {
+        toastApiError(error, 'Failed to sign in with a passkey')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSendEmail = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    setLoading(true)
+
+    try {
+      const { error } = await sendEmailSignIn(email, redirectTo, captcha.token ?? undefined)
+      // Other errors (such as an unknown address) are not shown, so the form
+      // does not reveal which emails have accounts
+      if (error && (!error.status || error.status === 429 || error.status >= 500 || error.code === 'captcha_failed')) throw error
+      setEmailSentTo(email)
+      setCode('')
+      toast.success('Check your email', {
+        description: 'If an account exists for this address, we sent it a sign-in link and code.'
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send the sign-in email')
+    } finally {
+      captcha.reset()
+      setLoading(false)
+    }
+  }
+
+  const handleVerifyCode = async (value = code) => {
+    if (!emailSentTo || value.length !== EMAIL_OTP_LENGTH) return
+    setLoading(true)
+
+    try {
+      const { data, error } = await verifyEmailCode(emailSentTo, value)
+      if (error) throw error
+      if (!needsMfaChallenge(data.session)) {
+        toast.success('Welcome back!')
+        navigate(redirectTo, { replace: true })
+      }
+    } catch (error) {
+      setCode('')
+      toast.error(error instanceof Error ? error.message : 'Invalid or expired code')
     } finally {
       setLoading(false)
     }
@@ -31,49 +128,167 @@ export function SignInForm() {
 
   const handleOAuthSignIn = async (provider: 'google' | 'github' | 'discord') => {
     try {
-      const { error } = await signInWithProvider(provider)
+      const { error } = await signInWithProvider(provider, redirectTo)
       if (error) throw error
     } catch (error: any) {
       toast.error(error.message || `Failed to sign in with ${provider}`)
     }
   }
 
+  // Also shown when a protected page sends an AAL1 session back here
+  if (needsMfaChallenge(session)) {
+    return (
+      <MfaChallenge
+        onVerified={() => navigate(redirectTo, { replace: true })}
+        onRecovered={() => navigate(`/sign-in${location.search}`)}
+      />
+    )
+  }
+
   return (
     <Card className="w-full max-w-md">
       <CardHeader>
         <CardTitle>Sign In</CardTitle>
         <CardDescription>
-          Enter your email and password to access your account
+          {usePasswordless
+            ? "We'll email you a link and a one-time code, no password needed"
+            : 'Enter your email and password to access your account'}
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleEmailSignIn} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="email">Email</Label>
-            <Input
-              id="email"
-              type="email"
-              placeholder="you@example.com"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
+        {usePasswordless ? (
+          emailSentTo ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleVerifyCode()
+              }}
+              className="space-y-4"
+            >
+              <p className="text-sm text-muted-foreground">
+                Click the link we sent to <span className="font-medium text-foreground">{emailSentTo}</span>, or enter the {EMAIL_OTP_LENGTH}-digit code from the email.
+              </p>
+              <OneTimeCodeInput
+                value={code}
+                onChange={setCode}
+                length={EMAIL_OTP_LENGTH}
+                onComplete={handleVerifyCode}
+                disabled={loading}
+              />
+              <Button type="submit" className="w-full" disabled={loading || code.length !== EMAIL_OTP_LENGTH}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Sign In
+              </Button>
+              {/* Sending again needs a new token */}
+              <CaptchaWidget
+                key={captcha.widgetKey}
+                provider={captcha.provider}
+                siteKey={captcha.siteKey}
+                onToken={captcha.setToken}
+              />
+              <div className="flex justify-between">
+                <Button type="button" variant="link" className="px-0 text-sm text-muted-foreground" onClick={() => setEmailSentTo(null)} disabled={loading}>
+                  Use a different email
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0 text-sm text-muted-foreground"
+                  onClick={() => handleSendEmail()}
+                  disabled={loading || (captcha.required && !captcha.token)}
+                >
+                  Send again
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleSendEmail} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <CaptchaWidget
+                key={captcha.widgetKey}
+                provider={captcha.provider}
+                siteKey={captcha.siteKey}
+                onToken={captcha.setToken}
+              />
+              <Button type="submit" className="w-full" disabled={loading || (captcha.required && !captcha.token)}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Email Me a Sign-In Link
+              </Button>
+            </form>
+          )
+        ) : (
+          <form onSubmit={handleEmailSignIn} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <CaptchaWidget
+              key={captcha.widgetKey}
+              provider={captcha.provider}
+              siteKey={captcha.siteKey}
+              onToken={captcha.setToken}
             />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
-            <Input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-            />
-          </div>
-          <Button type="submit" className="w-full" disabled={loading}>
-            {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            Sign In
+            <Button type="submit" className="w-full" disabled={loading || (captcha.required && !captcha.token)}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign In
+            </Button>
+          </form>
+        )}
+
+        {isPasskeySupported() && (
+          <Button
+            type="button"
+            variant="outline"
+            className="mt-4 w-full"
+            onClick={handlePasskeySignIn}
+            disabled={loading}
+          >
+            <KeyRound className="mr-2 h-4 w-4" />
+            Sign in with a passkey
+          </Button>
+        )}
+
+        {passwordlessEnabled && (
+          <Button
+            type="button"
+            variant="link"
+            className="mt-2 w-full text-sm text-muted-foreground"
+            onClick={() => {
+              setMode(mode === 'password' ? 'email' : 'password')
+              setEmailSentTo(null)
+            }}
+            disabled={loading}
+          >
+            {mode === 'password' ? 'Sign in with an email link or code instead' : 'Sign in with a password instead'}
           </Button>
-        </form>
+        )}
 
         <div className="relative my-4">
           <div className="absolute inset-0 flex items-center">
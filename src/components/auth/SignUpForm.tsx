@@ -1,27 +1,53 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Loader2, UserPlus, AlertCircle } from 'lucide-react'
+import { Loader2, UserPlus, AlertCircle, Clock } from 'lucide-react'
 import { toast } from 'sonner'
-import { Link, useSearchParams } from 'react-router-dom'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
+import { ApiRequestError } from '@/lib/api'
+import { toastApiError } from '@/lib/api-errors'
+import { checkPassword } from '@/lib/passwords'
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter'
+import { CaptchaWidget } from '@/components/auth/CaptchaWidget'
+import { useCaptcha } from '@/hooks/useCaptcha'
+import { MAX_PASSWORD_LENGTH, checkPasswordRequirements, readPasswordPolicy } from '@/shared/password-policy'
+import {
+  describeSignupPolicy,
+  isEmailDomainAllowed,
+  parseDomainList,
+  readSignupPolicy
+} from '@/shared/signup-policy'
 
 export function SignUpForm() {
   const { signUp } = useAuth()
+  const { settings, loading: settingsLoading } = useAppSettings()
   const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [loading, setLoading] = useState(false)
   const [invitationData, setInvitationData] = useState<any>(null)
   const [checkingInvitation, setCheckingInvitation] = useState(false)
+  const [awaitingApproval, setAwaitingApproval] = useState(false)
+  const captcha = useCaptcha()
 
   const invitationId = searchParams.get('invitation')
   const invitedEmail = searchParams.get('email') ? decodeURIComponent(searchParams.get('email')!) : null
+  const isInvitation = !!invitationId && !!invitedEmail
+
+  // The database trigger enforces the policy; this only explains it up front.
+  // Invitation links work whatever the policy is.
+  const policy = readSignupPolicy(settings.signup_policy)
+  const allowedDomains = parseDomainList(settings.signup_allowed_domains).domains
+  // A new account has no previous passwords to compare against
+  const passwordPolicy = { ...readPasswordPolicy(settings.password_policy), historySize: 0 }
 
   useEffect(() => {
     // If we have an invitation ID, verify it and pre-fill the email
@@ -70,7 +96,7 @@ export function SignUpForm() {
 
       if (error || !data) {
         console.error('Invitation query failed:', error?.message || 'No data returned')
-        toast.error('Invalid or expired invitation')
+        toastApiError('INVITATION_NOT_FOUND')
         setCheckingInvitation(false)
         return
       }
@@ -82,7 +108,7 @@ export function SignUpForm() {
           now: new Date().toISOString(),
           isExpired: new Date(data.expires_at) < new Date()
         })
-        toast.error('This invitation has expired')
+        toastApiError('INVITATION_EXPIRED')
         setCheckingInvitation(false)
         return
       }
@@ -106,19 +132,55 @@ export function SignUpForm() {
       return
     }
 
+    if (!invitationData && policy === 'domain_allowlist' && !isEmailDomainAllowed(email, allowedDomains)) {
+      toast.error(describeSignupPolicy(policy, allowedDomains))
+      return
+    }
+
+    if (checkPasswordRequirements(password, passwordPolicy).some(requirement => !requirement.met)) {
+      toast.error('Your password does not meet the requirements')
+      return
+    }
+
     setLoading(true)
 
     try {
+      // Supabase Auth only knows its own minimum length, so the full policy
+      // (including the breach check) is checked by the API first
+      let passwordCheck
+      try {
+        passwordCheck = await checkPassword(password)
+      } catch (error) {
+        toastApiError(error, 'Failed to check the password')
+        return
+      }
+      if (!passwordCheck.valid) {
+        toast.error('Choose a different password', { description: passwordCheck.failures.join('. ') })
+        return
+      }
+
       // Sign up the user
-      const { error: signUpError, data } = await signUp(email, password)
-      if (signUpError) throw signUpError
+      let result
+      try {
+        result = await signUp(email, password, captcha.token ?? undefined)
+      } catch (error) {
+        // The policy may have changed since the page loaded
+        if (error instanceof ApiRequestError && error.code === 'SIGNUP_REFUSED') {
+          toast.error(`This account could not be created. ${describeSignupPolicy(policy, allowedDomains)}`)
+        } else {
+          toastApiError(error, 'Failed to sign up')
+        }
+        return
+      } finally {
+        captcha.reset()
+      }
 
       // If we have an invitation, update the user_roles record
-      if (invitationData && data?.user) {
+      if (invitationData && result.userId) {
         const { error: updateError } = await supabase
           .from('user_roles')
           .update({
-            user_id: data.user.id,
+            user_id: result.userId,
             status: 'active',
             updated_at: new Date().toISOString()
           })
@@ -132,6 +194,19 @@ export function SignUpForm() {
         // No need to manually insert it here
       }
 
+      // Without email confirmation the new account is signed in straight away;
+      // under the approval policy ProtectedRoute then shows the waiting screen
+      if (result.signedIn) {
+        toast.success('Account created!')
+        navigate('/dashboard')
+        return
+      }
+
+      if (!invitationData && policy === 'approval') {
+        setAwaitingApproval(true)
+        return
+      }
+
       toast.success(
         invitationData 
           ? 'Account created! You can now sign in.' 
@@ -144,13 +219,47 @@ export function SignUpForm() {
     }
   }
 
-  if (checkingInvitation) {
+  if (checkingInvitation || (!isInvitation && settingsLoading)) {
     return (
       <Card className="w-full max-w-md">
         <CardContent className="pt-6">
           <div className="flex items-center justify-center space-x-2">
             <Loader2 className="h-4 w-4 animate-spin" />
-            <span className="text-sm text-muted-foreground">Verifying invitation...</span>
+            <span className="text-sm text-muted-foreground">
+              {checkingInvitation ? 'Verifying invitation...' : 'Loading...'}
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (awaitingApproval) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Account Created
+          </CardTitle>
+          <CardDescription>
+            Confirm your email address with the link we sent to {email}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              An administrator will review your account. You can use the app once it has been approved.
+            </AlertDescription>
+          </Alert>
+          <div className="mt-4">
+            <Link
+              to="/sign-in"
+              className="text-sm text-primary hover:underline"
+            >
+              Back to sign in
+            </Link>
           </div>
         </CardContent>
       </Card>
@@ -158,7 +267,7 @@ export function SignUpForm() {
   }
 
   // Block sign-ups without valid invitation
-  if (!invitationId || !invitedEmail) {
+  if (!isInvitation && policy === 'invite_only') {
     return (
       <Card className="w-full max-w-md">
         <CardHeader>
@@ -188,7 +297,7 @@ export function SignUpForm() {
   }
 
   // Also block if invitation verification failed
-  if (!checkingInvitation && !invitationData) {
+  if (isInvitation && !checkingInvitation && !invitationData) {
     return (
       <Card className="w-full max-w-md">
         <CardHeader>
@@ -225,7 +334,11 @@ export function SignUpForm() {
           Sign Up
         </CardTitle>
         <CardDescription>
-          You've been invited as {invitationData?.role}. Create your account below.
+          {invitationData
+            ? `You've been invited as ${invitationData.role}. Create your account below.`
+            : policy === 'open'
+              ? 'Create your account below.'
+              : `Create your account below. ${describeSignupPolicy(policy, allowedDomains)}`}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -265,8 +378,10 @@ export function SignUpForm() {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
-              minLength={8}
+              minLength={passwordPolicy.minLength}
+              maxLength={MAX_PASSWORD_LENGTH}
             />
+            <PasswordStrengthMeter password={password} policy={passwordPolicy} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="confirmPassword">Confirm Password</Label>
@@ -276,10 +391,17 @@ export function SignUpForm() {
               value={confirmPassword}
               onChange={(e) => setConfirmPassword(e.target.value)}
               required
-              minLength={8}
+              minLength={passwordPolicy.minLength}
+              maxLength={MAX_PASSWORD_LENGTH}
             />
           </div>
-          <Button type="submit" className="w-full" disabled={loading}>
+          <CaptchaWidget
+            key={captcha.widgetKey}
+            provider={captcha.provider}
+            siteKey={captcha.siteKey}
+            onToken={captcha.setToken}
+          />
+          <Button type="submit" className="w-full" disabled={loading || (captcha.required && !captcha.token)}>
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Sign Up
           </Button>
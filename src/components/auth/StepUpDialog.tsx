@@ -0,0 +1,200 @@
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { OneTimeCodeInput } from '@/components/auth/OneTimeCodeInput'
+import { Loader2 } from 'lucide-react'
+import { getVerifiedTotpFactors } from '@/lib/mfa'
+import { getStepUpMethods, sendStepUpEmailCode, stepUp, type StepUpMethod } from '@/lib/step-up'
+import { toastApiError } from '@/lib/api-errors'
+
+interface StepUpDialogProps {
+  open: boolean
+  // Called once the re-authentication passed
+  onVerified: () => void
+  onCancel: () => void
+}
+
+/**
+ * Asks the signed-in user to confirm it is them, with their password, a code
+ * from their authenticator app or, for accounts with neither, a code sent to
+ * their email, before a sensitive action goes ahead.
+ * Shown by StepUpProvider when the API answers STEP_UP_REQUIRED.
+ */
+export function StepUpDialog({ open, onVerified, onCancel }: StepUpDialogProps) {
+  const { user } = useAuth()
+  const methods = getStepUpMethods(user)
+  const [method, setMethod] = useState<StepUpMethod | null>(null)
+  const [password, setPassword] = useState('')
+  const [code, setCode] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [emailSent, setEmailSent] = useState(false)
+
+  // An authenticator code is quicker to enter than a password
+  const current = method ?? (methods.includes('totp') ? 'totp' : methods[0])
+  const factor = getVerifiedTotpFactors(user)[0]
+
+  const reset = () => {
+    setMethod(null)
+    setPassword('')
+    setCode('')
+    setEmailSent(false)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    if (next || loading) return
+    reset()
+    onCancel()
+  }
+
+  const handleVerify = async (value = code) => {
+    setLoading(true)
+    try {
+      if (current === 'password') {
+        await stepUp({ method: 'password', password })
+      } else if (current === 'email') {
+        if (value.length !== 6) return
+        await stepUp({ method: 'email', code: value })
+      } else {
+        if (!factor || value.length !== 6) return
+        await stepUp({ method: 'totp', factorId: factor.id, code: value })
+      }
+      reset()
+      onVerified()
+    } catch (error) {
+      setPassword('')
+      setCode('')
+      toastApiError(error, 'Failed to confirm your identity')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSendEmail = async () => {
+    setLoading(true)
+    try {
+      await sendStepUpEmailCode()
+      setEmailSent(true)
+      setCode('')
+    } catch (error) {
+      toastApiError(error, 'Failed to send the code')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (current === 'email' && !emailSent) {
+      handleSendEmail()
+    } else {
+      handleVerify()
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Confirm it's you</DialogTitle>
+            <DialogDescription>
+              {current === 'password'
+                ? 'Enter your password to continue. You will not be asked again for the next few minutes.'
+                : current === 'totp'
+                  ? 'Enter the 6-digit code from your authenticator app to continue. You will not be asked again for the next few minutes.'
+                  : current === 'email'
+                    ? emailSent
+                      ? `Enter the 6-digit code we sent to ${user?.email}. You will not be asked again for the next few minutes.`
+                      : `We will email a 6-digit code to ${user?.email} to confirm it's you.`
+                    : 'This account has no email address to confirm with.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {current === 'password' && (
+            <div className="space-y-2">
+              <Label htmlFor="step-up-password">Password</Label>
+              <Input
+                id="step-up-password"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={loading}
+                required
+              />
+            </div>
+          )}
+
+          {current === 'totp' && (
+            <OneTimeCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={handleVerify}
+              disabled={loading}
+            />
+          )}
+
+          {current === 'email' && emailSent && (
+            <>
+              <OneTimeCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={handleVerify}
+                disabled={loading}
+              />
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 text-sm text-muted-foreground"
+                onClick={handleSendEmail}
+                disabled={loading}
+              >
+                Send a new code
+              </Button>
+            </>
+          )}
+
+          {methods.length > 1 && (
+            <Button
+              type="button"
+              variant="link"
+              className="h-auto p-0 text-sm text-muted-foreground"
+              onClick={() => setMethod(current === 'password' ? 'totp' : 'password')}
+              disabled={loading}
+            >
+              {current === 'password' ? 'Use your authenticator app instead' : 'Use your password instead'}
+            </Button>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={
+                loading ||
+                !current ||
+                (current === 'password' ? !password : current === 'email' && !emailSent ? false : code.length !== 6)
+              }
+            >
+              {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {current === 'email' && !emailSent ? 'Send code' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
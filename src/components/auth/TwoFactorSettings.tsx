@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { OneTimeCodeInput } from '@/components/auth/OneTimeCodeInput'
+import { Copy, Download, KeyRound, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  enrollTotp,
+  generateRecoveryCodes,
+  getRecoveryCodeStatus,
+  getVerifiedTotpFactors,
+  unenrollTotp,
+  verifyTotp,
+  type RecoveryCodeStatus,
+  type TotpEnrollment
+} from '@/lib/mfa'
+import { toastApiError } from '@/lib/api-errors'
+
+interface TwoFactorSettingsProps {
+  // Set when an admin page sent the user here because MFA is required
+  required?: boolean
+}
+
+/**
+ * Profile section for TOTP two-factor authentication: enroll an authenticator
+ * app with a QR code, manage recovery codes and turn it off again.
+ */
+export function TwoFactorSettings({ required = false }: TwoFactorSettingsProps) {
+  const { user, isAdmin } = useAuth()
+  const { settings } = useAppSettings()
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null)
+  const [code, setCode] = useState('')
+  const [recoveryStatus, setRecoveryStatus] = useState<RecoveryCodeStatus | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [disableDialogOpen, setDisableDialogOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const factor = getVerifiedTotpFactors(user)[0]
+  const requiredForAdmins = isAdmin && settings.mfa_required_for_admins === 'true'
+
+  const loadRecoveryStatus = useCallback(async () => {
+    try {
+      setRecoveryStatus(await getRecoveryCodeStatus())
+    } catch (error) {
+      toastApiError(error, 'Failed to load recovery codes')
+    }
+  }, [])
+
+  useEffect(() => {
+    if (factor?.id) {
+      loadRecoveryStatus()
+    } else {
+      setRecoveryStatus(null)
+    }
+  }, [factor?.id, loadRecoveryStatus])
+
+  const startEnrollment = async () => {
+    setBusy(true)
+    try {
+      setCode('')
+      setEnrollment(await enrollTotp())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start two-factor setup')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const confirmEnrollment = async (value = code) => {
+    if (!enrollment || value.length !== 6) return
+
+    setBusy(true)
+    try {
+      await verifyTotp(enrollment.factorId, value)
+    } catch (error) {
+      setCode('')
+      toast.error(error instanceof Error ? error.message : 'Invalid code')
+      setBusy(false)
+      return
+    }
+
+    setEnrollment(null)
+    toast.success('Two-factor authentication is on')
+
+    // The session is AAL2 now, which creating recovery codes requires
+    try {
+      setRecoveryCodes(await generateRecoveryCodes())
+    } catch (error) {
+      toastApiError(error, 'Two-factor authentication is on, but recovery codes could not be created')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const regenerateCodes = async () => {
+    setBusy(true)
+    try {
+      setRecoveryCodes(await generateRecoveryCodes())
+    } catch (error) {
+      toastApiError(error, 'Failed to create recovery codes')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const closeRecoveryCodes = () => {
+    setRecoveryCodes(null)
+    loadRecoveryStatus()
+  }
+
+  const disable = async () => {
+    if (!factor) return
+
+    setBusy(true)
+    try {
+      await unenrollTotp(factor.id)
+      toast.success('Two-factor authentication is off')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to turn off two-factor authentication')
+    } finally {
+      setBusy(false)
+      setDisableDialogOpen(false)
+    }
+  }
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(recoveryCodes?.join('\n') ?? '')
+    toast.success('Recovery codes copied')
+  }
+
+  const downloadCodes = () => {
+    const blob = new Blob([`${recoveryCodes?.join('\n') ?? ''}\n`], { type: 'text/plain' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = 'recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {factor ? <ShieldCheck className="h-5 w-5" /> : <ShieldAlert className="h-5 w-5" />}
+          Two-Factor Authentication
+          <Badge variant={factor ? 'default' : 'secondary'}>{factor ? 'On' : 'Off'}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app (such as 1Password, Authy or Google Authenticator) when you sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!factor && (required || requiredForAdmins) && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>Two-factor authentication is required</AlertTitle>
+            <AlertDescription>
+              Admin pages are available once you set up an authenticator app.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <Alert>
+              <KeyRound className="h-4 w-4" />
+              <AlertTitle>Save your recovery codes</AlertTitle>
+              <AlertDescription>
+                Each code can be used once to sign in if you lose your authenticator. They will not be shown again.
+              </AlertDescription>
+            </Alert>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={copyCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button variant="outline" onClick={downloadCodes}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={closeRecoveryCodes}>I have saved these codes</Button>
+            </div>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex justify-center">
+              <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 rounded-md bg-white p-2" />
+            </div>
+            <p className="text-center text-sm text-muted-foreground">
+              Can't scan it? Enter this key instead:{' '}
+              <code className="break-all font-mono text-foreground">{enrollment.secret}</code>
+            </p>
+            <OneTimeCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={confirmEnrollment}
+              disabled={busy}
+            />
+            <div className="flex gap-2">
+              <Button onClick={() => confirmEnrollment()} disabled={busy || code.length !== 6}>
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Verify and Turn On
+              </Button>
+              <Button variant="outline" onClick={() => setEnrollment(null)} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : factor ? (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              {recoveryStatus
+                ? `${recoveryStatus.remaining} unused recovery code${recoveryStatus.remaining === 1 ? '' : 's'} left.`
+                : 'Loading recovery codes...'}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={regenerateCodes} disabled={busy}>
+                <KeyRound className="h-4 w-4 mr-2" />
+                Create New Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={() => setDisableDialogOpen(true)} disabled={busy}>
+                Turn Off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={startEnrollment} disabled={busy}>
+            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set Up Authenticator App
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={disableDialogOpen} onOpenChange={setDisableDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Turn off two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will only need your password to sign in, and your recovery codes will stop working.
+              {requiredForAdmins && ' Admin pages will be unavailable until you set it up again.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={disable}>
+              Turn Off
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
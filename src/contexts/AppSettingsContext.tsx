@@ -6,6 +6,14 @@ interface AppSettings {
   app_logo_url: string
   app_favicon_url: string
   app_description: string
+  mfa_required_for_admins: string
+  passwordless_enabled: string
+  signup_policy: string
+  signup_allowed_domains: string
+  password_policy: string
+  account_deletion_grace_days: string
+  captcha_provider: string
+  captcha_site_key: string
 }
 
 interface AppSettingsContextType {
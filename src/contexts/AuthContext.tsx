@@ -1,33 +1,196 @@
 import { createContext, useContext, useEffect, useState } from 'react'
-import { User, Session } from '@supabase/supabase-js'
+import { User, Session, type AuthOtpResponse, type AuthResponse } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 import { useNavigate } from 'react-router-dom'
+import { getAssuranceLevels, type AssuranceLevels } from '@/lib/mfa'
+import { buildAuthCallbackUrl } from '@/lib/redirect'
+import { recordSession } from '@/lib/sessions'
+import { signInWithPassword } from '@/lib/login-history'
+import { signUpWithPassword } from '@/lib/sign-up'
+import { signInWithPasskey as requestPasskeySignIn } from '@/lib/passkeys'
+import { clearStepUp } from '@/lib/step-up'
+import { getImpersonationId } from '@/lib/api'
+import {
+  getActiveImpersonation,
+  startImpersonation as startImpersonationRequest,
+  stopImpersonation as stopImpersonationRequest,
+  type ActiveImpersonation,
+  type Impersonation
+} from '@/lib/impersonation'
+import type { StartImpersonationInput } from '@/shared/impersonation'
+import { isSuspended, type UserRoleName, type UserStatus } from '@/shared/admin-users'
+import { isActiveAdminClaims, readRoleClaims, type RoleClaims } from '@/shared/jwt'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
   loading: boolean
-  signUp: (email: string, password: string) => Promise<any>
-  signIn: (email: string, password: string) => Promise<any>
-  signInWithProvider: (provider: 'google' | 'github' | 'discord') => Promise<any>
+  // Goes through /api/auth/sign-up for the CAPTCHA and password policy; throws
+  // ApiRequestError when refused. Signed in straight away unless the email
+  // address must be confirmed first.
+  signUp: (email: string, password: string, captchaToken?: string) => Promise<{ userId: string | null; signedIn: boolean }>
+  // Goes through /api/auth/sign-in for the lockout and CAPTCHA; throws ApiRequestError when refused
+  signIn: (email: string, password: string, captchaToken?: string) => Promise<AuthResponse>
+  // Asks the browser for one of the site's passkeys on this device
+  signInWithPasskey: () => Promise<AuthResponse>
+  // `redirectTo` is the page to open once the /auth/callback round trip is done
+  signInWithProvider: (provider: 'google' | 'github' | 'discord', redirectTo?: string) => Promise<any>
+  // Passwordless: email a magic link and one-time code, then verify the code.
+  // Supabase Auth wants a CAPTCHA token for the email while CAPTCHA is on.
+  sendEmailSignIn: (email: string, redirectTo?: string, captchaToken?: string) => Promise<AuthOtpResponse>
+  verifyEmailCode: (email: string, token: string) => Promise<AuthResponse>
   signOut: () => Promise<void>
+  // From the access token's role claims, so they follow role changes as
+  // soon as the token is refreshed
   isAdmin: boolean
+  role: UserRoleName | null
+  // MFA assurance level of the current session and the level it can reach
+  mfa: AssuranceLevels
+  // Set while the signed-in account is suspended; ProtectedRoute shows the
+  // suspended screen instead of the app
+  suspension: AccountSuspension | null
+  // True while the account's sign-up waits for an admin to approve it
+  // (approval sign-up policy); ProtectedRoute shows a waiting screen
+  pendingApproval: boolean
+  // Set while an admin is viewing the app as another user. `user` is then
+  // the impersonated user and `isAdmin` is false until it ends.
+  impersonation: Impersonation | null
+  // The signed-in account, whoever `user` currently is
+  realUser: User | null
+  startImpersonation: (input: StartImpersonationInput) => Promise<void>
+  stopImpersonation: () => Promise<void>
+}
+
+export interface AccountSuspension {
+  reason: string | null
+  // Suspended indefinitely when null
+  until: string | null
+}
+
+// The parts of the user's user_roles row the context reads
+interface RoleRow {
+  role: UserRoleName
+  status: UserStatus
+  suspended_reason: string | null
+  suspended_until: string | null
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Keeps the Sessions list on the profile page current: the device is
+// recorded at sign-in and last-seen moves on with every token refresh.
+// Deferred because auth state callbacks must not wait on other auth calls,
+// which apiRequest makes to read the token.
+const trackSession = () => {
+  setTimeout(() => {
+    // The API refuses session writes while impersonating
+    if (getImpersonationId()) return
+    recordSession().catch(error => console.warn('Failed to record session:', error))
+  }, 0)
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
-  // Initialize isAdmin from localStorage if available
-  const [isAdmin, setIsAdmin] = useState(() => {
-    const cached = localStorage.getItem('supabase.auth.isAdmin')
-    return cached === 'true'
-  })
+  // user_roles row, read only for what the token lacks (see below)
+  const [roleRow, setRoleRow] = useState<{ userId: string; row: RoleRow | null } | null>(null)
+  // Bumped when the user's user_roles row changes, to read it again
+  const [roleVersion, setRoleVersion] = useState(0)
+  const [impersonation, setImpersonation] = useState<ActiveImpersonation | null>(null)
   const navigate = useNavigate()
 
+  // Role and status come from the access token's claims
+  // (custom_access_token_hook). The user_roles row is still read for the
+  // suspension reason, and for the role itself where the hook is not
+  // enabled yet.
+  const userId = user?.id ?? null
+  const tokenClaims = readRoleClaims(session?.access_token)
+  const needsRoleRow = !!userId && (!tokenClaims || tokenClaims.status === 'suspended')
+  const roleRowLoading = needsRoleRow && roleRow?.userId !== userId
+  const currentRoleRow = roleRow?.userId === userId ? roleRow.row : null
+  const roleClaims: RoleClaims | null = tokenClaims
+    ?? (currentRoleRow ? { role: currentRoleRow.role, status: currentRoleRow.status } : null)
+  const suspension: AccountSuspension | null =
+    roleClaims?.status === 'suspended' && currentRoleRow && isSuspended(currentRoleRow)
+      ? { reason: currentRoleRow.suspended_reason, until: currentRoleRow.suspended_until }
+      : null
+  const pendingApproval = roleClaims?.status === 'pending'
+  const isAdmin = isActiveAdminClaims(roleClaims)
+
+  useEffect(() => {
+    if (!userId || !needsRoleRow) return
+
+    let cancelled = false
+    supabase
+      .from('user_roles')
+      .select('role, status, suspended_reason, suspended_until')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error('Error loading user role:', error)
+        }
+        setRoleRow({ userId, row: (data as RoleRow | null) ?? null })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, needsRoleRow, roleVersion])
+
+  // Claims only change when a token is issued, so get a new one as soon as
+  // an admin changes the user's role or status
   useEffect(() => {
+    if (!userId) return
+
+    const channel = supabase
+      .channel(`user-roles:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'user_roles', filter: `user_id=eq.${userId}` },
+        () => {
+          setRoleVersion(version => version + 1)
+          supabase.auth.refreshSession().then(({ error }) => {
+            if (error) console.warn('Failed to refresh the session after a role change:', error)
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId])
+
+  // Pick up an impersonation session started before a reload
+  useEffect(() => {
+    if (!isAdmin || getImpersonationId()) return
+
+    getActiveImpersonation()
+      .then(setImpersonation)
+      .catch(error => console.warn('Failed to check for impersonation:', error))
+  }, [isAdmin, userId])
+
+  // End the impersonation session on screen when it runs out; the API
+  // already refuses its requests from then on
+  useEffect(() => {
+    if (!impersonation) return
+
+    const remaining = new Date(impersonation.impersonation.expiresAt).getTime() - Date.now()
+    const timer = setTimeout(() => {
+      setImpersonation(null)
+      stopImpersonationRequest().catch(error => console.warn('Failed to end impersonation:', error))
+    }, Math.max(remaining, 0))
+
+    return () => clearTimeout(timer)
+  }, [impersonation])
+
+  useEffect(() => {
+    // Left behind by the isAdmin cache older versions kept
+    localStorage.removeItem('supabase.auth.isAdmin')
+
     // Get initial session
     supabase.auth.getSession().then(async ({ data: { session } }) => {
       console.log('Initial session check, user:', session?.user?.email)
@@ -35,12 +198,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(session?.user ?? null)
       
       if (session?.user?.id) {
-        // Check admin status without blocking
-        checkAdminStatus(session.user.id)
-      } else {
-        // Clear admin status if no user
-        setIsAdmin(false)
-        localStorage.removeItem('supabase.auth.isAdmin')
+        trackSession()
       }
       
       setLoading(false)
@@ -55,12 +213,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setLoading(false)  // Set loading to false immediately
         
         if (event === 'SIGNED_IN') {
-          // Don't await - let it run in background
-          checkAdminStatus(session?.user?.id)
-          navigate('/dashboard')
+          trackSession()
+          // Where to go next is up to the page that signed in (SignInForm,
+          // AuthCallback), which knows the originally requested URL
+        } else if (event === 'TOKEN_REFRESHED') {
+          trackSession()
         } else if (event === 'SIGNED_OUT') {
-          setIsAdmin(false)
-          localStorage.removeItem('supabase.auth.isAdmin')
+          setRoleRow(null)
+          setImpersonation(null)
           navigate('/')
         }
       }
@@ -69,85 +229,73 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe()
   }, [navigate])
 
-  const checkAdminStatus = async (userId?: string) => {
-    console.log('checkAdminStatus called with userId:', userId)
-    
-    if (!userId) {
-      console.log('No userId provided, setting isAdmin to false')
-      setIsAdmin(false)
-      localStorage.removeItem('supabase.auth.isAdmin')
-      return
-    }
-
-    try {
-      // Just query directly without timeout - the query is fast
-      const { data, error } = await supabase
-        .from('user_roles')
-        .select('role, status')
-        .eq('user_id', userId)
-        .maybeSingle()  // Use maybeSingle to handle 0 or 1 records gracefully
-
-      console.log('Admin check query result:', { 
-        data, 
-        error,
-        dataRole: data?.role,
-        dataStatus: data?.status,
-        isError: !!error
-      })
-      
-      // Check admin status in JavaScript after fetching
-      const isAdminUser = !error && data?.role === 'admin' && data?.status === 'active'
-      console.log('Setting isAdmin to:', isAdminUser)
-      setIsAdmin(isAdminUser)
-      
-      // Cache the result in localStorage
-      localStorage.setItem('supabase.auth.isAdmin', isAdminUser.toString())
-    } catch (err) {
-      console.error('Error in checkAdminStatus:', err)
-      setIsAdmin(false)
-      localStorage.removeItem('supabase.auth.isAdmin')
-    }
-  }
-
   const value = {
-    user,
+    user: impersonation?.user ?? user,
     session,
-    loading,
-    isAdmin,
-    signUp: async (email: string, password: string) => {
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          emailRedirectTo: `${window.location.origin}/auth/callback`
-        }
-      })
-      return { data, error }
+    loading: loading || roleRowLoading,
+    isAdmin: isAdmin && !impersonation,
+    role: impersonation ? null : roleClaims?.role ?? null,
+    mfa: getAssuranceLevels(session),
+    suspension,
+    pendingApproval,
+    impersonation: impersonation?.impersonation ?? null,
+    realUser: user,
+    startImpersonation: async (input: StartImpersonationInput) => {
+      setImpersonation(await startImpersonationRequest(input))
     },
-    signIn: async (email: string, password: string) => {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      })
-      
-      // Prefetch admin status immediately after successful sign-in
-      if (!error && data?.user) {
-        checkAdminStatus(data.user.id) // Don't await
+    stopImpersonation: async () => {
+      setImpersonation(null)
+      await stopImpersonationRequest()
+    },
+    signUp: async (email: string, password: string, captchaToken?: string) => {
+      const { userId, session } = await signUpWithPassword(email, password, buildAuthCallbackUrl(), captchaToken)
+      if (session) {
+        const { error } = await supabase.auth.setSession(session)
+        if (error) throw error
       }
-      
-      return { data, error }
+      return { userId, signedIn: !!session }
+    },
+    signIn: async (email: string, password: string, captchaToken?: string) => {
+      const tokens = await signInWithPassword(email, password, captchaToken)
+      return supabase.auth.setSession(tokens)
+    },
+    signInWithPasskey: async () => {
+      const tokens = await requestPasskeySignIn()
+      return supabase.auth.setSession(tokens)
     },
-    signInWithProvider: async (provider: 'google' | 'github' | 'discord') => {
+    signInWithProvider: async (provider: 'google' | 'github' | 'discord', redirectTo?: string) => {
       const { data, error } = await supabase.auth.signInWithOAuth({
         provider,
         options: {
-          redirectTo: `${window.location.origin}/auth/callback`
+          redirectTo: buildAuthCallbackUrl(redirectTo)
         }
       })
       return { data, error }
     },
+    sendEmailSignIn: (email: string, redirectTo?: string, captchaToken?: string) =>
+      supabase.auth.signInWithOtp({
+        email,
+        options: {
+          // Passwordless is for existing accounts; sign-up keeps its own flow
+          shouldCreateUser: false,
+          emailRedirectTo: buildAuthCallbackUrl(redirectTo),
+          captchaToken
+        }
+      }),
+    verifyEmailCode: (email: string, token: string) =>
+      supabase.auth.verifyOtp({
+        email,
+        token,
+        type: 'email'
+      }),
     signOut: async () => {
       console.log('signOut function called in AuthContext')
+
+      if (impersonation) {
+        setImpersonation(null)
+        await stopImpersonationRequest().catch(error => console.warn('Failed to end impersonation:', error))
+      }
+      clearStepUp()
       
       // Create a timeout promise
       const timeoutPromise = new Promise((_, reject) => {
@@ -166,7 +314,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           // Even if sign out fails, clear local state
           setUser(null)
           setSession(null)
-          setIsAdmin(false)
+          setRoleRow(null)
           throw result.error
         }
         
@@ -174,17 +322,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         // Manually clear state after successful sign out
         setUser(null)
         setSession(null)
-        setIsAdmin(false)
-        localStorage.removeItem('supabase.auth.isAdmin')
+        setRoleRow(null)
       } catch (error) {
         console.error('Sign out failed:', error)
         // Force clear local state even on error
         setUser(null)
         setSession(null)
-        setIsAdmin(false)
+        setRoleRow(null)
         // Clear local storage manually
         localStorage.removeItem('supabase.auth.token')
-        localStorage.removeItem('supabase.auth.isAdmin')
         // Don't rethrow - we want to handle this gracefully
       }
     }
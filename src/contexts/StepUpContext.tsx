@@ -0,0 +1,45 @@
+import React, { useCallback, useRef, useState } from 'react'
+import { StepUpDialog } from '@/components/auth/StepUpDialog'
+import { isStepUpRequired } from '@/lib/step-up'
+import { StepUpContext } from '@/hooks/useStepUp'
+
+/**
+ * Shows the re-authentication dialog for `withStepUp` (src/hooks/useStepUp.ts)
+ * whenever the API asks for a step-up.
+ */
+export const StepUpProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [open, setOpen] = useState(false)
+  // Settles the pending confirmIdentity() call
+  const settle = useRef<((passed: boolean) => void) | null>(null)
+
+  const confirmIdentity = useCallback(() => new Promise<boolean>((resolve) => {
+    settle.current = resolve
+    setOpen(true)
+  }), [])
+
+  const finish = (passed: boolean) => {
+    setOpen(false)
+    settle.current?.(passed)
+    settle.current = null
+  }
+
+  const withStepUp = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
+    let result: T
+    try {
+      result = await action()
+    } catch (error) {
+      if (!isStepUpRequired(error) || !await confirmIdentity()) throw error
+      return action()
+    }
+
+    if (!isStepUpRequired(result) || !await confirmIdentity()) return result
+    return action()
+  }, [confirmIdentity])
+
+  return (
+    <StepUpContext.Provider value={{ withStepUp }}>
+      {children}
+      <StepUpDialog open={open} onVerified={() => finish(true)} onCancel={() => finish(false)} />
+    </StepUpContext.Provider>
+  )
+}
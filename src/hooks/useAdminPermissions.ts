@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/lib/supabase'
+import type { UserRoleName } from '@/shared/admin-users'
 
 interface UserRole {
   id: string
@@ -12,6 +13,7 @@ interface UserRole {
 
 interface AdminPermissions {
   isAdmin: boolean
+  role: UserRoleName | null
   isLoading: boolean
   userRole: UserRole | null
   canManageUsers: boolean
@@ -21,7 +23,7 @@ interface AdminPermissions {
 }
 
 export const useAdminPermissions = (): AdminPermissions => {
-  const { user, loading: authLoading, isAdmin } = useAuth()
+  const { user, loading: authLoading, isAdmin, role } = useAuth()
   const [userRole, setUserRole] = useState<UserRole | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
@@ -56,15 +58,16 @@ export const useAdminPermissions = (): AdminPermissions => {
     fetchUserRole()
   }, [user, authLoading])
 
-  // Use isAdmin from AuthContext as the source of truth
-  // Calculate other permissions based on the fetched userRole
+  // Permissions come from the role claims of the access token (AuthContext);
+  // the fetched row is only for display
   const permissions = {
-    isAdmin: isAdmin, // Use the isAdmin from AuthContext
+    isAdmin: isAdmin,
+    role,
     isLoading: authLoading || isLoading,
     userRole: userRole,
     canManageUsers: isAdmin,
     canImpersonate: isAdmin,
-    canViewAuditLogs: isAdmin || userRole?.role === 'moderator',
+    canViewAuditLogs: isAdmin || role === 'moderator',
     canManageRoles: isAdmin
   }
 
@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
+import { readCaptchaProvider } from '@/shared/captcha'
+
+/**
+ * CAPTCHA state for a form: the provider chosen in Admin Settings and the
+ * token from its widget. Render CaptchaWidget with `key={widgetKey}` and call
+ * `reset()` after every submission, since each token can only be used once.
+ */
+export const useCaptcha = () => {
+  const { settings } = useAppSettings()
+  const provider = readCaptchaProvider(settings.captcha_provider)
+  const [token, setToken] = useState<string | null>(null)
+  const [widgetKey, setWidgetKey] = useState(0)
+
+  const reset = useCallback(() => {
+    setToken(null)
+    setWidgetKey(key => key + 1)
+  }, [])
+
+  return {
+    provider,
+    siteKey: settings.captcha_site_key,
+    required: provider !== 'none',
+    token,
+    setToken,
+    widgetKey,
+    reset
+  }
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react'
+
+export interface StepUpContextType {
+  /**
+   * Run `action`. When the API refuses it with STEP_UP_REQUIRED (thrown, or
+   * as a failed ApiResult), ask the user to re-authenticate and run it once
+   * more. If they cancel, the original refusal is returned or thrown.
+   */
+  withStepUp: <T>(action: () => Promise<T>) => Promise<T>
+}
+
+// Provided by StepUpProvider (src/contexts/StepUpContext.tsx)
+export const StepUpContext = createContext<StepUpContextType | undefined>(undefined)
+
+export const useStepUp = () => {
+  const context = useContext(StepUpContext)
+  if (context === undefined) {
+    throw new Error('useStepUp must be used within a StepUpProvider')
+  }
+  return context
+}
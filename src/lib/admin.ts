@@ -1,32 +1,30 @@
+import type { ZodError } from 'zod'
 import { supabase } from '@/lib/supabase'
+import { ApiRequestError, apiRequest } from '@/lib/api'
+import { toApiFailure, type ApiResult } from '@/lib/api-errors'
 import { sendInvitationEmail } from '@/lib/email'
-
-export interface UserRole {
-  id: string
-  user_id?: string
-  invitation_id?: string
-  email: string
-  role: 'admin' | 'user' | 'moderator'
-  permissions: Record<string, boolean>
-  status: 'invited' | 'active' | 'suspended' | 'deleted' | 'cancelled'
-  created_by?: string
-  created_at: string
-  updated_at: string
-  expires_at?: string
-}
-
-export interface UserMetadata {
-  id: string
-  user_id: string
-  status: 'active' | 'suspended' | 'deleted'
-  last_login?: string
-  login_count: number
-  notes?: string
-  tags: string[]
-  created_by?: string
-  created_at: string
-  updated_at: string
-}
+import { formatValidationIssues } from '@/shared/api-errors'
+import type { LoginHistory } from '@/shared/login-events'
+import {
+  adminUsersContract,
+  type AdminUser,
+  type AdminUsersAction,
+  type AdminUsersInput,
+  type AdminUsersOutput,
+  type ListUsersQuery,
+  type ListUsersResponse,
+  type SignupDecision,
+  type UserMetadataRow,
+  type UserRoleRow,
+  type UserStats,
+  type UserUpdates,
+  userUpdatesSchema
+} from '@/shared/admin-users'
+
+// Row types are inferred from the shared contract so the UI and the API agree
+export type UserRole = UserRoleRow
+export type UserMetadata = UserMetadataRow
+export type { AdminUser, ListUsersQuery, ListUsersResponse, SignupDecision, UserStats, UserUpdates }
 
 export interface AdminAuditLog {
   id: string
@@ -107,58 +105,93 @@ export const logAdminAction = async (
   }
 }
 
-// Get all users with roles and metadata
-export const getAllUsers = async (): Promise<{
-  users: (UserRole & { metadata?: UserMetadata })[]
-  total: number
-}> => {
-  try {
-    // Get the current user to verify they're an admin
-    const { data: { user } } = await supabase.auth.getUser()
-    if (!user) {
-      console.error('No authenticated user')
-      return { users: [], total: 0 }
-    }
+const adminApiUrl = (path: string) =>
+  `${import.meta.env.VITE_APP_URL || window.location.origin}${path}`
+
+// Reject invalid input before it is sent, in the same shape the API would use
+const invalidPayload = (error: ZodError) =>
+  new ApiRequestError(
+    {
+      code: 'VALIDATION_FAILED',
+      message: error.issues[0]?.message || 'Invalid request payload',
+      details: { issues: formatValidationIssues(error) }
+    },
+    422
+  )
+
+/**
+ * Call an action on /api/admin-users. The input is validated against the
+ * shared contract before it is sent, and the result is typed from the same
+ * definition the handler uses. Throws an ApiRequestError on failure.
+ */
+export const callAdminUsers = async <A extends AdminUsersAction>(
+  action: A,
+  input: AdminUsersInput<A>,
+  options: { idempotencyKey?: string } = {}
+): Promise<AdminUsersOutput<A>> => {
+  const parsed = adminUsersContract[action].input.safeParse(input)
+  if (!parsed.success) {
+    throw invalidPayload(parsed.error)
+  }
 
-    // Call the admin API endpoint
-    const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin
-    const response = await fetch(`${baseUrl}/api/admin-users`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        adminUserId: user.id,
-        action: 'getAllUsers'
-      })
-    })
+  // The session token identifies the admin
+  return apiRequest<AdminUsersOutput<A>>(adminApiUrl('/api/admin-users'), {
+    method: 'POST',
+    headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+    body: JSON.stringify({ action, ...parsed.data })
+  })
+}
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      console.error('Error fetching users:', errorData)
-      return { users: [], total: 0 }
+// Get one page of users with roles and metadata. Searching, filtering,
+// sorting and the total count are done server-side. Throws an ApiRequestError on failure.
+export const listUsers = async (query: ListUsersQuery = {}): Promise<ListUsersResponse> => {
+  const params = new URLSearchParams()
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value))
     }
+  })
+
+  const result = await apiRequest<ListUsersResponse>(adminApiUrl(`/api/admin/users?${params}`))
+
+  return {
+    users: result.users,
+    total: result.total,
+    page: result.page,
+    pageSize: result.pageSize
+  }
+}
 
-    const data = await response.json()
-    return { users: data.users, total: data.total }
+// Get user counts for the admin dashboard
+export const getUserStats = async (): Promise<UserStats> => {
+  try {
+    const result = await apiRequest<UserStats>(adminApiUrl('/api/admin/users/stats'))
+
+    return {
+      totalUsers: result.totalUsers,
+      activeUsers: result.activeUsers,
+      pendingInvitations: result.pendingInvitations,
+      pendingApprovals: result.pendingApprovals,
+      adminUsers: result.adminUsers
+    }
   } catch (error) {
-    console.error('Error fetching all users:', error)
-    return { users: [], total: 0 }
+    console.error('Error fetching user stats:', error)
+    return { totalUsers: 0, activeUsers: 0, pendingInvitations: 0, pendingApprovals: 0, adminUsers: 0 }
   }
 }
 
-// Create user invitation
+// Create user invitation. Pass the same idempotencyKey when resubmitting the
+// same invitation so it is created and emailed only once.
 export const createUserInvitation = async (
-  adminUserId: string,
-  userData: {
-    email: string
-    role: 'admin' | 'user' | 'moderator'
+  userData: AdminUsersInput<'createInvitation'>['invitationData'] & {
     notes?: string
-  }
-): Promise<{ success: boolean; invitationId?: string; error?: string }> => {
+  },
+  options: { idempotencyKey?: string } = {}
+): Promise<ApiResult & { invitationId?: string }> => {
   try {
     // Get admin user details for the invitation email
     const { data: adminUser } = await supabase.auth.getUser()
+    const adminUserId = adminUser?.user?.id
     const adminName = adminUser?.user?.email?.split('@')[0] || 'Admin'
 
     // Get app settings for organization name
@@ -170,46 +203,33 @@ export const createUserInvitation = async (
     const organizationName = appSettings?.setting_value || 'our platform'
 
     // Create the invitation through the admin API (uses service role to bypass RLS)
-    const response = await fetch('/api/admin-users', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        adminUserId,
-        action: 'createInvitation',
-        invitationData: {
-          email: userData.email,
-          role: userData.role
-        }
-      })
-    })
-
-    const result = await response.json()
-
-    if (!response.ok || !result.success) {
-      return { success: false, error: result.error || 'Failed to create invitation' }
-    }
-
-    // Use the invitation ID returned from the API
-    const invitationId = result.invitationId
+    const { invitationId, data: invitation } = await callAdminUsers('createInvitation', {
+      invitationData: {
+        email: userData.email,
+        role: userData.role
+      }
+    }, { idempotencyKey: options.idempotencyKey })
 
     // Generate the sign-up URL with the invitation ID
     const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin
     const signUpUrl = `${baseUrl}/sign-up?invitation=${invitationId}&email=${encodeURIComponent(userData.email)}`
 
-    // Set expiration date for email (7 days from now)
-    const expiresAt = new Date()
-    expiresAt.setDate(expiresAt.getDate() + 7)
+    // Use the stored expiry so a resubmitted email is identical to the first one
+    const expiresAt = invitation?.expires_at ? new Date(invitation.expires_at) : new Date()
+    if (!invitation?.expires_at) {
+      expiresAt.setDate(expiresAt.getDate() + 7)
+    }
 
     // Send the invitation email
-    const emailResult = await sendInvitationEmail(adminUserId, {
+    const emailResult = await sendInvitationEmail({
       inviteeName: userData.email.split('@')[0], // Use email prefix as name
       inviterName: adminName,
       organizationName,
       signUpUrl,
       expiresAt,
       recipientEmail: userData.email
+    }, {
+      idempotencyKey: options.idempotencyKey && `${options.idempotencyKey}.email`
     })
 
     if (!emailResult.success) {
@@ -219,7 +239,9 @@ export const createUserInvitation = async (
         .delete()
         .eq('invitation_id', invitationId)
       
+      // Keep the email failure's code so the UI can explain it
       return { 
+        ...emailResult,
         success: false, 
         error: `Failed to send invitation email: ${emailResult.error}` 
       }
@@ -237,110 +259,105 @@ export const createUserInvitation = async (
     })
 
     return { success: true, invitationId }
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error creating user invitation:', error)
-    return { success: false, error: error.message }
+    return toApiFailure(error, 'Failed to create invitation')
   }
 }
 
-// Update user role
-export const updateUserRole = async (
-  adminUserId: string,
-  targetUserId: string,
-  updates: {
-    role?: 'admin' | 'user' | 'moderator'
-    status?: 'active' | 'suspended' | 'deleted'
-    notes?: string
-  }
-): Promise<{ success: boolean; error?: string }> => {
+// Update a user's role, status or admin notes
+export const updateUser = async (
+  id: string,
+  updates: UserUpdates
+): Promise<ApiResult> => {
   try {
-    const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin
-    const response = await fetch(`${baseUrl}/api/admin-users`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        adminUserId,
-        action: 'updateUserRole',
-        targetUserId,
-        updates
-      })
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json()
-      return { success: false, error: errorData.error || 'Failed to update user role' }
+    const parsed = userUpdatesSchema.safeParse(updates)
+    if (!parsed.success) {
+      throw invalidPayload(parsed.error)
     }
 
+    await apiRequest(adminApiUrl(`/api/admin/users/${encodeURIComponent(id)}`), {
+      method: 'PATCH',
+      body: JSON.stringify(parsed.data)
+    })
+
     return { success: true }
-  } catch (error: any) {
-    console.error('Error updating user role:', error)
-    return { success: false, error: error.message }
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return toApiFailure(error, 'Failed to update user')
   }
 }
 
-// Delete user (permanently from auth or from user_roles if no auth account)
+// Delete user (permanently from auth, or just the invitation if no auth account)
 export const deleteUser = async (
-  adminUserId: string,
-  targetUserId: string | null,
-  targetEmail?: string
-): Promise<{ success: boolean; error?: string }> => {
+  id: string
+): Promise<ApiResult> => {
   try {
-    const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin
-    const response = await fetch(`${baseUrl}/api/admin-users`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        adminUserId,
-        action: 'deleteUser',
-        targetUserId,
-        targetEmail
-      })
+    await apiRequest(adminApiUrl(`/api/admin/users/${encodeURIComponent(id)}`), {
+      method: 'DELETE'
     })
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      return { success: false, error: errorData.error || 'Failed to delete user' }
-    }
-
     return { success: true }
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error deleting user:', error)
-    return { success: false, error: error.message }
+    return toApiFailure(error, 'Failed to delete user')
   }
 }
 
-// Cancel invitation
-export const cancelInvitation = async (
-  adminUserId: string,
-  invitationId: string
-): Promise<{ success: boolean; error?: string }> => {
+// Sign a user out on every device (ends all of their sessions)
+export const forceSignOut = async (
+  id: string
+): Promise<ApiResult & { revoked?: number }> => {
   try {
-    const baseUrl = import.meta.env.VITE_APP_URL || window.location.origin
-    const response = await fetch(`${baseUrl}/api/admin-users`, {
+    const result = await apiRequest<{ revoked: number }>(
+      adminApiUrl(`/api/admin/users/${encodeURIComponent(id)}/sign-out`),
+      { method: 'POST' }
+    )
+
+    return { success: true, revoked: result.revoked }
+  } catch (error) {
+    console.error('Error signing out user:', error)
+    return toApiFailure(error, 'Failed to sign out user')
+  }
+}
+
+// A user's recent sign-ins and whether their account is locked.
+// Throws an ApiRequestError on failure.
+export const getUserLoginHistory = async (id: string): Promise<LoginHistory> => {
+  const { events, lockedUntil } = await apiRequest<LoginHistory>(
+    adminApiUrl(`/api/admin/users/${encodeURIComponent(id)}/login-history`)
+  )
+  return { events, lockedUntil }
+}
+
+// Approve a sign-up waiting for approval, or reject it (deletes the account)
+export const decideSignup = async (
+  id: string,
+  decision: SignupDecision
+): Promise<ApiResult> => {
+  try {
+    await apiRequest(adminApiUrl(`/api/admin/users/${encodeURIComponent(id)}/approval`), {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        adminUserId,
-        action: 'cancelInvitation',
-        invitationId
-      })
+      body: JSON.stringify({ decision })
     })
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      return { success: false, error: errorData.error || 'Failed to cancel invitation' }
-    }
+    return { success: true }
+  } catch (error) {
+    console.error('Error deciding sign-up:', error)
+    return toApiFailure(error, decision === 'approve' ? 'Failed to approve sign-up' : 'Failed to reject sign-up')
+  }
+}
 
+// Cancel invitation
+export const cancelInvitation = async (
+  invitationId: string
+): Promise<ApiResult> => {
+  try {
+    await callAdminUsers('cancelInvitation', { invitationId })
     return { success: true }
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error cancelling invitation:', error)
-    return { success: false, error: error.message }
+    return toApiFailure(error, 'Failed to cancel invitation')
   }
 }
 
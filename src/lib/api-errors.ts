@@ -0,0 +1,127 @@
+import { toast } from 'sonner'
+import { ApiRequestError } from '@/lib/api'
+import { API_ERROR_CATALOGUE, isApiErrorCode, type ApiErrorCode } from '@/shared/api-errors'
+
+// What people see for each API error code. Branch on codes, never on messages.
+const ERROR_TOASTS: Record<ApiErrorCode, string> = {
+  INVALID_JSON: 'The request could not be read',
+  INVALID_URL: 'The request could not be read',
+  METHOD_NOT_ALLOWED: 'This action is not supported',
+  NOT_FOUND: 'The requested item could not be found',
+  CONFLICT: 'This change conflicts with existing data',
+  VALIDATION_FAILED: 'Some of the details are invalid',
+  RATE_LIMITED: 'Too many attempts. Please wait a moment and try again',
+  IDEMPOTENCY_KEY_REUSED: 'This request was already submitted with different details. Please try again',
+  REQUEST_IN_PROGRESS: 'This request is already being processed. Please wait a moment',
+  AUTH_REQUIRED: 'Please sign in to continue',
+  SESSION_EXPIRED: 'Your session has expired. Please sign in again',
+  TOKEN_STALE: 'Your permissions have changed. Please try again',
+  FORBIDDEN: 'You do not have permission to do that',
+  ACCOUNT_SUSPENDED: 'Your account is suspended',
+  ACCOUNT_PENDING: 'Your account is waiting for approval',
+  ACCOUNT_LOCKED: 'Too many failed sign-ins. Please try again later',
+  INVALID_CREDENTIALS: 'Invalid email or password',
+  EMAIL_NOT_CONFIRMED: 'Please confirm your email address first',
+  IMPERSONATION_READ_ONLY: 'Changes are not allowed while viewing as this user',
+  IMPERSONATION_ENDED: 'The impersonation session has ended',
+  MFA_REQUIRED: 'Verify your two-factor code to continue',
+  STEP_UP_REQUIRED: 'Confirm it is you to continue',
+  STEP_UP_FAILED: 'That password or code is not correct',
+  PASSKEY_FAILED: 'The passkey could not be verified. Please try again',
+  CAPTCHA_REQUIRED: 'Complete the CAPTCHA to continue',
+  CAPTCHA_FAILED: 'The CAPTCHA could not be verified. Please try it again',
+  RECOVERY_CODE_INVALID: 'That recovery code is not valid or has already been used',
+  PASSWORD_REJECTED: 'Choose a different password',
+  ORIGIN_NOT_ALLOWED: 'This site is not allowed to use the API. Contact an administrator',
+  SESSION_NOT_FOUND: 'That session has already ended',
+  USER_NOT_FOUND: 'That user no longer exists',
+  INVITATION_NOT_FOUND: 'That invitation no longer exists',
+  INVITATION_EXPIRED: 'This invitation has expired',
+  EMAIL_IN_USE: 'That email address is already in use',
+  SIGNUP_REFUSED: 'No account could be created for this email address',
+  EMAIL_NOT_CONFIGURED: 'Email is not set up. Configure your email settings first',
+  EMAIL_SEND_FAILED: 'The email could not be sent',
+  SERVER_MISCONFIGURED: 'The server is not configured correctly. Contact an administrator',
+  SERVICE_UNAVAILABLE: 'The service is temporarily unavailable. Please try again in a moment',
+  DATABASE_ERROR: 'Something went wrong while saving. Please try again',
+  INTERNAL_ERROR: 'Something went wrong. Please try again'
+}
+
+/**
+ * Result shape returned by the src/lib wrappers around the API.
+ * `code` is set whenever the failure came from (or was mapped to) the
+ * error catalogue.
+ */
+export interface ApiResult {
+  success: boolean
+  error?: string
+  code?: ApiErrorCode
+  requestId?: string
+}
+
+const describe = (source: unknown) => {
+  if (source instanceof ApiRequestError) {
+    return { code: source.code, message: source.message, requestId: source.requestId, details: source.details }
+  }
+
+  if (isApiErrorCode(source)) {
+    return { code: source, message: undefined, requestId: undefined, details: undefined }
+  }
+
+  if (source && typeof source === 'object' && 'code' in source && isApiErrorCode(source.code)) {
+    const result = source as ApiResult
+    return { code: result.code, message: result.error, requestId: result.requestId, details: undefined }
+  }
+
+  return {
+    code: undefined,
+    message: source instanceof Error ? source.message : undefined,
+    requestId: undefined,
+    details: undefined
+  }
+}
+
+/**
+ * Convert a caught error into a failed ApiResult.
+ */
+export const toApiFailure = (error: unknown, fallback: string): ApiResult => {
+  const { code, message, requestId } = describe(error)
+  return {
+    success: false,
+    error: message || fallback,
+    code,
+    requestId
+  }
+}
+
+/**
+ * User-facing message for an error, ApiResult or error code.
+ */
+export const getApiErrorMessage = (source: unknown, fallback = ERROR_TOASTS.INTERNAL_ERROR): string => {
+  const { code } = describe(source)
+  return code ? ERROR_TOASTS[code] : fallback
+}
+
+/**
+ * Show a toast for an error, ApiResult or error code. The catalogue message is
+ * the title; the server's more specific message and the request id (to quote
+ * when reporting a problem) go in the description.
+ */
+export const toastApiError = (source: unknown, fallback = ERROR_TOASTS.INTERNAL_ERROR) => {
+  const { code, message, requestId, details } = describe(source)
+  const title = code ? ERROR_TOASTS[code] : fallback
+
+  const issues = Array.isArray(details?.issues) ? details.issues as { message?: string }[] : []
+  const specific = issues[0]?.message || message
+
+  // Skip the server message when it is just the catalogue default
+  const isSpecific = !!specific && specific !== title &&
+    (!code || specific !== API_ERROR_CATALOGUE[code].message)
+
+  const description = [
+    isSpecific ? specific : null,
+    requestId ? `Reference: ${requestId}` : null
+  ].filter(Boolean).join(' · ')
+
+  toast.error(title, description ? { description } : undefined)
+}
@@ -0,0 +1,28 @@
+// Stored API keys and email settings, read back through /api/api-keys.
+// Secrets come back masked; revealing one needs a step-up re-authentication.
+import { apiRequest } from '@/lib/api'
+import type { StoredApiKey } from '@/shared/api-keys'
+
+export type { StoredApiKey } from '@/shared/api-keys'
+export { isMaskedSecret } from '@/shared/api-keys'
+
+/**
+ * The signed-in user's stored API keys and email settings, with secrets
+ * masked. Throws ApiRequestError on failure.
+ */
+export const listApiKeys = async (): Promise<StoredApiKey[]> => {
+  const result = await apiRequest<{ keys: StoredApiKey[] }>('/api/api-keys')
+  return result.keys
+}
+
+/**
+ * One stored API key in full. Throws ApiRequestError on failure, with
+ * STEP_UP_REQUIRED when the user has not re-authenticated recently.
+ */
+export const revealApiKey = async (keyName: string): Promise<string | null> => {
+  const result = await apiRequest<{ value: string | null }>('/api/api-keys/reveal', {
+    method: 'POST',
+    body: JSON.stringify({ keyName })
+  })
+  return result.value
+}
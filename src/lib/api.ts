@@ -0,0 +1,176 @@
+import { supabase } from '@/lib/supabase'
+import {
+  API_ERROR_CATALOGUE,
+  codeForStatus,
+  isApiErrorBody,
+  type ApiErrorCode,
+  type ApiErrorPayload
+} from '@/shared/api-errors'
+import { IMPERSONATION_HEADER } from '@/shared/impersonation'
+import { STEP_UP_HEADER, type StepUpGrant } from '@/shared/step-up'
+
+/**
+ * Build the Authorization header for the current Supabase session.
+ * API handlers resolve the caller from this token, so it must be sent
+ * with every authenticated request.
+ */
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    return {}
+  }
+
+  return { Authorization: `Bearer ${session.access_token}` }
+}
+
+// Impersonation session whose user the API should act as (admins only)
+let impersonationId: string | null = null
+
+/**
+ * Send every following API request as the user of an impersonation session,
+ * or as the signed-in user again with null. Managed by src/lib/impersonation.ts.
+ */
+export const setImpersonationId = (id: string | null) => {
+  impersonationId = id
+}
+
+export const getImpersonationId = () => impersonationId
+
+// Token from the latest step-up re-authentication, for sensitive actions
+let stepUpGrant: StepUpGrant | null = null
+
+/**
+ * Send the X-Step-Up-Token header with following API requests until the
+ * token expires, or stop sending it with null. Managed by src/lib/step-up.ts.
+ */
+export const setStepUpGrant = (grant: StepUpGrant | null) => {
+  stepUpGrant = grant
+}
+
+const getStepUpToken = () =>
+  stepUpGrant && new Date(stepUpGrant.expiresAt).getTime() > Date.now() ? stepUpGrant.token : null
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE'])
+
+/**
+ * New value for the Idempotency-Key header. Reuse the same key when
+ * resubmitting the same action so the API runs it only once.
+ */
+export const createIdempotencyKey = () => crypto.randomUUID()
+
+const sendApiRequest = async (url: string, init: RequestInit): Promise<Response> => {
+  const headers = new Headers(init.headers)
+
+  if (init.body && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json')
+  }
+
+  const isMutation = MUTATING_METHODS.has((init.method || 'GET').toUpperCase())
+  if (isMutation && !headers.has('Idempotency-Key')) {
+    headers.set('Idempotency-Key', createIdempotencyKey())
+  }
+
+  const authHeaders = await getAuthHeaders()
+  Object.entries(authHeaders).forEach(([key, value]) => headers.set(key, value))
+
+  if (impersonationId) {
+    headers.set(IMPERSONATION_HEADER, impersonationId)
+  }
+
+  const stepUpToken = getStepUpToken()
+  if (stepUpToken) {
+    headers.set(STEP_UP_HEADER, stepUpToken)
+  }
+
+  try {
+    return await fetch(url, { ...init, headers })
+  } catch (error) {
+    // The first attempt may have reached the server; the key makes the retry safe
+    if (!isMutation || init.signal?.aborted) throw error
+    return fetch(url, { ...init, headers })
+  }
+}
+
+/**
+ * fetch() wrapper for the serverless API that attaches the session token
+ * and a JSON content type, plus the X-Impersonation-Id header while an admin
+ * is impersonating a user and the X-Step-Up-Token header while a step-up
+ * re-authentication is recent enough.
+ *
+ * Mutating requests always carry an Idempotency-Key (a fresh one unless the
+ * caller passes its own) and are retried once, with the same key, when the
+ * network fails before a response arrives.
+ *
+ * A TOKEN_STALE response (the token's role claims predate a role change)
+ * refreshes the session and sends the request once more with the new token.
+ */
+export const apiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const response = await sendApiRequest(url, init)
+  if (response.status !== 401) return response
+
+  const body = await response.clone().json().catch(() => null)
+  if (!isApiErrorBody(body) || body.error.code !== 'TOKEN_STALE') return response
+
+  const { error } = await supabase.auth.refreshSession()
+  if (error) return response
+
+  // Refused before the handler ran, so sending it again is safe
+  return sendApiRequest(url, init)
+}
+
+/**
+ * Error thrown for non-2xx API responses, carrying the fields of the
+ * standard error envelope (see src/shared/api-errors.ts).
+ */
+export class ApiRequestError extends Error {
+  code: ApiErrorCode
+  status: number
+  details?: Record<string, unknown>
+  requestId?: string
+
+  constructor(payload: ApiErrorPayload, status: number) {
+    super(payload.message)
+    this.name = 'ApiRequestError'
+    this.code = payload.code
+    this.status = status
+    this.details = payload.details
+    this.requestId = payload.requestId
+  }
+}
+
+/**
+ * Read the error envelope from a failed response. Responses that are not in
+ * the envelope (proxies, platform errors) get a code derived from the status.
+ */
+export const readApiError = async (response: Response): Promise<ApiRequestError> => {
+  const body = await response.json().catch(() => null)
+
+  if (isApiErrorBody(body)) {
+    return new ApiRequestError(body.error, response.status)
+  }
+
+  const code = codeForStatus(response.status)
+  return new ApiRequestError(
+    {
+      code,
+      message: API_ERROR_CATALOGUE[code].message,
+      requestId: response.headers.get('X-Request-Id') || undefined
+    },
+    response.status
+  )
+}
+
+/**
+ * apiFetch() that parses the JSON response and throws an ApiRequestError
+ * for anything other than a 2xx status.
+ */
+export const apiRequest = async <T = unknown>(url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await apiFetch(url, init)
+
+  if (!response.ok) {
+    throw await readApiError(response)
+  }
+
+  return response.json() as Promise<T>
+}
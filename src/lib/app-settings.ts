@@ -1,10 +1,21 @@
 // Client-side functions for managing app settings
+import { apiRequest } from '@/lib/api'
+import { DEFAULT_PASSWORD_POLICY } from '@/shared/password-policy'
+import { DEFAULT_ACCOUNT_DELETION_GRACE_DAYS } from '@/shared/privacy'
 
 interface AppSettings {
   app_name: string
   app_logo_url: string
   app_favicon_url: string
   app_description: string
+  mfa_required_for_admins: string
+  passwordless_enabled: string
+  signup_policy: string
+  signup_allowed_domains: string
+  password_policy: string
+  account_deletion_grace_days: string
+  captcha_provider: string
+  captcha_site_key: string
 }
 
 interface AppSettingMeta {
@@ -57,32 +68,18 @@ export const getPublicAppSettings = async (): Promise<AppSettings> => {
 }
 
 /**
- * Get all app settings (admin only)
+ * Get all app settings (admin only). Throws an ApiRequestError on failure.
  */
-export const getAppSettings = async (adminUserId: string): Promise<AppSettingsWithMeta> => {
+export const getAppSettings = async (): Promise<AppSettingsWithMeta> => {
   try {
-    const response = await fetch('/api/app-settings', {
+    const result = await apiRequest<{ settings: AppSettingsWithMeta }>('/api/app-settings', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify({
-        adminUserId,
         action: 'get'
       })
     })
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const result = await response.json()
-    
-    if (!result.success) {
-      throw new Error(result.error || 'Failed to get app settings')
-    }
-
-    return result.settings as AppSettingsWithMeta
+    return result.settings
   } catch (error) {
     console.error('Error getting app settings:', error)
     throw error
@@ -90,31 +87,17 @@ export const getAppSettings = async (adminUserId: string): Promise<AppSettingsWi
 }
 
 /**
- * Update app settings (admin only)
+ * Update app settings (admin only). Throws an ApiRequestError on failure.
  */
-export const updateAppSettings = async (adminUserId: string, settings: Record<string, string>): Promise<void> => {
+export const updateAppSettings = async (settings: Record<string, string>): Promise<void> => {
   try {
-    const response = await fetch('/api/app-settings', {
+    await apiRequest('/api/app-settings', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify({
-        adminUserId,
         action: 'update',
         settings
       })
     })
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`)
-    }
-
-    const result = await response.json()
-    
-    if (!result.success) {
-      throw new Error(result.error || 'Failed to update app settings')
-    }
   } catch (error) {
     console.error('Error updating app settings:', error)
     throw error
@@ -126,5 +109,13 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
   app_name: 'AICoder 2025',
   app_logo_url: '',
   app_favicon_url: '',
-  app_description: 'Modern AI-powered development codebase'
+  app_description: 'Modern AI-powered development codebase',
+  mfa_required_for_admins: 'false',
+  passwordless_enabled: 'false',
+  signup_policy: 'open',
+  signup_allowed_domains: '',
+  password_policy: JSON.stringify(DEFAULT_PASSWORD_POLICY),
+  account_deletion_grace_days: String(DEFAULT_ACCOUNT_DELETION_GRACE_DAYS),
+  captcha_provider: 'none',
+  captcha_site_key: ''
 }
\ No newline at end of file
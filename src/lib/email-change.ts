@@ -0,0 +1,33 @@
+// Changing the signed-in user's email address
+import { supabase } from '@/lib/supabase'
+import { ApiRequestError, apiRequest } from '@/lib/api'
+import { buildAuthCallbackUrl } from '@/lib/redirect'
+import { API_ERROR_CATALOGUE } from '@/shared/api-errors'
+import { isEmailChangeRefusedError } from '@/shared/email-change'
+
+/**
+ * Start changing the signed-in user's email address. The address is checked
+ * by the API first; Supabase Auth then emails confirmation links to both the
+ * current and the new address, and the change applies once both are opened.
+ * Throws ApiRequestError when the address is refused (EMAIL_IN_USE), or the
+ * Supabase Auth error.
+ */
+export const requestEmailChange = async (email: string) => {
+  await apiRequest('/api/email/check', {
+    method: 'POST',
+    body: JSON.stringify({ email })
+  })
+
+  const { error } = await supabase.auth.updateUser(
+    { email },
+    { emailRedirectTo: buildAuthCallbackUrl('/dashboard/profile') }
+  )
+
+  if (error) {
+    // Taken between the check and the request
+    if (error.code === 'email_exists' || isEmailChangeRefusedError(error.message)) {
+      throw new ApiRequestError({ code: 'EMAIL_IN_USE', message: API_ERROR_CATALOGUE.EMAIL_IN_USE.message }, 409)
+    }
+    throw error
+  }
+}
@@ -1,107 +1,11 @@
-import { Resend } from 'resend'
-import { supabase } from './supabase'
+import { apiRequest } from './api'
+import { listApiKeys } from './api-keys'
+import { toApiFailure, type ApiResult } from './api-errors'
 
 // For now, we'll use the fallback HTML template instead of React Email
 // to avoid build configuration issues. React Email can be enabled later
 // by uncommenting the imports and updating the createInvitationEmailHtml function
 
-interface EmailSettings {
-  senderName: string
-  senderEmail: string
-  resendApiKey: string
-  domain?: string
-}
-
-interface SendEmailOptions {
-  to: string
-  subject: string
-  html: string
-  replyTo?: string
-}
-
-export const getEmailSettings = async (userId: string): Promise<EmailSettings | null> => {
-  try {
-    const { data: keys } = await supabase
-      .from('user_api_keys')
-      .select('key_name, key_value')
-      .eq('user_id', userId)
-      .in('key_name', ['sender_name', 'sender_email', 'resend_api_key', 'sender_domain'])
-
-    if (!keys || keys.length === 0) {
-      return null
-    }
-
-    const settings: Partial<EmailSettings> = {}
-    keys.forEach(key => {
-      switch (key.key_name) {
-        case 'sender_name':
-          settings.senderName = key.key_value
-          break
-        case 'sender_email':
-          settings.senderEmail = key.key_value
-          break
-        case 'resend_api_key':
-          settings.resendApiKey = key.key_value
-          break
-        case 'sender_domain':
-          settings.domain = key.key_value
-          break
-      }
-    })
-
-    if (!settings.senderName || !settings.senderEmail || !settings.resendApiKey) {
-      return null
-    }
-
-    return settings as EmailSettings
-  } catch (error) {
-    console.error('Error fetching email settings:', error)
-    return null
-  }
-}
-
-export const sendEmail = async (userId: string, options: SendEmailOptions): Promise<{ success: boolean; error?: string; messageId?: string }> => {
-  try {
-    const emailSettings = await getEmailSettings(userId)
-    
-    if (!emailSettings) {
-      return {
-        success: false,
-        error: 'Email settings not configured. Please configure your email settings first.'
-      }
-    }
-
-    const resend = new Resend(emailSettings.resendApiKey)
-
-    const { data, error } = await resend.emails.send({
-      from: `${emailSettings.senderName} <${emailSettings.senderEmail}>`,
-      to: options.to,
-      subject: options.subject,
-      html: options.html,
-      reply_to: options.replyTo || emailSettings.senderEmail,
-    })
-
-    if (error) {
-      console.error('Resend API error:', error)
-      return {
-        success: false,
-        error: error.message || 'Failed to send email'
-      }
-    }
-
-    return {
-      success: true,
-      messageId: data?.id
-    }
-  } catch (error) {
-    console.error('Email sending error:', error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    }
-  }
-}
-
 export const createInvitationEmailHtml = (invitationData: {
   inviteeName: string
   inviterName: string
@@ -238,7 +142,6 @@ export const createInvitationEmailHtml = (invitationData: {
 }
 
 export const sendInvitationEmail = async (
-  userId: string,
   invitationData: {
     inviteeName: string
     inviterName: string
@@ -246,36 +149,24 @@ export const sendInvitationEmail = async (
     signUpUrl: string
     expiresAt?: Date
     recipientEmail: string
-  }
-): Promise<{ success: boolean; error?: string; messageId?: string }> => {
+  },
+  options: { idempotencyKey?: string } = {}
+): Promise<ApiResult & { messageId?: string }> => {
   try {
-    console.log('Sending invitation email for user:', userId, 'to:', invitationData.recipientEmail)
+    console.log('Sending invitation email to:', invitationData.recipientEmail)
     
     const { recipientEmail, ...emailData } = invitationData
     
-    const response = await fetch('/api/send-email', {
+    const result = await apiRequest<{ messageId?: string }>('/api/send-email', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
       body: JSON.stringify({
-        userId,
         recipientEmail,
         emailType: 'invitation',
         emailData
       })
     })
 
-    const result = await response.json()
-
-    if (!response.ok) {
-      console.error('API error during invitation:', result)
-      return {
-        success: false,
-        error: result.error || 'Failed to send invitation email'
-      }
-    }
-
     console.log('Invitation email sent successfully:', result)
     return {
       success: true,
@@ -283,47 +174,22 @@ export const sendInvitationEmail = async (
     }
   } catch (error) {
     console.error('Invitation email error:', error)
-    
-    if (error instanceof Error) {
-      return {
-        success: false,
-        error: `Error: ${error.message}`
-      }
-    }
-    
-    return {
-      success: false,
-      error: 'An unknown error occurred while sending the invitation email'
-    }
+    return toApiFailure(error, 'An unknown error occurred while sending the invitation email')
   }
 }
 
-export const testEmailSettings = async (userId: string, testEmail: string): Promise<{ success: boolean; error?: string; messageId?: string }> => {
+export const testEmailSettings = async (testEmail: string): Promise<ApiResult & { messageId?: string }> => {
   try {
-    console.log('Testing email settings for user:', userId, 'to:', testEmail)
+    console.log('Testing email settings, sending to:', testEmail)
     
-    const response = await fetch('/api/send-email', {
+    const result = await apiRequest<{ messageId?: string }>('/api/send-email', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
       body: JSON.stringify({
-        userId,
         recipientEmail: testEmail,
         emailType: 'test'
       })
     })
 
-    const result = await response.json()
-
-    if (!response.ok) {
-      console.error('API error during test:', result)
-      return {
-        success: false,
-        error: result.error || 'Failed to send test email'
-      }
-    }
-
     console.log('Test email sent successfully:', result)
     return {
       success: true,
@@ -331,18 +197,7 @@ export const testEmailSettings = async (userId: string, testEmail: string): Prom
     }
   } catch (error) {
     console.error('Email test error:', error)
-    
-    if (error instanceof Error) {
-      return {
-        success: false,
-        error: `Error: ${error.message}`
-      }
-    }
-    
-    return {
-      success: false,
-      error: 'An unknown error occurred while sending the test email'
-    }
+    return toApiFailure(error, 'An unknown error occurred while sending the test email')
   }
 }
 
@@ -376,21 +231,23 @@ export const validateEmailSettings = (settings: any): { isValid: boolean; errors
 }
 
 
-export const checkEmailSettingsStatus = async (userId: string): Promise<{ 
+export const checkEmailSettingsStatus = async (): Promise<{ 
   configured: boolean; 
   domainVerified: boolean; 
   error?: string 
 }> => {
   try {
-    const emailSettings = await getEmailSettings(userId)
-    
-    if (!emailSettings) {
+    // Stored secrets come back masked, which is enough to tell they are set
+    const keys = await listApiKeys()
+    const stored = (keyName: string) => keys.find(key => key.keyName === keyName)?.value || ''
+
+    if (!stored('sender_name') || !stored('sender_email') || !stored('resend_api_key')) {
       return { configured: false, domainVerified: false }
     }
 
     // Simple check: if no domain is specified, Resend's domain is used (always verified)
     // If a domain is specified, we assume it needs verification in Resend dashboard
-    const domainVerified = !emailSettings.domain || emailSettings.domain.length === 0
+    const domainVerified = stored('sender_domain').length === 0
     
     return {
       configured: true,
@@ -405,4 +262,4 @@ export const checkEmailSettingsStatus = async (userId: string): Promise<{
       error: error instanceof Error ? error.message : 'Unknown error'
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,20 @@
+// Client-side access to the health endpoints
+import { apiRequest } from '@/lib/api'
+import type { HealthDetailsResponse } from '@/shared/health'
+
+export type { HealthCheck, HealthDetailsResponse, HealthStatus } from '@/shared/health'
+
+/**
+ * Run the admin diagnostics. Uses a relative URL on purpose: a wrong
+ * VITE_APP_URL is one of the things being diagnosed.
+ * Throws ApiRequestError on failure.
+ */
+export const getSystemStatus = async (): Promise<HealthDetailsResponse> => {
+  const result = await apiRequest<HealthDetailsResponse>('/api/health/details')
+
+  return {
+    status: result.status,
+    checkedAt: result.checkedAt,
+    checks: result.checks
+  }
+}
@@ -0,0 +1,53 @@
+// Admin "view as user", through /api/admin/impersonation. While a session is
+// active, apiFetch sends its id with every request so the API acts as the
+// impersonated user.
+import type { User } from '@supabase/supabase-js'
+import { apiRequest, setImpersonationId } from '@/lib/api'
+import type { Impersonation, StartImpersonationInput } from '@/shared/impersonation'
+
+export type { Impersonation } from '@/shared/impersonation'
+
+export interface ActiveImpersonation {
+  impersonation: Impersonation
+  // The impersonated user's auth record
+  user: User
+}
+
+/**
+ * The admin's impersonation session, if one is still running, which then
+ * applies to the following API requests. Throws ApiRequestError on failure.
+ */
+export const getActiveImpersonation = async (): Promise<ActiveImpersonation | null> => {
+  const result = await apiRequest<{ impersonation: Impersonation | null; user: User | null }>('/api/admin/impersonation')
+  if (!result.impersonation || !result.user) {
+    return null
+  }
+
+  setImpersonationId(result.impersonation.id)
+  return { impersonation: result.impersonation, user: result.user }
+}
+
+/**
+ * Start viewing the app as a user, ending any earlier session. Throws
+ * ApiRequestError on failure.
+ */
+export const startImpersonation = async (input: StartImpersonationInput): Promise<ActiveImpersonation> => {
+  // Admin endpoints refuse impersonated requests
+  setImpersonationId(null)
+  const result = await apiRequest<ActiveImpersonation>('/api/admin/impersonation', {
+    method: 'POST',
+    body: JSON.stringify(input)
+  })
+
+  setImpersonationId(result.impersonation.id)
+  return { impersonation: result.impersonation, user: result.user }
+}
+
+/**
+ * Go back to acting as the admin. Requests stop carrying the session id
+ * even if the API call fails. Throws ApiRequestError on failure.
+ */
+export const stopImpersonation = async () => {
+  setImpersonationId(null)
+  await apiRequest('/api/admin/impersonation', { method: 'DELETE' })
+}
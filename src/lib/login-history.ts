@@ -0,0 +1,29 @@
+// Password sign-in and sign-in history, through /api/auth
+import { apiRequest } from '@/lib/api'
+import type { LoginHistory } from '@/shared/login-events'
+
+export type { LoginEvent, LoginHistory } from '@/shared/login-events'
+
+/**
+ * Check an email and password through the API, which records failures and
+ * enforces the lockout, and return the new session's tokens. Throws
+ * ApiRequestError on failure: INVALID_CREDENTIALS, EMAIL_NOT_CONFIRMED, or
+ * ACCOUNT_LOCKED with the end of the lockout in `details.until`, or
+ * CAPTCHA_REQUIRED / CAPTCHA_FAILED while CAPTCHA is on.
+ */
+export const signInWithPassword = async (email: string, password: string, captchaToken?: string) => {
+  const result = await apiRequest<{ session: { access_token: string; refresh_token: string } }>(
+    '/api/auth/sign-in',
+    { method: 'POST', body: JSON.stringify({ email, password, captchaToken }) }
+  )
+  return result.session
+}
+
+/**
+ * The signed-in user's recent sign-ins, newest first. Throws ApiRequestError
+ * on failure.
+ */
+export const getLoginHistory = async (): Promise<LoginHistory> => {
+  const { events, lockedUntil } = await apiRequest<LoginHistory>('/api/auth/login-history')
+  return { events, lockedUntil }
+}
@@ -0,0 +1,122 @@
+// Client-side TOTP multi-factor authentication. Factors are enrolled and
+// verified with Supabase Auth directly; recovery codes go through /api/mfa.
+import type { Factor, Session, User } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { apiRequest } from '@/lib/api'
+import { readAssuranceLevel, type AssuranceLevel, type RecoveryCodeStatus } from '@/shared/mfa'
+
+export type { AssuranceLevel, RecoveryCodeStatus } from '@/shared/mfa'
+
+export interface AssuranceLevels {
+  currentLevel: AssuranceLevel | null
+  nextLevel: AssuranceLevel | null
+}
+
+export interface TotpEnrollment {
+  factorId: string
+  qrCode: string
+  secret: string
+}
+
+export const getVerifiedTotpFactors = (user: User | null | undefined): Factor[] =>
+  (user?.factors ?? []).filter(factor => factor.factor_type === 'totp' && factor.status === 'verified')
+
+/**
+ * Same result as supabase.auth.mfa.getAuthenticatorAssuranceLevel(), worked
+ * out from the session alone so it can be used synchronously (including
+ * inside onAuthStateChange, where awaiting other auth calls deadlocks).
+ */
+export const getAssuranceLevels = (session: Session | null): AssuranceLevels => {
+  if (!session) {
+    return { currentLevel: null, nextLevel: null }
+  }
+
+  const currentLevel = readAssuranceLevel(session.access_token) ?? 'aal1'
+  const nextLevel = getVerifiedTotpFactors(session.user).length > 0 ? 'aal2' : currentLevel
+  return { currentLevel, nextLevel }
+}
+
+// Signed in with a password but the enrolled factor has not been verified yet
+export const needsMfaChallenge = (session: Session | null) => {
+  const { currentLevel, nextLevel } = getAssuranceLevels(session)
+  return nextLevel === 'aal2' && currentLevel !== 'aal2'
+}
+
+/**
+ * Start enrolling a TOTP factor. Leftover unverified factors from abandoned
+ * attempts are removed first. Throws the Supabase AuthError on failure.
+ */
+export const enrollTotp = async (): Promise<TotpEnrollment> => {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors()
+  if (listError) throw listError
+
+  for (const factor of factors.all.filter(factor => factor.status === 'unverified')) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id })
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: `Authenticator app (${new Date().toLocaleDateString()})`
+  })
+  if (error) throw error
+
+  return {
+    factorId: data.id,
+    // qr_code is an SVG document
+    qrCode: data.totp.qr_code.startsWith('data:')
+      ? data.totp.qr_code
+      : `data:image/svg+xml;utf-8,${encodeURIComponent(data.totp.qr_code)}`,
+    secret: data.totp.secret
+  }
+}
+
+/**
+ * Verify a 6-digit code for a factor. On success the session is upgraded to
+ * AAL2 (and an unverified factor becomes verified).
+ */
+export const verifyTotp = async (factorId: string, code: string) => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code })
+  if (error) throw error
+}
+
+/**
+ * Remove a factor. Needs an AAL2 session for verified factors; the session is
+ * refreshed afterwards so it no longer lists the factor.
+ */
+export const unenrollTotp = async (factorId: string) => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId })
+  if (error) throw error
+
+  await supabase.auth.refreshSession()
+}
+
+/**
+ * Number of unused recovery codes. Throws ApiRequestError on failure.
+ */
+export const getRecoveryCodeStatus = async (): Promise<RecoveryCodeStatus> => {
+  const result = await apiRequest<RecoveryCodeStatus>('/api/mfa/recovery-codes')
+  return { remaining: result.remaining, createdAt: result.createdAt }
+}
+
+/**
+ * Replace the recovery codes and return the new ones, which cannot be
+ * retrieved again. Needs an AAL2 session. Throws ApiRequestError on failure.
+ */
+export const generateRecoveryCodes = async (): Promise<string[]> => {
+  const result = await apiRequest<{ codes: string[] }>('/api/mfa/recovery-codes', { method: 'POST' })
+  return result.codes
+}
+
+/**
+ * Use a recovery code instead of the authenticator. This removes the
+ * account's TOTP factors and ends all of its sessions, so the local session is
+ * cleared too. Throws ApiRequestError on failure.
+ */
+export const redeemRecoveryCode = async (code: string) => {
+  await apiRequest('/api/mfa/recover', {
+    method: 'POST',
+    body: JSON.stringify({ code })
+  })
+
+  await supabase.auth.signOut({ scope: 'local' })
+}
@@ -0,0 +1,76 @@
+// Passkey registration and sign-in, through /api/passkeys and
+// /api/auth/passkey. The browser side of each ceremony is run by
+// @simplewebauthn/browser.
+import {
+  browserSupportsWebAuthn,
+  startAuthentication,
+  startRegistration,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON
+} from '@simplewebauthn/browser'
+import { apiRequest } from '@/lib/api'
+import type { Passkey } from '@/shared/passkeys'
+
+export type { Passkey } from '@/shared/passkeys'
+
+export const isPasskeySupported = () => browserSupportsWebAuthn()
+
+// The user dismissed the browser's passkey prompt, or it timed out
+export const isPasskeyCancelled = (error: unknown) =>
+  error instanceof Error && error.name === 'NotAllowedError'
+
+/**
+ * The signed-in user's passkeys. Throws ApiRequestError on failure.
+ */
+export const listPasskeys = async (): Promise<Passkey[]> => {
+  const result = await apiRequest<{ passkeys: Passkey[] }>('/api/passkeys')
+  return result.passkeys
+}
+
+/**
+ * Create a passkey on this device and register it. Throws ApiRequestError
+ * on failure (STEP_UP_REQUIRED without a recent re-authentication), or the
+ * browser's error when the prompt is dismissed (see isPasskeyCancelled).
+ */
+export const registerPasskey = async (name?: string): Promise<Passkey> => {
+  const { challengeId, options } = await apiRequest<{
+    challengeId: string
+    options: PublicKeyCredentialCreationOptionsJSON
+  }>('/api/passkeys/options', { method: 'POST' })
+
+  const response = await startRegistration({ optionsJSON: options })
+
+  const result = await apiRequest<{ passkey: Passkey }>('/api/passkeys', {
+    method: 'POST',
+    body: JSON.stringify({ challengeId, response, name })
+  })
+  return result.passkey
+}
+
+/**
+ * Remove a passkey. Throws ApiRequestError on failure.
+ */
+export const deletePasskey = async (id: string) => {
+  await apiRequest(`/api/passkeys/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+/**
+ * Sign in with one of the passkeys on this device and return the new
+ * session's tokens. Throws ApiRequestError on failure (PASSKEY_FAILED for an
+ * unknown or invalid passkey), or the browser's error when the prompt is
+ * dismissed.
+ */
+export const signInWithPasskey = async () => {
+  const { challengeId, options } = await apiRequest<{
+    challengeId: string
+    options: PublicKeyCredentialRequestOptionsJSON
+  }>('/api/auth/passkey/options', { method: 'POST' })
+
+  const response = await startAuthentication({ optionsJSON: options })
+
+  const result = await apiRequest<{ session: { access_token: string; refresh_token: string } }>(
+    '/api/auth/passkey',
+    { method: 'POST', body: JSON.stringify({ challengeId, response }) }
+  )
+  return result.session
+}
@@ -0,0 +1,42 @@
+// Password policy checks, password changes and reset emails, through /api/password
+import { apiRequest } from '@/lib/api'
+import type { PasswordCheckResult } from '@/shared/password-policy'
+
+export type { PasswordCheckResult } from '@/shared/password-policy'
+
+/**
+ * Check a new password against the full policy, including the breach check
+ * and, when signed in, reuse of recent passwords. Throws ApiRequestError on
+ * failure.
+ */
+export const checkPassword = async (password: string): Promise<PasswordCheckResult> => {
+  const { valid, failures, breached } = await apiRequest<PasswordCheckResult>('/api/password/check', {
+    method: 'POST',
+    body: JSON.stringify({ password })
+  })
+  return { valid, failures, breached }
+}
+
+/**
+ * Set the signed-in user's password. A password the policy refuses throws
+ * ApiRequestError with code PASSWORD_REJECTED and the unmet rules in
+ * `details.failures`.
+ */
+export const changePassword = async (password: string) => {
+  await apiRequest('/api/password/change', {
+    method: 'POST',
+    body: JSON.stringify({ password })
+  })
+}
+
+/**
+ * Email a password reset link that opens `redirectTo`. Succeeds whether or
+ * not the address has an account. Throws ApiRequestError on failure, e.g.
+ * CAPTCHA_REQUIRED / CAPTCHA_FAILED while CAPTCHA is on.
+ */
+export const requestPasswordReset = async (email: string, redirectTo: string, captchaToken?: string) => {
+  await apiRequest('/api/password/reset', {
+    method: 'POST',
+    body: JSON.stringify({ email, redirectTo, captchaToken })
+  })
+}
@@ -0,0 +1,51 @@
+// Data export and account deletion, through /api/account
+import { apiRequest } from '@/lib/api'
+import type { AccountDeletion } from '@/shared/privacy'
+
+export type { AccountDeletion } from '@/shared/privacy'
+
+/**
+ * Fetch everything the app stores about the signed-in user and save it as a
+ * JSON file. Throws ApiRequestError on failure.
+ */
+export const downloadDataExport = async () => {
+  const result = await apiRequest<{ export: unknown }>('/api/account/export')
+
+  const blob = new Blob([JSON.stringify(result.export, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `account-data-${new Date().toISOString().slice(0, 10)}.json`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * The scheduled deletion of the signed-in user's account, or null. Throws
+ * ApiRequestError on failure.
+ */
+export const getAccountDeletion = async (): Promise<AccountDeletion | null> => {
+  const result = await apiRequest<{ deletion: AccountDeletion | null }>('/api/account/deletion')
+  return result.deletion
+}
+
+/**
+ * Schedule the signed-in user's account for deletion after the grace period.
+ * `confirmEmail` must be their email address. Throws ApiRequestError on failure.
+ */
+export const requestAccountDeletion = async (confirmEmail: string): Promise<AccountDeletion> => {
+  const result = await apiRequest<{ deletion: AccountDeletion }>('/api/account/deletion', {
+    method: 'POST',
+    body: JSON.stringify({ confirmEmail })
+  })
+  return result.deletion
+}
+
+/**
+ * Cancel a scheduled deletion. Throws ApiRequestError on failure.
+ */
+export const cancelAccountDeletion = async () => {
+  await apiRequest('/api/account/deletion', { method: 'DELETE' })
+}
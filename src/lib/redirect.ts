@@ -0,0 +1,65 @@
+// Post-sign-in redirects. The page a signed-out visitor asked for travels as
+// a `redirect_to` query parameter through the sign-in page and the
+// /auth/callback links Supabase sends (OAuth, magic links, confirmations).
+// Every value is checked here before it is navigated to, so a crafted link
+// cannot send someone off-site after they sign in.
+
+export const REDIRECT_PARAM = 'redirect_to'
+
+export const DEFAULT_REDIRECT = '/dashboard'
+
+// Paths (and everything below them) a sign-in may land on
+const ALLOWED_REDIRECT_PATHS = ['/dashboard', '/auth/update-password']
+
+const isAllowedPath = (pathname: string) =>
+  ALLOWED_REDIRECT_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`))
+
+/**
+ * Return `value` when it is a same-origin path on the allowlist, otherwise
+ * `fallback`. Absolute URLs, protocol-relative URLs (`//evil.example`) and
+ * backslash tricks are all rejected.
+ */
+export const sanitizeRedirect = (value: string | null | undefined, fallback = DEFAULT_REDIRECT): string => {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.includes('\\')) {
+    return fallback
+  }
+
+  let url: URL
+  try {
+    url = new URL(value, window.location.origin)
+  } catch {
+    return fallback
+  }
+
+  if (url.origin !== window.location.origin || !isAllowedPath(url.pathname)) {
+    return fallback
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`
+}
+
+// Sanitized redirect from a location's query string (`location.search`)
+export const getRedirectFromSearch = (search: string, fallback = DEFAULT_REDIRECT) =>
+  sanitizeRedirect(new URLSearchParams(search).get(REDIRECT_PARAM), fallback)
+
+// `/sign-in?redirect_to=...` for a location the visitor could not open yet
+export const buildSignInPath = (location: { pathname: string; search: string; hash: string }) => {
+  const target = `${location.pathname}${location.search}${location.hash}`
+  const redirectTo = sanitizeRedirect(target, '')
+  return redirectTo && redirectTo !== DEFAULT_REDIRECT
+    ? `/sign-in?${REDIRECT_PARAM}=${encodeURIComponent(redirectTo)}`
+    : '/sign-in'
+}
+
+/**
+ * Absolute /auth/callback URL for Supabase `redirectTo`/`emailRedirectTo`
+ * options, carrying the page to open once the callback has signed the user in.
+ */
+export const buildAuthCallbackUrl = (redirectTo?: string | null) => {
+  const url = new URL('/auth/callback', window.location.origin)
+  const target = sanitizeRedirect(redirectTo, '')
+  if (target && target !== DEFAULT_REDIRECT) {
+    url.searchParams.set(REDIRECT_PARAM, target)
+  }
+  return url.toString()
+}
@@ -0,0 +1,38 @@
+// Active sessions of the signed-in user, through /api/sessions
+import { apiRequest } from '@/lib/api'
+import type { UserSession } from '@/shared/sessions'
+
+export type { UserSession } from '@/shared/sessions'
+
+/**
+ * Tell the API about the current session (device, browser, IP) and mark it
+ * as just used. Throws ApiRequestError on failure.
+ */
+export const recordSession = async (): Promise<UserSession> => {
+  const result = await apiRequest<{ session: UserSession }>('/api/sessions', { method: 'POST' })
+  return result.session
+}
+
+/**
+ * Active sessions, most recently used first. Throws ApiRequestError on failure.
+ */
+export const listSessions = async (): Promise<UserSession[]> => {
+  const result = await apiRequest<{ sessions: UserSession[] }>('/api/sessions')
+  return result.sessions
+}
+
+/**
+ * Sign out another session. Throws ApiRequestError on failure.
+ */
+export const revokeSession = async (id: string) => {
+  await apiRequest(`/api/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+/**
+ * Sign out every session except this one and return how many ended.
+ * Throws ApiRequestError on failure.
+ */
+export const revokeOtherSessions = async (): Promise<number> => {
+  const result = await apiRequest<{ revoked: number }>('/api/sessions?scope=others', { method: 'DELETE' })
+  return result.revoked
+}
@@ -0,0 +1,26 @@
+// Email and password sign-up, through /api/auth/sign-up
+import { apiRequest } from '@/lib/api'
+
+export interface SignUpResult {
+  userId: string | null
+  // Only when email confirmation is off; the account is then signed in
+  session: { access_token: string; refresh_token: string } | null
+}
+
+/**
+ * Create an account whose confirmation link opens `redirectTo`. Throws
+ * ApiRequestError on failure: SIGNUP_REFUSED by the sign-up policy,
+ * PASSWORD_REJECTED, or CAPTCHA_REQUIRED / CAPTCHA_FAILED while CAPTCHA is on.
+ */
+export const signUpWithPassword = async (
+  email: string,
+  password: string,
+  redirectTo: string,
+  captchaToken?: string
+): Promise<SignUpResult> => {
+  const { userId, session } = await apiRequest<SignUpResult>('/api/auth/sign-up', {
+    method: 'POST',
+    body: JSON.stringify({ email, password, redirectTo, captchaToken })
+  })
+  return { userId, session }
+}
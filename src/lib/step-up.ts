@@ -0,0 +1,48 @@
+// Step-up re-authentication for sensitive actions, through /api/auth/step-up.
+// The token it returns is sent with every API request until it expires.
+import type { User } from '@supabase/supabase-js'
+import { ApiRequestError, apiRequest, setStepUpGrant } from '@/lib/api'
+import { getVerifiedTotpFactors } from '@/lib/mfa'
+import type { ApiResult } from '@/lib/api-errors'
+import type { StepUpGrant, StepUpMethod, StepUpRequest } from '@/shared/step-up'
+
+export type { StepUpMethod, StepUpRequest } from '@/shared/step-up'
+
+/**
+ * Re-authenticate with the user's password, an authenticator code or a code
+ * from sendStepUpEmailCode(). Throws ApiRequestError on failure
+ * (STEP_UP_FAILED for a wrong password or code).
+ */
+export const stepUp = async (request: StepUpRequest): Promise<StepUpGrant> => {
+  const { token, expiresAt } = await apiRequest<StepUpGrant>('/api/auth/step-up', {
+    method: 'POST',
+    body: JSON.stringify(request)
+  })
+
+  setStepUpGrant({ token, expiresAt })
+  return { token, expiresAt }
+}
+
+// Email the user a code to step up with (accounts with the `email` method)
+export const sendStepUpEmailCode = async (): Promise<void> => {
+  await apiRequest('/api/auth/step-up/email', { method: 'POST' })
+}
+
+// Stop sending the step-up token, e.g. after signing out
+export const clearStepUp = () => setStepUpGrant(null)
+
+// Whether `source` (a caught error or an ApiResult) is a STEP_UP_REQUIRED refusal
+export const isStepUpRequired = (source: unknown) =>
+  (source instanceof ApiRequestError || (!!source && typeof source === 'object' && 'code' in source)) &&
+  (source as ApiResult).code === 'STEP_UP_REQUIRED'
+
+// Ways the user can step up, as decided by the API (api/_lib/step-up.ts): a
+// password if they have one, an authenticator app if enrolled, and an email
+// code when they have neither
+export const getStepUpMethods = (user: User | null | undefined): StepUpMethod[] => {
+  const methods: StepUpMethod[] = [
+    ...((user?.identities ?? []).some(identity => identity.provider === 'email') ? ['password' as const] : []),
+    ...(getVerifiedTotpFactors(user).length > 0 ? ['totp' as const] : [])
+  ]
+  return methods.length === 0 && user?.email ? ['email'] : methods
+}
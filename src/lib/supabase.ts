@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { buildAuthCallbackUrl } from '@/lib/redirect'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -11,8 +12,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     autoRefreshToken: true,
     persistSession: true,
-    detectSessionInUrl: true,
-    flowType: 'implicit',
+    // PKCE: links come back with a one-time ?code that AuthCallback exchanges
+    // for a session, instead of tokens in the URL hash
+    detectSessionInUrl: false,
+    flowType: 'pkce',
     storage: typeof window !== 'undefined' ? window.localStorage : undefined,
     storageKey: 'supabase.auth.token',
     debug: import.meta.env.DEV,
@@ -32,7 +35,7 @@ export const auth = {
       password,
       options: {
         data: metadata,
-        emailRedirectTo: `${window.location.origin}/auth/callback`
+        emailRedirectTo: buildAuthCallbackUrl()
       }
     })
     return { data, error }
@@ -46,11 +49,11 @@ export const auth = {
     return { data, error }
   },
 
-  signInWithProvider: async (provider: 'google' | 'github' | 'discord') => {
+  signInWithProvider: async (provider: 'google' | 'github' | 'discord', redirectTo?: string) => {
     const { data, error } = await supabase.auth.signInWithOAuth({
       provider,
       options: {
-        redirectTo: `${window.location.origin}/auth/callback`
+        redirectTo: buildAuthCallbackUrl(redirectTo)
       }
     })
     return { data, error }
@@ -63,7 +66,7 @@ export const auth = {
 
   resetPassword: async (email: string) => {
     const { data, error } = await supabase.auth.resetPasswordForEmail(email, {
-      redirectTo: `${window.location.origin}/auth/reset-password`
+      redirectTo: buildAuthCallbackUrl('/auth/update-password')
     })
     return { data, error }
   },
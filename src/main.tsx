@@ -5,6 +5,7 @@ import { BrowserRouter } from "react-router-dom";
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { AppSettingsProvider } from '@/contexts/AppSettingsContext';
+import { StepUpProvider } from '@/contexts/StepUpContext';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -20,7 +21,9 @@ createRoot(document.getElementById("root")!).render(
     <BrowserRouter>
       <AuthProvider>
         <AppSettingsProvider>
-          <App />
+          <StepUpProvider>
+            <App />
+          </StepUpProvider>
         </AppSettingsProvider>
       </AuthProvider>
     </BrowserRouter>
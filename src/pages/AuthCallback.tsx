@@ -1,50 +1,160 @@
-import { useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import type { EmailOtpType } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
+import { REDIRECT_PARAM, sanitizeRedirect } from '@/lib/redirect'
+import { isSignupRefusedError } from '@/shared/signup-policy'
+import { isEmailChangeRefusedError, isPartialEmailChangeMessage } from '@/shared/email-change'
 import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+
+// `type` values Supabase Auth puts on email links
+const EMAIL_LINK_TYPES: EmailOtpType[] = ['signup', 'invite', 'magiclink', 'recovery', 'email_change', 'email']
+
+const isEmailLinkType = (value: string | null): value is EmailOtpType =>
+  !!value && (EMAIL_LINK_TYPES as string[]).includes(value)
+
+// Supabase reports failed links as error/error_code/error_description
+const describeCallbackError = (code: string | null, description: string) => {
+  if (code === 'otp_expired' || code === 'flow_state_expired' || code === 'flow_state_not_found') {
+    return 'This sign-in link has expired or has already been used. Request a new one.'
+  }
+  // PKCE links only work in the browser that asked for them
+  if (code === 'bad_code_verifier' || code === 'validation_failed') {
+    return 'Open this link in the browser you requested it from, or sign in again here.'
+  }
+  const message = description.replace(/\+/g, ' ')
+  // A first OAuth sign-in creates the account, so the sign-up policy applies
+  if (isSignupRefusedError(message)) {
+    return 'No account could be created for you. Sign-ups may need an invitation or an approved email domain.'
+  }
+  // The new address was taken by someone else before the change was confirmed
+  if (isEmailChangeRefusedError(message)) {
+    return 'Your email address could not be changed because the new address is already in use.'
+  }
+  return message
+}
 
 export default function AuthCallback() {
   const navigate = useNavigate()
-  
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  // The first of the two email change confirmations has been opened
+  const [awaitingOtherConfirmation, setAwaitingOtherConfirmation] = useState(false)
+  // Auth codes are single use, so the exchange must not run twice
+  const handled = useRef(false)
+
   useEffect(() => {
-    // Listen for auth state changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (event === 'PASSWORD_RECOVERY' && session) {
-        // Password recovery flow - redirect to update password
-        navigate('/auth/update-password')
-      } else if (event === 'SIGNED_IN' && session) {
-        // Normal sign in - redirect to dashboard
-        navigate('/dashboard')
-      } else if (!session) {
-        // No session - redirect to sign in
-        navigate('/sign-in')
-      }
-    })
-    
-    // Also check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        // Check if the URL still has the type parameter (unlikely but possible)
-        const hashParams = new URLSearchParams(window.location.hash.substring(1))
-        const type = hashParams.get('type')
-        
-        if (type === 'recovery') {
-          navigate('/auth/update-password')
+    if (handled.current) return
+    handled.current = true
+
+    // Links from before the switch to PKCE put their parameters in the hash
+    const query = new URLSearchParams(window.location.search)
+    const hash = new URLSearchParams(window.location.hash.substring(1))
+    const param = (name: string) => query.get(name) ?? hash.get(name)
+
+    const error = param('error_description') || param('error')
+    if (error) {
+      setErrorMessage(describeCallbackError(param('error_code'), error))
+      return
+    }
+
+    const type = param('type')
+    const destination = type === 'recovery'
+      ? '/auth/update-password'
+      : sanitizeRedirect(query.get(REDIRECT_PARAM))
+
+    // PKCE: OAuth, magic links, confirmations and password resets return a code
+    const code = query.get('code')
+    if (code) {
+      // Password reset links carry redirect_to=/auth/update-password
+      supabase.auth.exchangeCodeForSession(code).then(({ error }) => {
+        if (error) {
+          setErrorMessage(describeCallbackError(error.code ?? null, error.message))
         } else {
-          navigate('/dashboard')
+          navigate(destination, { replace: true })
         }
-      }
-    })
-    
-    return () => {
-      subscription.unsubscribe()
+      })
+      return
     }
+
+    // Links built from {{ .TokenHash }} (custom email templates) are verified here
+    const tokenHash = query.get('token_hash')
+    if (tokenHash && isEmailLinkType(type)) {
+      supabase.auth.verifyOtp({ token_hash: tokenHash, type }).then(({ error }) => {
+        if (error) {
+          setErrorMessage(describeCallbackError(error.code ?? null, error.message))
+        } else {
+          navigate(destination, { replace: true })
+        }
+      })
+      return
+    }
+
+    // Implicit-flow tokens from links sent before the switch to PKCE
+    const accessToken = hash.get('access_token')
+    const refreshToken = hash.get('refresh_token')
+    if (accessToken && refreshToken) {
+      supabase.auth.setSession({ access_token: accessToken, refresh_token: refreshToken }).then(({ error }) => {
+        if (error) {
+          setErrorMessage(describeCallbackError(error.code ?? null, error.message))
+        } else {
+          navigate(destination, { replace: true })
+        }
+      })
+      return
+    }
+
+    // Email changes are confirmed from both addresses; only the second link signs in
+    if (isPartialEmailChangeMessage(param('message'))) {
+      setAwaitingOtherConfirmation(true)
+      return
+    }
+
+    // Nothing to exchange: continue if already signed in, otherwise sign in
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      navigate(session ? destination : '/sign-in', { replace: true })
+    })
   }, [navigate])
 
+  if (awaitingOtherConfirmation) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>One more step</CardTitle>
+          <CardDescription>
+            This address is confirmed. Open the link we sent to your other email address to finish changing it.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button asChild className="w-full">
+            <Link to="/dashboard/profile">Back to Profile</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
+  if (errorMessage) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Sign-in link not valid</CardTitle>
+          <CardDescription>{errorMessage}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button asChild className="w-full">
+            <Link to="/sign-in">Back to Sign In</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    )
+  }
+
   return (
     <div className="flex h-screen items-center justify-center">
       <Loader2 className="h-8 w-8 animate-spin" />
       <span className="ml-2">Authenticating...</span>
     </div>
   )
-}
\ No newline at end of file
+}
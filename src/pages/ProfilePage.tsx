@@ -8,12 +8,21 @@ import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import { toast } from "sonner";
 import { supabase } from "@/lib/supabase";
+import { useLocation } from "react-router-dom";
+import { TwoFactorSettings } from "@/components/auth/TwoFactorSettings";
+import { PasskeySettings } from "@/components/auth/PasskeySettings";
+import { ActiveSessions } from "@/components/auth/ActiveSessions";
+import { LoginHistory } from "@/components/auth/LoginHistory";
+import { ChangeEmailDialog } from "@/components/auth/ChangeEmailDialog";
+import { PrivacySettings } from "@/components/auth/PrivacySettings";
 
 const ProfilePage = () => {
-  const { user } = useAuth();
+  const { user, impersonation } = useAuth();
+  const location = useLocation();
   const [loading, setLoading] = useState(false);
   const [fullName, setFullName] = useState(user?.user_metadata?.full_name || '');
   const [avatarUrl, setAvatarUrl] = useState(user?.user_metadata?.avatar_url || '');
+  const [changeEmailOpen, setChangeEmailOpen] = useState(false);
 
   const updateProfile = async () => {
     setLoading(true);
@@ -59,7 +68,20 @@ const ProfilePage = () => {
             </div>
             <div className="space-y-2">
               <Label htmlFor="email">Email</Label>
-              <Input id="email" value={user?.email || ''} disabled />
+              <div className="flex gap-2">
+                <Input id="email" value={user?.email || ''} disabled />
+                {!impersonation && (
+                  <Button variant="outline" onClick={() => setChangeEmailOpen(true)}>
+                    Change
+                  </Button>
+                )}
+              </div>
+              {/* Set by Supabase Auth until both confirmation links are opened */}
+              {user?.new_email && (
+                <p className="text-sm text-muted-foreground">
+                  Waiting for confirmation to change to {user.new_email}. Open the links sent to both addresses.
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="fullName">Full Name</Label>
@@ -70,12 +92,33 @@ const ProfilePage = () => {
                 placeholder="Enter your full name"
               />
             </div>
-            <Button onClick={updateProfile} disabled={loading}>
+            {/* Profile changes go straight to Supabase Auth as the signed-in admin */}
+            <Button onClick={updateProfile} disabled={loading || !!impersonation}>
               {loading ? 'Saving...' : 'Save Changes'}
             </Button>
           </CardContent>
         </Card>
+
+        {!impersonation && (
+          <>
+            <TwoFactorSettings required={!!location.state?.mfaRequired} />
+
+            <PasskeySettings />
+
+            <ActiveSessions />
+
+            <LoginHistory />
+
+            <PrivacySettings />
+          </>
+        )}
       </div>
+
+      <ChangeEmailDialog
+        open={changeEmailOpen}
+        onOpenChange={setChangeEmailOpen}
+        currentEmail={user?.email || ''}
+      />
     </PageLayout>
   );
 };
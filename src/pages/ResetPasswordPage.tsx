@@ -5,7 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/lib/supabase';
+import { requestPasswordReset } from '@/lib/passwords';
+import { buildAuthCallbackUrl } from '@/lib/redirect';
+import { CaptchaWidget } from '@/components/auth/CaptchaWidget';
+import { useCaptcha } from '@/hooks/useCaptcha';
 import { ArrowLeft, Mail } from 'lucide-react';
 
 const ResetPasswordPage = () => {
@@ -13,6 +16,7 @@ const ResetPasswordPage = () => {
   const [loading, setLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const { toast } = useToast();
+  const captcha = useCaptcha();
 
   const handleResetPassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,13 +33,8 @@ const ResetPasswordPage = () => {
     setLoading(true);
 
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/auth/update-password`,
-      });
-
-      if (error) {
-        throw error;
-      }
+      // AuthCallback signs the link in, then opens the update form
+      await requestPasswordReset(email, buildAuthCallbackUrl('/auth/update-password'), captcha.token ?? undefined);
 
       setSubmitted(true);
       toast({
@@ -50,6 +49,7 @@ const ResetPasswordPage = () => {
         variant: "destructive",
       });
     } finally {
+      captcha.reset();
       setLoading(false);
     }
   };
@@ -116,9 +116,15 @@ const ResetPasswordPage = () => {
                 disabled={loading}
               />
             </div>
+            <CaptchaWidget
+              key={captcha.widgetKey}
+              provider={captcha.provider}
+              siteKey={captcha.siteKey}
+              onToken={captcha.setToken}
+            />
           </CardContent>
           <CardFooter className="flex flex-col space-y-2">
-            <Button type="submit" className="w-full" disabled={loading}>
+            <Button type="submit" className="w-full" disabled={loading || (captcha.required && !captcha.token)}>
               {loading ? 'Sending...' : 'Send reset link'}
             </Button>
             <Link to="/sign-in" className="flex items-center text-sm text-muted-foreground hover:underline">
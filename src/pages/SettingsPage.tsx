@@ -3,6 +3,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { useAuth } from "@/contexts/AuthContext";
+import { useStepUp } from "@/hooks/useStepUp";
 import PageLayout from "@/components/PageLayout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -16,16 +17,23 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Eye, EyeOff, Key, Save, Loader2, Mail, AlertCircle, Settings, Send, CheckCircle } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import { isMaskedSecret, listApiKeys, revealApiKey } from "@/lib/api-keys";
 import { testEmailSettings, checkEmailSettingsStatus } from "@/lib/email";
+import { toastApiError } from "@/lib/api-errors";
 import { toast } from "sonner";
 
+// Stored secrets load masked and are only saved again once replaced
 const apiKeySchema = z.object({
-  openai: z.string().min(1, "OpenAI API key is required").regex(/^sk-/, "Must start with 'sk-'"),
+  openai: z.string().min(1, "OpenAI API key is required").refine(
+    (val) => isMaskedSecret(val) || val.startsWith("sk-"),
+    "Must start with 'sk-'"
+  ),
   fal_ai: z.string().min(1, "fal.ai API key is required").refine(
-    (val) => val.includes(":") || val.startsWith("key_"),
+    (val) => isMaskedSecret(val) || val.includes(":") || val.startsWith("key_"),
     "Must be in format 'key_id:key_secret' or start with 'key_'"
   ),
 });
@@ -33,16 +41,21 @@ const apiKeySchema = z.object({
 const emailSettingsSchema = z.object({
   sender_name: z.string().min(1, "Sender name is required"),
   sender_email: z.string().email("Must be a valid email address"),
-  resend_api_key: z.string().min(1, "Resend API key is required").regex(/^re_/, "Must start with 're_'"),
+  resend_api_key: z.string().min(1, "Resend API key is required").refine(
+    (val) => isMaskedSecret(val) || val.startsWith("re_"),
+    "Must start with 're_'"
+  ),
   sender_domain: z.string().optional(),
 });
 
 
 type ApiKeyForm = z.infer<typeof apiKeySchema>;
 type EmailSettingsForm = z.infer<typeof emailSettingsSchema>;
+type SecretKeyName = "openai" | "fal_ai" | "resend_api_key";
 
 const SettingsPage = () => {
-  const { user } = useAuth();
+  const { user, impersonation } = useAuth();
+  const { withStepUp } = useStepUp();
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(true);
@@ -72,10 +85,10 @@ const SettingsPage = () => {
 
   // Check email settings status
   const checkEmailStatus = async () => {
-    if (!user?.id) return;
+    if (!user?.id || impersonation) return;
     
     try {
-      const status = await checkEmailSettingsStatus(user.id);
+      const status = await checkEmailSettingsStatus();
       setEmailStatus(status);
     } catch (error) {
       console.error('Error checking email status:', error);
@@ -85,40 +98,33 @@ const SettingsPage = () => {
   // Load existing data on component mount
   useEffect(() => {
     const loadData = async () => {
-      if (!user?.id) return;
+      if (!user?.id || impersonation) return;
       
       try {
-        const { data, error } = await supabase
-          .from('user_api_keys')
-          .select('key_name, key_value')
-          .eq('user_id', user.id);
-
-        if (error) {
-          console.error('Error loading data:', error);
-          toast.error('Failed to load existing data');
-          return;
-        }
+        // Secrets come back masked
+        const data = await listApiKeys();
 
         if (data) {
           const existingApiKeys: Partial<ApiKeyForm> = {};
           const existingEmailSettings: Partial<EmailSettingsForm> = {};
           
-          data.forEach(row => {
+          data.forEach(({ keyName, value }) => {
+            const keyValue = value ?? undefined;
             // API Keys
-            if (row.key_name === 'openai') {
-              existingApiKeys.openai = row.key_value;
-            } else if (row.key_name === 'fal_ai') {
-              existingApiKeys.fal_ai = row.key_value;
+            if (keyName === 'openai') {
+              existingApiKeys.openai = keyValue;
+            } else if (keyName === 'fal_ai') {
+              existingApiKeys.fal_ai = keyValue;
             }
             // Email Settings
-            else if (row.key_name === 'sender_name') {
-              existingEmailSettings.sender_name = row.key_value;
-            } else if (row.key_name === 'sender_email') {
-              existingEmailSettings.sender_email = row.key_value;
-            } else if (row.key_name === 'resend_api_key') {
-              existingEmailSettings.resend_api_key = row.key_value;
-            } else if (row.key_name === 'sender_domain') {
-              existingEmailSettings.sender_domain = row.key_value;
+            else if (keyName === 'sender_name') {
+              existingEmailSettings.sender_name = keyValue;
+            } else if (keyName === 'sender_email') {
+              existingEmailSettings.sender_email = keyValue;
+            } else if (keyName === 'resend_api_key') {
+              existingEmailSettings.resend_api_key = keyValue;
+            } else if (keyName === 'sender_domain') {
+              existingEmailSettings.sender_domain = keyValue;
             }
           });
           
@@ -138,7 +144,7 @@ const SettingsPage = () => {
 
       } catch (error) {
         console.error('Error loading data:', error);
-        toast.error('Failed to load existing data');
+        toastApiError(error, 'Failed to load existing data');
       } finally {
         setIsLoadingData(false);
       }
@@ -146,9 +152,30 @@ const SettingsPage = () => {
 
     loadData();
     checkEmailStatus();
-  }, [user?.id]);
+  }, [user?.id, impersonation]);
+
+  // Showing a stored secret in full needs a recent re-authentication
+  const revealKey = async (keyName: SecretKeyName) => {
+    const value = keyName === "resend_api_key" ? emailForm.getValues(keyName) : apiForm.getValues(keyName);
+    if (!isMaskedSecret(value)) return true;
+
+    try {
+      const revealed = (await withStepUp(() => revealApiKey(keyName))) ?? "";
+      if (keyName === "resend_api_key") {
+        emailForm.setValue(keyName, revealed);
+      } else {
+        apiForm.setValue(keyName, revealed);
+      }
+      return true;
+    } catch (error) {
+      toastApiError(error, 'Failed to show the API key');
+      return false;
+    }
+  };
+
+  const toggleKeyVisibility = async (keyName: SecretKeyName) => {
+    if (!showKeys[keyName] && !(await revealKey(keyName))) return;
 
-  const toggleKeyVisibility = (keyName: string) => {
     setShowKeys(prev => ({
       ...prev,
       [keyName]: !prev[keyName]
@@ -165,6 +192,8 @@ const SettingsPage = () => {
     try {
       // Save each API key to the database
       const promises = Object.entries(data).map(async ([keyName, keyValue]) => {
+        if (isMaskedSecret(keyValue)) return; // Unchanged stored key
+
         const { error } = await supabase
           .from('user_api_keys')
           .upsert(
@@ -188,7 +217,7 @@ const SettingsPage = () => {
       await Promise.all(promises);
       
       toast.success('API keys saved successfully!');
-      console.log('API keys saved to database:', data);
+      console.log('API keys saved to database');
     } catch (error: any) {
       console.error('Error saving API keys:', error);
       toast.error('Failed to save API keys. Please try again.');
@@ -208,6 +237,7 @@ const SettingsPage = () => {
       // Save each email setting to the database
       const promises = Object.entries(data).map(async ([keyName, keyValue]) => {
         if (!keyValue || !keyValue.trim()) return; // Skip empty values
+        if (isMaskedSecret(keyValue)) return; // Unchanged stored key
         
         const { error } = await supabase
           .from('user_api_keys')
@@ -232,7 +262,7 @@ const SettingsPage = () => {
       await Promise.all(promises);
       
       toast.success('Email settings saved successfully!');
-      console.log('Email settings saved to database:', data);
+      console.log('Email settings saved to database');
       
       // Check status after saving
       checkEmailStatus();
@@ -257,14 +287,14 @@ const SettingsPage = () => {
 
     setIsTestingEmail(true);
     try {
-      const result = await testEmailSettings(user.id, testEmail);
+      const result = await testEmailSettings(testEmail);
       
       if (result.success) {
         toast.success(`Test email sent successfully to ${testEmail}! Check your inbox.`);
         setTestEmail(''); // Clear the field after successful test
         checkEmailStatus(); // Refresh status
       } else {
-        toast.error(result.error || 'Failed to send test email');
+        toastApiError(result, 'Failed to send test email');
       }
     } catch (error: any) {
       console.error('Error sending test email:', error);
@@ -275,6 +305,25 @@ const SettingsPage = () => {
   };
 
 
+  // API keys and email settings are read and saved with the browser's own
+  // Supabase session, which stays the admin's while impersonating
+  if (impersonation) {
+    return (
+      <PageLayout
+        title="Settings"
+        description="Manage your API keys and email settings."
+      >
+        <Alert className="max-w-2xl">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Not available while viewing as another user</AlertTitle>
+          <AlertDescription>
+            API keys and email settings of {impersonation.targetEmail} are not shown during impersonation.
+          </AlertDescription>
+        </Alert>
+      </PageLayout>
+    );
+  }
+
   return (
     <PageLayout 
       title="Settings" 
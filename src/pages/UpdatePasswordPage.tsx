@@ -6,7 +6,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
-import { CheckCircle, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { changePassword } from '@/lib/passwords';
+import { ApiRequestError } from '@/lib/api';
+import { getApiErrorMessage } from '@/lib/api-errors';
+import { useAppSettings } from '@/contexts/AppSettingsContext';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { MAX_PASSWORD_LENGTH, checkPasswordRequirements, readPasswordPolicy } from '@/shared/password-policy';
+import { CheckCircle, Eye, EyeOff } from 'lucide-react';
 
 const UpdatePasswordPage = () => {
   const [password, setPassword] = useState('');
@@ -17,8 +23,10 @@ const UpdatePasswordPage = () => {
   const [success, setSuccess] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { settings } = useAppSettings();
+  const passwordPolicy = readPasswordPolicy(settings.password_policy);
 
-  // The form just shows - Supabase handles the auth in the background
+  // AuthCallback has already exchanged the reset link for a recovery session
 
   const handleUpdatePassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,10 +49,11 @@ const UpdatePasswordPage = () => {
       return;
     }
 
-    if (password.length < 6) {
+    const unmet = checkPasswordRequirements(password, passwordPolicy).filter((requirement) => !requirement.met);
+    if (unmet.length > 0) {
       toast({
         title: "Error",
-        description: "Password must be at least 6 characters long",
+        description: `Your password needs: ${unmet.map((requirement) => requirement.label.toLowerCase()).join(', ')}`,
         variant: "destructive",
       });
       return;
@@ -53,13 +62,9 @@ const UpdatePasswordPage = () => {
     setLoading(true);
 
     try {
-      const { error } = await supabase.auth.updateUser({
-        password: password
-      });
-
-      if (error) {
-        throw error;
-      }
+      // The API checks the whole policy, including reuse and breaches, before
+      // setting the password
+      await changePassword(password);
 
       setSuccess(true);
       toast({
@@ -72,11 +77,14 @@ const UpdatePasswordPage = () => {
         await supabase.auth.signOut();
         navigate('/sign-in');
       }, 3000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Password update error:', error);
+      const failures = error instanceof ApiRequestError && Array.isArray(error.details?.failures)
+        ? (error.details.failures as string[])
+        : [];
       toast({
-        title: "Error",
-        description: error.message || "Failed to update password. Please try again.",
+        title: getApiErrorMessage(error, "Failed to update password. Please try again."),
+        description: failures.length > 0 ? failures.join('. ') : undefined,
         variant: "destructive",
       });
     } finally {
@@ -120,6 +128,7 @@ const UpdatePasswordPage = () => {
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   required
+                  maxLength={MAX_PASSWORD_LENGTH}
                   disabled={loading}
                 />
                 <button
@@ -130,6 +139,7 @@ const UpdatePasswordPage = () => {
                   {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                 </button>
               </div>
+              <PasswordStrengthMeter password={password} policy={passwordPolicy} />
             </div>
             <div className="space-y-2">
               <Label htmlFor="confirmPassword">Confirm New Password</Label>
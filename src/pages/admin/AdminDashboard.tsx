@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react'
 import { useAdminPermissions } from '@/hooks/useAdminPermissions'
-import { getAllUsers, getAuditLogs, UserRole, AdminAuditLog } from '@/lib/admin'
+import { getUserStats, getAuditLogs, AdminAuditLog, UserStats } from '@/lib/admin'
 import PageLayout from '@/components/PageLayout'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -18,43 +18,49 @@ import {
   Loader2,
   Settings,
   FileText,
-  LayoutDashboard
+  LayoutDashboard,
+  HeartPulse,
+  UserCheck,
+  UserX
 } from 'lucide-react'
-import { Link } from 'react-router-dom'
+import { Link, useSearchParams } from 'react-router-dom'
 import UserManagement from './UserManagement'
 import InviteUser from './InviteUser'
 import AdminSettings from './AdminSettings'
+import SystemStatus from './SystemStatus'
+import SignupApprovals from './SignupApprovals'
 
 const AdminDashboard = () => {
   const permissions = useAdminPermissions()
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<UserStats>({
     totalUsers: 0,
     activeUsers: 0,
     pendingInvitations: 0,
+    pendingApprovals: 0,
     adminUsers: 0
   })
   const [recentActivity, setRecentActivity] = useState<AdminAuditLog[]>([])
   const [allAuditLogs, setAllAuditLogs] = useState<AdminAuditLog[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const activeTab = searchParams.get('tab') || 'overview'
+
+  // The selected tab is kept in the URL; switching tabs drops the previous tab's filters
+  const handleTabChange = (tab: string) => {
+    setSearchParams(tab === 'overview' ? {} : { tab })
+  }
 
   useEffect(() => {
     const loadDashboardData = async () => {
       try {
-        const [usersData, auditLogs, fullAuditLogs] = await Promise.all([
-          getAllUsers(),
+        // Counts are computed in SQL rather than from the full user list
+        const [userStats, auditLogs, fullAuditLogs] = await Promise.all([
+          getUserStats(),
           getAuditLogs(10), // Get last 10 activities for recent
           getAuditLogs(100) // Get more for audit logs tab
         ])
 
-        // Calculate stats
-        const stats = {
-          totalUsers: usersData.total,
-          activeUsers: usersData.users.filter(u => u.status === 'active').length,
-          pendingInvitations: usersData.users.filter(u => u.status === 'invited').length,
-          adminUsers: usersData.users.filter(u => u.role === 'admin' && u.status === 'active').length
-        }
-
-        setStats(stats)
+        setStats(userStats)
         setRecentActivity(auditLogs)
         setAllAuditLogs(fullAuditLogs)
       } catch (error) {
@@ -67,6 +73,10 @@ const AdminDashboard = () => {
     loadDashboardData()
   }, [])
 
+  const refreshStats = async () => {
+    setStats(await getUserStats())
+  }
+
   const formatRelativeTime = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -88,7 +98,14 @@ const AdminDashboard = () => {
       case 'user_updated':
         return <Users className="h-4 w-4" />
       case 'impersonation_start':
+      case 'impersonation_stop':
+      case 'impersonation_action':
         return <Eye className="h-4 w-4" />
+      case 'signup_approved':
+        return <UserCheck className="h-4 w-4" />
+      case 'signup_rejected':
+      case 'account_self_deleted':
+        return <UserX className="h-4 w-4" />
       default:
         return <Activity className="h-4 w-4" />
     }
@@ -100,9 +117,15 @@ const AdminDashboard = () => {
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400'
       case 'user_updated':
         return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400'
+      case 'signup_approved':
+        return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400'
       case 'user_deleted':
+      case 'signup_rejected':
+      case 'account_self_deleted':
         return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
       case 'impersonation_start':
+      case 'impersonation_stop':
+      case 'impersonation_action':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400'
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400'
@@ -126,7 +149,7 @@ const AdminDashboard = () => {
       description="System administration and user management"
     >
       <div className="max-w-7xl">
-        <Tabs defaultValue="overview" orientation="vertical" className="flex gap-8">
+        <Tabs value={activeTab} onValueChange={handleTabChange} orientation="vertical" className="flex gap-8">
           {/* Secondary Navigation Column */}
           <div className="w-64 shrink-0">
             <TabsList className="flex-col h-auto w-full justify-start bg-transparent p-0 space-y-1">
@@ -151,6 +174,16 @@ const AdminDashboard = () => {
                 <UserPlus className="h-4 w-4 mr-2" />
                 Invitations
               </TabsTrigger>
+              <TabsTrigger 
+                value="approvals" 
+                className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:text-foreground rounded-md px-4 py-3"
+              >
+                <UserCheck className="h-4 w-4 mr-2" />
+                Approvals
+                {stats.pendingApprovals > 0 && (
+                  <Badge variant="secondary" className="ml-auto">{stats.pendingApprovals}</Badge>
+                )}
+              </TabsTrigger>
               <TabsTrigger 
                 value="settings" 
                 className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:text-foreground rounded-md px-4 py-3"
@@ -165,6 +198,13 @@ const AdminDashboard = () => {
                 <FileText className="h-4 w-4 mr-2" />
                 Audit Logs
               </TabsTrigger>
+              <TabsTrigger 
+                value="status" 
+                className="w-full justify-start data-[state=active]:bg-muted data-[state=active]:text-foreground rounded-md px-4 py-3"
+              >
+                <HeartPulse className="h-4 w-4 mr-2" />
+                System Status
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -300,6 +340,11 @@ const AdminDashboard = () => {
               <InviteUser />
             </TabsContent>
 
+            {/* Approvals Tab */}
+            <TabsContent value="approvals">
+              <SignupApprovals onDecided={refreshStats} />
+            </TabsContent>
+
             {/* Settings Tab */}
             <TabsContent value="settings">
               <AdminSettings />
@@ -364,6 +409,11 @@ const AdminDashboard = () => {
               </Card>
             </TabsContent>
 
+            {/* System Status Tab */}
+            <TabsContent value="status">
+              <SystemStatus />
+            </TabsContent>
+
           </div>
         </Tabs>
       </div>
@@ -5,6 +5,9 @@ import * as z from "zod";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import {
   Form,
   FormControl,
@@ -14,11 +17,58 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Save, Loader2, Settings } from "lucide-react";
+import { Save, Loader2, Settings, Globe, ShieldCheck, UserPlus, KeyRound, Lock, Bot } from "lucide-react";
 import { getAppSettings, updateAppSettings } from "@/lib/app-settings";
+import { toastApiError } from "@/lib/api-errors";
 import { useAppSettings } from "@/contexts/AppSettingsContext";
+import { useStepUp } from "@/hooks/useStepUp";
 import { toast } from "sonner";
+import { CORS_ALLOWED_ORIGINS_SETTING, parseOriginList } from "@/shared/cors";
+import { MFA_REQUIRED_FOR_ADMINS_SETTING } from "@/shared/mfa";
+import { PASSWORDLESS_ENABLED_SETTING } from "@/shared/passwordless";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  MAX_PASSWORD_HISTORY,
+  MAX_PASSWORD_LENGTH,
+  PASSWORD_POLICY_SETTING,
+  passwordPolicySchema,
+  readPasswordPolicy,
+  type PasswordPolicy,
+} from "@/shared/password-policy";
+import {
+  DEFAULT_LOGIN_LOCKOUT_POLICY,
+  LOGIN_LOCKOUT_SETTING,
+  loginLockoutPolicySchema,
+  readLoginLockoutPolicy,
+  type LoginLockoutPolicy,
+} from "@/shared/login-events";
+import {
+  DEFAULT_SIGNUP_POLICY,
+  SIGNUP_ALLOWED_DOMAINS_SETTING,
+  SIGNUP_POLICY_LABELS,
+  SIGNUP_POLICY_SETTING,
+  parseDomainList,
+  readSignupPolicy,
+  signupPolicySchema,
+} from "@/shared/signup-policy";
+import {
+  CAPTCHA_PROVIDER_LABELS,
+  CAPTCHA_PROVIDER_SETTING,
+  CAPTCHA_SECRET_ENV,
+  CAPTCHA_SITE_KEY_SETTING,
+  captchaProviderSchema,
+  needsSiteKey,
+  readCaptchaProvider,
+} from "@/shared/captcha";
+import { getVerifiedTotpFactors } from "@/lib/mfa";
 
 const appSettingsSchema = z.object({
   app_name: z.string().min(1, "App name is required"),
@@ -29,11 +79,87 @@ const appSettingsSchema = z.object({
 
 type AppSettingsForm = z.infer<typeof appSettingsSchema>;
 
+const allowedOriginsSchema = z.object({
+  origins: z.string().superRefine((value, ctx) => {
+    const { invalid } = parseOriginList(value);
+    if (invalid.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Not a valid origin (expected https://host[:port]): ${invalid.join(", ")}`,
+      });
+    }
+  }),
+});
+
+type AllowedOriginsForm = z.infer<typeof allowedOriginsSchema>;
+
+const signupPolicyFormSchema = z.object({
+  policy: signupPolicySchema,
+  domains: z.string(),
+}).superRefine(({ policy, domains }, ctx) => {
+  const { domains: parsed, invalid } = parseDomainList(domains);
+  if (invalid.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["domains"],
+      message: `Not a valid email domain: ${invalid.join(", ")}`,
+    });
+  } else if (policy === "domain_allowlist" && parsed.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["domains"],
+      message: "List at least one email domain",
+    });
+  }
+});
+
+type SignupPolicyForm = z.infer<typeof signupPolicyFormSchema>;
+
+const captchaFormSchema = z.object({
+  provider: captchaProviderSchema,
+  siteKey: z.string().trim(),
+}).superRefine(({ provider, siteKey }, ctx) => {
+  if (needsSiteKey(provider) && !siteKey) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["siteKey"],
+      message: "Enter the site key from the provider",
+    });
+  }
+});
+
+type CaptchaForm = z.infer<typeof captchaFormSchema>;
+
+// Number fields of the lockout policy, in display order
+const LOCKOUT_FIELDS = [
+  { name: "maxFailures", label: "Failed sign-ins before locking", min: 1, max: 100 },
+  { name: "windowMinutes", label: "Counted within (minutes)", min: 1, max: 24 * 60 },
+  { name: "lockoutMinutes", label: "Lockout length (minutes)", min: 1, max: 24 * 60 },
+] as const;
+
+// Character class switches of the password policy, in display order
+const PASSWORD_CLASS_FIELDS = [
+  { name: "requireLowercase", label: "Require a lowercase letter" },
+  { name: "requireUppercase", label: "Require an uppercase letter" },
+  { name: "requireNumber", label: "Require a number" },
+  { name: "requireSymbol", label: "Require a symbol" },
+] as const;
+
 const AdminSettings = () => {
   const { user } = useAuth();
   const { refreshSettings } = useAppSettings();
+  const { withStepUp } = useStepUp();
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(true);
+  const [isSavingOrigins, setIsSavingOrigins] = useState(false);
+  const [isSavingSignup, setIsSavingSignup] = useState(false);
+  const [isSavingCaptcha, setIsSavingCaptcha] = useState(false);
+  const [isSavingPasswordPolicy, setIsSavingPasswordPolicy] = useState(false);
+  const [isSavingLockout, setIsSavingLockout] = useState(false);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const [isSavingMfa, setIsSavingMfa] = useState(false);
+  const [passwordlessEnabled, setPasswordlessEnabled] = useState(false);
+  const [isSavingPasswordless, setIsSavingPasswordless] = useState(false);
   
   const form = useForm<AppSettingsForm>({
     resolver: zodResolver(appSettingsSchema),
@@ -45,29 +171,73 @@ const AdminSettings = () => {
     },
   });
 
+  const originsForm = useForm<AllowedOriginsForm>({
+    resolver: zodResolver(allowedOriginsSchema),
+    defaultValues: { origins: "" },
+  });
+
+  const signupForm = useForm<SignupPolicyForm>({
+    resolver: zodResolver(signupPolicyFormSchema),
+    defaultValues: { policy: DEFAULT_SIGNUP_POLICY, domains: "" },
+  });
+
+  const captchaForm = useForm<CaptchaForm>({
+    resolver: zodResolver(captchaFormSchema),
+    defaultValues: { provider: "none", siteKey: "" },
+  });
+
+  const passwordPolicyForm = useForm<PasswordPolicy>({
+    resolver: zodResolver(passwordPolicySchema),
+    defaultValues: DEFAULT_PASSWORD_POLICY,
+  });
+
+  const lockoutForm = useForm<LoginLockoutPolicy>({
+    resolver: zodResolver(loginLockoutPolicySchema),
+    defaultValues: DEFAULT_LOGIN_LOCKOUT_POLICY,
+  });
+
   // Load existing data on component mount
   useEffect(() => {
     const loadData = async () => {
       if (!user?.id) return;
       
       try {
-        const appSettings = await getAppSettings(user.id);
+        const appSettings = await getAppSettings();
         form.reset({
           app_name: appSettings.app_name?.value || '',
           app_logo_url: appSettings.app_logo_url?.value || '',
           app_favicon_url: appSettings.app_favicon_url?.value || '',
           app_description: appSettings.app_description?.value || '',
         });
+        originsForm.reset({
+          origins: appSettings[CORS_ALLOWED_ORIGINS_SETTING]?.value || '',
+        });
+        signupForm.reset({
+          policy: readSignupPolicy(appSettings[SIGNUP_POLICY_SETTING]?.value),
+          domains: appSettings[SIGNUP_ALLOWED_DOMAINS_SETTING]?.value || '',
+        });
+        captchaForm.reset({
+          provider: readCaptchaProvider(appSettings[CAPTCHA_PROVIDER_SETTING]?.value),
+          siteKey: appSettings[CAPTCHA_SITE_KEY_SETTING]?.value || '',
+        });
+        passwordPolicyForm.reset(readPasswordPolicy(appSettings[PASSWORD_POLICY_SETTING]?.value));
+        lockoutForm.reset(readLoginLockoutPolicy(appSettings[LOGIN_LOCKOUT_SETTING]?.value));
+        setMfaRequired(appSettings[MFA_REQUIRED_FOR_ADMINS_SETTING]?.value === 'true');
+        setPasswordlessEnabled(appSettings[PASSWORDLESS_ENABLED_SETTING]?.value === 'true');
       } catch (error) {
         console.error('Error loading app settings:', error);
-        toast.error('Failed to load app settings');
+        toastApiError(error, 'Failed to load app settings');
       } finally {
         setIsLoadingData(false);
       }
     };
 
     loadData();
-  }, [user?.id, form]);
+  }, [user?.id, form, originsForm, signupForm, captchaForm, passwordPolicyForm, lockoutForm]);
+
+  // Changing settings needs a recent re-authentication
+  const saveSettings = (settings: Record<string, string>) =>
+    withStepUp(() => updateAppSettings(settings));
 
   const onSubmit = async (data: AppSettingsForm) => {
     if (!user?.id) {
@@ -77,7 +247,7 @@ const AdminSettings = () => {
 
     setIsLoading(true);
     try {
-      await updateAppSettings(user.id, {
+      await saveSettings({
         app_name: data.app_name,
         app_logo_url: data.app_logo_url || '',
         app_favicon_url: data.app_favicon_url || '', 
@@ -88,16 +258,139 @@ const AdminSettings = () => {
       await refreshSettings();
       
       toast.success('App settings saved successfully!');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving app settings:', error);
-      toast.error('Failed to save app settings. Please try again.');
+      toastApiError(error, 'Failed to save app settings. Please try again.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const onSaveOrigins = async (data: AllowedOriginsForm) => {
+    setIsSavingOrigins(true);
+    try {
+      const { origins } = parseOriginList(data.origins);
+      await saveSettings({ [CORS_ALLOWED_ORIGINS_SETTING]: origins.join("\n") });
+      originsForm.reset({ origins: origins.join("\n") });
+      toast.success('Allowed origins saved. Changes apply within a minute.');
+    } catch (error) {
+      console.error('Error saving allowed origins:', error);
+      toastApiError(error, 'Failed to save allowed origins. Please try again.');
+    } finally {
+      setIsSavingOrigins(false);
+    }
+  };
+
+  const onSaveSignupPolicy = async (data: SignupPolicyForm) => {
+    setIsSavingSignup(true);
+    try {
+      const domains = parseDomainList(data.domains).domains.join("\n");
+      await saveSettings({
+        [SIGNUP_POLICY_SETTING]: data.policy,
+        [SIGNUP_ALLOWED_DOMAINS_SETTING]: domains,
+      });
+      signupForm.reset({ policy: data.policy, domains });
+      await refreshSettings();
+      toast.success('Sign-up policy saved');
+    } catch (error) {
+      console.error('Error saving sign-up policy:', error);
+      toastApiError(error, 'Failed to save the sign-up policy. Please try again.');
+    } finally {
+      setIsSavingSignup(false);
+    }
+  };
+
+  const onSaveCaptcha = async (data: CaptchaForm) => {
+    setIsSavingCaptcha(true);
+    try {
+      const siteKey = needsSiteKey(data.provider) ? data.siteKey : "";
+      await saveSettings({
+        [CAPTCHA_PROVIDER_SETTING]: data.provider,
+        [CAPTCHA_SITE_KEY_SETTING]: siteKey,
+      });
+      captchaForm.reset({ provider: data.provider, siteKey });
+      await refreshSettings();
+      toast.success('CAPTCHA settings saved. Changes apply within a minute.');
+    } catch (error) {
+      console.error('Error saving CAPTCHA settings:', error);
+      toastApiError(error, 'Failed to save the CAPTCHA settings. Please try again.');
+    } finally {
+      setIsSavingCaptcha(false);
+    }
+  };
+
+  const onSavePasswordPolicy = async (data: PasswordPolicy) => {
+    setIsSavingPasswordPolicy(true);
+    try {
+      await saveSettings({ [PASSWORD_POLICY_SETTING]: JSON.stringify(data) });
+      passwordPolicyForm.reset(data);
+      await refreshSettings();
+      toast.success('Password policy saved. It applies to new and changed passwords.');
+    } catch (error) {
+      console.error('Error saving password policy:', error);
+      toastApiError(error, 'Failed to save the password policy. Please try again.');
+    } finally {
+      setIsSavingPasswordPolicy(false);
+    }
+  };
+
+  const onSaveLockout = async (data: LoginLockoutPolicy) => {
+    setIsSavingLockout(true);
+    try {
+      await saveSettings({ [LOGIN_LOCKOUT_SETTING]: JSON.stringify(data) });
+      lockoutForm.reset(data);
+      toast.success('Sign-in lockout saved');
+    } catch (error) {
+      console.error('Error saving lockout policy:', error);
+      toastApiError(error, 'Failed to save the lockout policy. Please try again.');
+    } finally {
+      setIsSavingLockout(false);
+    }
+  };
+
+  const onToggleMfaRequired = async (checked: boolean) => {
+    // The API refuses this too; checking here gives a clearer message
+    if (checked && getVerifiedTotpFactors(user).length === 0) {
+      toast.error('Set up two-factor authentication on your profile first', {
+        description: 'Otherwise you would lose access to the admin area.',
+      });
+      return;
+    }
+
+    setIsSavingMfa(true);
+    try {
+      await saveSettings({ [MFA_REQUIRED_FOR_ADMINS_SETTING]: String(checked) });
+      setMfaRequired(checked);
+      await refreshSettings();
+      toast.success(checked ? 'Two-factor authentication is now required for admins' : 'Two-factor authentication is now optional for admins');
+    } catch (error) {
+      console.error('Error saving MFA policy:', error);
+      toastApiError(error, 'Failed to save the two-factor policy. Please try again.');
+    } finally {
+      setIsSavingMfa(false);
+    }
+  };
+
+  const onTogglePasswordless = async (checked: boolean) => {
+    setIsSavingPasswordless(true);
+    try {
+      await saveSettings({ [PASSWORDLESS_ENABLED_SETTING]: String(checked) });
+      setPasswordlessEnabled(checked);
+      await refreshSettings();
+      toast.success(checked ? 'Passwordless sign-in is on' : 'Passwordless sign-in is off');
+    } catch (error) {
+      console.error('Error saving passwordless setting:', error);
+      toastApiError(error, 'Failed to save the passwordless setting. Please try again.');
+    } finally {
+      setIsSavingPasswordless(false);
+    }
+  };
+
+  const captchaProvider = captchaForm.watch("provider");
+  const captchaSecretEnv = CAPTCHA_SECRET_ENV[captchaProvider];
+
   return (
-    <div className="max-w-4xl">
+    <div className="max-w-4xl space-y-6">
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -212,6 +505,446 @@ const AdminSettings = () => {
             )}
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Security
+            </CardTitle>
+            <CardDescription>
+              How people sign in, and what administrators must use.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="mfa-required">Require two-factor authentication for admins</Label>
+                <p className="text-sm text-muted-foreground">
+                  Admins must verify a code from their authenticator app before using the admin area or admin APIs. Admins without one are asked to set it up on their profile.
+                </p>
+              </div>
+              <Switch
+                id="mfa-required"
+                checked={mfaRequired}
+                onCheckedChange={onToggleMfaRequired}
+                disabled={isLoadingData || isSavingMfa}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="passwordless-enabled">Allow passwordless sign-in</Label>
+                <p className="text-sm text-muted-foreground">
+                  Offer "Sign in with an email link or code" on the sign-in page. Only existing accounts can sign in this way. While it is off, Supabase Auth refuses email link and code sign-ins as well.
+                </p>
+              </div>
+              <Switch
+                id="passwordless-enabled"
+                checked={passwordlessEnabled}
+                onCheckedChange={onTogglePasswordless}
+                disabled={isLoadingData || isSavingPasswordless}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              CAPTCHA
+            </CardTitle>
+            <CardDescription>
+              Ask people to solve a CAPTCHA before signing up, signing in with a password or an email link, or requesting a password reset email. The API refuses those requests without a valid token.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingData ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Loading settings...</span>
+              </div>
+            ) : (
+              <Form {...captchaForm}>
+                <form onSubmit={captchaForm.handleSubmit(onSaveCaptcha)} className="space-y-6">
+                  <FormField
+                    control={captchaForm.control}
+                    name="provider"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Provider</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {captchaProviderSchema.options.map((provider) => (
+                              <SelectItem key={provider} value={provider}>
+                                {CAPTCHA_PROVIDER_LABELS[provider]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {captchaSecretEnv
+                            ? `The secret key is read from the ${captchaSecretEnv} environment variable on the server, which must be set first. Turn on CAPTCHA protection in Supabase (Authentication → Attack Protection) too, so email link sign-ins are covered.`
+                            : captchaProvider === "test"
+                              ? "A checkbox anyone can tick, for local development and automated tests. It cannot be chosen in production."
+                              : "The forms work without a CAPTCHA. Passkey sign-ins never ask for one."}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {needsSiteKey(captchaProvider) && (
+                    <FormField
+                      control={captchaForm.control}
+                      name="siteKey"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Site key</FormLabel>
+                          <FormControl>
+                            <Input className="font-mono text-sm" autoComplete="off" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            The public key of the widget, from the provider's dashboard. Add this site's domain to the widget there too.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <Button type="submit" disabled={isSavingCaptcha} className="w-full">
+                    {isSavingCaptcha ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    {isSavingCaptcha ? "Saving..." : "Save CAPTCHA Settings"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-5 w-5" />
+              Sign-ups
+            </CardTitle>
+            <CardDescription>
+              Who can create an account by signing up, including with a social login. Invited users can always join, and the database enforces this policy for every sign-up.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingData ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Loading settings...</span>
+              </div>
+            ) : (
+              <Form {...signupForm}>
+                <form onSubmit={signupForm.handleSubmit(onSaveSignupPolicy)} className="space-y-6">
+                  <FormField
+                    control={signupForm.control}
+                    name="policy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Sign-up policy</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {signupPolicySchema.options.map((policy) => (
+                              <SelectItem key={policy} value={policy}>
+                                {SIGNUP_POLICY_LABELS[policy]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          With approval, new accounts can sign in but see a waiting screen until an admin approves them on the Approvals tab of the admin dashboard.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {signupForm.watch("policy") === "domain_allowlist" && (
+                    <FormField
+                      control={signupForm.control}
+                      name="domains"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Allowed email domains</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              rows={4}
+                              placeholder={"example.com\nexample.org"}
+                              className="font-mono text-sm"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            One domain per line. Only the exact domain matches: list subdomains separately.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <Button type="submit" disabled={isSavingSignup} className="w-full">
+                    {isSavingSignup ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    {isSavingSignup ? "Saving..." : "Save Sign-up Policy"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Passwords
+            </CardTitle>
+            <CardDescription>
+              Rules for new passwords, checked when people sign up or change their password in the app. Supabase Auth does not know these rules, so also set its own password requirements. Existing passwords keep working.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingData ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Loading settings...</span>
+              </div>
+            ) : (
+              <Form {...passwordPolicyForm}>
+                <form onSubmit={passwordPolicyForm.handleSubmit(onSavePasswordPolicy)} className="space-y-6">
+                  <div className="grid gap-6 sm:grid-cols-2">
+                    <FormField
+                      control={passwordPolicyForm.control}
+                      name="minLength"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Minimum length</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={6}
+                              max={MAX_PASSWORD_LENGTH}
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Keep Supabase Auth's minimum password length (Authentication → Providers → Email) at or below this.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={passwordPolicyForm.control}
+                      name="historySize"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Previous passwords that cannot be reused</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={MAX_PASSWORD_HISTORY}
+                              {...field}
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            0 allows reuse. Counts passwords set in the app from now on.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {PASSWORD_CLASS_FIELDS.map(({ name, label }) => (
+                    <FormField
+                      key={name}
+                      control={passwordPolicyForm.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                          <FormLabel>{label}</FormLabel>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+
+                  <FormField
+                    control={passwordPolicyForm.control}
+                    name="breachCheck"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                        <div className="space-y-1">
+                          <FormLabel>Refuse breached passwords</FormLabel>
+                          <FormDescription>
+                            Checks Have I Been Pwned without sending the password (only the first 5 characters of its SHA-1 hash leave the server). Offline servers can use a local hash list instead; see the README.
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" disabled={isSavingPasswordPolicy} className="w-full">
+                    {isSavingPasswordPolicy ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    {isSavingPasswordPolicy ? "Saving..." : "Save Password Policy"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Sign-in Lockout
+            </CardTitle>
+            <CardDescription>
+              Temporarily lock an account after repeated failed password sign-ins. Attempts made while locked are refused and do not extend the lockout.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingData ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Loading settings...</span>
+              </div>
+            ) : (
+              <Form {...lockoutForm}>
+                <form onSubmit={lockoutForm.handleSubmit(onSaveLockout)} className="space-y-6">
+                  <div className="grid gap-6 sm:grid-cols-3">
+                    {LOCKOUT_FIELDS.map(({ name, label, min, max }) => (
+                      <FormField
+                        key={name}
+                        control={lockoutForm.control}
+                        name={name}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{label}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={min}
+                                max={max}
+                                {...field}
+                                onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+
+                  <Button type="submit" disabled={isSavingLockout} className="w-full">
+                    {isSavingLockout ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    {isSavingLockout ? "Saving..." : "Save Lockout Policy"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Allowed Origins
+            </CardTitle>
+            <CardDescription>
+              Other sites allowed to call this application's API from a browser. The app's own address, VITE_APP_URL and the origins in the CORS_ALLOWED_ORIGINS environment variable are always allowed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingData ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin" />
+                <span className="ml-2">Loading settings...</span>
+              </div>
+            ) : (
+              <Form {...originsForm}>
+                <form onSubmit={originsForm.handleSubmit(onSaveOrigins)} className="space-y-6">
+                  <FormField
+                    control={originsForm.control}
+                    name="origins"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Origins</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            rows={5}
+                            placeholder={"https://admin.example.com\nhttps://staging.example.com"}
+                            className="font-mono text-sm"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          One origin per line: scheme, host and optional port, without a path (e.g. https://admin.example.com). Requests from any other site are rejected.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button type="submit" disabled={isSavingOrigins} className="w-full">
+                    {isSavingOrigins ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    {isSavingOrigins ? "Saving..." : "Save Allowed Origins"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
     </div>
   );
 };
@@ -1,8 +1,9 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import * as z from 'zod'
 import { useAuth } from '@/contexts/AuthContext'
+import { useStepUp } from '@/hooks/useStepUp'
 import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -26,6 +27,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Checkbox } from '@/components/ui/checkbox'
 import { UserPlus, Send, ArrowLeft, Loader2 } from 'lucide-react'
 import { createUserInvitation } from '@/lib/admin'
+import { toastApiError } from '@/lib/api-errors'
+import { createIdempotencyKey } from '@/lib/api'
 import { toast } from 'sonner'
 
 const inviteUserSchema = z.object({
@@ -42,8 +45,13 @@ type InviteUserForm = z.infer<typeof inviteUserSchema>
 
 const InviteUser = () => {
   const { user } = useAuth()
+  // Inviting an admin needs a recent re-authentication
+  const { withStepUp } = useStepUp()
   const navigate = useNavigate()
   const [isLoading, setIsLoading] = useState(false)
+  // One Idempotency-Key per distinct invitation: a double-click or a retry
+  // after a failure reuses it, so the invitation is created and emailed once
+  const submission = useRef<{ payload: string; key: string; inFlight: boolean } | null>(null)
 
   const form = useForm<InviteUserForm>({
     resolver: zodResolver(inviteUserSchema),
@@ -62,16 +70,30 @@ const InviteUser = () => {
       return
     }
 
+    const invitation = {
+      email: data.email,
+      role: data.role,
+      notes: `${data.firstName} ${data.lastName}`
+    }
+    const payload = JSON.stringify(invitation)
+
+    if (submission.current?.payload === payload && submission.current.inFlight) {
+      return
+    }
+    if (submission.current?.payload !== payload) {
+      submission.current = { payload, key: createIdempotencyKey(), inFlight: false }
+    }
+    const current = submission.current
+    current.inFlight = true
+
     setIsLoading(true)
     try {
       // Create invitation in Supabase
-      const result = await createUserInvitation(user.id, {
-        email: data.email,
-        role: data.role,
-        notes: `${data.firstName} ${data.lastName}`
-      })
+      const result = await withStepUp(() => createUserInvitation(invitation, { idempotencyKey: current.key }))
       
       if (result.success) {
+        submission.current = null
+
         if (data.sendInvitation) {
           toast.success(`Invitation sent to ${data.email}!`)
         } else {
@@ -81,12 +103,13 @@ const InviteUser = () => {
         // Reset form
         form.reset()
       } else {
-        toast.error(result.error || 'Failed to create invitation')
+        toastApiError(result, 'Failed to create invitation')
       }
-    } catch (error: any) {
-      toast.error('An unexpected error occurred')
+    } catch (error) {
+      toastApiError(error, 'An unexpected error occurred')
       console.error('Error creating user:', error)
     } finally {
+      current.inFlight = false
       setIsLoading(false)
     }
   }
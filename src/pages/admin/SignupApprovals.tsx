@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Check, Loader2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { decideSignup, listUsers, type AdminUser, type SignupDecision } from '@/lib/admin'
+import { toastApiError } from '@/lib/api-errors'
+import { useAppSettings } from '@/contexts/AppSettingsContext'
+import { readSignupPolicy } from '@/shared/signup-policy'
+
+interface SignupApprovalsProps {
+  // Called after each approval or rejection, so the dashboard can update its count
+  onDecided?: () => void
+}
+
+/**
+ * Approval queue for the approval sign-up policy: accounts that signed up
+ * and wait for an admin, oldest first.
+ */
+const SignupApprovals = ({ onDecided }: SignupApprovalsProps) => {
+  const { settings } = useAppSettings()
+  const [pending, setPending] = useState<AdminUser[] | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<AdminUser | null>(null)
+
+  const loadPending = useCallback(async () => {
+    try {
+      const result = await listUsers({ status: 'pending', sort: 'created_at', pageSize: 100 })
+      setPending(result.users)
+    } catch (error) {
+      toastApiError(error, 'Failed to load sign-ups waiting for approval')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadPending()
+  }, [loadPending])
+
+  const decide = async (user: AdminUser, decision: SignupDecision) => {
+    setBusyId(user.id)
+    const result = await decideSignup(user.id, decision)
+    setBusyId(null)
+    setRejecting(null)
+
+    if (result.success) {
+      toast.success(decision === 'approve' ? `Approved ${user.email}` : `Rejected ${user.email}`)
+      onDecided?.()
+    } else {
+      toast.error(result.error)
+    }
+    loadPending()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-up Approvals</CardTitle>
+        <CardDescription>
+          People who signed up and are waiting for access. Approving lets them in straight away; rejecting deletes the account.
+          {readSignupPolicy(settings.signup_policy) !== 'approval' &&
+            ' New sign-ups are not queued here at the moment: the sign-up policy does not require approval.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!pending ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading sign-ups...
+          </div>
+        ) : pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sign-ups are waiting for approval.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {pending.map((user) => (
+              <li key={user.id} className="flex items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium">{user.email}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Signed up {formatDistanceToNow(new Date(user.created_at), { addSuffix: true })}
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => decide(user, 'approve')} disabled={busyId !== null}>
+                  {busyId === user.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                  Approve
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setRejecting(user)} disabled={busyId !== null}>
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reject {rejecting?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The account is deleted. They can sign up again while the sign-up policy allows it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => rejecting && decide(rejecting, 'reject')}
+            >
+              Reject
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
+
+export default SignupApprovals
@@ -0,0 +1,127 @@
+import { useCallback, useEffect, useState } from 'react'
+import { getSystemStatus, type HealthDetailsResponse, type HealthStatus } from '@/lib/health'
+import { ApiRequestError } from '@/lib/api'
+import { getApiErrorMessage, toastApiError } from '@/lib/api-errors'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, CheckCircle, Loader2, RefreshCw, XCircle } from 'lucide-react'
+
+const STATUS_LABELS: Record<HealthStatus, string> = {
+  pass: 'Healthy',
+  warn: 'Needs attention',
+  fail: 'Failing'
+}
+
+const STATUS_BADGE_CLASSES: Record<HealthStatus, string> = {
+  pass: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  warn: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
+  fail: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400'
+}
+
+const StatusIcon = ({ status }: { status: HealthStatus }) => {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle className="h-5 w-5 text-green-600" />
+    case 'warn':
+      return <AlertTriangle className="h-5 w-5 text-yellow-600" />
+    default:
+      return <XCircle className="h-5 w-5 text-red-600" />
+  }
+}
+
+const SystemStatus = () => {
+  const [report, setReport] = useState<HealthDetailsResponse | null>(null)
+  const [loadError, setLoadError] = useState<ApiRequestError | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadStatus = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setReport(await getSystemStatus())
+      setLoadError(null)
+    } catch (error) {
+      console.error('Error loading system status:', error)
+      setLoadError(error instanceof ApiRequestError ? error : null)
+      toastApiError(error, 'Failed to load system status')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadStatus()
+  }, [loadStatus])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            System Status
+            {report && (
+              <Badge variant="outline" className={STATUS_BADGE_CLASSES[report.status]}>
+                {STATUS_LABELS[report.status]}
+              </Badge>
+            )}
+          </CardTitle>
+          <CardDescription>
+            Configuration and connectivity checks for this deployment
+            {report && ` · Checked ${new Date(report.checkedAt).toLocaleString()}`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={loadStatus} disabled={isLoading}>
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Run checks
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* The details endpoint itself needs the service role key */}
+        {loadError && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{getApiErrorMessage(loadError)}</AlertTitle>
+            <AlertDescription>
+              {loadError.code === 'SERVER_MISCONFIGURED'
+                ? 'Set SUPABASE_SERVICE_ROLE_KEY in .env.local (or the Vercel project settings) to the service_role key from Supabase Settings → API, then restart or redeploy.'
+                : loadError.message}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!report && isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Running checks...</span>
+          </div>
+        )}
+
+        {report?.checks.map((check) => (
+          <div key={check.id} className="flex gap-3 pb-4 border-b last:border-0 last:pb-0">
+            <StatusIcon status={check.status} />
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">{check.label}</p>
+                <span className="text-xs text-muted-foreground">{check.durationMs}ms</span>
+              </div>
+              <p className="text-sm text-muted-foreground">{check.message}</p>
+              {check.status !== 'pass' && check.remediation && (
+                <p className="text-sm rounded-md bg-muted px-3 py-2">
+                  <span className="font-medium">How to fix: </span>
+                  {check.remediation}
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default SystemStatus
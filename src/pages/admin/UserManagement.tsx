@@ -1,8 +1,12 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
-import { Link } from 'react-router-dom'
+import { useStepUp } from '@/hooks/useStepUp'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Table,
   TableBody,
@@ -33,7 +37,13 @@ import {
   Clock,
   AlertTriangle,
   Loader2,
-  ArrowLeft
+  ArrowLeft,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  LogOut,
+  Eye,
+  History
 } from 'lucide-react'
 import {
   DropdownMenu,
@@ -54,127 +64,312 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
-import { getAllUsers, UserRole, UserMetadata, updateUserRole, deleteUser, cancelInvitation } from '@/lib/admin'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination'
+import { listUsers, AdminUser, updateUser, deleteUser, cancelInvitation, forceSignOut, getUserLoginHistory } from '@/lib/admin'
+import { LoginEventList } from '@/components/auth/LoginHistory'
+import type { LoginHistory } from '@/shared/login-events'
+import { listUsersQuerySchema, USERS_PAGE_SIZE_OPTIONS, type UserSort } from '@/shared/admin-users'
+import { IMPERSONATION_DURATIONS } from '@/shared/impersonation'
+import { toastApiError } from '@/lib/api-errors'
 import { toast } from 'sonner'
 
-type UserWithMetadata = UserRole & { metadata?: UserMetadata }
+type UserWithMetadata = AdminUser
+
+type SortField = 'email' | 'role' | 'status' | 'created_at'
+
+// Read the list query from the URL, falling back to defaults for anything invalid
+const parseListQuery = (searchParams: URLSearchParams) => {
+  const raw = Object.fromEntries(searchParams.entries())
+  const parsed = listUsersQuerySchema.safeParse(raw)
+  if (parsed.success) return parsed.data
+
+  const invalid = new Set(parsed.error.issues.map(issue => String(issue.path[0])))
+  const valid = Object.fromEntries(Object.entries(raw).filter(([key]) => !invalid.has(key)))
+  return listUsersQuerySchema.parse(valid)
+}
+
+// Page numbers to show, with null marking a gap
+const getPageItems = (page: number, totalPages: number): (number | null)[] => {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1)
+  }
+
+  const items: (number | null)[] = [1]
+  const start = Math.max(2, page - 1)
+  const end = Math.min(totalPages - 1, page + 1)
+
+  if (start > 2) items.push(null)
+  for (let i = start; i <= end; i++) items.push(i)
+  if (end < totalPages - 1) items.push(null)
+  items.push(totalPages)
+
+  return items
+}
 
 const UserManagement = () => {
-  const { user } = useAuth()
+  const { user, startImpersonation } = useAuth()
+  // Deleting users and making admins need a recent re-authentication
+  const { withStepUp } = useStepUp()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = parseListQuery(searchParams)
+  const { page, pageSize, sort } = query
+  const roleFilter = query.role ?? 'all'
+  const statusFilter = query.status ?? 'all'
+
   const [users, setUsers] = useState<UserWithMetadata[]>([])
-  const [filteredUsers, setFilteredUsers] = useState<UserWithMetadata[]>([])
+  const [total, setTotal] = useState(0)
   const [isLoading, setIsLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [roleFilter, setRoleFilter] = useState<string>('all')
-  const [statusFilter, setStatusFilter] = useState<string>('all')
+  const [isFetching, setIsFetching] = useState(false)
+  const [searchTerm, setSearchTerm] = useState(query.q ?? '')
   
   // Dialog states
   const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; user?: UserWithMetadata }>({ isOpen: false })
   const [cancelInviteDialog, setCancelInviteDialog] = useState<{ isOpen: boolean; user?: UserWithMetadata }>({ isOpen: false })
+  const [signOutDialog, setSignOutDialog] = useState<{ isOpen: boolean; user?: UserWithMetadata }>({ isOpen: false })
+  const [suspendDialog, setSuspendDialog] = useState<{ isOpen: boolean; user?: UserWithMetadata }>({ isOpen: false })
+  const [suspendReason, setSuspendReason] = useState('')
+  // yyyy-mm-dd from the date input; empty suspends until an admin reactivates
+  const [suspendUntil, setSuspendUntil] = useState('')
+  const [impersonateDialog, setImpersonateDialog] = useState<{ isOpen: boolean; user?: UserWithMetadata }>({ isOpen: false })
+  const [loginHistoryDialog, setLoginHistoryDialog] = useState<{ isOpen: boolean; user?: UserWithMetadata; history?: LoginHistory }>({ isOpen: false })
+  const [impersonateDuration, setImpersonateDuration] = useState<(typeof IMPERSONATION_DURATIONS)[number]>(30)
+  const [impersonateAllowChanges, setImpersonateAllowChanges] = useState(false)
+  const [impersonateReason, setImpersonateReason] = useState('')
 
-  useEffect(() => {
-    loadUsers()
-  }, [])
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
 
+  // Filters live in the URL so the current view can be bookmarked and shared.
+  // Any change other than paging goes back to the first page.
+  const updateQuery = useCallback((changes: Record<string, string | number | undefined>, replace = false) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === undefined || value === '' || value === 'all') {
+          next.delete(key)
+        } else {
+          next.set(key, String(value))
+        }
+      })
+      if (!('page' in changes)) {
+        next.delete('page')
+      }
+      return next
+    }, { replace })
+  }, [setSearchParams])
+
+  // Keep the search box in step with back/forward navigation
   useEffect(() => {
-    // Filter users based on search and filters
-    let filtered = users
-
-    if (searchTerm) {
-      filtered = filtered.filter(user => 
-        user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        (user.metadata?.notes && user.metadata.notes.toLowerCase().includes(searchTerm.toLowerCase()))
-      )
-    }
+    setSearchTerm(query.q ?? '')
+  }, [query.q])
 
-    if (roleFilter !== 'all') {
-      filtered = filtered.filter(user => user.role === roleFilter)
-    }
+  // Debounce the search box before it hits the URL (and the API)
+  useEffect(() => {
+    const trimmed = searchTerm.trim()
+    if (trimmed === (query.q ?? '')) return
 
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(user => user.status === statusFilter)
-    }
+    const timeout = setTimeout(() => updateQuery({ q: trimmed }, true), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm, query.q, updateQuery])
 
-    setFilteredUsers(filtered)
-  }, [users, searchTerm, roleFilter, statusFilter])
+  const queryKey = searchParams.toString()
 
-  const loadUsers = async () => {
+  const loadUsers = useCallback(async () => {
     try {
-      setIsLoading(true)
-      const { users: userData } = await getAllUsers()
-      setUsers(userData)
+      setIsFetching(true)
+      const result = await listUsers(parseListQuery(new URLSearchParams(queryKey)))
+
+      // The page can run past the end after deletes or a stale link
+      if (result.users.length === 0 && result.total > 0 && result.page > 1) {
+        const lastPage = Math.ceil(result.total / result.pageSize)
+        updateQuery({ page: lastPage === 1 ? undefined : lastPage }, true)
+        return
+      }
+
+      setUsers(result.users)
+      setTotal(result.total)
     } catch (error) {
       console.error('Error loading users:', error)
-      toast.error('Failed to load users')
+      toastApiError(error, 'Failed to load users')
     } finally {
+      setIsFetching(false)
       setIsLoading(false)
     }
+  }, [queryKey, updateQuery])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const handleSort = (field: SortField) => {
+    // First click sorts ascending (newest first for dates), second click flips
+    const defaultSort = (field === 'created_at' ? `-${field}` : field) as UserSort
+    const nextSort = sort === defaultSort
+      ? (sort.startsWith('-') ? sort.slice(1) : `-${sort}`) as UserSort
+      : defaultSort
+    updateQuery({ sort: nextSort === '-created_at' ? undefined : nextSort })
   }
 
-  const handleRoleChange = async (targetUserId: string, newRole: 'admin' | 'user' | 'moderator') => {
+  const goToPage = (nextPage: number) => {
+    if (nextPage < 1 || nextPage > totalPages || nextPage === page) return
+    updateQuery({ page: nextPage === 1 ? undefined : nextPage })
+  }
+
+  const renderSortIcon = (field: SortField) => {
+    if (sort === field) return <ArrowUp className="h-3 w-3" />
+    if (sort === `-${field}`) return <ArrowDown className="h-3 w-3" />
+    return <ArrowUpDown className="h-3 w-3 opacity-50" />
+  }
+
+  const renderSortableHead = (field: SortField, label: string) => (
+    <TableHead>
+      <button
+        type="button"
+        className="flex items-center gap-1 hover:text-foreground"
+        onClick={() => handleSort(field)}
+      >
+        {label}
+        {renderSortIcon(field)}
+      </button>
+    </TableHead>
+  )
+
+  const handleRoleChange = async (id: string, newRole: 'admin' | 'user' | 'moderator') => {
     if (!user?.id) return
 
     try {
-      const result = await updateUserRole(user.id, targetUserId, { role: newRole })
+      const result = await withStepUp(() => updateUser(id, { role: newRole }))
       
       if (result.success) {
         toast.success(`User role updated to ${newRole}`)
         loadUsers() // Refresh the list
       } else {
-        toast.error(result.error || 'Failed to update role')
+        toastApiError(result, 'Failed to update role')
       }
     } catch (error) {
       toast.error('Failed to update user role')
     }
   }
 
-  const handleStatusChange = async (targetUserId: string, newStatus: 'active' | 'suspended') => {
+  const handleStatusChange = async (id: string, newStatus: 'active' | 'suspended') => {
     if (!user?.id) return
 
     try {
-      const result = await updateUserRole(user.id, targetUserId, { status: newStatus })
+      // Re-activating an admin needs a recent re-authentication
+      const result = await withStepUp(() => updateUser(id, newStatus === 'suspended'
+        ? {
+            status: newStatus,
+            suspended_reason: suspendReason.trim() || undefined,
+            // Starts at midnight local time on the chosen day
+            suspended_until: suspendUntil ? new Date(`${suspendUntil}T00:00`).toISOString() : null
+          }
+        : { status: newStatus }))
       
       if (result.success) {
         toast.success(`User ${newStatus === 'active' ? 'activated' : 'suspended'}`)
+        setSuspendDialog({ isOpen: false }) // Close the dialog
         loadUsers() // Refresh the list
       } else {
-        toast.error(result.error || 'Failed to update status')
+        toastApiError(result, 'Failed to update status')
       }
     } catch (error) {
       toast.error('Failed to update user status')
     }
   }
 
-  const handleDeleteUser = async (targetUserId: string | null, email: string) => {
+  const handleDeleteUser = async (id: string, email: string) => {
     if (!user?.id) return
 
     try {
-      const result = await deleteUser(user.id, targetUserId, email)
+      const result = await withStepUp(() => deleteUser(id))
       
       if (result.success) {
         toast.success(`User ${email} has been permanently deleted`)
         loadUsers() // Refresh the list
         setDeleteDialog({ isOpen: false }) // Close the dialog
       } else {
-        toast.error(result.error || 'Failed to delete user')
+        toastApiError(result, 'Failed to delete user')
       }
     } catch (error) {
       toast.error('Failed to delete user')
     }
   }
 
+  const handleForceSignOut = async (id: string, email: string) => {
+    if (!user?.id) return
+
+    try {
+      const result = await forceSignOut(id)
+
+      if (result.success) {
+        toast.success(`${email} has been signed out of ${result.revoked === 1 ? '1 session' : `${result.revoked} sessions`}`)
+        setSignOutDialog({ isOpen: false }) // Close the dialog
+      } else {
+        toastApiError(result, 'Failed to sign out user')
+      }
+    } catch (error) {
+      toast.error('Failed to sign out user')
+    }
+  }
+
+  const openLoginHistory = async (userData: UserWithMetadata) => {
+    setLoginHistoryDialog({ isOpen: true, user: userData })
+
+    try {
+      const history = await getUserLoginHistory(userData.id)
+      // Ignore the result if the dialog was closed or moved on to someone else
+      setLoginHistoryDialog(current => current.user?.id === userData.id ? { ...current, history } : current)
+    } catch (error) {
+      toastApiError(error, 'Failed to load sign-in history')
+      setLoginHistoryDialog({ isOpen: false })
+    }
+  }
+
+  const handleImpersonate = async (id: string, email: string) => {
+    if (!user?.id) return
+
+    try {
+      await startImpersonation({
+        userId: id,
+        durationMinutes: impersonateDuration,
+        readOnly: !impersonateAllowChanges,
+        reason: impersonateReason.trim() || undefined
+      })
+      toast.success(`Viewing the app as ${email}`)
+      setImpersonateDialog({ isOpen: false })
+      navigate('/dashboard')
+    } catch (error) {
+      toastApiError(error, 'Failed to start impersonation')
+    }
+  }
+
   const handleCancelInvitation = async (invitationId: string, email: string) => {
     if (!user?.id) return
 
     try {
-      const result = await cancelInvitation(user.id, invitationId)
+      const result = await cancelInvitation(invitationId)
       
       if (result.success) {
         toast.success('Invitation cancelled')
         loadUsers() // Refresh the list
         setCancelInviteDialog({ isOpen: false }) // Close the dialog
       } else {
-        toast.error(result.error || 'Failed to cancel invitation')
+        toastApiError(result, 'Failed to cancel invitation')
       }
     } catch (error) {
       toast.error('Failed to cancel invitation')
@@ -205,11 +400,15 @@ const UserManagement = () => {
         icon: <AlertTriangle className="h-3 w-3" />,
         className: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/20'
       },
-      deleted: { 
-        icon: <Trash2 className="h-3 w-3" />,
+      inactive: { 
+        icon: <Clock className="h-3 w-3" />,
         className: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-900/20'
       },
-      canceled: {
+      pending: {
+        icon: <Clock className="h-3 w-3" />,
+        className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/20'
+      },
+      cancelled: {
         icon: <Trash2 className="h-3 w-3" />,
         className: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/20'
       }
@@ -243,7 +442,8 @@ const UserManagement = () => {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Users className="h-5 w-5" />
-              Users ({filteredUsers.length})
+              Users ({total})
+              {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
             </CardTitle>
             <CardDescription>
               Manage user accounts, roles, and permissions
@@ -255,7 +455,7 @@ const UserManagement = () => {
                 <div className="relative">
                   <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search users by email or notes..."
+                    placeholder="Search users by email, name or notes..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="pl-10"
@@ -263,7 +463,7 @@ const UserManagement = () => {
                 </div>
               </div>
               
-              <Select value={roleFilter} onValueChange={setRoleFilter}>
+              <Select value={roleFilter} onValueChange={(value) => updateQuery({ role: value })}>
                 <SelectTrigger className="w-40">
                   <Filter className="h-4 w-4 mr-2" />
                   <SelectValue />
@@ -276,7 +476,7 @@ const UserManagement = () => {
                 </SelectContent>
               </Select>
 
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={(value) => updateQuery({ status: value })}>
                 <SelectTrigger className="w-40">
                   <Filter className="h-4 w-4 mr-2" />
                   <SelectValue />
@@ -285,9 +485,10 @@ const UserManagement = () => {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="active">Active</SelectItem>
                   <SelectItem value="invited">Invited</SelectItem>
-                  <SelectItem value="canceled">Canceled</SelectItem>
+                  <SelectItem value="pending">Awaiting Approval</SelectItem>
+                  <SelectItem value="inactive">Inactive</SelectItem>
                   <SelectItem value="suspended">Suspended</SelectItem>
-                  <SelectItem value="deleted">Deleted</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -297,23 +498,23 @@ const UserManagement = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>User</TableHead>
-                    <TableHead>Role</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Created</TableHead>
+                    {renderSortableHead('email', 'User')}
+                    {renderSortableHead('role', 'Role')}
+                    {renderSortableHead('status', 'Status')}
+                    {renderSortableHead('created_at', 'Created')}
                     <TableHead>Notes</TableHead>
                     <TableHead className="w-[100px]">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredUsers.length === 0 ? (
+                  {users.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
                         No users found matching your criteria
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredUsers.map((userData) => (
+                    users.map((userData) => (
                       <TableRow key={userData.id}>
                         <TableCell>
                           <div className="flex items-center gap-2">
@@ -331,7 +532,16 @@ const UserManagement = () => {
                           </div>
                         </TableCell>
                         <TableCell>{getRoleBadge(userData.role)}</TableCell>
-                        <TableCell>{getStatusBadge(userData.status || 'active')}</TableCell>
+                        <TableCell
+                          title={userData.status === 'suspended'
+                            ? [
+                                userData.suspended_reason,
+                                userData.suspended_until && `Until ${new Date(userData.suspended_until).toLocaleString()}`
+                              ].filter(Boolean).join(' · ') || undefined
+                            : undefined}
+                        >
+                          {getStatusBadge(userData.status || 'active')}
+                        </TableCell>
                         <TableCell>
                           <span className="text-sm text-muted-foreground">
                             {new Date(userData.created_at).toLocaleDateString()}
@@ -339,8 +549,8 @@ const UserManagement = () => {
                         </TableCell>
                         <TableCell>
                           <span className="text-xs text-muted-foreground">
-                            {userData.metadata?.notes || userData.created_by ? 
-                              (userData.metadata?.notes || `Created by: ${userData.created_by}`) : 
+                            {userData.metadata?.admin_notes || userData.created_by ? 
+                              (userData.metadata?.admin_notes || `Created by: ${userData.created_by}`) : 
                               '-'
                             }
                           </span>
@@ -366,24 +576,24 @@ const UserManagement = () => {
                                 </DropdownMenuItem>
                               ) : (
                                 <>
-                                  {/* Role Changes */}
-                                  {userData.role !== 'user' && (
+                                  {/* Role Changes; the API refuses demoting yourself */}
+                                  {userData.role !== 'user' && userData.user_id !== user?.id && (
                                     <DropdownMenuItem
-                                      onClick={() => userData.user_id && handleRoleChange(userData.user_id, 'user')}
+                                      onClick={() => handleRoleChange(userData.id, 'user')}
                                     >
                                       Make User
                                     </DropdownMenuItem>
                                   )}
-                                  {userData.role !== 'moderator' && (
+                                  {userData.role !== 'moderator' && userData.user_id !== user?.id && (
                                     <DropdownMenuItem
-                                      onClick={() => userData.user_id && handleRoleChange(userData.user_id, 'moderator')}
+                                      onClick={() => handleRoleChange(userData.id, 'moderator')}
                                     >
                                       Make Moderator
                                     </DropdownMenuItem>
                                   )}
                                   {userData.role !== 'admin' && userData.user_id !== user?.id && (
                                     <DropdownMenuItem
-                                      onClick={() => userData.user_id && handleRoleChange(userData.user_id, 'admin')}
+                                      onClick={() => handleRoleChange(userData.id, 'admin')}
                                     >
                                       Make Admin
                                     </DropdownMenuItem>
@@ -394,7 +604,7 @@ const UserManagement = () => {
                                   {/* Status Changes */}
                                   {userData.status === 'suspended' ? (
                                     <DropdownMenuItem
-                                      onClick={() => userData.user_id && handleStatusChange(userData.user_id, 'active')}
+                                      onClick={() => handleStatusChange(userData.id, 'active')}
                                     >
                                       <CheckCircle className="h-4 w-4 mr-2" />
                                       Activate
@@ -402,7 +612,11 @@ const UserManagement = () => {
                                   ) : (
                                     userData.user_id !== user?.id && (
                                       <DropdownMenuItem
-                                        onClick={() => userData.user_id && handleStatusChange(userData.user_id, 'suspended')}
+                                        onClick={() => {
+                                          setSuspendReason('')
+                                          setSuspendUntil('')
+                                          setSuspendDialog({ isOpen: true, user: userData })
+                                        }}
                                       >
                                         <AlertTriangle className="h-4 w-4 mr-2" />
                                         Suspend
@@ -410,6 +624,36 @@ const UserManagement = () => {
                                     )
                                   )}
                                   
+                                  {userData.user_id !== user?.id && userData.role !== 'admin' && userData.status === 'active' && (
+                                    <DropdownMenuItem
+                                      onClick={() => {
+                                        setImpersonateDuration(30)
+                                        setImpersonateAllowChanges(false)
+                                        setImpersonateReason('')
+                                        setImpersonateDialog({ isOpen: true, user: userData })
+                                      }}
+                                    >
+                                      <Eye className="h-4 w-4 mr-2" />
+                                      View as User
+                                    </DropdownMenuItem>
+                                  )}
+
+                                  {userData.user_id && (
+                                    <DropdownMenuItem onClick={() => openLoginHistory(userData)}>
+                                      <History className="h-4 w-4 mr-2" />
+                                      Sign-in History
+                                    </DropdownMenuItem>
+                                  )}
+
+                                  {userData.user_id !== user?.id && (
+                                    <DropdownMenuItem
+                                      onClick={() => setSignOutDialog({ isOpen: true, user: userData })}
+                                    >
+                                      <LogOut className="h-4 w-4 mr-2" />
+                                      Sign Out Everywhere
+                                    </DropdownMenuItem>
+                                  )}
+
                                   {userData.user_id !== user?.id && (
                                     <DropdownMenuItem
                                       className="text-red-600"
@@ -430,6 +674,74 @@ const UserManagement = () => {
                 </TableBody>
               </Table>
             </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between gap-4 mt-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap">
+                <span>
+                  {total === 0
+                    ? 'No results'
+                    : `${(page - 1) * pageSize + 1}-${Math.min(page * pageSize, total)} of ${total}`}
+                </span>
+                <Select value={String(pageSize)} onValueChange={(value) => updateQuery({ pageSize: value === '25' ? undefined : value })}>
+                  <SelectTrigger className="w-[110px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USERS_PAGE_SIZE_OPTIONS.map((size) => (
+                      <SelectItem key={size} value={String(size)}>{size} / page</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {totalPages > 1 && (
+                <Pagination className="mx-0 w-auto justify-end">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href="#"
+                        aria-disabled={page <= 1}
+                        className={page <= 1 ? 'pointer-events-none opacity-50' : undefined}
+                        onClick={(e) => {
+                          e.preventDefault()
+                          goToPage(page - 1)
+                        }}
+                      />
+                    </PaginationItem>
+                    {getPageItems(page, totalPages).map((item, index) => (
+                      <PaginationItem key={item ?? `gap-${index}`}>
+                        {item === null ? (
+                          <PaginationEllipsis />
+                        ) : (
+                          <PaginationLink
+                            href="#"
+                            isActive={item === page}
+                            onClick={(e) => {
+                              e.preventDefault()
+                              goToPage(item)
+                            }}
+                          >
+                            {item}
+                          </PaginationLink>
+                        )}
+                      </PaginationItem>
+                    ))}
+                    <PaginationItem>
+                      <PaginationNext
+                        href="#"
+                        aria-disabled={page >= totalPages}
+                        className={page >= totalPages ? 'pointer-events-none opacity-50' : undefined}
+                        onClick={(e) => {
+                          e.preventDefault()
+                          goToPage(page + 1)
+                        }}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
           </CardContent>
         </Card>
     </div>
@@ -464,7 +776,7 @@ const UserManagement = () => {
               className="bg-red-600 hover:bg-red-700"
               onClick={() => {
                 if (deleteDialog.user) {
-                  handleDeleteUser(deleteDialog.user.user_id || null, deleteDialog.user.email)
+                  handleDeleteUser(deleteDialog.user.id, deleteDialog.user.email)
                 }
               }}
             >
@@ -474,6 +786,172 @@ const UserManagement = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Suspend User Dialog */}
+      <AlertDialog open={suspendDialog.isOpen} onOpenChange={(open) => setSuspendDialog({ isOpen: open })}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Suspend User</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{suspendDialog.user?.email}</strong> will be signed out everywhere and blocked from the app and the API
+              until the suspension ends or you reactivate them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="suspend-reason">Reason (shown to the user)</Label>
+              <Textarea
+                id="suspend-reason"
+                value={suspendReason}
+                onChange={(e) => setSuspendReason(e.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suspend-until">Suspended until (optional)</Label>
+              <Input
+                id="suspend-until"
+                type="date"
+                value={suspendUntil}
+                min={new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)}
+                onChange={(e) => setSuspendUntil(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to suspend until you reactivate the user.
+              </p>
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                if (suspendDialog.user) {
+                  handleStatusChange(suspendDialog.user.id, 'suspended')
+                }
+              }}
+            >
+              Suspend User
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Force Sign-Out Confirmation Dialog */}
+      <AlertDialog open={signOutDialog.isOpen} onOpenChange={(open) => setSignOutDialog({ isOpen: open })}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign Out Everywhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              End every session of <strong>{signOutDialog.user?.email}</strong>? They will have to sign in again on all of their devices.
+              This action is recorded in the audit log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (signOutDialog.user) {
+                  handleForceSignOut(signOutDialog.user.id, signOutDialog.user.email)
+                }
+              }}
+            >
+              Sign Out Everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Impersonation Dialog */}
+      <AlertDialog open={impersonateDialog.isOpen} onOpenChange={(open) => setImpersonateDialog({ isOpen: open })}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>View as User</AlertDialogTitle>
+            <AlertDialogDescription>
+              See the app as <strong>{impersonateDialog.user?.email}</strong> sees it. Admin pages are unavailable until you exit,
+              and the session, along with every request made during it, is recorded in the audit log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="impersonate-duration">Duration</Label>
+              <Select
+                value={String(impersonateDuration)}
+                onValueChange={(value) => setImpersonateDuration(Number(value) as (typeof IMPERSONATION_DURATIONS)[number])}
+              >
+                <SelectTrigger id="impersonate-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPERSONATION_DURATIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="impersonate-reason">Reason (optional)</Label>
+              <Textarea
+                id="impersonate-reason"
+                value={impersonateReason}
+                onChange={(e) => setImpersonateReason(e.target.value)}
+                maxLength={500}
+                rows={2}
+              />
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="impersonate-allow-changes"
+                checked={impersonateAllowChanges}
+                onCheckedChange={(checked) => setImpersonateAllowChanges(checked === true)}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="impersonate-allow-changes">Allow changes</Label>
+                <p className="text-xs text-muted-foreground">
+                  Off by default: you can look around, but anything that would change the user's data is refused.
+                </p>
+              </div>
+            </div>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (impersonateDialog.user) {
+                  handleImpersonate(impersonateDialog.user.id, impersonateDialog.user.email)
+                }
+              }}
+            >
+              Start Viewing
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Sign-in History Dialog */}
+      <Dialog open={loginHistoryDialog.isOpen} onOpenChange={(open) => setLoginHistoryDialog({ isOpen: open })}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Sign-in History</DialogTitle>
+            <DialogDescription>
+              Recent sign-ins of <strong>{loginHistoryDialog.user?.email}</strong>, including failed password attempts.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto">
+            {loginHistoryDialog.history ? (
+              <LoginEventList history={loginHistoryDialog.history} />
+            ) : (
+              <div className="flex items-center text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading sign-in history...
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Cancel Invitation Confirmation Dialog */}
       <AlertDialog open={cancelInviteDialog.isOpen} onOpenChange={(open) => setCancelInviteDialog({ isOpen: open })}>
         <AlertDialogContent>
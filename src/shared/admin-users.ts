@@ -0,0 +1,187 @@
+import { z } from 'zod'
+
+// Contracts for the admin users API, shared by the browser client
+// (src/lib/admin.ts) and the serverless handlers:
+//   GET    /api/admin/users          api/admin/users/index.ts
+//   GET    /api/admin/users/stats    api/admin/users/stats.ts
+//   PATCH  /api/admin/users/:id      api/admin/users/[id].ts
+//   DELETE /api/admin/users/:id      api/admin/users/[id].ts
+//   POST   /api/admin/users/:id/approval  api/admin/users/[id]/approval.ts
+//   POST   /api/admin-users          api/admin-users.ts (invitation actions)
+// Modules in src/shared are also loaded by the API, so they must only import
+// npm packages or other shared modules (no "@/" aliases).
+
+export const userRoleNameSchema = z.enum(['admin', 'user', 'moderator'])
+
+export const userStatusSchema = z.enum(['invited', 'active', 'inactive', 'suspended', 'cancelled', 'pending'])
+
+// Row in public.user_roles
+export const userRoleSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid().nullable(),
+  invitation_id: z.string().uuid().nullable(),
+  email: z.string(),
+  role: userRoleNameSchema,
+  status: userStatusSchema,
+  invitation_sent_at: z.string().nullable(),
+  expires_at: z.string().nullable(),
+  created_by: z.string().uuid().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  suspended_reason: z.string().nullable().optional(),
+  suspended_until: z.string().nullable().optional(),
+  suspended_at: z.string().nullable().optional()
+})
+
+/**
+ * Whether a user_roles row is suspended right now. A suspension whose
+ * suspended_until has passed is over, even before the row is reactivated.
+ */
+export const isSuspended = (
+  role: { status: string; suspended_until?: string | null } | null | undefined,
+  now = Date.now()
+) =>
+  role?.status === 'suspended' && (!role.suspended_until || new Date(role.suspended_until).getTime() > now)
+
+// Row in public.user_metadata
+export const userMetadataSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  display_name: z.string().nullable(),
+  avatar_url: z.string().nullable(),
+  bio: z.string().nullable(),
+  preferences: z.record(z.unknown()).nullable(),
+  admin_notes: z.string().nullable(),
+  // From login_stats, merged in by admin_users_view (00014_login_events.sql)
+  last_login: z.string().nullable(),
+  login_count: z.number().int(),
+  created_at: z.string(),
+  updated_at: z.string()
+})
+
+export const adminUserSchema = userRoleSchema.extend({
+  metadata: userMetadataSchema.nullable()
+})
+
+// Only these fields may be changed through PATCH /api/admin/users/:id. `notes` is stored
+// in user_metadata.admin_notes. The suspension fields go with status 'suspended': the
+// reason is shown to the user, and the suspension ends by itself at suspended_until.
+export const userUpdatesSchema = z.object({
+  role: userRoleNameSchema.optional(),
+  status: z.enum(['active', 'inactive', 'suspended']).optional(),
+  suspended_reason: z.string().trim().max(500).optional(),
+  suspended_until: z.string().datetime({ offset: true }).nullable().optional(),
+  notes: z.string().max(2000).optional()
+}).strict().refine(
+  (updates) => Object.keys(updates).length > 0,
+  { message: 'At least one field must be updated' }
+).refine(
+  (updates) => updates.status === 'suspended' || (updates.suspended_reason === undefined && updates.suspended_until === undefined),
+  { message: 'A suspension reason or end date can only be set when suspending a user', path: ['status'] }
+).refine(
+  (updates) => !updates.suspended_until || new Date(updates.suspended_until).getTime() > Date.now(),
+  { message: 'The suspension end date must be in the future', path: ['suspended_until'] }
+)
+
+export const invitationDataSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: userRoleNameSchema
+})
+
+export const userSortSchema = z.enum([
+  'created_at', '-created_at',
+  'updated_at', '-updated_at',
+  'email', '-email',
+  'role', '-role',
+  'status', '-status'
+])
+
+export const USERS_PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const
+
+// Query string for GET /api/admin/users. A leading "-" on sort means descending.
+export const listUsersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  q: z.string().trim().max(200).optional(),
+  role: userRoleNameSchema.optional(),
+  status: userStatusSchema.optional(),
+  sort: userSortSchema.default('-created_at')
+})
+
+export const listUsersResponseSchema = z.object({
+  users: z.array(adminUserSchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int()
+})
+
+export const userStatsSchema = z.object({
+  totalUsers: z.number().int(),
+  activeUsers: z.number().int(),
+  pendingInvitations: z.number().int(),
+  pendingApprovals: z.number().int(),
+  adminUsers: z.number().int()
+})
+
+// Body of POST /api/admin/users/:id/approval for a sign-up waiting for approval
+// (status 'pending'). Rejecting deletes the account.
+export const signupDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject'])
+}).strict()
+
+// :id in /api/admin/users/:id is the user_roles row id, which exists for
+// invitations as well as accounts
+export const userIdParamSchema = z.string().uuid()
+
+const emptyOutput = z.object({})
+
+export const adminUsersActionSchema = z.enum([
+  'cancelInvitation',
+  'createInvitation'
+])
+
+export type AdminUsersAction = z.infer<typeof adminUsersActionSchema>
+
+export const adminUsersContract = {
+  cancelInvitation: {
+    input: z.object({
+      invitationId: z.string().uuid()
+    }),
+    output: emptyOutput
+  },
+  createInvitation: {
+    input: z.object({
+      invitationData: invitationDataSchema
+    }),
+    output: z.object({
+      invitationId: z.string().uuid(),
+      data: userRoleSchema
+    })
+  }
+} satisfies Record<AdminUsersAction, { input: z.ZodTypeAny; output: z.ZodTypeAny }>
+
+export type AdminUsersInput<A extends AdminUsersAction> = z.input<(typeof adminUsersContract)[A]['input']>
+export type AdminUsersOutput<A extends AdminUsersAction> = z.output<(typeof adminUsersContract)[A]['output']>
+
+export type UserRoleName = z.infer<typeof userRoleNameSchema>
+export type UserStatus = z.infer<typeof userStatusSchema>
+export type UserRoleRow = z.infer<typeof userRoleSchema>
+export type UserMetadataRow = z.infer<typeof userMetadataSchema>
+export type AdminUser = z.infer<typeof adminUserSchema>
+export type UserUpdates = z.infer<typeof userUpdatesSchema>
+export type UserSort = z.infer<typeof userSortSchema>
+export type ListUsersQuery = z.input<typeof listUsersQuerySchema>
+export type ListUsersResponse = z.infer<typeof listUsersResponseSchema>
+export type UserStats = z.infer<typeof userStatsSchema>
+export type SignupDecision = z.infer<typeof signupDecisionSchema>['decision']
+
+/**
+ * Validate the input for an action. Throws a ZodError when the payload does
+ * not match the contract.
+ */
+export const parseAdminUsersInput = <A extends AdminUsersAction>(
+  action: A,
+  payload: unknown
+): z.output<(typeof adminUsersContract)[A]['input']> => {
+  return adminUsersContract[action].input.parse(payload)
+}
@@ -0,0 +1,122 @@
+import type { ZodError } from 'zod'
+
+// Error envelope returned by every api/ handler:
+//   { "error": { "code": "FORBIDDEN", "message": "...", "details": {...}, "requestId": "..." } }
+// Codes are stable and safe to branch on; messages are for people and may change.
+
+export const API_ERROR_CATALOGUE = {
+  // Request
+  INVALID_JSON: { status: 400, message: 'The request body is not valid JSON' },
+  INVALID_URL: { status: 400, message: 'The request URL is not correctly encoded' },
+  METHOD_NOT_ALLOWED: { status: 405, message: 'Method not allowed' },
+  NOT_FOUND: { status: 404, message: 'Resource not found' },
+  CONFLICT: { status: 409, message: 'The request conflicts with the current state of the resource' },
+  VALIDATION_FAILED: { status: 422, message: 'Invalid request payload' },
+  RATE_LIMITED: { status: 429, message: 'Too many requests' },
+  IDEMPOTENCY_KEY_REUSED: { status: 422, message: 'This Idempotency-Key was already used for a different request' },
+  REQUEST_IN_PROGRESS: { status: 409, message: 'A request with this Idempotency-Key is still being processed' },
+
+  // Authentication and authorization
+  AUTH_REQUIRED: { status: 401, message: 'Authentication required' },
+  SESSION_EXPIRED: { status: 401, message: 'Invalid or expired session' },
+  TOKEN_STALE: { status: 401, message: 'The role claims of this token are out of date; refresh the session and retry' },
+  FORBIDDEN: { status: 403, message: 'You do not have permission to perform this action' },
+  ACCOUNT_SUSPENDED: { status: 403, message: 'This account is suspended' },
+  ACCOUNT_PENDING: { status: 403, message: 'This account is waiting for an administrator to approve it' },
+  ACCOUNT_LOCKED: { status: 423, message: 'Too many failed sign-ins; this account is temporarily locked' },
+  INVALID_CREDENTIALS: { status: 401, message: 'Invalid email or password' },
+  EMAIL_NOT_CONFIRMED: { status: 403, message: 'The email address has not been confirmed yet' },
+  IMPERSONATION_READ_ONLY: { status: 403, message: 'This impersonation session is read-only' },
+  IMPERSONATION_ENDED: { status: 403, message: 'The impersonation session has ended' },
+  MFA_REQUIRED: { status: 403, message: 'Two-factor authentication is required' },
+  STEP_UP_REQUIRED: { status: 403, message: 'Confirm it is you to continue' },
+  STEP_UP_FAILED: { status: 401, message: 'That password or code is not correct' },
+  PASSKEY_FAILED: { status: 401, message: 'The passkey could not be verified' },
+  CAPTCHA_REQUIRED: { status: 400, message: 'Complete the CAPTCHA to continue' },
+  CAPTCHA_FAILED: { status: 403, message: 'The CAPTCHA could not be verified' },
+  RECOVERY_CODE_INVALID: { status: 400, message: 'That recovery code is not valid or has already been used' },
+  PASSWORD_REJECTED: { status: 422, message: 'The password does not meet the password policy' },
+  ORIGIN_NOT_ALLOWED: { status: 403, message: 'This origin is not allowed to call the API' },
+  SESSION_NOT_FOUND: { status: 404, message: 'Session not found' },
+
+  // Users and invitations
+  USER_NOT_FOUND: { status: 404, message: 'User not found' },
+  INVITATION_NOT_FOUND: { status: 404, message: 'Invitation not found' },
+  INVITATION_EXPIRED: { status: 410, message: 'This invitation has expired' },
+  EMAIL_IN_USE: { status: 409, message: 'This email address belongs to another account or a pending invitation' },
+  SIGNUP_REFUSED: { status: 403, message: 'The sign-up policy does not allow an account for this email address' },
+
+  // Email
+  EMAIL_NOT_CONFIGURED: { status: 400, message: 'Email settings not configured' },
+  EMAIL_SEND_FAILED: { status: 502, message: 'The email provider rejected the message' },
+
+  // Server
+  SERVER_MISCONFIGURED: { status: 500, message: 'The server is not configured correctly' },
+  SERVICE_UNAVAILABLE: { status: 503, message: 'The service is temporarily unavailable' },
+  DATABASE_ERROR: { status: 500, message: 'A database error occurred' },
+  INTERNAL_ERROR: { status: 500, message: 'Internal server error' }
+} as const satisfies Record<string, { status: number; message: string }>
+
+export type ApiErrorCode = keyof typeof API_ERROR_CATALOGUE
+
+export interface ApiErrorPayload {
+  code: ApiErrorCode
+  message: string
+  details?: Record<string, unknown>
+  requestId?: string
+}
+
+export interface ApiErrorBody {
+  error: ApiErrorPayload
+}
+
+export interface ValidationIssue {
+  path: string
+  message: string
+  code: string
+}
+
+export const isApiErrorCode = (value: unknown): value is ApiErrorCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(API_ERROR_CATALOGUE, value)
+
+export const isApiErrorBody = (value: unknown): value is ApiErrorBody => {
+  if (!value || typeof value !== 'object') return false
+  const error = (value as { error?: unknown }).error
+  return !!error && typeof error === 'object' && isApiErrorCode((error as { code?: unknown }).code)
+}
+
+export const createApiErrorBody = (
+  code: ApiErrorCode,
+  message?: string,
+  details?: Record<string, unknown>,
+  requestId?: string
+): ApiErrorBody => ({
+  error: {
+    code,
+    message: message || API_ERROR_CATALOGUE[code].message,
+    ...(details ? { details } : {}),
+    ...(requestId ? { requestId } : {})
+  }
+})
+
+// Best guess at a code for responses that did not use the envelope
+export const codeForStatus = (status: number): ApiErrorCode => {
+  switch (status) {
+    case 401: return 'AUTH_REQUIRED'
+    case 403: return 'FORBIDDEN'
+    case 404: return 'NOT_FOUND'
+    case 405: return 'METHOD_NOT_ALLOWED'
+    case 409: return 'CONFLICT'
+    case 400:
+    case 422: return 'VALIDATION_FAILED'
+    case 429: return 'RATE_LIMITED'
+    default: return 'INTERNAL_ERROR'
+  }
+}
+
+export const formatValidationIssues = (error: ZodError): ValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code
+  }))
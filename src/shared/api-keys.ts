@@ -0,0 +1,30 @@
+import { z } from 'zod'
+
+// API keys and email settings a user stores in public.user_api_keys. The
+// browser may write them but only reads them back through GET /api/api-keys,
+// which masks the secrets; showing a secret in full goes through
+// POST /api/api-keys/reveal and needs a step-up re-authentication.
+
+// user_api_keys entries that are settings rather than secrets
+export const PUBLIC_API_KEY_NAMES = ['sender_name', 'sender_email', 'sender_domain']
+
+// Stored secrets are shown with only their last 4 characters
+export const maskSecret = (value: string | null | undefined) => {
+  if (!value) return value ?? null
+  return value.length <= 8 ? '••••' : `••••${value.slice(-4)}`
+}
+
+export const isMaskedSecret = (value: string) => value.startsWith('••••')
+
+export interface StoredApiKey {
+  keyName: string
+  // In full for settings, masked for secrets
+  value: string | null
+  masked: boolean
+  updatedAt: string | null
+}
+
+// POST /api/api-keys/reveal
+export const revealApiKeySchema = z.object({
+  keyName: z.string().trim().min(1).max(100)
+}).strict()
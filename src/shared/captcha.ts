@@ -0,0 +1,44 @@
+import { z } from 'zod'
+
+// CAPTCHA on sign-up, password sign-in and password reset requests. The
+// forms render the widget of the provider chosen in Admin Settings and send
+// its token with the request; the API checks it with the provider
+// (api/_lib/captcha.ts) and refuses the request when it does not pass.
+
+// app_settings keys; both public so the forms can render the widget
+export const CAPTCHA_PROVIDER_SETTING = 'captcha_provider'
+export const CAPTCHA_SITE_KEY_SETTING = 'captcha_site_key'
+
+export const captchaProviderSchema = z.enum(['none', 'hcaptcha', 'turnstile', 'test'])
+
+export type CaptchaProvider = z.infer<typeof captchaProviderSchema>
+
+export const CAPTCHA_PROVIDER_LABELS: Record<CaptchaProvider, string> = {
+  none: 'Off',
+  hcaptcha: 'hCaptcha',
+  turnstile: 'Cloudflare Turnstile',
+  test: 'Test (local development only)'
+}
+
+// Server-side secret of each provider that needs one
+export const CAPTCHA_SECRET_ENV: Partial<Record<CaptchaProvider, string>> = {
+  hcaptcha: 'HCAPTCHA_SECRET_KEY',
+  turnstile: 'TURNSTILE_SECRET_KEY'
+}
+
+// The test provider needs no network: its widget hands out this token and
+// the API accepts exactly this token, so tests can pass or fail on purpose
+export const TEST_CAPTCHA_TOKEN = 'test-captcha-pass'
+
+// Stored provider, off for missing or unknown values
+export const readCaptchaProvider = (value: string | null | undefined): CaptchaProvider => {
+  const parsed = captchaProviderSchema.safeParse(value)
+  return parsed.success ? parsed.data : 'none'
+}
+
+// Providers that render a third-party widget need its site key
+export const needsSiteKey = (provider: CaptchaProvider) =>
+  provider === 'hcaptcha' || provider === 'turnstile'
+
+// Token field of the sign-up, sign-in and password reset requests
+export const captchaTokenSchema = z.string().max(4096).optional()
@@ -0,0 +1,44 @@
+// Origin allowlist used by the API's CORS policy (api/_lib/cors.ts) and the
+// allowed origins field in Admin Settings.
+
+// app_settings key holding the admin-managed origins, one per line
+export const CORS_ALLOWED_ORIGINS_SETTING = 'cors_allowed_origins'
+
+/**
+ * Canonical form of an origin (`scheme://host[:port]`, lower case, default
+ * port dropped), or null when the value is not a bare http(s) origin.
+ * A trailing slash is tolerated; paths, queries and credentials are not.
+ */
+export const normalizeOrigin = (value: string): string | null => {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return null
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null
+  if (url.pathname !== '/' || url.search || url.hash || url.username || url.password) return null
+
+  return url.origin
+}
+
+/**
+ * Split a list of origins separated by newlines, commas or spaces into
+ * normalized, de-duplicated origins and the entries that are not valid.
+ */
+export const parseOriginList = (value: string | null | undefined) => {
+  const origins: string[] = []
+  const invalid: string[] = []
+
+  for (const entry of (value ?? '').split(/[\s,]+/).filter(Boolean)) {
+    const origin = normalizeOrigin(entry)
+    if (!origin) {
+      invalid.push(entry)
+    } else if (!origins.includes(origin)) {
+      origins.push(origin)
+    }
+  }
+
+  return { origins, invalid }
+}
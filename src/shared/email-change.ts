@@ -0,0 +1,26 @@
+import { z } from 'zod'
+
+// Changing the signed-in user's email address. POST /api/email/check
+// (api/email/check.ts) refuses addresses that are taken before the client
+// asks Supabase Auth for the change, which then has it confirmed from both
+// the current and the new address. The triggers in
+// supabase/migrations/00015_email_change.sql refuse taken addresses again
+// and copy the new one to profiles and user_roles.
+
+// POST /api/email/check
+export const emailChangeSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254)
+}).strict()
+
+export type EmailChange = z.infer<typeof emailChangeSchema>
+
+/**
+ * Whether a Supabase Auth error means the database refused the address
+ * (guard_email_change). Supabase Auth does not pass the trigger's message on.
+ */
+export const isEmailChangeRefusedError = (message: string | null | undefined) =>
+  /database error (saving|updating) user|error updating user/i.test(message ?? '')
+
+// Supabase redirects the first of the two confirmation links with this message
+export const isPartialEmailChangeMessage = (message: string | null | undefined) =>
+  /confirm link sent to the other email/i.test(message ?? '')
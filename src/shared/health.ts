@@ -0,0 +1,47 @@
+import { z } from 'zod'
+
+// Shapes returned by GET /api/health and GET /api/health/details
+
+export const healthStatusSchema = z.enum(['pass', 'warn', 'fail'])
+
+export const healthCheckIdSchema = z.enum([
+  'environment',
+  'database',
+  'service_role',
+  'schema',
+  'email'
+])
+
+export const healthCheckSchema = z.object({
+  id: healthCheckIdSchema,
+  label: z.string(),
+  status: healthStatusSchema,
+  message: z.string(),
+  // What to do about a warn or fail, written for the person running the deployment
+  remediation: z.string().optional(),
+  durationMs: z.number().int()
+})
+
+export const healthResponseSchema = z.object({
+  status: z.literal('ok'),
+  time: z.string()
+})
+
+export const healthDetailsResponseSchema = z.object({
+  status: healthStatusSchema,
+  checkedAt: z.string(),
+  checks: z.array(healthCheckSchema)
+})
+
+export type HealthStatus = z.infer<typeof healthStatusSchema>
+export type HealthCheckId = z.infer<typeof healthCheckIdSchema>
+export type HealthCheck = z.infer<typeof healthCheckSchema>
+export type HealthResponse = z.infer<typeof healthResponseSchema>
+export type HealthDetailsResponse = z.infer<typeof healthDetailsResponseSchema>
+
+// The worst status wins: one failing check fails the whole report
+export const overallHealthStatus = (checks: Pick<HealthCheck, 'status'>[]): HealthStatus => {
+  if (checks.some((check) => check.status === 'fail')) return 'fail'
+  if (checks.some((check) => check.status === 'warn')) return 'warn'
+  return 'pass'
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod'
+
+// Admin "view as user", shared by the client and the API. While an
+// impersonation session is active the client sends its id in the
+// X-Impersonation-Id header, and authenticate() (api/_lib/auth.ts) resolves
+// the request as the target user instead of the admin.
+
+export const IMPERSONATION_HEADER = 'X-Impersonation-Id'
+
+export const IMPERSONATION_DURATIONS = [15, 30, 60] as const
+
+// POST /api/admin/impersonation
+export const startImpersonationSchema = z.object({
+  // user_roles row id, as used by /api/admin/users/:id
+  userId: z.string().uuid(),
+  durationMinutes: z.union([z.literal(15), z.literal(30), z.literal(60)]).default(30),
+  // Impersonation is read-only unless the admin asks for changes to be allowed
+  readOnly: z.boolean().default(true),
+  reason: z.string().trim().max(500).optional()
+}).strict()
+
+export type StartImpersonationInput = z.input<typeof startImpersonationSchema>
+
+export const impersonationSchema = z.object({
+  id: z.string().uuid(),
+  targetUserId: z.string().uuid(),
+  targetEmail: z.string(),
+  readOnly: z.boolean(),
+  reason: z.string().nullable(),
+  startedAt: z.string(),
+  expiresAt: z.string()
+})
+
+export type Impersonation = z.infer<typeof impersonationSchema>
+
+export const impersonationIdSchema = z.string().uuid()
@@ -0,0 +1,50 @@
+// Supabase access token claims, shared by the client and the API
+import { userRoleNameSchema, userStatusSchema, type UserRoleName, type UserStatus } from './admin-users.js'
+
+/**
+ * Claims of an access token. The signature is not verified here: the API
+ * only calls this after Supabase Auth has accepted the token, and the client
+ * only uses it to decide what to show.
+ */
+export const readTokenClaims = (accessToken: string | null | undefined): Record<string, unknown> | null => {
+  const payload = accessToken?.split('.')[1]
+  if (!payload) return null
+
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    const claims: unknown = JSON.parse(json)
+    return claims && typeof claims === 'object' ? claims as Record<string, unknown> : null
+  } catch {
+    return null
+  }
+}
+
+// Claims public.custom_access_token_hook adds to every access token
+// (supabase/migrations/00011_access_token_claims.sql)
+export const ROLE_CLAIM = 'user_role'
+export const STATUS_CLAIM = 'user_status'
+
+export interface RoleClaims {
+  // null for accounts without a user_roles row
+  role: UserRoleName | null
+  status: UserStatus | null
+}
+
+/**
+ * Role and status from an access token, or null when the token has no role
+ * claims (the hook is not enabled, or the token was issued before it was).
+ */
+export const readRoleClaims = (accessToken: string | null | undefined): RoleClaims | null => {
+  const claims = readTokenClaims(accessToken)
+  if (!claims || !(ROLE_CLAIM in claims)) return null
+
+  const role = userRoleNameSchema.safeParse(claims[ROLE_CLAIM])
+  const status = userStatusSchema.safeParse(claims[STATUS_CLAIM])
+  return {
+    role: role.success ? role.data : null,
+    status: status.success ? status.data : null
+  }
+}
+
+export const isActiveAdminClaims = (claims: RoleClaims | null) =>
+  claims?.role === 'admin' && claims.status === 'active'
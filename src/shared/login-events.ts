@@ -0,0 +1,99 @@
+import { z } from 'zod'
+import { readTokenClaims } from './jwt.js'
+import { captchaTokenSchema } from './captcha.js'
+
+// Sign-in history and account lockout, shared by the client and the handlers:
+//   POST /api/auth/sign-in                    api/auth/sign-in.ts
+//   GET  /api/auth/login-history              api/auth/login-history.ts
+//   GET  /api/admin/users/:id/login-history   api/admin/users/[id]/login-history.ts
+// Failed password sign-ins are recorded by /api/auth/sign-in; successful
+// sign-ins of every kind when the new session first reports to POST /api/sessions.
+
+// app_settings key holding the lockout policy as JSON (not public)
+export const LOGIN_LOCKOUT_SETTING = 'login_lockout_policy'
+
+export const loginLockoutPolicySchema = z.object({
+  // Failed password sign-ins in a row, within the window, that lock the account
+  maxFailures: z.number().int().min(1).max(100),
+  windowMinutes: z.number().int().min(1).max(24 * 60),
+  lockoutMinutes: z.number().int().min(1).max(24 * 60)
+}).strict()
+
+export type LoginLockoutPolicy = z.infer<typeof loginLockoutPolicySchema>
+
+export const DEFAULT_LOGIN_LOCKOUT_POLICY: LoginLockoutPolicy = {
+  maxFailures: 5,
+  windowMinutes: 15,
+  lockoutMinutes: 15
+}
+
+export const readLoginLockoutPolicy = (value: string | null | undefined): LoginLockoutPolicy => {
+  try {
+    const parsed = loginLockoutPolicySchema.safeParse(JSON.parse(value || 'null'))
+    return parsed.success ? parsed.data : DEFAULT_LOGIN_LOCKOUT_POLICY
+  } catch {
+    return DEFAULT_LOGIN_LOCKOUT_POLICY
+  }
+}
+
+// How the user signed in, from the access token's `amr` claim. Passkey
+// sessions are minted by the API, which records their events itself.
+export const loginMethodSchema = z.enum(['password', 'passkey', 'otp', 'magiclink', 'oauth', 'sso', 'other'])
+
+export type LoginMethod = z.infer<typeof loginMethodSchema>
+
+export const LOGIN_METHOD_LABELS: Record<LoginMethod, string> = {
+  password: 'Password',
+  passkey: 'Passkey',
+  otp: 'Email code',
+  magiclink: 'Email link',
+  oauth: 'Social login',
+  sso: 'Single sign-on',
+  other: 'Other'
+}
+
+/**
+ * First-factor method of a session. Supabase lists it in `amr` next to any
+ * MFA step (totp) that came after.
+ */
+export const readLoginMethod = (accessToken: string | null | undefined): LoginMethod => {
+  const amr = readTokenClaims(accessToken)?.amr
+  const methods = Array.isArray(amr)
+    ? amr.map(entry => (entry && typeof entry === 'object' ? (entry as { method?: unknown }).method : null))
+    : []
+  const first = methods.find(method => typeof method === 'string' && method !== 'totp' && method !== 'mfa/totp')
+
+  if (first === 'sso/saml') return 'sso'
+  if (first === 'email/signup' || first === 'invite') return 'otp'
+  const parsed = loginMethodSchema.safeParse(first)
+  return parsed.success ? parsed.data : 'other'
+}
+
+export const loginEventSchema = z.object({
+  id: z.string().uuid(),
+  success: z.boolean(),
+  method: loginMethodSchema,
+  // 'invalid_credentials', 'email_not_confirmed' or 'locked'
+  failureReason: z.string().nullable(),
+  device: z.string().nullable(),
+  browser: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string()
+})
+
+export type LoginEvent = z.infer<typeof loginEventSchema>
+
+export const LOGIN_HISTORY_LIMIT = 50
+
+export interface LoginHistory {
+  events: LoginEvent[]
+  // Set while too many failed sign-ins keep the account locked
+  lockedUntil: string | null
+}
+
+// POST /api/auth/sign-in
+export const passwordSignInSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1).max(1024),
+  captchaToken: captchaTokenSchema
+}).strict()
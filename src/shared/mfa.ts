@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import { readTokenClaims } from './jwt.js'
+
+// Multi-factor authentication helpers shared by the client and the handlers
+// under api/mfa
+
+// app_settings key ('true' | 'false'); public so the client can route admins
+export const MFA_REQUIRED_FOR_ADMINS_SETTING = 'mfa_required_for_admins'
+
+export const RECOVERY_CODE_COUNT = 10
+
+export type AssuranceLevel = 'aal1' | 'aal2'
+
+// Authenticator assurance level of an access token, from its `aal` claim
+export const readAssuranceLevel = (accessToken: string | null | undefined): AssuranceLevel | null => {
+  const aal = readTokenClaims(accessToken)?.aal
+  return aal === 'aal1' || aal === 'aal2' ? aal : null
+}
+
+// Recovery codes are shown as XXXXX-XXXXX; case, spaces and dashes are ignored
+export const normalizeRecoveryCode = (value: string) => value.replace(/[\s-]/g, '').toUpperCase()
+
+export const recoveryCodeSchema = z
+  .string()
+  .transform(normalizeRecoveryCode)
+  .refine(value => /^[A-Z2-7]{10}$/.test(value), 'Enter a recovery code like ABCDE-23456')
+
+// POST /api/mfa/recover
+export const redeemRecoveryCodeSchema = z.object({
+  code: recoveryCodeSchema
+})
+
+export const recoveryCodeStatusSchema = z.object({
+  remaining: z.number().int(),
+  createdAt: z.string().nullable()
+})
+
+export type RecoveryCodeStatus = z.infer<typeof recoveryCodeStatusSchema>
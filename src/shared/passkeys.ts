@@ -0,0 +1,46 @@
+import { z } from 'zod'
+
+// Passkeys (WebAuthn credentials) for passwordless sign-in, stored in
+// public.user_passkeys (supabase/migrations/00018_user_passkeys.sql).
+// Each ceremony is two requests: the API hands out options with a one-time
+// challenge, the browser has the authenticator sign it, and the API checks
+// the signed response against the challenge.
+
+// How long a ceremony's challenge can be answered
+export const PASSKEY_CHALLENGE_TTL_SECONDS = 5 * 60
+
+export const passkeyIdParamSchema = z.string().uuid()
+
+// Credential JSON from navigator.credentials (as serialised by
+// @simplewebauthn/browser); its contents are checked by the API's verifier
+const credentialResponseSchema = z.object({
+  id: z.string().min(1).max(1024),
+  rawId: z.string().min(1).max(1024),
+  type: z.literal('public-key'),
+  response: z.record(z.unknown()),
+  clientExtensionResults: z.record(z.unknown()),
+  authenticatorAttachment: z.string().optional()
+}).passthrough()
+
+// POST /api/passkeys
+export const passkeyRegistrationSchema = z.object({
+  challengeId: z.string().uuid(),
+  response: credentialResponseSchema,
+  name: z.string().trim().min(1).max(100).optional()
+}).strict()
+
+// POST /api/auth/passkey
+export const passkeySignInSchema = z.object({
+  challengeId: z.string().uuid(),
+  response: credentialResponseSchema
+}).strict()
+
+export interface Passkey {
+  id: string
+  name: string
+  // Synced passkeys (iCloud Keychain, Google Password Manager) are 'multiDevice'
+  deviceType: string
+  backedUp: boolean
+  createdAt: string
+  lastUsedAt: string | null
+}
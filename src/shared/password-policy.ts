@@ -0,0 +1,140 @@
+import { z } from 'zod'
+import { captchaTokenSchema } from './captcha.js'
+
+// Password rules set in Admin Settings. The sign-up and update-password forms
+// check them as the user types; POST /api/password/check and
+// POST /api/password/change (api/_lib/passwords.ts) check them again, along
+// with password reuse and, when turned on, known data breaches.
+
+// app_settings key holding the policy as JSON; public so the forms can show it
+export const PASSWORD_POLICY_SETTING = 'password_policy'
+
+// Supabase Auth hashes passwords with bcrypt, which ignores bytes past 72
+export const MAX_PASSWORD_LENGTH = 72
+
+export const MAX_PASSWORD_HISTORY = 24
+
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(6).max(MAX_PASSWORD_LENGTH),
+  requireLowercase: z.boolean(),
+  requireUppercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  // How many previous passwords may not be used again; 0 turns it off
+  historySize: z.number().int().min(0).max(MAX_PASSWORD_HISTORY),
+  // Refuse passwords found in known breaches (Have I Been Pwned)
+  breachCheck: z.boolean()
+}).strict()
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: false,
+  requireUppercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  historySize: 0,
+  breachCheck: false
+}
+
+// Stored policy, falling back to the default when it is missing or invalid
+export const readPasswordPolicy = (value: string | null | undefined): PasswordPolicy => {
+  try {
+    const parsed = passwordPolicySchema.safeParse(JSON.parse(value || 'null'))
+    return parsed.success ? parsed.data : DEFAULT_PASSWORD_POLICY
+  } catch {
+    return DEFAULT_PASSWORD_POLICY
+  }
+}
+
+export interface PasswordRequirement {
+  id: 'length' | 'lowercase' | 'uppercase' | 'number' | 'symbol'
+  label: string
+  met: boolean
+}
+
+/**
+ * The policy's character rules, each marked as met or not by `password`.
+ * Reuse and breach checks need the server and are not included.
+ */
+export const checkPasswordRequirements = (password: string, policy: PasswordPolicy): PasswordRequirement[] => {
+  const requirements: PasswordRequirement[] = [
+    { id: 'length', label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength }
+  ]
+
+  if (policy.requireLowercase) {
+    requirements.push({ id: 'lowercase', label: 'A lowercase letter', met: /\p{Ll}/u.test(password) })
+  }
+  if (policy.requireUppercase) {
+    requirements.push({ id: 'uppercase', label: 'An uppercase letter', met: /\p{Lu}/u.test(password) })
+  }
+  if (policy.requireNumber) {
+    requirements.push({ id: 'number', label: 'A number', met: /\p{N}/u.test(password) })
+  }
+  if (policy.requireSymbol) {
+    requirements.push({ id: 'symbol', label: 'A symbol', met: /[^\p{L}\p{N}\s]/u.test(password) })
+  }
+
+  return requirements
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4
+
+export const PASSWORD_STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'] as const
+
+// Patterns that make a password much easier to guess than its length suggests
+const WEAK_PATTERNS = [
+  /^(.)\1+$/,
+  /(0123|1234|2345|3456|4567|5678|6789|abcd|bcde|cdef|qwer|wert|asdf|zxcv)/i,
+  /(password|passw0rd|letmein|welcome|admin|qwerty|iloveyou|monkey|dragon)/i
+]
+
+/**
+ * Rough strength estimate for the meter: the bits of a random password of
+ * the same length and character mix, minus a penalty for common patterns.
+ * It only guides the user; the policy decides what is accepted.
+ */
+export const estimatePasswordStrength = (password: string): PasswordStrength => {
+  if (!password) return 0
+
+  let pool = 0
+  if (/\p{Ll}/u.test(password)) pool += 26
+  if (/\p{Lu}/u.test(password)) pool += 26
+  if (/\p{N}/u.test(password)) pool += 10
+  if (/[^\p{L}\p{N}]/u.test(password)) pool += 33
+
+  const uniqueRatio = new Set(password).size / password.length
+  let bits = password.length * Math.log2(Math.max(pool, 2)) * Math.min(1, uniqueRatio + 0.4)
+  if (WEAK_PATTERNS.some(pattern => pattern.test(password))) bits /= 2
+
+  if (bits < 28) return 0
+  if (bits < 40) return 1
+  if (bits < 60) return 2
+  if (bits < 80) return 3
+  return 4
+}
+
+export const passwordSchema = z.string().min(1, 'Password is required').max(MAX_PASSWORD_LENGTH)
+
+// POST /api/password/check and POST /api/password/change
+export const passwordCheckSchema = z.object({
+  password: passwordSchema
+}).strict()
+
+// POST /api/password/reset. `redirectTo` is the /auth/callback URL the email
+// link opens; the API refuses any other URL (api/_lib/redirects.ts), and
+// Supabase Auth any not on its redirect allowlist.
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  redirectTo: z.string().url().max(2048),
+  captchaToken: captchaTokenSchema
+}).strict()
+
+export interface PasswordCheckResult {
+  valid: boolean
+  // Unmet rules, as shown to the user
+  failures: string[]
+  // Found in a known breach; null when the breach check is off or could not run
+  breached: boolean | null
+}
@@ -0,0 +1,7 @@
+// Passwordless (magic link / email one-time code) sign-in
+
+// app_settings key ('true' | 'false'); public so the sign-in form can offer it
+export const PASSWORDLESS_ENABLED_SETTING = 'passwordless_enabled'
+
+// Digits in the code Supabase Auth emails (Authentication → Providers → Email)
+export const EMAIL_OTP_LENGTH = 6
@@ -0,0 +1,34 @@
+import { z } from 'zod'
+
+// Data export and account deletion, shared by the client (src/lib/privacy.ts)
+// and the handlers:
+//   GET    /api/account/export            api/account/export.ts
+//   GET    /api/account/deletion          api/account/deletion.ts
+//   POST   /api/account/deletion          api/account/deletion.ts
+//   DELETE /api/account/deletion          api/account/deletion.ts
+//   GET    /api/cron/account-deletions    api/cron/account-deletions.ts
+
+// app_settings key: days between a deletion request and the deletion (public)
+export const ACCOUNT_DELETION_GRACE_SETTING = 'account_deletion_grace_days'
+
+export const DEFAULT_ACCOUNT_DELETION_GRACE_DAYS = 14
+
+export const accountDeletionGraceDaysSchema = z.coerce.number().int().min(1).max(90)
+
+export const readAccountDeletionGraceDays = (value: string | null | undefined) => {
+  const parsed = accountDeletionGraceDaysSchema.safeParse(value ?? undefined)
+  return parsed.success ? parsed.data : DEFAULT_ACCOUNT_DELETION_GRACE_DAYS
+}
+
+// POST /api/account/deletion. The user types their email address to confirm.
+export const accountDeletionRequestSchema = z.object({
+  confirmEmail: z.string().trim().toLowerCase().email()
+}).strict()
+
+export interface AccountDeletion {
+  requestedAt: string
+  scheduledFor: string
+}
+
+// Bumped whenever the shape of the export changes
+export const DATA_EXPORT_VERSION = 3
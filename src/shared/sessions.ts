@@ -0,0 +1,28 @@
+import { z } from 'zod'
+
+// Active sessions, shared by the client and the handlers under api/sessions.
+// A session is one sign-in on one device; its id is the Supabase Auth
+// session id (the `session_id` claim of its access tokens).
+
+export const userSessionSchema = z.object({
+  id: z.string(),
+  device: z.string().nullable(),
+  browser: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string(),
+  lastSeenAt: z.string(),
+  // The session that made the request
+  current: z.boolean()
+})
+
+export type UserSession = z.infer<typeof userSessionSchema>
+
+// :id in /api/sessions/:id
+export const sessionIdParamSchema = z.string().uuid()
+
+// DELETE /api/sessions?scope=others signs out every session but the caller's
+export const revokeSessionsQuerySchema = z.object({
+  scope: z.literal('others', {
+    errorMap: () => ({ message: 'Only scope=others is supported; use DELETE /api/sessions/:id for one session' })
+  })
+})
@@ -0,0 +1,96 @@
+import { z } from 'zod'
+import { captchaTokenSchema } from './captcha.js'
+import { passwordSchema } from './password-policy.js'
+
+// Who may create an account by signing up. public.handle_new_user()
+// (supabase/migrations/00012_signup_policy.sql) enforces it; the sign-up form
+// and Admin Settings read the same public settings. Invitations are always
+// accepted, whatever the policy.
+
+// app_settings keys; both public so the sign-up form can explain the policy
+export const SIGNUP_POLICY_SETTING = 'signup_policy'
+export const SIGNUP_ALLOWED_DOMAINS_SETTING = 'signup_allowed_domains'
+
+export const signupPolicySchema = z.enum(['open', 'invite_only', 'domain_allowlist', 'approval'])
+
+export type SignupPolicy = z.infer<typeof signupPolicySchema>
+
+export const DEFAULT_SIGNUP_POLICY: SignupPolicy = 'open'
+
+export const SIGNUP_POLICY_LABELS: Record<SignupPolicy, string> = {
+  open: 'Open: anyone can sign up',
+  invite_only: 'Invite only',
+  domain_allowlist: 'Allowed email domains only',
+  approval: 'Anyone can sign up, pending admin approval'
+}
+
+// Stored policy, falling back to the default for missing or unknown values
+export const readSignupPolicy = (value: string | null | undefined): SignupPolicy => {
+  const parsed = signupPolicySchema.safeParse(value)
+  return parsed.success ? parsed.data : DEFAULT_SIGNUP_POLICY
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/
+
+/**
+ * Canonical form of an email domain (lower case, a leading `@` dropped), or
+ * null when the value is not a domain name.
+ */
+export const normalizeDomain = (value: string): string | null => {
+  const domain = value.trim().toLowerCase().replace(/^@/, '')
+  return DOMAIN_PATTERN.test(domain) ? domain : null
+}
+
+/**
+ * Split a list of domains separated by newlines, commas or spaces into
+ * normalized, de-duplicated domains and the entries that are not valid.
+ */
+export const parseDomainList = (value: string | null | undefined) => {
+  const domains: string[] = []
+  const invalid: string[] = []
+
+  for (const entry of (value ?? '').split(/[\s,]+/).filter(Boolean)) {
+    const domain = normalizeDomain(entry)
+    if (!domain) {
+      invalid.push(entry)
+    } else if (!domains.includes(domain)) {
+      domains.push(domain)
+    }
+  }
+
+  return { domains, invalid }
+}
+
+// Exact match on the part after the last `@`; subdomains must be listed too
+export const isEmailDomainAllowed = (email: string, domains: string[]) => {
+  const domain = email.trim().toLowerCase().split('@').pop() ?? ''
+  return domains.includes(domain)
+}
+
+// POST /api/auth/sign-up. `redirectTo` is the /auth/callback URL the
+// confirmation link opens; the API refuses any other URL
+// (api/_lib/redirects.ts), and Supabase Auth any not on its redirect allowlist.
+export const signUpRequestSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: passwordSchema,
+  redirectTo: z.string().url().max(2048),
+  captchaToken: captchaTokenSchema
+}).strict()
+
+// Supabase Auth reports a sign-up refused by handle_new_user() only as a
+// failed database write, without the trigger's message
+export const isSignupRefusedError = (message: string | null | undefined) =>
+  !!message && /database error saving new user/i.test(message)
+
+export const describeSignupPolicy = (policy: SignupPolicy, domains: string[]) => {
+  switch (policy) {
+    case 'invite_only':
+      return 'Sign-ups are by invitation only.'
+    case 'domain_allowlist':
+      return `Sign-ups are limited to email addresses at ${domains.join(', ') || 'approved domains'}.`
+    case 'approval':
+      return 'New accounts are reviewed by an administrator before they can be used.'
+    default:
+      return 'Anyone can create an account.'
+  }
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod'
+
+// Step-up re-authentication for sensitive actions: deleting users, making
+// someone an admin, changing app settings and revealing stored API keys.
+// The client proves the user is still at the keyboard with their password, an
+// authenticator code or, for accounts with neither, a code sent to their email
+// (POST /api/auth/step-up/email sends it). POST /api/auth/step-up
+// (api/auth/step-up/index.ts) checks it and returns a short-lived token, which
+// the client sends in the X-Step-Up-Token header.
+// Handlers call requireStepUp() (api/_lib/step-up.ts), which answers
+// STEP_UP_REQUIRED when the token is missing or has expired.
+
+export const STEP_UP_HEADER = 'X-Step-Up-Token'
+
+// How long a step-up token stays valid
+export const STEP_UP_TTL_SECONDS = 5 * 60
+
+export const stepUpMethodSchema = z.enum(['password', 'totp', 'email'])
+
+export type StepUpMethod = z.infer<typeof stepUpMethodSchema>
+
+// POST /api/auth/step-up
+export const stepUpRequestSchema = z.discriminatedUnion('method', [
+  z.object({
+    method: z.literal('password'),
+    password: z.string().min(1).max(1024)
+  }).strict(),
+  z.object({
+    method: z.literal('totp'),
+    factorId: z.string().uuid(),
+    code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app')
+  }).strict(),
+  z.object({
+    method: z.literal('email'),
+    code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from the email')
+  }).strict()
+])
+
+export type StepUpRequest = z.infer<typeof stepUpRequestSchema>
+
+export interface StepUpGrant {
+  token: string
+  expiresAt: string
+}
+
+// `details` of a STEP_UP_REQUIRED error: the methods the user can step up with
+export interface StepUpRequiredDetails {
+  methods: StepUpMethod[]
+}
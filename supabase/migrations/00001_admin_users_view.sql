@@ -0,0 +1,34 @@
+-- =====================================================
+-- Admin users view
+-- =====================================================
+-- Joins user_roles with user_metadata so the admin users API
+-- can search, sort, paginate and count in a single query.
+-- Only the service role reads this view.
+-- =====================================================
+
+CREATE OR REPLACE VIEW public.admin_users_view
+WITH (security_invoker = true) AS
+SELECT
+  ur.id,
+  ur.user_id,
+  ur.invitation_id,
+  ur.email,
+  ur.role,
+  ur.status,
+  ur.invitation_sent_at,
+  ur.expires_at,
+  ur.created_by,
+  ur.created_at,
+  ur.updated_at,
+  -- Flattened for searching
+  um.display_name,
+  um.admin_notes,
+  CASE WHEN um.id IS NULL THEN NULL ELSE to_jsonb(um) END AS metadata
+FROM public.user_roles ur
+LEFT JOIN public.user_metadata um ON um.user_id = ur.user_id;
+
+REVOKE ALL ON public.admin_users_view FROM anon, authenticated;
+GRANT SELECT ON public.admin_users_view TO service_role;
+
+-- Supports the default sort (newest first)
+CREATE INDEX IF NOT EXISTS idx_user_roles_created_at ON public.user_roles(created_at DESC);
@@ -0,0 +1,67 @@
+-- =====================================================
+-- Rate limiting
+-- =====================================================
+-- Fixed-window counters used by api/_lib/rate-limit.ts when the
+-- Postgres store is selected. Keys are opaque (rule name plus a hash
+-- of the subject), so no email addresses or IPs are stored here.
+-- Only the service role touches this table.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  hits INTEGER NOT NULL DEFAULT 0,
+  reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_reset_at ON public.rate_limit_buckets(reset_at);
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.rate_limit_buckets FROM anon, authenticated;
+
+-- Record one hit against a key and return the running count for the
+-- current window. The upsert is a single statement, so concurrent
+-- requests never lose a hit.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+  p_key TEXT,
+  p_window_seconds INTEGER
+)
+RETURNS TABLE (hits INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  -- Expired buckets are swept occasionally rather than on every call
+  IF random() < 0.01 THEN
+    DELETE FROM public.rate_limit_buckets b WHERE b.reset_at < NOW();
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.rate_limit_buckets AS b (key, hits, reset_at)
+  VALUES (p_key, 1, NOW() + make_interval(secs => p_window_seconds))
+  ON CONFLICT (key) DO UPDATE
+  SET
+    hits = CASE WHEN b.reset_at <= NOW() THEN 1 ELSE b.hits + 1 END,
+    reset_at = CASE
+      WHEN b.reset_at <= NOW() THEN NOW() + make_interval(secs => p_window_seconds)
+      ELSE b.reset_at
+    END
+  RETURNING b.hits, b.reset_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER) TO service_role;
+
+-- Limits are "<max requests>/<window in seconds>". Admins can change
+-- them through the app settings API; an empty or invalid value falls
+-- back to the default in api/_lib/rate-limit.ts.
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('rate_limit_email_per_user', '30/3600', 'rate_limit', 'Emails one user can send per window', false),
+  ('rate_limit_email_per_ip', '60/3600', 'rate_limit', 'Emails that can be sent from one IP address per window', false),
+  ('rate_limit_email_per_recipient', '5/3600', 'rate_limit', 'Emails one recipient can receive per window', false),
+  ('rate_limit_invitation_per_user', '50/86400', 'rate_limit', 'Invitations one admin can create per window', false),
+  ('rate_limit_invitation_per_recipient', '3/86400', 'rate_limit', 'Invitations one email address can receive per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,38 @@
+-- =====================================================
+-- Health check helper
+-- =====================================================
+-- Used by GET /api/health/details to confirm that the tables
+-- and views the app relies on exist and have row level
+-- security enabled. Reads the catalogue only; no table data.
+-- Only the service role can call it.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.health_check_schema(p_relations TEXT[])
+RETURNS TABLE (
+  relation_name TEXT,
+  relation_exists BOOLEAN,
+  rls_enabled BOOLEAN,
+  policy_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  SELECT
+    r.name,
+    c.oid IS NOT NULL,
+    COALESCE(c.relrowsecurity, false),
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM pg_policies p
+      WHERE p.schemaname = 'public' AND p.tablename = r.name
+    )
+  FROM unnest(p_relations) AS r(name)
+  LEFT JOIN pg_class c
+    ON c.relname = r.name
+   AND c.relnamespace = 'public'::regnamespace;
+$$;
+
+REVOKE ALL ON FUNCTION public.health_check_schema(TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.health_check_schema(TEXT[]) TO service_role;
@@ -0,0 +1,28 @@
+-- =====================================================
+-- Idempotency keys
+-- =====================================================
+-- Stores the first successful response to a mutating API
+-- request sent with an Idempotency-Key header, so a retried
+-- or double-submitted request is answered from here instead
+-- of running again (see api/_lib/idempotency.ts).
+-- Rows expire after 24 hours. Only the service role touches
+-- this table.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  caller_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  -- Hash of method, route and body; a key may only be reused for the same request
+  request_fingerprint TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  PRIMARY KEY (caller_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.idempotency_keys FROM anon, authenticated;
@@ -0,0 +1,8 @@
+-- Origins allowed to call the API from a browser, in addition to the app's
+-- own host, VITE_APP_URL and CORS_ALLOWED_ORIGINS (see api/_lib/cors.ts).
+-- One origin per line, e.g. https://admin.example.com. Managed in Admin
+-- Settings; not public, so GET /api/app-settings does not expose it.
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('cors_allowed_origins', '', 'origin_list', 'Origins allowed to call the API from a browser, one per line', false)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,30 @@
+-- =====================================================
+-- Multi-factor authentication
+-- =====================================================
+-- TOTP factors themselves live in Supabase Auth (auth.mfa_factors).
+-- This adds one-time recovery codes for users who lose their
+-- authenticator, and the setting that makes MFA mandatory for
+-- admins (see api/_lib/mfa.ts).
+-- Codes are stored as hashes. Only the service role touches
+-- this table.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mfa_recovery_codes FROM anon, authenticated;
+
+-- Public so the client can send admins to the MFA challenge before
+-- calling admin endpoints; the API enforces it regardless.
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('mfa_required_for_admins', 'false', 'boolean', 'Require two-factor authentication (AAL2) for admin access', true),
+  ('rate_limit_mfa_recovery_per_user', '5/3600', 'rate_limit', 'Recovery code attempts one user can make per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,8 @@
+-- Passwordless sign-in (magic link or 6-digit email code) from the sign-in
+-- form. Public so the form knows whether to offer it. Supabase Auth sends
+-- both from the "Magic Link" email template, which should include
+-- {{ .ConfirmationURL }} and {{ .Token }} (see README).
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('passwordless_enabled', 'false', 'boolean', 'Allow signing in with an email link or one-time code instead of a password', true)
+ON CONFLICT (setting_key) DO NOTHING;
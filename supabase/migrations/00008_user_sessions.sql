@@ -0,0 +1,91 @@
+-- =====================================================
+-- Active sessions
+-- =====================================================
+-- Supabase Auth keeps sessions in auth.sessions. The app records the
+-- device, browser and IP of each one when it signs in, and refreshes
+-- last_seen_at while it is used (api/sessions, api/_lib/sessions.ts).
+-- Rows are keyed by the auth session id, so a session that ends in
+-- Supabase Auth (sign-out, expiry, revocation) drops out of the list.
+-- Only the service role touches this table.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.user_sessions (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  device TEXT,
+  browser TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON public.user_sessions(user_id);
+
+ALTER TABLE public.user_sessions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.user_sessions FROM anon, authenticated;
+
+-- Recorded sessions that still exist in Supabase Auth, most recently
+-- used first. Rows for sessions that have ended are removed on the way.
+CREATE OR REPLACE FUNCTION public.list_user_sessions(p_user_id UUID)
+RETURNS SETOF public.user_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+  DELETE FROM public.user_sessions us
+  WHERE us.user_id = p_user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM auth.sessions s
+      WHERE s.id = us.id AND (s.not_after IS NULL OR s.not_after > NOW())
+    );
+
+  RETURN QUERY
+  SELECT * FROM public.user_sessions us
+  WHERE us.user_id = p_user_id
+  ORDER BY us.last_seen_at DESC;
+END;
+$$;
+
+-- End sessions in Supabase Auth. Deleting an auth.sessions row also
+-- deletes its refresh tokens, and Supabase Auth rejects access tokens
+-- whose session no longer exists, so the API stops accepting them at
+-- once. With no ids every session of the user ends; p_keep_session_id
+-- spares one (the caller's, for "sign out other sessions").
+-- Returns the number of sessions ended.
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(
+  p_user_id UUID,
+  p_session_ids UUID[] DEFAULT NULL,
+  p_keep_session_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  v_revoked INTEGER;
+BEGIN
+  WITH revoked AS (
+    DELETE FROM auth.sessions s
+    WHERE s.user_id = p_user_id
+      AND (p_session_ids IS NULL OR s.id = ANY(p_session_ids))
+      AND (p_keep_session_id IS NULL OR s.id <> p_keep_session_id)
+    RETURNING s.id
+  )
+  SELECT COUNT(*) INTO v_revoked FROM revoked;
+
+  DELETE FROM public.user_sessions us
+  WHERE us.user_id = p_user_id
+    AND (p_session_ids IS NULL OR us.id = ANY(p_session_ids))
+    AND (p_keep_session_id IS NULL OR us.id <> p_keep_session_id);
+
+  RETURN v_revoked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.list_user_sessions(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_user_sessions(UUID) TO service_role;
+REVOKE ALL ON FUNCTION public.revoke_user_sessions(UUID, UUID[], UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(UUID, UUID[], UUID) TO service_role;
@@ -0,0 +1,124 @@
+-- =====================================================
+-- User suspension
+-- =====================================================
+-- Makes 'suspended' a real user_roles status. A suspended user can
+-- still sign in and read their own user_roles row (to be shown the
+-- reason), but RLS denies them everything else and the API refuses
+-- them (api/_lib/auth.ts). A suspension with suspended_until ends by
+-- itself once that time has passed.
+-- =====================================================
+
+ALTER TABLE public.user_roles DROP CONSTRAINT IF EXISTS user_roles_status_check;
+ALTER TABLE public.user_roles ADD CONSTRAINT user_roles_status_check
+  CHECK (status IN ('active', 'inactive', 'invited', 'cancelled', 'suspended'));
+
+ALTER TABLE public.user_roles
+  ADD COLUMN IF NOT EXISTS suspended_reason TEXT,
+  ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- True while the calling user is suspended. Used by the RLS policies
+-- below, so it reads user_roles with the definer's rights; it only
+-- answers for auth.uid(), so nobody can look up other users with it.
+CREATE OR REPLACE FUNCTION public.is_suspended()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.status = 'suspended'
+      AND (ur.suspended_until IS NULL OR ur.suspended_until > NOW())
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_suspended() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_suspended() TO authenticated, service_role;
+
+-- Reactivate users whose suspension has run out and return how many.
+-- The API also does this for a user on their next request; schedule it
+-- (e.g. with pg_cron) to keep the admin user list current as well.
+CREATE OR REPLACE FUNCTION public.lift_expired_suspensions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lifted INTEGER;
+BEGIN
+  UPDATE public.user_roles
+  SET
+    status = 'active',
+    suspended_reason = NULL,
+    suspended_until = NULL,
+    suspended_at = NULL,
+    suspended_by = NULL,
+    updated_at = NOW()
+  WHERE status = 'suspended' AND suspended_until <= NOW();
+
+  GET DIAGNOSTICS v_lifted = ROW_COUNT;
+  RETURN v_lifted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.lift_expired_suspensions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.lift_expired_suspensions() TO service_role;
+
+-- Restrictive policies are ANDed with the existing permissive ones, so
+-- they take access away without widening it anywhere.
+DROP POLICY IF EXISTS "Suspended users have no access" ON public.profiles;
+CREATE POLICY "Suspended users have no access" ON public.profiles
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.is_suspended()) WITH CHECK (NOT public.is_suspended());
+
+DROP POLICY IF EXISTS "Suspended users have no access" ON public.user_api_keys;
+CREATE POLICY "Suspended users have no access" ON public.user_api_keys
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.is_suspended()) WITH CHECK (NOT public.is_suspended());
+
+DROP POLICY IF EXISTS "Suspended users have no access" ON public.user_metadata;
+CREATE POLICY "Suspended users have no access" ON public.user_metadata
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.is_suspended()) WITH CHECK (NOT public.is_suspended());
+
+-- Public settings (app name, logo) stay readable for the suspended screen
+DROP POLICY IF EXISTS "Suspended users only see public settings" ON public.app_settings;
+CREATE POLICY "Suspended users only see public settings" ON public.app_settings
+  AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (is_public OR NOT public.is_suspended());
+
+-- user_roles is left readable: its own row is how a suspended user
+-- learns the reason. Writes only happen through the service role.
+
+-- Recreated with the suspension columns at the end (CREATE OR REPLACE
+-- VIEW can only append columns)
+CREATE OR REPLACE VIEW public.admin_users_view
+WITH (security_invoker = true) AS
+SELECT
+  ur.id,
+  ur.user_id,
+  ur.invitation_id,
+  ur.email,
+  ur.role,
+  ur.status,
+  ur.invitation_sent_at,
+  ur.expires_at,
+  ur.created_by,
+  ur.created_at,
+  ur.updated_at,
+  um.display_name,
+  um.admin_notes,
+  CASE WHEN um.id IS NULL THEN NULL ELSE to_jsonb(um) END AS metadata,
+  ur.suspended_reason,
+  ur.suspended_until,
+  ur.suspended_at
+FROM public.user_roles ur
+LEFT JOIN public.user_metadata um ON um.user_id = ur.user_id;
+
+REVOKE ALL ON public.admin_users_view FROM anon, authenticated;
+GRANT SELECT ON public.admin_users_view TO service_role;
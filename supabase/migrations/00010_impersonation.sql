@@ -0,0 +1,32 @@
+-- =====================================================
+-- Admin impersonation ("view as user")
+-- =====================================================
+-- One row per impersonation session (api/_lib/impersonation.ts).
+-- Sessions are time-limited and read-only unless the admin allowed
+-- changes when starting them. An admin has at most one open session.
+-- Starts, stops and every request made while impersonating are
+-- written to admin_audit_log.
+-- Only the service role touches this table.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.impersonation_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_email TEXT NOT NULL,
+  read_only BOOLEAN NOT NULL DEFAULT true,
+  reason TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  -- 'stopped', 'expired' or 'replaced' (a new session was started)
+  end_reason TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_impersonation_sessions_open
+  ON public.impersonation_sessions(admin_user_id) WHERE ended_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_target_user_id
+  ON public.impersonation_sessions(target_user_id);
+
+ALTER TABLE public.impersonation_sessions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.impersonation_sessions FROM anon, authenticated;
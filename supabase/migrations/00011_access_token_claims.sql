@@ -0,0 +1,103 @@
+-- =====================================================
+-- Role and status claims in access tokens
+-- =====================================================
+-- public.custom_access_token_hook adds `user_role` and `user_status`
+-- claims (from user_roles) to every access token Supabase Auth issues.
+-- The client reads permissions from them, and RLS policies use them
+-- through public.is_admin() instead of querying user_roles, which
+-- would recurse from policies on user_roles itself.
+--
+-- Enable the hook after applying this migration: Authentication →
+-- Hooks → Customize Access Token (JWT) Claims →
+-- public.custom_access_token_hook.
+--
+-- Claims change when a token is issued. user_roles is added to the
+-- realtime publication so a signed-in user's client hears about
+-- changes to its row and refreshes its token straight away.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_claims JSONB := COALESCE(event->'claims', '{}'::JSONB);
+  v_role TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT ur.role, ur.status INTO v_role, v_status
+  FROM public.user_roles ur
+  WHERE ur.user_id = (event->>'user_id')::UUID;
+
+  -- `role` itself is taken: PostgREST switches to that database role
+  v_claims := jsonb_set(v_claims, '{user_role}', COALESCE(to_jsonb(v_role), 'null'::JSONB));
+  v_claims := jsonb_set(v_claims, '{user_status}', COALESCE(to_jsonb(v_status), 'null'::JSONB));
+
+  RETURN jsonb_set(event, '{claims}', v_claims);
+END;
+$$;
+
+-- Supabase Auth runs the hook as supabase_auth_admin
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook(JSONB) TO supabase_auth_admin;
+REVOKE ALL ON FUNCTION public.custom_access_token_hook(JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT SELECT ON public.user_roles TO supabase_auth_admin;
+DROP POLICY IF EXISTS "Auth admin can read user roles" ON public.user_roles;
+CREATE POLICY "Auth admin can read user roles" ON public.user_roles
+  FOR SELECT TO supabase_auth_admin USING (true);
+
+-- Claims of the request's access token. NULL for tokens issued without
+-- the hook, so the helpers below deny rather than guess.
+CREATE OR REPLACE FUNCTION public.jwt_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth.jwt() ->> 'user_role';
+$$;
+
+CREATE OR REPLACE FUNCTION public.jwt_user_status()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT auth.jwt() ->> 'user_status';
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(public.jwt_user_role() = 'admin' AND public.jwt_user_status() = 'active', false);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.jwt_user_role() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.jwt_user_status() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated, service_role;
+
+-- Admin reads that used to need the service role (the admin dashboard's
+-- audit log, roles of other users)
+DROP POLICY IF EXISTS "Admins can view all roles" ON public.user_roles;
+CREATE POLICY "Admins can view all roles" ON public.user_roles
+  FOR SELECT TO authenticated USING (public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can view audit logs" ON public.admin_audit_log;
+CREATE POLICY "Admins can view audit logs" ON public.admin_audit_log
+  FOR SELECT TO authenticated USING (public.is_admin());
+
+-- Realtime changes on a user's own row (RLS applies to subscribers)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'user_roles'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.user_roles;
+  END IF;
+END;
+$$;
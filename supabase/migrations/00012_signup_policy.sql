@@ -0,0 +1,156 @@
+-- =====================================================
+-- Sign-up policy
+-- =====================================================
+-- Decides what happens to accounts created by signing up (email and
+-- password, OAuth or magic link), set in Admin Settings:
+--   open             - every sign-up gets an active 'user' role (the
+--                      default, as before the policy existed)
+--   invite_only      - only invited addresses can sign up
+--   domain_allowlist - only addresses at signup_allowed_domains
+--   approval         - sign-ups are kept 'pending' until an admin
+--                      approves them from the approval queue
+-- Accepting an unexpired invitation always works; an expired one counts
+-- as no invitation, and is dropped when the policy lets the sign-up
+-- through. Refused sign-ups raise an error in handle_new_user(), which
+-- rolls back the new auth user.
+-- Users created with the Admin API and app_metadata.created_by_admin
+-- (scripts/create-test-users.js) are not subject to the policy.
+--
+-- A pending user can sign in but, like a suspended one, only sees a
+-- waiting screen: RLS denies them everything else and the API refuses
+-- them with ACCOUNT_PENDING.
+-- =====================================================
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('signup_policy', 'open', 'string', 'Who can sign up: open, invite_only, domain_allowlist or approval', true),
+  ('signup_allowed_domains', '', 'string', 'Email domains allowed to sign up under the domain_allowlist policy, one per line', true)
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE public.user_roles DROP CONSTRAINT IF EXISTS user_roles_status_check;
+ALTER TABLE public.user_roles ADD CONSTRAINT user_roles_status_check
+  CHECK (status IN ('active', 'inactive', 'invited', 'cancelled', 'suspended', 'pending'));
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+DECLARE
+  v_policy TEXT;
+  v_domains TEXT[];
+  v_status TEXT := 'active';
+BEGIN
+  -- Create profile
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (new.id, new.email, new.raw_user_meta_data->>'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  
+  -- Handle user role - either update existing invitation or create new record
+  -- Check if there's an unexpired invitation for this email
+  IF EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE email = new.email AND status = 'invited'
+      AND (expires_at IS NULL OR expires_at > NOW())
+  ) THEN
+    -- Update the existing invitation record with the new user_id
+    UPDATE public.user_roles 
+    SET 
+      user_id = new.id,
+      status = 'active',
+      updated_at = NOW()
+    WHERE email = new.email AND status = 'invited'
+      AND (expires_at IS NULL OR expires_at > NOW());
+    
+    -- Auto-confirm email for invitation signups (optional - remove if email confirmation is disabled)
+    UPDATE auth.users 
+    SET 
+      email_confirmed_at = NOW(),
+      confirmed_at = NOW(),
+      updated_at = NOW()
+    WHERE id = new.id;
+  ELSE
+    -- Direct sign-ups follow the sign-up policy
+    IF COALESCE(new.raw_app_meta_data->>'created_by_admin', 'false') <> 'true' THEN
+      SELECT setting_value INTO v_policy
+      FROM public.app_settings WHERE setting_key = 'signup_policy';
+      v_policy := COALESCE(NULLIF(v_policy, ''), 'open');
+
+      IF v_policy = 'invite_only' THEN
+        IF EXISTS (SELECT 1 FROM public.user_roles WHERE email = new.email AND status = 'invited') THEN
+          RAISE EXCEPTION 'This invitation has expired'
+            USING ERRCODE = 'insufficient_privilege';
+        END IF;
+        RAISE EXCEPTION 'Sign-ups are by invitation only'
+          USING ERRCODE = 'insufficient_privilege';
+      ELSIF v_policy = 'domain_allowlist' THEN
+        SELECT regexp_split_to_array(lower(trim(COALESCE(setting_value, ''))), '[\s,]+') INTO v_domains
+        FROM public.app_settings WHERE setting_key = 'signup_allowed_domains';
+
+        IF v_domains IS NULL
+          OR NOT (lower(split_part(new.email, '@', 2)) = ANY (v_domains)) THEN
+          RAISE EXCEPTION 'Sign-ups are limited to allowed email domains'
+            USING ERRCODE = 'insufficient_privilege';
+        END IF;
+      ELSIF v_policy = 'approval' THEN
+        v_status := 'pending';
+      ELSIF v_policy <> 'open' THEN
+        -- Unknown values fail closed
+        RAISE EXCEPTION 'Sign-ups are not allowed'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    END IF;
+
+    -- An expired invitation grants nothing, and would trip the unique email
+    DELETE FROM public.user_roles
+    WHERE email = new.email AND status = 'invited' AND user_id IS NULL;
+
+    INSERT INTO public.user_roles (user_id, email, role, status)
+    VALUES (new.id, new.email, 'user', v_status)
+    ON CONFLICT (user_id) DO NOTHING;
+  END IF;
+  
+  -- Create empty user metadata
+  INSERT INTO public.user_metadata (user_id)
+  VALUES (new.id)
+  ON CONFLICT (user_id) DO NOTHING;
+  
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- True while the calling user's sign-up waits for approval. Used by the
+-- RLS policies below, so it reads user_roles with the definer's rights,
+-- and only for auth.uid().
+CREATE OR REPLACE FUNCTION public.is_pending_approval()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid() AND ur.status = 'pending'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_pending_approval() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_pending_approval() TO authenticated, service_role;
+
+DROP POLICY IF EXISTS "Pending users have no access" ON public.profiles;
+CREATE POLICY "Pending users have no access" ON public.profiles
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.is_pending_approval()) WITH CHECK (NOT public.is_pending_approval());
+
+DROP POLICY IF EXISTS "Pending users have no access" ON public.user_api_keys;
+CREATE POLICY "Pending users have no access" ON public.user_api_keys
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.is_pending_approval()) WITH CHECK (NOT public.is_pending_approval());
+
+DROP POLICY IF EXISTS "Pending users have no access" ON public.user_metadata;
+CREATE POLICY "Pending users have no access" ON public.user_metadata
+  AS RESTRICTIVE FOR ALL TO authenticated
+  USING (NOT public.is_pending_approval()) WITH CHECK (NOT public.is_pending_approval());
+
+DROP POLICY IF EXISTS "Pending users only see public settings" ON public.app_settings;
+CREATE POLICY "Pending users only see public settings" ON public.app_settings
+  AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (is_public OR NOT public.is_pending_approval());
@@ -0,0 +1,34 @@
+-- =====================================================
+-- Password policy
+-- =====================================================
+-- password_policy holds the rules set in Admin Settings as JSON (see
+-- src/shared/password-policy.ts): minimum length, required character
+-- classes, how many previous passwords may not be reused and whether
+-- passwords from known breaches are refused. It is public so the
+-- sign-up and update-password forms can show the rules.
+--
+-- password_history keeps salted scrypt hashes of each user's recent
+-- passwords, written by POST /api/password/change. Only the service
+-- role reads or writes it.
+-- =====================================================
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('password_policy',
+   '{"minLength":8,"requireLowercase":false,"requireUppercase":false,"requireNumber":false,"requireSymbol":false,"historySize":0,"breachCheck":false}',
+   'json', 'Password rules: length, character classes, reuse and breach check', true),
+  ('rate_limit_password_check_per_ip', '60/3600', 'rate_limit', 'Password checks one IP address can make per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.password_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  password_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_created
+  ON public.password_history (user_id, created_at DESC);
+
+ALTER TABLE public.password_history ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.password_history FROM anon, authenticated;
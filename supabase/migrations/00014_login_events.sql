@@ -0,0 +1,123 @@
+-- =====================================================
+-- Sign-in history and account lockout
+-- =====================================================
+-- login_events records every sign-in: failed password attempts (from
+-- POST /api/auth/sign-in, including ones refused during a lockout) and
+-- successful sign-ins of any kind (when the new session first reports
+-- to POST /api/sessions). Events are keyed by email so failures count
+-- against an address whether or not it has an account.
+--
+-- login_stats holds the last_login and login_count the admin UI
+-- already expected in user_metadata; record_login_event() keeps them
+-- current. They are a table of their own because users can update their
+-- user_metadata row. admin_users_view merges them into its metadata.
+--
+-- The lockout policy is JSON in app_settings (not public):
+--   {"maxFailures":5,"windowMinutes":15,"lockoutMinutes":15}
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.login_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  method TEXT NOT NULL,
+  failure_reason TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  device TEXT,
+  browser TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_events_email_created
+  ON public.login_events (email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_events_user_created
+  ON public.login_events (user_id, created_at DESC);
+
+ALTER TABLE public.login_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.login_events FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.login_stats (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_login TIMESTAMPTZ,
+  login_count INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.login_stats ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.login_stats FROM anon, authenticated;
+
+-- Insert an event and, for a success, bump the user's sign-in counters
+CREATE OR REPLACE FUNCTION public.record_login_event(
+  p_user_id UUID,
+  p_email TEXT,
+  p_success BOOLEAN,
+  p_method TEXT,
+  p_failure_reason TEXT DEFAULT NULL,
+  p_ip_address TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL,
+  p_device TEXT DEFAULT NULL,
+  p_browser TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.login_events
+    (user_id, email, success, method, failure_reason, ip_address, user_agent, device, browser)
+  VALUES
+    (p_user_id, lower(p_email), p_success, p_method, p_failure_reason, p_ip_address, p_user_agent, p_device, p_browser);
+
+  IF p_success AND p_user_id IS NOT NULL THEN
+    INSERT INTO public.login_stats AS s (user_id, last_login, login_count)
+    VALUES (p_user_id, NOW(), 1)
+    ON CONFLICT (user_id) DO UPDATE
+    SET last_login = NOW(),
+        login_count = s.login_count + 1;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_login_event(UUID, TEXT, BOOLEAN, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_login_event(UUID, TEXT, BOOLEAN, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- Same columns as in 00009_user_suspension.sql; only the metadata
+-- expression changes
+CREATE OR REPLACE VIEW public.admin_users_view
+WITH (security_invoker = true) AS
+SELECT
+  ur.id,
+  ur.user_id,
+  ur.invitation_id,
+  ur.email,
+  ur.role,
+  ur.status,
+  ur.invitation_sent_at,
+  ur.expires_at,
+  ur.created_by,
+  ur.created_at,
+  ur.updated_at,
+  um.display_name,
+  um.admin_notes,
+  CASE WHEN um.id IS NULL THEN NULL ELSE to_jsonb(um) || jsonb_build_object(
+    'last_login', ls.last_login,
+    'login_count', COALESCE(ls.login_count, 0)
+  ) END AS metadata,
+  ur.suspended_reason,
+  ur.suspended_until,
+  ur.suspended_at
+FROM public.user_roles ur
+LEFT JOIN public.user_metadata um ON um.user_id = ur.user_id
+LEFT JOIN public.login_stats ls ON ls.user_id = ur.user_id;
+
+REVOKE ALL ON public.admin_users_view FROM anon, authenticated;
+GRANT SELECT ON public.admin_users_view TO service_role;
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('login_lockout_policy', '{"maxFailures":5,"windowMinutes":15,"lockoutMinutes":15}', 'json',
+   'Failed password sign-ins within the window that lock an account, and for how long', false),
+  ('rate_limit_sign_in_per_ip', '30/900', 'rate_limit', 'Password sign-in attempts one IP address can make per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,131 @@
+-- =====================================================
+-- Email address changes
+-- =====================================================
+-- Users change their address from the profile page with
+-- supabase.auth.updateUser({ email }). With "Secure email change"
+-- enabled in Supabase Auth, the change is only applied once it has
+-- been confirmed from both the current and the new address.
+--
+-- Two triggers on auth.users keep the app's copies of the address
+-- in step, inside the same transaction as the change itself:
+--   guard_email_change - refuses an address that already belongs to
+--                        another account or a pending invitation,
+--                        both when the change is requested and when
+--                        it is applied
+--   sync_user_email    - copies the new address to profiles.email
+--                        and user_roles.email
+--
+-- profiles.email is only written by sync_user_email(): users keep
+-- UPDATE on the other profile columns, so the address cannot be
+-- changed without the confirmations above.
+-- =====================================================
+
+-- True when the address belongs to an account other than p_user_id, or
+-- to an invitation that has not been accepted or cancelled
+CREATE OR REPLACE FUNCTION public.email_in_use(p_email TEXT, p_user_id UUID DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE lower(email) = lower(p_email)
+      AND id IS DISTINCT FROM p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE lower(email) = lower(p_email)
+      AND user_id IS DISTINCT FROM p_user_id
+      AND status <> 'cancelled'
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.email_in_use(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.email_in_use(TEXT, UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.guard_email_change()
+RETURNS trigger AS $$
+BEGIN
+  -- email_change holds the requested address until it is confirmed
+  IF COALESCE(new.email_change, '') <> ''
+    AND new.email_change IS DISTINCT FROM old.email_change
+    AND public.email_in_use(new.email_change, new.id) THEN
+    RAISE EXCEPTION 'Email address is already in use'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  IF new.email IS DISTINCT FROM old.email
+    AND new.email IS NOT NULL
+    AND public.email_in_use(new.email, new.id) THEN
+    RAISE EXCEPTION 'Email address is already in use'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.sync_user_email()
+RETURNS trigger AS $$
+BEGIN
+  -- Cancelled invitations for the address would trip user_roles' unique email
+  DELETE FROM public.user_roles
+  WHERE lower(email) = lower(new.email)
+    AND status = 'cancelled'
+    AND user_id IS DISTINCT FROM new.id;
+
+  UPDATE public.profiles
+  SET email = new.email,
+      updated_at = NOW()
+  WHERE id = new.id;
+
+  UPDATE public.user_roles
+  SET email = new.email,
+      updated_at = NOW()
+  WHERE user_id = new.id;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_change_guard ON auth.users;
+CREATE TRIGGER on_auth_user_email_change_guard
+  BEFORE UPDATE OF email, email_change ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.guard_email_change();
+
+DROP TRIGGER IF EXISTS on_auth_user_email_changed ON auth.users;
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (new.email IS DISTINCT FROM old.email)
+  EXECUTE FUNCTION public.sync_user_email();
+
+-- "Users can update their own profile" (00000_initial_schema.sql) covers
+-- whole rows; column privileges take email out of it
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (full_name, avatar_url) ON public.profiles TO authenticated;
+
+-- Bring copies that have already drifted back in line
+UPDATE public.profiles p
+SET email = u.email,
+    updated_at = NOW()
+FROM auth.users u
+WHERE p.id = u.id
+  AND p.email IS DISTINCT FROM u.email;
+
+UPDATE public.user_roles r
+SET email = u.email,
+    updated_at = NOW()
+FROM auth.users u
+WHERE r.user_id = u.id
+  AND r.email IS DISTINCT FROM u.email
+  AND NOT EXISTS (
+    SELECT 1 FROM public.user_roles other
+    WHERE other.email = u.email AND other.id <> r.id
+  );
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('rate_limit_email_change_per_user', '5/3600', 'rate_limit', 'Email address changes one user can start per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,32 @@
+-- =====================================================
+-- Data export and account deletion
+-- =====================================================
+-- Users can download their data (GET /api/account/export) and ask
+-- for their account to be deleted from the Privacy section of the
+-- profile page. A deletion request waits out a grace period
+-- (account_deletion_grace_days, public so the page can show it)
+-- during which the user can cancel it. Due requests are carried out
+-- by GET /api/cron/account-deletions, which deletes the auth user;
+-- profiles, user_roles, user_metadata, user_api_keys and every other
+-- table keyed on auth.users cascade away with it.
+--
+-- Only the service role touches account_deletion_requests.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.account_deletion_requests (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  scheduled_for TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_scheduled
+  ON public.account_deletion_requests (scheduled_for);
+
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.account_deletion_requests FROM anon, authenticated;
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('account_deletion_grace_days', '14', 'number', 'Days between a deletion request and the account being deleted', true),
+  ('rate_limit_data_export_per_user', '5/3600', 'rate_limit', 'Data exports one user can download per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
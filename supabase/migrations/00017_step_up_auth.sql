@@ -0,0 +1,24 @@
+-- =====================================================
+-- Step-up re-authentication
+-- =====================================================
+-- Deleting users, making someone an admin, changing app settings and
+-- revealing stored API keys need a recent re-authentication with the
+-- user's password or an authenticator code (POST /api/auth/step-up).
+-- Step-up tokens are signed, short-lived and never stored, so the
+-- only new setting is the rate limit on attempts.
+--
+-- Stored API keys could be read in full by any code running with the
+-- user's session. The browser now only reads them back masked through
+-- GET /api/api-keys, so the signed-in role loses SELECT on the secret
+-- columns. It keeps SELECT on the rest, which row level security and
+-- the settings page's upserts need, and can still write every column.
+-- =====================================================
+
+REVOKE SELECT ON public.user_api_keys FROM anon, authenticated;
+GRANT SELECT (id, user_id, key_name, sender_name, sender_email, sender_domain, created_at, updated_at)
+  ON public.user_api_keys TO authenticated;
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('rate_limit_step_up_per_user', '10/900', 'rate_limit', 'Re-authentication attempts one user can make per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
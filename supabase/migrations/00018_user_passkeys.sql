@@ -0,0 +1,53 @@
+-- =====================================================
+-- Passkeys (WebAuthn)
+-- =====================================================
+-- Users register passkeys from the Passkeys section of the profile
+-- page (POST /api/passkeys/options, then POST /api/passkeys) and sign
+-- in with one from the sign-in page (POST /api/auth/passkey/options,
+-- then POST /api/auth/passkey). user_passkeys holds each credential's
+-- public key and signature counter; nothing secret is stored.
+--
+-- webauthn_challenges holds the challenge of each ceremony in progress.
+-- A challenge is deleted as soon as a response is checked against it,
+-- so a signed response cannot be replayed, and expires after 5 minutes.
+--
+-- Only the service role touches either table.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.user_passkeys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Base64url credential id and COSE public key
+  credential_id TEXT NOT NULL UNIQUE,
+  public_key TEXT NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  transports TEXT[] NOT NULL DEFAULT '{}',
+  -- 'singleDevice' or 'multiDevice' (synced, e.g. iCloud Keychain)
+  device_type TEXT NOT NULL,
+  backed_up BOOLEAN NOT NULL DEFAULT false,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_passkeys_user
+  ON public.user_passkeys (user_id, created_at);
+
+ALTER TABLE public.user_passkeys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.user_passkeys FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.webauthn_challenges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- 'registration' or 'authentication'
+  ceremony TEXT NOT NULL CHECK (ceremony IN ('registration', 'authentication')),
+  -- Set for registrations; sign-ins do not know the user yet
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  challenge TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires
+  ON public.webauthn_challenges (expires_at);
+
+ALTER TABLE public.webauthn_challenges ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.webauthn_challenges FROM anon, authenticated;
@@ -0,0 +1,24 @@
+-- =====================================================
+-- CAPTCHA
+-- =====================================================
+-- Sign-up, password sign-in and password reset requests now go through
+-- the API (POST /api/auth/sign-up, /api/auth/sign-in and
+-- /api/password/reset), which checks a CAPTCHA token first. Admin
+-- Settings chooses the provider:
+--   none      - no CAPTCHA (the default)
+--   hcaptcha  - hCaptcha, secret in HCAPTCHA_SECRET_KEY
+--   turnstile - Cloudflare Turnstile, secret in TURNSTILE_SECRET_KEY
+--   test      - a local checkbox with a fixed token, for development
+--               and tests; refused in production
+-- The provider and its site key are public so the forms can render the
+-- widget. Secrets are never stored in the database.
+-- =====================================================
+
+INSERT INTO app_settings (setting_key, setting_value, setting_type, description, is_public)
+VALUES
+  ('captcha_provider', 'none', 'string', 'CAPTCHA on sign-up, sign-in and password reset: none, hcaptcha, turnstile or test', true),
+  ('captcha_site_key', '', 'string', 'Site key of the hCaptcha or Turnstile widget', true),
+  ('rate_limit_sign_up_per_ip', '10/3600', 'rate_limit', 'Sign-ups one IP address can make per window', false),
+  ('rate_limit_password_reset_per_ip', '10/3600', 'rate_limit', 'Password reset emails one IP address can request per window', false),
+  ('rate_limit_password_reset_per_recipient', '3/3600', 'rate_limit', 'Password reset emails one address can receive per window', false)
+ON CONFLICT (setting_key) DO NOTHING;
@@ -0,0 +1,82 @@
+-- =====================================================
+-- Passwordless sign-in switch enforced by Supabase Auth
+-- =====================================================
+-- `passwordless_enabled` (00007_passwordless.sql) used to hide the
+-- email link / code option in the sign-in form only; Supabase Auth
+-- still accepted codes requested with the anon key. The access token
+-- hook from 00011_access_token_claims.sql now refuses to issue a
+-- token for a magic link or email code sign-in while the setting is
+-- off. Sign-up confirmations, invitations and password reset links
+-- are different sign-in methods and keep working.
+--
+-- Passkey sign-ins (api/_lib/passkeys.ts) and step-up email codes
+-- (api/_lib/step-up.ts) are exchanged for a session through an email
+-- token by the API itself. It stores a grant in sign_in_grants just
+-- before the exchange, and the hook lets an email sign-in through when
+-- it can take a live grant for the user, whatever the setting.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.sign_in_grants (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE public.sign_in_grants ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.sign_in_grants FROM anon, authenticated;
+
+GRANT SELECT, DELETE ON public.sign_in_grants TO supabase_auth_admin;
+DROP POLICY IF EXISTS "Auth admin can take sign-in grants" ON public.sign_in_grants;
+CREATE POLICY "Auth admin can take sign-in grants" ON public.sign_in_grants
+  FOR ALL TO supabase_auth_admin USING (true);
+
+GRANT SELECT ON public.app_settings TO supabase_auth_admin;
+DROP POLICY IF EXISTS "Auth admin can read the passwordless setting" ON public.app_settings;
+CREATE POLICY "Auth admin can read the passwordless setting" ON public.app_settings
+  FOR SELECT TO supabase_auth_admin USING (setting_key = 'passwordless_enabled');
+
+-- No longer STABLE: taking a grant deletes it
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_claims JSONB := COALESCE(event->'claims', '{}'::JSONB);
+  v_role TEXT;
+  v_status TEXT;
+  v_grant_expires_at TIMESTAMPTZ;
+BEGIN
+  IF event->>'authentication_method' IN ('magiclink', 'otp') THEN
+    DELETE FROM public.sign_in_grants g
+    WHERE g.user_id = v_user_id
+    RETURNING g.expires_at INTO v_grant_expires_at;
+
+    IF (v_grant_expires_at IS NULL OR v_grant_expires_at <= NOW())
+      AND COALESCE(
+        (SELECT s.setting_value FROM public.app_settings s WHERE s.setting_key = 'passwordless_enabled'),
+        'false'
+      ) <> 'true'
+    THEN
+      RETURN jsonb_build_object(
+        'error', jsonb_build_object(
+          'http_code', 403,
+          'message', 'Signing in with an email link or code is turned off'
+        )
+      );
+    END IF;
+  END IF;
+
+  SELECT ur.role, ur.status INTO v_role, v_status
+  FROM public.user_roles ur
+  WHERE ur.user_id = v_user_id;
+
+  -- `role` itself is taken: PostgREST switches to that database role
+  v_claims := jsonb_set(v_claims, '{user_role}', COALESCE(to_jsonb(v_role), 'null'::JSONB));
+  v_claims := jsonb_set(v_claims, '{user_status}', COALESCE(to_jsonb(v_status), 'null'::JSONB));
+
+  RETURN jsonb_set(event, '{claims}', v_claims);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook(JSONB) TO supabase_auth_admin;
+REVOKE ALL ON FUNCTION public.custom_access_token_hook(JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,160 @@
+-- =====================================================
+-- Sign-in lockout enforced by Supabase Auth
+-- =====================================================
+-- The lockout from 00014_login_events.sql was only checked by the API,
+-- so password sign-ins sent straight to Supabase Auth with the anon key
+-- were neither counted nor refused. public.password_verification_hook
+-- runs inside Supabase Auth on every password check: it refuses the
+-- sign-in while the address is locked and records wrong passwords in
+-- login_events, so every path counts towards the same lockout.
+--
+-- Enable the hook after applying this migration: Authentication →
+-- Hooks → Password Verification Attempt →
+-- public.password_verification_hook.
+--
+-- The hook does not know the caller's IP address or browser. When the
+-- API records the same failure or refusal a moment later,
+-- record_login_event() fills those in on the hook's row instead of
+-- adding a second one, so a wrong password is counted once either way.
+-- =====================================================
+
+GRANT SELECT, INSERT ON public.login_events TO supabase_auth_admin;
+DROP POLICY IF EXISTS "Auth admin can read sign-in events" ON public.login_events;
+CREATE POLICY "Auth admin can read sign-in events" ON public.login_events
+  FOR SELECT TO supabase_auth_admin USING (true);
+DROP POLICY IF EXISTS "Auth admin can record sign-in events" ON public.login_events;
+CREATE POLICY "Auth admin can record sign-in events" ON public.login_events
+  FOR INSERT TO supabase_auth_admin WITH CHECK (true);
+
+GRANT SELECT ON public.app_settings TO supabase_auth_admin;
+DROP POLICY IF EXISTS "Auth admin can read the lockout policy" ON public.app_settings;
+CREATE POLICY "Auth admin can read the lockout policy" ON public.app_settings
+  FOR SELECT TO supabase_auth_admin USING (setting_key = 'login_lockout_policy');
+
+-- Same rule as getLockedUntil() in api/_lib/login-events.ts: locked once
+-- the last maxFailures attempts within the window all failed, until
+-- lockoutMinutes after the latest of them
+CREATE OR REPLACE FUNCTION public.password_verification_hook(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_user_id UUID := (event->>'user_id')::UUID;
+  v_email TEXT;
+  v_policy JSONB;
+  v_max_failures INTEGER;
+  v_window_minutes INTEGER;
+  v_lockout_minutes INTEGER;
+  v_attempts INTEGER;
+  v_any_success BOOLEAN;
+  v_latest TIMESTAMPTZ;
+BEGIN
+  SELECT lower(u.email) INTO v_email FROM auth.users u WHERE u.id = v_user_id;
+  IF v_email IS NULL THEN
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  SELECT s.setting_value::JSONB INTO v_policy
+  FROM public.app_settings s WHERE s.setting_key = 'login_lockout_policy';
+  v_max_failures := COALESCE((v_policy->>'maxFailures')::INTEGER, 5);
+  v_window_minutes := COALESCE((v_policy->>'windowMinutes')::INTEGER, 15);
+  v_lockout_minutes := COALESCE((v_policy->>'lockoutMinutes')::INTEGER, 15);
+
+  SELECT COUNT(*), COALESCE(bool_or(recent.success), false), max(recent.created_at)
+  INTO v_attempts, v_any_success, v_latest
+  FROM (
+    SELECT e.success, e.created_at
+    FROM public.login_events e
+    WHERE e.email = v_email
+      AND e.created_at >= NOW() - make_interval(mins => v_window_minutes)
+      AND e.failure_reason IS DISTINCT FROM 'locked'
+    ORDER BY e.created_at DESC
+    LIMIT v_max_failures
+  ) recent;
+
+  IF v_attempts >= v_max_failures
+    AND NOT v_any_success
+    AND v_latest + make_interval(mins => v_lockout_minutes) > NOW()
+  THEN
+    INSERT INTO public.login_events (user_id, email, success, method, failure_reason)
+    VALUES (v_user_id, v_email, false, 'password', 'locked');
+
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Too many failed sign-ins. Try again later.',
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF NOT COALESCE((event->>'valid')::BOOLEAN, false) THEN
+    INSERT INTO public.login_events (user_id, email, success, method, failure_reason)
+    VALUES (v_user_id, v_email, false, 'password', 'invalid_credentials');
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.password_verification_hook(JSONB) TO supabase_auth_admin;
+REVOKE ALL ON FUNCTION public.password_verification_hook(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- As in 00014_login_events.sql, except that a password failure first
+-- takes over the row the hook recorded for it: a refusal during a lockout
+-- the hook's 'locked' row, any other failure its wrong-password row
+CREATE OR REPLACE FUNCTION public.record_login_event(
+  p_user_id UUID,
+  p_email TEXT,
+  p_success BOOLEAN,
+  p_method TEXT,
+  p_failure_reason TEXT DEFAULT NULL,
+  p_ip_address TEXT DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL,
+  p_device TEXT DEFAULT NULL,
+  p_browser TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT p_success AND p_user_id IS NOT NULL AND p_method = 'password' THEN
+    UPDATE public.login_events e
+    SET failure_reason = COALESCE(p_failure_reason, e.failure_reason),
+        ip_address = p_ip_address,
+        user_agent = p_user_agent,
+        device = p_device,
+        browser = p_browser
+    WHERE e.id = (
+      SELECT h.id FROM public.login_events h
+      WHERE h.user_id = p_user_id
+        AND NOT h.success
+        AND h.failure_reason = CASE WHEN p_failure_reason = 'locked' THEN 'locked' ELSE 'invalid_credentials' END
+        AND h.ip_address IS NULL
+        AND h.created_at > NOW() - INTERVAL '1 minute'
+      ORDER BY h.created_at DESC
+      LIMIT 1
+    );
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.login_events
+    (user_id, email, success, method, failure_reason, ip_address, user_agent, device, browser)
+  VALUES
+    (p_user_id, lower(p_email), p_success, p_method, p_failure_reason, p_ip_address, p_user_agent, p_device, p_browser);
+
+  IF p_success AND p_user_id IS NOT NULL THEN
+    INSERT INTO public.login_stats AS s (user_id, last_login, login_count)
+    VALUES (p_user_id, NOW(), 1)
+    ON CONFLICT (user_id) DO UPDATE
+    SET last_login = NOW(),
+        login_count = s.login_count + 1;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_login_event(UUID, TEXT, BOOLEAN, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_login_event(UUID, TEXT, BOOLEAN, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO service_role;
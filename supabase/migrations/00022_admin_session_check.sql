@@ -0,0 +1,32 @@
+-- =====================================================
+-- Admin RLS checks follow revoked sessions
+-- =====================================================
+-- public.is_admin() (00011_access_token_claims.sql) went by the token's
+-- claims alone, so an access token issued before an admin was demoted,
+-- deactivated or suspended kept admin reads through RLS until it
+-- expired. The API signs the user's devices out whenever their role or
+-- status changes (api/admin/users/[id].ts); is_admin() now also needs
+-- the token's session to still exist, so that takes effect in RLS
+-- straight away.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT COALESCE(
+    public.jwt_user_role() = 'admin'
+      AND public.jwt_user_status() = 'active'
+      AND EXISTS (
+        SELECT 1 FROM auth.sessions s
+        WHERE s.id = (auth.jwt() ->> 'session_id')::UUID
+      ),
+    false
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.is_admin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated, service_role;
@@ -13,7 +13,7 @@ const tests = [
   {
     name: 'Client Authentication Test',
     file: 'test-client-auth.js',
-    description: 'Tests authenticated client can read email settings'
+    description: 'Tests stored keys are read masked through the API, not from the table'
   },
   {
     name: 'Email System Test',
@@ -30,47 +30,42 @@ if (authError) {
 console.log('✅ Signed in successfully');
 console.log('User ID:', authData.user.id);
 
-// Now test the query
-console.log('\n2. Testing query for user_api_keys...');
-const userId = authData.user.id;
-
-const { data: keys, error } = await supabase
-  .from('user_api_keys')
-  .select('key_name, key_value')
-  .eq('user_id', userId)
-  .in('key_name', ['sender_name', 'sender_email', 'resend_api_key', 'sender_domain']);
+// Stored keys are read through the API, with secrets masked
+console.log('\n2. Testing GET /api/api-keys...');
+const response = await fetch('http://localhost:8080/api/api-keys', {
+  headers: { Authorization: `Bearer ${authData.session.access_token}` }
+});
+const body = await response.json();
 
-if (error) {
-  console.error('❌ Query failed:', error);
+if (!response.ok) {
+  console.error('❌ Request failed:', body.error);
 } else {
-  console.log('✅ Query succeeded');
-  console.log('Results:', keys);
-  
-  if (keys && keys.length > 0) {
+  console.log('✅ Request succeeded');
+
+  const emailKeys = body.keys.filter(k =>
+    ['sender_name', 'sender_email', 'resend_api_key', 'sender_domain'].includes(k.keyName)
+  );
+  if (emailKeys.length > 0) {
     console.log('\nEmail settings found:');
-    keys.forEach(k => {
-      const value = k.key_name === 'resend_api_key' 
-        ? k.key_value.substring(0, 10) + '...' 
-        : k.key_value;
-      console.log(`  ${k.key_name}: ${value}`);
+    emailKeys.forEach(k => {
+      console.log(`  ${k.keyName}: ${k.value}${k.masked ? ' (masked)' : ''}`);
     });
   } else {
     console.log('⚠️  No email settings found for this user');
   }
 }
 
-// Also test a direct query
-console.log('\n3. Testing direct query for all user_api_keys...');
-const { data: allKeys, error: allError } = await supabase
+// The secret columns must not be readable with the user's own session
+console.log('\n3. Testing direct query for key_value (should be refused)...');
+const { error: directError } = await supabase
   .from('user_api_keys')
-  .select('*')
-  .eq('user_id', userId);
+  .select('key_name, key_value')
+  .eq('user_id', authData.user.id);
 
-if (allError) {
-  console.error('❌ Direct query failed:', allError);
+if (directError) {
+  console.log('✅ Direct query refused:', directError.message);
 } else {
-  console.log('✅ Direct query succeeded');
-  console.log('Total rows for user:', allKeys?.length || 0);
+  console.error('❌ Direct query returned secret values');
 }
 
 // Sign out
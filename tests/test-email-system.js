@@ -94,7 +94,6 @@ console.log('\n3. Testing Email API Endpoint');
 console.log('-'.repeat(50));
 
 const testEmailPayload = {
-  userId: userId,
   recipientEmail: 'test@example.com',
   emailType: 'test'
 };
@@ -106,7 +105,8 @@ try {
   const response = await fetch('http://localhost:8080/api/send-email', {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authData.session.access_token}`
     },
     body: JSON.stringify(testEmailPayload)
   });
@@ -117,10 +117,10 @@ try {
     console.log('✅ Email API endpoint working!');
     console.log('Response:', result);
   } else {
-    console.log('❌ Email API returned error:', result.error);
+    console.log('❌ Email API returned error:', result.error?.code, result.error?.message);
     
     // Check if it's because email settings aren't configured
-    if (result.error?.includes('Email settings not configured')) {
+    if (result.error?.code === 'EMAIL_NOT_CONFIGURED') {
       console.log('\n📝 To fix this, you need to:');
       console.log('1. Sign in to the application as admin@example.com');
       console.log('2. Go to Dashboard → Settings → Email Settings');
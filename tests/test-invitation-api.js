@@ -35,7 +35,6 @@ console.log('-'.repeat(50));
 const testEmail = `api-test-${Date.now()}@example.com`;
 
 const payload = {
-  adminUserId,
   action: 'createInvitation',
   invitationData: {
     email: testEmail,
@@ -51,6 +50,7 @@ try {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authData.session.access_token}`
     },
     body: JSON.stringify(payload)
   });
@@ -87,7 +87,7 @@ try {
   } else {
     console.error('❌ Failed to create invitation via API');
     console.error('Response status:', response.status);
-    console.error('Error:', result.error || 'Unknown error');
+    console.error('Error:', result.error?.code || 'UNKNOWN', result.error?.message || 'Unknown error');
   }
 } catch (error) {
   console.error('❌ API call failed:', error.message);
@@ -103,6 +103,7 @@ console.log(`
 The invitation API endpoint ${response?.ok ? '✅ is working' : '❌ has issues'}.
 
 Key points:
+- API identifies the admin from the Bearer access token
 - API uses service role key to bypass RLS
 - Invitations are created with proper UUID format
 - Created_by field is properly set
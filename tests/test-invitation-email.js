@@ -32,7 +32,6 @@ console.log('\n1. Testing Invitation Email API');
 console.log('-'.repeat(50));
 
 const invitationPayload = {
-  userId: userId,
   recipientEmail: 'newuser@example.com',
   emailType: 'invitation',
   emailData: {
@@ -53,7 +52,8 @@ try {
   response = await fetch('http://localhost:8080/api/send-email', {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json'
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${authData.session.access_token}`
     },
     body: JSON.stringify(invitationPayload)
   });
@@ -65,9 +65,9 @@ try {
     console.log('Response:', result);
     apiWorking = true;
   } else {
-    console.log('⚠️  Invitation email failed:', result.error);
+    console.log('⚠️  Invitation email failed:', result.error?.code, result.error?.message);
     
-    if (result.error?.includes('validation_error')) {
+    if (result.error?.code === 'EMAIL_SEND_FAILED' && result.error.details?.reason === 'validation_error') {
       console.log('\n📝 This is likely due to domain mismatch:');
       console.log('   - Sender email domain should match the configured domain');
       console.log('   - Or remove the domain setting to use Resend\'s default domain');
@@ -0,0 +1,127 @@
+import { createClient } from '@supabase/supabase-js';
+import { chromium } from 'playwright';
+import * as dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+
+console.log('PASSKEY TEST');
+console.log('='.repeat(40));
+
+const APP_URL = 'http://localhost:8080';
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY;
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+console.log('\n1. Signing in as admin@example.com...');
+const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
+  email: 'admin@example.com',
+  password: 'Password01'
+});
+
+if (authError) {
+  console.error('Sign in failed:', authError);
+  process.exit(1);
+}
+
+const accessToken = authData.session.access_token;
+console.log('✅ Signed in successfully');
+
+// Adding a passkey needs a recent re-authentication
+console.log('\n2. Stepping up with the password...');
+const stepUpResponse = await fetch(`${APP_URL}/api/auth/step-up`, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
+  body: JSON.stringify({ method: 'password', password: 'Password01' })
+});
+const stepUp = await stepUpResponse.json();
+
+if (!stepUpResponse.ok) {
+  console.error('❌ Step-up failed:', stepUp.error);
+  process.exit(1);
+}
+console.log('✅ Step-up token issued');
+
+// WebAuthn needs a real browser on the app's origin; a virtual authenticator
+// stands in for the device
+console.log('\n3. Starting headless Chromium with a virtual authenticator...');
+const browser = await chromium.launch();
+let passkeyId = null;
+
+try {
+  const page = await browser.newPage();
+  const cdp = await page.context().newCDPSession(page);
+  await cdp.send('WebAuthn.enable');
+  await cdp.send('WebAuthn.addVirtualAuthenticator', {
+    options: {
+      protocol: 'ctap2',
+      transport: 'internal',
+      hasResidentKey: true,
+      hasUserVerification: true,
+      isUserVerified: true,
+      automaticPresenceSimulation: true
+    }
+  });
+  await page.goto(`${APP_URL}/sign-in`);
+  console.log('✅ Authenticator ready');
+
+  console.log('\n4. Registering a passkey...');
+  const registration = await page.evaluate(async ({ accessToken, stepUpToken }) => {
+    const headers = {
+      Authorization: `Bearer ${accessToken}`,
+      'X-Step-Up-Token': stepUpToken,
+      'Content-Type': 'application/json'
+    };
+    const optionsResponse = await fetch('/api/passkeys/options', { method: 'POST', headers });
+    const { challengeId, options, error } = await optionsResponse.json();
+    if (!optionsResponse.ok) return { status: optionsResponse.status, error };
+
+    const credential = await navigator.credentials.create({
+      publicKey: PublicKeyCredential.parseCreationOptionsFromJSON(options)
+    });
+    const response = await fetch('/api/passkeys', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ challengeId, response: credential.toJSON(), name: 'Test passkey' })
+    });
+    return { status: response.status, ...(await response.json()) };
+  }, { accessToken, stepUpToken: stepUp.token });
+
+  if (registration.status !== 200) {
+    console.error('❌ Registration failed:', registration.error);
+    process.exitCode = 1;
+  } else {
+    passkeyId = registration.passkey.id;
+    console.log('✅ Passkey registered:', registration.passkey.name);
+  }
+
+  // The sign-in form's button runs the assertion ceremony and lands on the dashboard
+  if (passkeyId) {
+    console.log('\n5. Signing in with the passkey from the sign-in form...');
+    await page.getByRole('button', { name: 'Sign in with a passkey' }).click();
+    try {
+      await page.waitForURL(/\/dashboard/, { timeout: 15000 });
+      console.log('✅ Signed in with the passkey');
+    } catch {
+      console.error('❌ Passkey sign-in did not reach the dashboard');
+      process.exitCode = 1;
+    }
+  }
+} finally {
+  await browser.close();
+}
+
+if (passkeyId) {
+  console.log('\n6. Removing the test passkey...');
+  const response = await fetch(`${APP_URL}/api/passkeys/${passkeyId}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${accessToken}` }
+  });
+  console.log(response.ok ? '✅ Passkey removed' : '❌ Failed to remove the passkey');
+}
+
+await supabase.auth.signOut();
+console.log('\n✅ Signed out');
@@ -0,0 +1,113 @@
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+
+console.log('ROLE CHANGE SESSION TEST');
+console.log('='.repeat(40));
+
+const APP_URL = 'http://localhost:8080';
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseAnonKey = process.env.VITE_SUPABASE_ANON_KEY;
+const supabaseAdmin = createClient(supabaseUrl, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { autoRefreshToken: false, persistSession: false }
+});
+
+const newClient = (accessToken) => createClient(supabaseUrl, supabaseAnonKey, {
+  auth: { autoRefreshToken: false, persistSession: false },
+  ...(accessToken ? { global: { headers: { Authorization: `Bearer ${accessToken}` } } } : {})
+});
+
+// Rows of user_roles the token can read: its own only, unless RLS sees an admin
+const countVisibleRoles = async (accessToken) => {
+  const { data, error } = await newClient(accessToken).from('user_roles').select('id');
+  if (error) throw error;
+  return data.length;
+};
+
+const email = `demoted-admin-${Date.now()}@example.com`;
+const password = 'Password01!demo';
+let userId = null;
+
+try {
+  console.log('\n1. Creating a temporary admin...');
+  const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true
+  });
+  if (createError) throw createError;
+  userId = created.user.id;
+
+  const { data: roleRow, error: roleError } = await supabaseAdmin
+    .from('user_roles')
+    .update({ role: 'admin', status: 'active' })
+    .eq('user_id', userId)
+    .select('id')
+    .single();
+  if (roleError) throw roleError;
+  console.log('✅ Created', email);
+
+  console.log('\n2. Signing in as the temporary admin...');
+  const { data: demotedAuth, error: demotedError } = await newClient().auth.signInWithPassword({ email, password });
+  if (demotedError) throw demotedError;
+  const oldSession = demotedAuth.session;
+  const visibleBefore = await countVisibleRoles(oldSession.access_token);
+  console.log(`✅ Signed in; RLS shows ${visibleBefore} user_roles rows`);
+
+  console.log('\n3. Demoting them as admin@example.com...');
+  const { data: adminAuth, error: adminError } = await newClient().auth.signInWithPassword({
+    email: 'admin@example.com',
+    password: 'Password01'
+  });
+  if (adminError) throw adminError;
+
+  const demoteResponse = await fetch(`${APP_URL}/api/admin/users/${roleRow.id}`, {
+    method: 'PATCH',
+    headers: { Authorization: `Bearer ${adminAuth.session.access_token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ role: 'user' })
+  });
+  if (!demoteResponse.ok) {
+    throw new Error(`Demotion failed: ${JSON.stringify((await demoteResponse.json()).error)}`);
+  }
+  console.log('✅ Demoted');
+
+  console.log('\n4. Using the token issued before the demotion...');
+  const apiResponse = await fetch(`${APP_URL}/api/admin/users`, {
+    headers: { Authorization: `Bearer ${oldSession.access_token}` }
+  });
+  if (apiResponse.ok) {
+    console.error('❌ The API still accepted the old token');
+    process.exitCode = 1;
+  } else {
+    console.log(`✅ The API refused it (${apiResponse.status})`);
+  }
+
+  const visibleAfter = await countVisibleRoles(oldSession.access_token);
+  if (visibleAfter > 1) {
+    console.error(`❌ RLS still treats the old token as an admin (${visibleAfter} rows)`);
+    process.exitCode = 1;
+  } else {
+    console.log('✅ RLS no longer treats it as an admin');
+  }
+
+  const { error: refreshError } = await newClient().auth.refreshSession({ refresh_token: oldSession.refresh_token });
+  if (!refreshError) {
+    console.error('❌ The old refresh token still works');
+    process.exitCode = 1;
+  } else {
+    console.log('✅ The old refresh token was revoked');
+  }
+} catch (error) {
+  console.error('❌ Test failed:', error.message ?? error);
+  process.exitCode = 1;
+} finally {
+  if (userId) {
+    const { error } = await supabaseAdmin.auth.admin.deleteUser(userId);
+    console.log(error ? '\n❌ Failed to remove the temporary admin' : '\n✅ Temporary admin removed');
+  }
+}
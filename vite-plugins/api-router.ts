@@ -0,0 +1,324 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Plugin, ViteDevServer } from 'vite'
+import { createApiErrorBody } from '../src/shared/api-errors'
+
+// Serves the serverless handlers in api/ from the Vite dev server, using the
+// same conventions as Vercel so handlers behave identically in both places:
+//   api/app-settings.ts      -> /api/app-settings
+//   api/users/index.ts       -> /api/users
+//   api/users/[id].ts        -> /api/users/:id         (req.query.id)
+//   api/files/[...path].ts   -> /api/files/*           (req.query.path)
+// Files and directories starting with "_" or "." are not routes.
+
+type QueryValue = string | string[]
+
+interface ApiRoute {
+  file: string
+  pattern: RegExp
+  paramNames: string[]
+  // One rank per path segment: 0 = static, 1 = dynamic, 2 = catch-all
+  ranks: number[]
+}
+
+export interface ApiRequest extends IncomingMessage {
+  query: Record<string, QueryValue>
+  cookies: Record<string, string>
+  body: unknown
+}
+
+export interface ApiResponse extends ServerResponse {
+  status: (statusCode: number) => ApiResponse
+  json: (data: unknown) => ApiResponse
+  send: (body: unknown) => ApiResponse
+  redirect: (statusOrUrl: number | string, url?: string) => ApiResponse
+}
+
+const HANDLER_EXTENSIONS = ['.ts', '.js', '.mts', '.mjs']
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const isRouteFile = (name: string) =>
+  HANDLER_EXTENSIONS.includes(path.extname(name)) && !name.endsWith('.d.ts')
+
+const isIgnored = (name: string) => name.startsWith('_') || name.startsWith('.')
+
+const walk = (dir: string): string[] => {
+  if (!fs.existsSync(dir)) return []
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (isIgnored(entry.name)) return []
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return walk(fullPath)
+    return entry.isFile() && isRouteFile(entry.name) ? [fullPath] : []
+  })
+}
+
+const toRoute = (apiDir: string, file: string): ApiRoute => {
+  const relative = path.relative(apiDir, file).split(path.sep).join('/')
+  const segments = relative.replace(/\.[^/.]+$/, '').split('/')
+
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop()
+  }
+
+  const paramNames: string[] = []
+  const ranks: number[] = []
+  const source = segments.map((segment) => {
+    const catchAll = segment.match(/^\[\.\.\.(\w+)\]$/)
+    if (catchAll) {
+      paramNames.push(catchAll[1])
+      ranks.push(2)
+      return '/(.+)'
+    }
+
+    const dynamic = segment.match(/^\[(\w+)\]$/)
+    if (dynamic) {
+      paramNames.push(dynamic[1])
+      ranks.push(1)
+      return '/([^/]+)'
+    }
+
+    ranks.push(0)
+    return `/${escapeRegExp(segment)}`
+  }).join('')
+
+  return {
+    file,
+    pattern: new RegExp(`^${source}/?$`),
+    paramNames,
+    ranks
+  }
+}
+
+// Static segments win over dynamic ones, which win over catch-alls
+const compareRoutes = (a: ApiRoute, b: ApiRoute) => {
+  const length = Math.min(a.ranks.length, b.ranks.length)
+  for (let i = 0; i < length; i++) {
+    if (a.ranks[i] !== b.ranks[i]) return a.ranks[i] - b.ranks[i]
+  }
+  return b.ranks.length - a.ranks.length
+}
+
+export const discoverApiRoutes = (apiDir: string): ApiRoute[] =>
+  walk(apiDir).map((file) => toRoute(apiDir, file)).sort(compareRoutes)
+
+export const matchApiRoute = (routes: ApiRoute[], pathname: string) => {
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname)
+    if (!match) continue
+
+    const params: Record<string, QueryValue> = {}
+    route.paramNames.forEach((name, index) => {
+      const value = decodeURIComponent(match[index + 1])
+      params[name] = route.ranks.includes(2) && index === route.paramNames.length - 1
+        ? value.split('/')
+        : value
+    })
+
+    return { route, params }
+  }
+
+  return null
+}
+
+const parseQuery = (searchParams: URLSearchParams): Record<string, QueryValue> => {
+  const query: Record<string, QueryValue> = {}
+  searchParams.forEach((value, key) => {
+    const existing = query[key]
+    if (existing === undefined) {
+      query[key] = value
+    } else {
+      query[key] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+    }
+  })
+  return query
+}
+
+const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {}
+  if (!header) return cookies
+
+  header.split(';').forEach((pair) => {
+    const index = pair.indexOf('=')
+    if (index < 0) return
+    const name = pair.slice(0, index).trim()
+    const value = pair.slice(index + 1).trim().replace(/^"(.*)"$/, '$1')
+    if (name && cookies[name] === undefined) {
+      try {
+        cookies[name] = decodeURIComponent(value)
+      } catch {
+        cookies[name] = value
+      }
+    }
+  })
+  return cookies
+}
+
+const readRawBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+
+class InvalidBodyError extends Error {}
+
+// Mirrors the body parsing done by the Vercel Node.js runtime
+const parseBody = (raw: Buffer, contentTypeHeader: string | undefined): unknown => {
+  if (!contentTypeHeader) return undefined
+
+  const contentType = contentTypeHeader.split(';')[0].trim().toLowerCase()
+
+  if (contentType === 'application/json' || contentType.endsWith('+json')) {
+    const text = raw.toString('utf8')
+    if (!text) return {}
+    try {
+      return JSON.parse(text)
+    } catch {
+      throw new InvalidBodyError('Invalid JSON body')
+    }
+  }
+
+  if (contentType === 'application/x-www-form-urlencoded') {
+    return parseQuery(new URLSearchParams(raw.toString('utf8')))
+  }
+
+  if (contentType.startsWith('text/')) {
+    return raw.toString('utf8')
+  }
+
+  if (contentType === 'application/octet-stream') {
+    return raw
+  }
+
+  return undefined
+}
+
+const sendJson = (res: ServerResponse, statusCode: number, data: unknown) => {
+  res.statusCode = statusCode
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(data))
+}
+
+// Add the VercelResponse helpers to the Node response
+const decorateResponse = (res: ServerResponse): ApiResponse => {
+  const apiRes = res as ApiResponse
+
+  apiRes.status = (statusCode) => {
+    apiRes.statusCode = statusCode
+    return apiRes
+  }
+
+  apiRes.json = (data) => {
+    if (!apiRes.getHeader('Content-Type')) {
+      apiRes.setHeader('Content-Type', 'application/json; charset=utf-8')
+    }
+    apiRes.end(JSON.stringify(data))
+    return apiRes
+  }
+
+  apiRes.send = (body) => {
+    if (body === null || body === undefined) {
+      apiRes.end()
+    } else if (Buffer.isBuffer(body)) {
+      if (!apiRes.getHeader('Content-Type')) {
+        apiRes.setHeader('Content-Type', 'application/octet-stream')
+      }
+      apiRes.end(body)
+    } else if (typeof body === 'object') {
+      apiRes.json(body)
+    } else {
+      if (!apiRes.getHeader('Content-Type')) {
+        apiRes.setHeader('Content-Type', 'text/html; charset=utf-8')
+      }
+      apiRes.end(String(body))
+    }
+    return apiRes
+  }
+
+  apiRes.redirect = (statusOrUrl, url) => {
+    const [statusCode, location] = typeof statusOrUrl === 'number'
+      ? [statusOrUrl, url ?? '/']
+      : [307, statusOrUrl]
+    apiRes.statusCode = statusCode
+    apiRes.setHeader('Location', location)
+    apiRes.end()
+    return apiRes
+  }
+
+  return apiRes
+}
+
+export const apiRouter = (options: { dir?: string } = {}): Plugin => ({
+  name: 'api-router',
+  configureServer(server: ViteDevServer) {
+    const apiDir = path.resolve(server.config.root, options.dir ?? 'api')
+    let routes: ApiRoute[] | null = null
+
+    // Rediscover routes whenever a handler file is added or removed
+    const invalidate = (file: string) => {
+      if (file.startsWith(apiDir)) routes = null
+    }
+    server.watcher.on('add', invalidate)
+    server.watcher.on('unlink', invalidate)
+    server.watcher.on('addDir', invalidate)
+    server.watcher.on('unlinkDir', invalidate)
+
+    server.middlewares.use('/api', async (req, res, next) => {
+      // CORS, including preflight, is handled by apiHandler (api/_lib/cors.ts)
+      // so the dev server behaves like a deployment
+      // Connect strips the /api mount point from req.url
+      const url = new URL(req.url ?? '/', 'http://localhost')
+      routes ??= discoverApiRoutes(apiDir)
+
+      let matched: ReturnType<typeof matchApiRoute>
+      try {
+        matched = matchApiRoute(routes, url.pathname)
+      } catch (error) {
+        // decodeURIComponent refuses malformed escapes such as %E0%A4%A;
+        // thrown from this async middleware it would be an unhandled rejection
+        if (error instanceof URIError) {
+          return sendJson(res, 400, createApiErrorBody('INVALID_URL'))
+        }
+        return next(error)
+      }
+
+      if (!matched) {
+        return next()
+      }
+
+      try {
+        const apiReq = req as ApiRequest
+        apiReq.url = `/api${req.url}`
+        apiReq.query = { ...parseQuery(url.searchParams), ...matched.params }
+        apiReq.cookies = parseCookies(req.headers.cookie)
+
+        try {
+          apiReq.body = parseBody(await readRawBody(req), req.headers['content-type'])
+        } catch (error) {
+          if (error instanceof InvalidBodyError) {
+            return sendJson(res, 400, createApiErrorBody('INVALID_JSON'))
+          }
+          throw error
+        }
+
+        const apiModule = await server.ssrLoadModule(matched.route.file)
+        if (typeof apiModule.default !== 'function') {
+          throw new Error(`${path.relative(server.config.root, matched.route.file)} has no default export`)
+        }
+
+        await apiModule.default(apiReq, decorateResponse(res))
+      } catch (error) {
+        console.error('API middleware error:', error)
+        if (!res.headersSent) {
+          sendJson(res, 500, createApiErrorBody('INTERNAL_ERROR'))
+        } else {
+          res.end()
+        }
+      }
+    })
+  }
+})